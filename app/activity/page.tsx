@@ -0,0 +1,173 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useCurrentUser } from '@/lib/queries/auth';
+import { ACTIVITY_PAGE_SIZE, useAccountActivity } from '@/lib/queries/activity';
+import type { AccountActivity } from '@/src/database/repositories/audit-logs';
+import { formatCurrency, formatDateTime, formatLabel } from '@/src/utils/format';
+
+// Columns that change with every write and say nothing to the user
+const IGNORED_CHANGES = new Set(['updated_at', 'metadata']);
+
+function paymentAmount(values: Record<string, any> | null | undefined): string {
+  return values?.['amount'] !== undefined
+    ? ` of ${formatCurrency(Number(values['amount']), values['currency'])}`
+    : '';
+}
+
+function paymentMethodName(values: Record<string, any> | null | undefined): string {
+  const kind = values?.['type'] === 'card' ? 'card' : 'bank account';
+  return values?.['last_four'] ? `${kind} ending ${values['last_four']}` : kind;
+}
+
+// What happened, in words
+function describe(entry: AccountActivity): string {
+  const values = entry.new_values ?? entry.old_values;
+  const biller = values?.['biller_name'] ?? 'a bill';
+
+  switch (entry.action) {
+    case 'bills.created':
+      return `Added ${biller}`;
+    case 'bills.updated':
+      return `Updated ${biller}`;
+    case 'bills.deleted':
+      return `Deleted ${biller}`;
+    case 'payment.created':
+      return `Payment${paymentAmount(values)} started`;
+    case 'payment.processing':
+      return `Payment${paymentAmount(values)} submitted`;
+    case 'payment.completed':
+      return `Payment${paymentAmount(values)} completed`;
+    case 'payment.failed':
+      return `Payment${paymentAmount(values)} failed`;
+    case 'payment.refunded':
+      return `Payment${paymentAmount(values)} refunded`;
+    case 'payment_methods.created':
+      return `Added ${paymentMethodName(values)}`;
+    case 'payment_methods.updated':
+      return `Updated ${paymentMethodName(values)}`;
+    case 'payment_methods.deleted':
+      return `Removed ${paymentMethodName(values)}`;
+    case 'profiles.updated':
+      return 'Updated your profile';
+    case 'admin.payment_retried':
+      return 'Support retried a payment';
+    case 'admin.payment_refunded':
+      return 'Support refunded a payment';
+    case 'admin.notification_resent':
+      return 'Support resent a notification';
+    default:
+      return formatLabel(entry.action.replace('.', ' '));
+  }
+}
+
+// Names of the fields an update changed
+function changedFields(entry: AccountActivity): string[] {
+  if (!entry.old_values || !entry.new_values || entry.action.startsWith('admin.')) {
+    return [];
+  }
+  const before = entry.old_values;
+  return Object.entries(entry.new_values)
+    .filter(([key, value]) => !IGNORED_CHANGES.has(key) && JSON.stringify(value) !== JSON.stringify(before[key]))
+    .map(([key]) => formatLabel(key).toLowerCase());
+}
+
+function actorLabel(entry: AccountActivity, userId: string | undefined): string {
+  if (!entry.actor_id) {
+    return 'Automatic';
+  }
+  return entry.actor_id === userId ? 'You' : 'Support';
+}
+
+export default function ActivityPage() {
+  const [page, setPage] = useState(1);
+  const { data: user } = useCurrentUser();
+  const { data, isLoading, isPlaceholderData, error } = useAccountActivity(user?.id, page);
+
+  const total = data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / ACTIVITY_PAGE_SIZE));
+
+  return (
+    <div className="min-h-screen bg-neutral-50">
+      <header className="bg-white shadow-sm">
+        <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center space-x-4 py-4">
+            <Link href="/settings" className="text-sm text-neutral-600 hover:text-neutral-900">
+              &larr; Settings
+            </Link>
+            <h1 className="text-2xl font-bold text-neutral-900">Account Activity</h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-white rounded-lg shadow">
+          {isLoading ? (
+            <div className="p-6 space-y-4">
+              {[0, 1, 2].map(i => (
+                <div key={i} className="skeleton h-12 w-full" />
+              ))}
+            </div>
+          ) : error ? (
+            <div className="p-6 text-center text-danger-700">
+              We couldn&apos;t load your activity. Please refresh the page.
+            </div>
+          ) : !data || data.entries.length === 0 ? (
+            <div className="p-12 text-center">
+              <h3 className="text-lg font-semibold text-neutral-900">No activity yet</h3>
+              <p className="mt-2 text-sm text-neutral-600">
+                Changes to your bills, payments and payment methods will appear here.
+              </p>
+            </div>
+          ) : (
+            <>
+              <ul className={`divide-y divide-neutral-100 ${isPlaceholderData ? 'opacity-60' : ''}`}>
+                {data.entries.map(entry => {
+                  const changes = changedFields(entry);
+                  return (
+                    <li key={entry.id} className="px-6 py-4">
+                      <p className="font-medium text-neutral-900">{describe(entry)}</p>
+                      {changes.length > 0 && (
+                        <p className="text-sm text-neutral-700">Changed {changes.join(', ')}</p>
+                      )}
+                      <p className="text-sm text-neutral-600">
+                        {formatDateTime(entry.created_at)} · {actorLabel(entry, user?.id)}
+                        {entry.actor_id === user?.id && entry.ip_address && ` · ${entry.ip_address}`}
+                      </p>
+                    </li>
+                  );
+                })}
+              </ul>
+
+              {/* Pagination */}
+              <div className="flex items-center justify-between px-6 py-4 border-t border-neutral-100">
+                <p className="text-sm text-neutral-600">
+                  Page {page} of {pageCount}
+                </p>
+                <div className="flex space-x-2">
+                  <button
+                    type="button"
+                    onClick={() => setPage(prev => prev - 1)}
+                    disabled={page <= 1}
+                    className="py-1 px-3 border border-neutral-300 text-sm rounded-md text-neutral-700 bg-white hover:bg-neutral-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Previous
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setPage(prev => prev + 1)}
+                    disabled={page >= pageCount || isPlaceholderData}
+                    className="py-1 px-3 border border-neutral-300 text-sm rounded-md text-neutral-700 bg-white hover:bg-neutral-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Next
+                  </button>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+'use client';
+
+import { FormEvent, useState } from 'react';
+import Link from 'next/link';
+import { AdminApiError, useUserSearch } from '@/lib/queries/admin';
+import { formatDate } from '@/src/utils/format';
+
+const inputClassName =
+  'block w-full px-3 py-2 border border-neutral-300 rounded-md text-neutral-900 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm';
+
+export default function AdminPage() {
+  const [input, setInput] = useState('');
+  const [query, setQuery] = useState('');
+  const { data: users, isFetching, error } = useUserSearch(query);
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    setQuery(input.trim());
+  };
+
+  return (
+    <div className="min-h-screen bg-neutral-50">
+      <header className="bg-white shadow-sm">
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center space-x-4 py-4">
+            <Link href="/dashboard" className="text-sm text-neutral-600 hover:text-neutral-900">
+              &larr; Dashboard
+            </Link>
+            <h1 className="text-2xl font-bold text-neutral-900">Support console</h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow p-6 flex gap-4 items-end">
+          <div className="flex-1">
+            <label htmlFor="user-search" className="block text-sm font-medium text-neutral-700">
+              Find a user by email or user ID
+            </label>
+            <input
+              id="user-search"
+              type="search"
+              value={input}
+              onChange={event => setInput(event.target.value)}
+              className={`mt-1 ${inputClassName}`}
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={input.trim().length < 3}
+            className="py-2 px-4 text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 disabled:opacity-50"
+          >
+            Search
+          </button>
+        </form>
+
+        <p className="text-sm text-neutral-600">
+          Searches, views and actions here are recorded in the audit log under your name.
+        </p>
+
+        {error ? (
+          <div className="rounded-md bg-danger-50 p-4">
+            <p className="text-sm font-medium text-danger-700">
+              {error instanceof AdminApiError && error.status === 403
+                ? 'Only admin and support staff can use the support console.'
+                : 'Could not search users. Please try again.'}
+            </p>
+          </div>
+        ) : isFetching ? (
+          <p className="text-sm text-neutral-600">Searching...</p>
+        ) : users && (
+          <div className="bg-white rounded-lg shadow">
+            {users.length === 0 ? (
+              <p className="p-6 text-sm text-neutral-600">No users match &ldquo;{query}&rdquo;.</p>
+            ) : (
+              <ul className="divide-y divide-neutral-200">
+                {users.map(profile => (
+                  <li key={profile.id}>
+                    <Link
+                      href={`/admin/users/${profile.id}`}
+                      className="flex items-center justify-between px-6 py-4 hover:bg-neutral-50"
+                    >
+                      <div>
+                        <p className="font-medium text-neutral-900">{profile.email}</p>
+                        <p className="text-sm text-neutral-600">
+                          {profile.full_name || 'No name'} · joined {formatDate(profile.created_at)}
+                        </p>
+                      </div>
+                      {profile.role !== 'user' && (
+                        <span className="badge bg-neutral-100 text-neutral-600">{profile.role}</span>
+                      )}
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+'use client';
+
+import Link from 'next/link';
+import toast from 'react-hot-toast';
+import { BillStatusBadge } from '@/components/bills/bill-status-badge';
+import { TransactionStatusBadge } from '@/components/payments/transaction-status-badge';
+import {
+  AdminApiError,
+  useRefundPayment,
+  useResendNotification,
+  useRetryPayment,
+  useUserOverview,
+} from '@/lib/queries/admin';
+import type { TransactionWithBill } from '@/src/database/repositories/transactions';
+import { formatCurrency, formatDate, formatDateTime, formatLabel } from '@/src/utils/format';
+import { logger } from '@/src/utils/logger';
+
+const actionClassName =
+  'text-sm font-medium text-primary-600 hover:text-primary-700 disabled:opacity-50';
+
+export default function AdminUserPage({ params }: { params: { id: string } }) {
+  const { data: overview, isLoading, error } = useUserOverview(params.id);
+  const retryPayment = useRetryPayment(params.id);
+  const refundPayment = useRefundPayment(params.id);
+  const resendNotification = useResendNotification(params.id);
+
+  const handleRetry = (transaction: TransactionWithBill) => {
+    const name = transaction.bill?.biller_name ?? 'this bill';
+    if (!window.confirm(`Charge ${formatCurrency(transaction.amount, transaction.currency)} for ${name} again?`)) {
+      return;
+    }
+
+    retryPayment.mutate(transaction.id, {
+      onSuccess: outcome => {
+        toast.success(outcome.status === 'paid' ? 'Payment succeeded' : 'Payment submitted');
+      },
+      onError: err => {
+        logger.error('Failed to retry payment', err as Error, { transactionId: transaction.id });
+        toast.error((err as Error).message);
+      },
+    });
+  };
+
+  const handleRefund = (transaction: TransactionWithBill) => {
+    const full = Number(transaction.amount);
+    const input = window.prompt(
+      `Refund amount in ${transaction.currency} (up to ${full.toFixed(2)})`,
+      full.toFixed(2)
+    );
+    if (input === null) {
+      return;
+    }
+    const amount = Number(input);
+    if (!Number.isFinite(amount) || amount <= 0 || amount > full) {
+      toast.error(`Enter an amount between 0.01 and ${full.toFixed(2)}`);
+      return;
+    }
+
+    refundPayment.mutate(
+      { transactionId: transaction.id, ...(amount < full && { amount }) },
+      {
+        onSuccess: () => toast.success(`Refunded ${formatCurrency(amount, transaction.currency)}`),
+        onError: err => {
+          logger.error('Failed to refund payment', err as Error, { transactionId: transaction.id });
+          toast.error((err as Error).message);
+        },
+      }
+    );
+  };
+
+  const handleResend = (notificationId: string) => {
+    resendNotification.mutate(notificationId, {
+      onSuccess: outcome => toast.success(`Notification ${formatLabel(outcome.status).toLowerCase()}`),
+      onError: err => {
+        logger.error('Failed to resend notification', err as Error, { notificationId });
+        toast.error((err as Error).message);
+      },
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  if (error || !overview) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center space-y-4">
+        <p className="text-neutral-900">
+          {error instanceof AdminApiError && error.status === 403
+            ? 'Only admin and support staff can use the support console.'
+            : 'This user could not be found.'}
+        </p>
+        <Link href="/admin" className="text-primary-600 hover:text-primary-700">
+          Back to the support console
+        </Link>
+      </div>
+    );
+  }
+
+  const { profile, bills, transactions, notifications } = overview;
+  const busy = retryPayment.isPending || refundPayment.isPending;
+
+  const details: Array<[string, string]> = [
+    ['Name', profile.full_name || 'Not given'],
+    ['Phone', profile.phone ?? 'Not given'],
+    ['Role', formatLabel(profile.role)],
+    ['KYC', formatLabel(profile.kyc_status)],
+    ['Texts', profile.sms_opted_out_at ? `Opted out ${formatDate(profile.sms_opted_out_at)}` : 'Allowed'],
+    ['Joined', formatDate(profile.created_at)],
+  ];
+
+  return (
+    <div className="min-h-screen bg-neutral-50">
+      <header className="bg-white shadow-sm">
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center space-x-4 py-4">
+            <Link href="/admin" className="text-sm text-neutral-600 hover:text-neutral-900">
+              &larr; Support console
+            </Link>
+            <h1 className="text-2xl font-bold text-neutral-900 break-all">{profile.email}</h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <section className="bg-white rounded-lg shadow p-6">
+          <dl className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            {details.map(([label, value]) => (
+              <div key={label}>
+                <dt className="text-sm text-neutral-600">{label}</dt>
+                <dd className="font-medium text-neutral-900 break-all">{value}</dd>
+              </div>
+            ))}
+          </dl>
+        </section>
+
+        <section className="bg-white rounded-lg shadow">
+          <h2 className="px-6 pt-6 text-lg font-semibold text-neutral-900">Payments</h2>
+          {transactions.length === 0 ? (
+            <p className="p-6 text-sm text-neutral-600">No payments yet.</p>
+          ) : (
+            <ul className="mt-2 divide-y divide-neutral-200">
+              {transactions.map(transaction => (
+                <li key={transaction.id} className="flex items-center justify-between px-6 py-4">
+                  <div>
+                    <p className="font-medium text-neutral-900">
+                      {transaction.bill?.biller_name ?? 'Payment'} ·{' '}
+                      {formatCurrency(Number(transaction.amount), transaction.currency)}
+                    </p>
+                    <p className="text-sm text-neutral-600">
+                      {formatDateTime(transaction.created_at)}
+                      {transaction.failure_reason && ` · ${transaction.failure_reason}`}
+                      {transaction.metadata?.['refunded_amount'] !== undefined &&
+                        ` · refunded ${formatCurrency(transaction.metadata['refunded_amount'], transaction.currency)}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-4">
+                    <TransactionStatusBadge status={transaction.status} />
+                    {transaction.status === 'failed' && transaction.bill_id && (
+                      <button
+                        type="button"
+                        onClick={() => handleRetry(transaction)}
+                        disabled={busy}
+                        className={actionClassName}
+                      >
+                        Retry
+                      </button>
+                    )}
+                    {transaction.status === 'completed' && !transaction.metadata?.['refund_id'] && (
+                      <button
+                        type="button"
+                        onClick={() => handleRefund(transaction)}
+                        disabled={busy}
+                        className="text-sm font-medium text-danger-700 hover:text-danger-800 disabled:opacity-50"
+                      >
+                        Refund
+                      </button>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        <section className="bg-white rounded-lg shadow">
+          <h2 className="px-6 pt-6 text-lg font-semibold text-neutral-900">Bills</h2>
+          {bills.length === 0 ? (
+            <p className="p-6 text-sm text-neutral-600">No bills yet.</p>
+          ) : (
+            <ul className="mt-2 divide-y divide-neutral-200">
+              {bills.map(bill => (
+                <li key={bill.id} className="flex items-center justify-between px-6 py-4">
+                  <div>
+                    <p className="font-medium text-neutral-900">
+                      {bill.biller_name} · {formatCurrency(Number(bill.amount), bill.currency)}
+                    </p>
+                    <p className="text-sm text-neutral-600">
+                      Due {formatDate(bill.due_date)} · {formatLabel(bill.frequency)}
+                      {bill.auto_pay && ' · auto-pay'}
+                      {bill.deleted_at && ' · deleted'}
+                    </p>
+                  </div>
+                  <BillStatusBadge status={bill.status} />
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        <section className="bg-white rounded-lg shadow">
+          <h2 className="px-6 pt-6 text-lg font-semibold text-neutral-900">Notifications</h2>
+          {notifications.length === 0 ? (
+            <p className="p-6 text-sm text-neutral-600">No notifications yet.</p>
+          ) : (
+            <ul className="mt-2 divide-y divide-neutral-200">
+              {notifications.map(notification => (
+                <li key={notification.id} className="flex items-center justify-between px-6 py-4">
+                  <div className="min-w-0">
+                    <p className="font-medium text-neutral-900 truncate">
+                      {notification.subject ?? formatLabel(notification.type)}
+                    </p>
+                    <p className="text-sm text-neutral-600">
+                      {formatLabel(notification.channel)} · {formatLabel(notification.status)} ·{' '}
+                      {formatDateTime(notification.created_at)}
+                      {notification.last_error && ` · ${notification.last_error}`}
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => handleResend(notification.id)}
+                    disabled={resendNotification.isPending}
+                    className={`ml-4 shrink-0 ${actionClassName}`}
+                  >
+                    Resend
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { clientInfo, validateQuery, withRole } from '@/lib/api/route-handlers';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { auditLogFilters, auditLogQuerySchema } from '@/src/api/schemas';
+import { createAdminService } from '@/src/services/admin';
+import { unwrap } from '@/src/utils/errors';
+
+// Search the audit trail by account, actor, action, record and date
+export const GET = withRole(['admin'], async (request, { user, role }) => {
+  const query = await validateQuery(request, auditLogQuerySchema);
+  const actor = { userId: user.id, role, ...clientInfo(request) };
+
+  const result = unwrap(await createAdminService(createAdminClient()).searchAuditLogs(
+    actor,
+    auditLogFilters(query),
+    query.page,
+    query.page_size
+  ));
+  return NextResponse.json({
+    data: result.entries,
+    meta: { total: result.total, page: result.page, page_size: result.pageSize },
+  });
+});
@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { clientInfo, validateParams, withRole } from '@/lib/api/route-handlers';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { idParamsSchema } from '@/src/api/schemas';
+import { STAFF_ROLES, createAdminService } from '@/src/services/admin';
+import { unwrap } from '@/src/utils/errors';
+
+// Send a copy of a notification again
+export const POST = withRole(STAFF_ROLES, async (request, context) => {
+  const { id } = await validateParams(context, idParamsSchema);
+  const actor = { userId: context.user.id, role: context.role, ...clientInfo(request) };
+
+  const outcome = unwrap(await createAdminService(createAdminClient()).resendNotification(actor, id));
+  return NextResponse.json({ data: outcome });
+});
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { clientInfo, validateBody, validateParams, withRole } from '@/lib/api/route-handlers';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { definedFields, idParamsSchema, refundBodySchema } from '@/src/api/schemas';
+import { STAFF_ROLES, createAdminService } from '@/src/services/admin';
+import { unwrap } from '@/src/utils/errors';
+
+// Refund a completed payment in full, or part of it
+export const POST = withRole(STAFF_ROLES, async (request, context) => {
+  const { id } = await validateParams(context, idParamsSchema);
+  const body = await validateBody(request, refundBodySchema);
+  const actor = { userId: context.user.id, role: context.role, ...clientInfo(request) };
+
+  const outcome = unwrap(
+    await createAdminService(createAdminClient()).refundPayment(actor, id, definedFields(body))
+  );
+  return NextResponse.json({ data: outcome });
+});
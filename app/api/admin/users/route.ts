@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { clientInfo, validateQuery, withRole } from '@/lib/api/route-handlers';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { userSearchQuerySchema } from '@/src/api/schemas';
+import { STAFF_ROLES, createAdminService } from '@/src/services/admin';
+import { unwrap } from '@/src/utils/errors';
+
+// Find users by email or ID
+export const GET = withRole(STAFF_ROLES, async (request, { user, role }) => {
+  const { q } = await validateQuery(request, userSearchQuerySchema);
+  const actor = { userId: user.id, role, ...clientInfo(request) };
+
+  const users = unwrap(await createAdminService(createAdminClient()).searchUsers(actor, q));
+  return NextResponse.json({ data: users });
+});
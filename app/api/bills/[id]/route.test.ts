@@ -0,0 +1,69 @@
+// The single-bill route handlers against the migrated schema. Both Supabase clients are
+// replaced by one backed by the in-process database, signed in as the test user.
+import { NextRequest } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { createClient } from '@/lib/supabase/server';
+import { createTestDatabase, createTestUser, TestDatabase } from '@/src/test/database';
+import { createTestClient } from '@/src/test/postgrest';
+import { DELETE, GET, PATCH } from './route';
+
+jest.mock('@/lib/supabase/server', () => ({ createClient: jest.fn() }));
+jest.mock('@/lib/supabase/admin', () => ({ createAdminClient: jest.fn() }));
+
+describe('/api/bills/[id]', () => {
+  let db: TestDatabase;
+  let userId: string;
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+    userId = await createTestUser(db);
+    const client = createTestClient(db);
+    jest.spyOn(client.auth, 'getUser').mockResolvedValue({ data: { user: { id: userId } }, error: null } as any);
+    jest.mocked(createClient).mockResolvedValue(client);
+    jest.mocked(createAdminClient).mockReturnValue(client);
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  async function bill(deleted: boolean): Promise<string> {
+    const { rows } = await db.query<{ id: string }>(
+      `INSERT INTO bills (user_id, biller_name, biller_category, amount, currency, due_date, frequency, status, auto_pay, deleted_at)
+       VALUES ($1, 'Thames Water', 'utilities', 38.4, 'GBP', '2026-04-01', 'monthly', 'pending', false, $2)
+       RETURNING id`,
+      [userId, deleted ? new Date() : null]
+    );
+    return rows[0]!.id;
+  }
+
+  const call = (method: string, id: string, body?: unknown) => {
+    const request = new NextRequest(`http://localhost/api/bills/${id}`, {
+      method,
+      ...(body !== undefined && { body: JSON.stringify(body) }),
+    });
+    const handler = { GET, PATCH, DELETE }[method]!;
+    return handler(request, { params: { id } });
+  };
+
+  it('returns a live bill', async () => {
+    const id = await bill(false);
+
+    const response = await call('GET', id);
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toMatchObject({ data: { id } });
+  });
+
+  it('treats a soft-deleted bill as not found', async () => {
+    const id = await bill(true);
+
+    const read = await call('GET', id);
+    const updated = await call('PATCH', id, { notes: 'back from the dead' });
+    const deleted = await call('DELETE', id);
+
+    expect([read.status, updated.status, deleted.status]).toEqual([404, 404, 404]);
+    const { rows } = await db.query<{ notes: string | null }>('SELECT notes FROM bills WHERE id = $1', [id]);
+    expect(rows[0]!.notes).toBeNull();
+  });
+});
@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { withAuth, validateBody, validateParams } from '@/lib/api/route-handlers';
+import { billUpdatesFromBody, idParamsSchema, updateBillSchema } from '@/src/api/schemas';
+import { BillRepository } from '@/src/database/repositories/bills';
+import { PaymentMethodRepository } from '@/src/database/repositories/payment-methods';
+import { NotFoundError, unwrap } from '@/src/utils/errors';
+
+// Row level security limits every query here to the signed-in user's own rows, so
+// another user's bill is simply not found.
+
+// A soft-deleted bill is gone as far as the user is concerned
+async function findBill(bills: BillRepository, id: string) {
+  const bill = unwrap(await bills.findById(id));
+  if (!bill || bill.deleted_at) {
+    throw new NotFoundError('bills', id);
+  }
+  return bill;
+}
+
+export const GET = withAuth(async (_request, context) => {
+  const { id } = await validateParams(context, idParamsSchema);
+  const bill = await findBill(new BillRepository(context.supabase), id);
+  return NextResponse.json({ data: bill });
+});
+
+export const PATCH = withAuth(async (request, context) => {
+  const { id } = await validateParams(context, idParamsSchema);
+  const body = await validateBody(request, updateBillSchema);
+  const bills = new BillRepository(context.supabase, context.audit);
+
+  await findBill(bills, id);
+  if (body.payment_method_id) {
+    unwrap(await new PaymentMethodRepository(context.supabase).findByIdOrThrow(body.payment_method_id));
+  }
+
+  const bill = unwrap(await bills.update(id, billUpdatesFromBody(body)));
+  return NextResponse.json({ data: bill });
+});
+
+export const DELETE = withAuth(async (_request, context) => {
+  const { id } = await validateParams(context, idParamsSchema);
+  const bills = new BillRepository(context.supabase, context.audit);
+
+  await findBill(bills, id);
+  unwrap(await bills.softDelete(id));
+  return new NextResponse(null, { status: 204 });
+});
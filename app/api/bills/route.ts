@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { withAuth, validateBody, validateQuery } from '@/lib/api/route-handlers';
+import { billFilters, billFromBody, billQuerySchema, createBillSchema } from '@/src/api/schemas';
+import { BillRepository } from '@/src/database/repositories/bills';
+import { PaymentMethodRepository } from '@/src/database/repositories/payment-methods';
+import { unwrap } from '@/src/utils/errors';
+
+// The signed-in user's bills, soonest due first
+export const GET = withAuth(async (request, { user, supabase }) => {
+  const { limit, offset, ...query } = await validateQuery(request, billQuerySchema);
+
+  const bills = unwrap(await new BillRepository(supabase).findByFilters(billFilters(user.id, query), {
+    orderBy: 'due_date',
+    orderDirection: 'asc',
+    limit,
+    offset,
+  }));
+
+  return NextResponse.json({ data: bills });
+});
+
+export const POST = withAuth(async (request, { user, supabase, audit }) => {
+  const body = await validateBody(request, createBillSchema);
+
+  // Row level security hides other users' payment methods
+  if (body.payment_method_id) {
+    unwrap(await new PaymentMethodRepository(supabase).findByIdOrThrow(body.payment_method_id));
+  }
+
+  const bill = unwrap(await new BillRepository(supabase, audit).create(billFromBody(body, user.id)));
+  return NextResponse.json({ data: bill }, { status: 201 });
+});
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/api/route-handlers';
+import { BillRepository } from '@/src/database/repositories/bills';
+import { PaymentMethodRepository } from '@/src/database/repositories/payment-methods';
+import { PaymentMethodSyncService } from '@/src/services/payment-method-sync';
+import { paymentService } from '@/src/infrastructure/payments';
+import { unwrap } from '@/src/utils/errors';
+
+// Manual resync of the signed-in user's payment methods with the provider
+export const POST = withAuth(async (_request, { user, supabase, audit }) => {
+  const service = new PaymentMethodSyncService(
+    new PaymentMethodRepository(supabase, audit),
+    new BillRepository(supabase, audit),
+    paymentService
+  );
+
+  return NextResponse.json({ data: unwrap(await service.resync(user.id)) });
+});
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { createClient } from '@/lib/supabase/server';
+import { PushSubscriptionRepository } from '@/src/database/repositories/push-subscriptions';
+import { logger } from '@/src/utils/logger';
+
+// PushSubscription.toJSON() from the browser, plus a name to show in settings
+const subscriptionSchema = z.object({
+  endpoint: z.string().url().startsWith('https://'),
+  keys: z.object({
+    p256dh: z.string().min(1),
+    auth: z.string().min(1),
+  }),
+  deviceName: z.string().max(100).optional(),
+});
+
+// Save this browser's push subscription for the signed-in user. Runs with the service
+// role because an endpoint last used by another account on this browser moves to this one.
+export async function POST(request: NextRequest) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json(
+      { error: { code: 'AUTHENTICATION_ERROR', message: 'Authentication required' } },
+      { status: 401 }
+    );
+  }
+
+  const parsed = subscriptionSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid push subscription',
+          details: parsed.error.errors.map(err => ({ field: err.path.join('.'), message: err.message })),
+        },
+      },
+      { status: 400 }
+    );
+  }
+
+  const { endpoint, keys, deviceName } = parsed.data;
+  const userAgent = request.headers.get('user-agent');
+  const result = await new PushSubscriptionRepository(createAdminClient()).upsert({
+    user_id: user.id,
+    endpoint,
+    p256dh: keys.p256dh,
+    auth: keys.auth,
+    ...(deviceName && { device_name: deviceName }),
+    ...(userAgent && { user_agent: userAgent }),
+  });
+
+  if (!result.ok) {
+    logger.error('Failed to save push subscription', result.error, { userId: user.id });
+    return NextResponse.json(
+      { error: { code: result.error.code, message: result.error.message } },
+      { status: result.error.statusCode }
+    );
+  }
+
+  const { id, device_name, created_at } = result.value;
+  return NextResponse.json({ data: { id, device_name, created_at } }, { status: 201 });
+}
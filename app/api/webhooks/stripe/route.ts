@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { BillRepository } from '@/src/database/repositories/bills';
+import { NotificationPreferenceRepository } from '@/src/database/repositories/notification-preferences';
+import { NotificationRepository } from '@/src/database/repositories/notifications';
+import { ProfileRepository } from '@/src/database/repositories/profiles';
+import { PushSubscriptionRepository } from '@/src/database/repositories/push-subscriptions';
+import { TransactionRepository } from '@/src/database/repositories/transactions';
+import { WebhookEventRepository } from '@/src/database/repositories/webhook-events';
+import { notificationChannels } from '@/src/infrastructure/notifications';
+import { paymentService } from '@/src/infrastructure/payments';
+import { createAuditService } from '@/src/services/audit';
+import { NotificationService } from '@/src/services/notifications';
+import { PaymentWebhookService } from '@/src/services/payment-webhooks';
+import { RecurrenceService } from '@/src/services/recurrence';
+import { logger } from '@/src/utils/logger';
+
+// Signature verification needs the raw body and Node's crypto
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  const signature = request.headers.get('stripe-signature');
+  if (!signature) {
+    return NextResponse.json(
+      { error: { code: 'VALIDATION_ERROR', message: 'Missing stripe-signature header' } },
+      { status: 400 }
+    );
+  }
+
+  const provider = paymentService.getProvider('stripe');
+  if (provider.name !== 'stripe') {
+    logger.error('Stripe webhook received but Stripe is not configured');
+    return NextResponse.json(
+      { error: { code: 'EXTERNAL_SERVICE_ERROR', message: 'Stripe is not configured' } },
+      { status: 503 }
+    );
+  }
+
+  const supabase = createAdminClient();
+  const auditTrail = createAuditService(supabase);
+  const bills = new BillRepository(supabase, auditTrail);
+  const service = new PaymentWebhookService(
+    new WebhookEventRepository(supabase),
+    new TransactionRepository(supabase, auditTrail),
+    bills,
+    new RecurrenceService(bills),
+    new NotificationService(
+      new NotificationRepository(supabase),
+      bills,
+      new ProfileRepository(supabase),
+      notificationChannels,
+      new PushSubscriptionRepository(supabase),
+      new NotificationPreferenceRepository(supabase)
+    )
+  );
+
+  // Non-2xx responses make Stripe retry the delivery
+  const result = await service.process(provider, await request.text(), signature);
+  if (!result.ok) {
+    logger.error('Stripe webhook failed', result.error);
+    return NextResponse.json(
+      { error: { code: result.error.code, message: result.error.message } },
+      { status: result.error.statusCode }
+    );
+  }
+
+  return NextResponse.json({ received: true, duplicate: result.value.duplicate });
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { ProfileRepository } from '@/src/database/repositories/profiles';
+import { createAuditService } from '@/src/services/audit';
+import { SmsService } from '@/src/services/sms';
+import { escapeHtml } from '@/src/infrastructure/notifications/email-templates';
+import { logger } from '@/src/utils/logger';
+
+// Signature verification needs Node's crypto
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Replies are TwiML; an empty <Response/> sends nothing back
+function twiml(message: string | null): NextResponse {
+  const body = message
+    ? `<?xml version="1.0" encoding="UTF-8"?><Response><Message>${escapeHtml(message)}</Message></Response>`
+    : '<?xml version="1.0" encoding="UTF-8"?><Response/>';
+  return new NextResponse(body, { headers: { 'Content-Type': 'text/xml' } });
+}
+
+// Texts sent to our number (STOP, START, HELP)
+export async function POST(request: NextRequest) {
+  const form = await request.formData();
+  const params = Object.fromEntries([...form.entries()].map(([key, value]) => [key, String(value)]));
+
+  // The inbound path only touches profiles; notifications are not needed here
+  const supabase = createAdminClient();
+  const service = new SmsService(new ProfileRepository(supabase, createAuditService(supabase)));
+
+  // Twilio signs the URL it was given, which is the public one rather than request.url
+  const verified = service.verifyRequest(
+    process.env.TWILIO_AUTH_TOKEN,
+    `${process.env.NEXT_PUBLIC_APP_URL}/api/webhooks/twilio/inbound`,
+    params,
+    request.headers.get('x-twilio-signature')
+  );
+  if (!verified.ok) {
+    return NextResponse.json(
+      { error: { code: verified.error.code, message: verified.error.message } },
+      { status: verified.error.statusCode }
+    );
+  }
+
+  const { From, Body } = params;
+  const result = await service.handleInbound(From ?? '', Body ?? '');
+  if (!result.ok) {
+    logger.error('Inbound SMS failed', result.error);
+    return NextResponse.json(
+      { error: { code: result.error.code, message: result.error.message } },
+      { status: result.error.statusCode }
+    );
+  }
+
+  return twiml(result.value.reply);
+}
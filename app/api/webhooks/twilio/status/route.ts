@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { BillRepository } from '@/src/database/repositories/bills';
+import { NotificationPreferenceRepository } from '@/src/database/repositories/notification-preferences';
+import { NotificationRepository } from '@/src/database/repositories/notifications';
+import { ProfileRepository } from '@/src/database/repositories/profiles';
+import { PushSubscriptionRepository } from '@/src/database/repositories/push-subscriptions';
+import { notificationChannels } from '@/src/infrastructure/notifications';
+import { createAuditService } from '@/src/services/audit';
+import { NotificationService } from '@/src/services/notifications';
+import { SmsService } from '@/src/services/sms';
+import { logger } from '@/src/utils/logger';
+
+// Signature verification needs Node's crypto
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Twilio message status callback (the StatusCallback set on each message we send)
+export async function POST(request: NextRequest) {
+  const form = await request.formData();
+  const params = Object.fromEntries([...form.entries()].map(([key, value]) => [key, String(value)]));
+
+  const supabase = createAdminClient();
+  const profiles = new ProfileRepository(supabase, createAuditService(supabase));
+  const service = new SmsService(
+    profiles,
+    new NotificationService(
+      new NotificationRepository(supabase),
+      new BillRepository(supabase),
+      profiles,
+      notificationChannels,
+      new PushSubscriptionRepository(supabase),
+      new NotificationPreferenceRepository(supabase)
+    )
+  );
+
+  // Twilio signs the URL it was given, which is the public one rather than request.url
+  const verified = service.verifyRequest(
+    process.env.TWILIO_AUTH_TOKEN,
+    `${process.env.NEXT_PUBLIC_APP_URL}/api/webhooks/twilio/status`,
+    params,
+    request.headers.get('x-twilio-signature')
+  );
+  if (!verified.ok) {
+    return NextResponse.json(
+      { error: { code: verified.error.code, message: verified.error.message } },
+      { status: verified.error.statusCode }
+    );
+  }
+
+  const { MessageSid, MessageStatus, To, ErrorCode } = params;
+  if (!MessageSid || !MessageStatus) {
+    return NextResponse.json(
+      { error: { code: 'VALIDATION_ERROR', message: 'Missing MessageSid or MessageStatus' } },
+      { status: 400 }
+    );
+  }
+
+  // Non-2xx responses make Twilio retry the callback
+  const result = await service.handleStatusCallback({
+    MessageSid,
+    MessageStatus,
+    ...(To && { To }),
+    ...(ErrorCode && { ErrorCode }),
+  });
+  if (!result.ok) {
+    logger.error('Twilio status callback failed', result.error);
+    return NextResponse.json(
+      { error: { code: result.error.code, message: result.error.message } },
+      { status: result.error.statusCode }
+    );
+  }
+
+  return NextResponse.json({ received: true });
+}
@@ -0,0 +1,73 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import toast from 'react-hot-toast';
+import {
+  BillForm,
+  BillFormValues,
+  billToFormValues,
+  formValuesToBill,
+} from '@/components/bills/bill-form';
+import { useBill, useUpdateBill } from '@/lib/queries/bills';
+import { logger } from '@/src/utils/logger';
+
+export default function EditBillPage({ params }: { params: { id: string } }) {
+  const router = useRouter();
+  const [error, setError] = useState('');
+  const { data: bill, isLoading, error: loadError } = useBill(params.id);
+  const updateBill = useUpdateBill(params.id);
+
+  const handleSubmit = (values: BillFormValues) => {
+    setError('');
+    updateBill.mutate(formValuesToBill(values), {
+      onSuccess: updated => {
+        toast.success(`${updated.biller_name} updated`);
+        router.push(`/bills/${params.id}`);
+      },
+      onError: err => {
+        logger.error('Failed to update bill', err as Error, { billId: params.id });
+        setError('We couldn\'t save your changes. Please try again.');
+      },
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-neutral-50">
+      <header className="bg-white shadow-sm">
+        <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center space-x-4 py-4">
+            <Link href={`/bills/${params.id}`} className="text-sm text-neutral-600 hover:text-neutral-900">
+              &larr; Bill
+            </Link>
+            <h1 className="text-2xl font-bold text-neutral-900">Edit Bill</h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-white rounded-lg shadow p-6">
+          {isLoading ? (
+            <div className="space-y-4">
+              {[0, 1, 2, 3].map(i => (
+                <div key={i} className="skeleton h-10 w-full" />
+              ))}
+            </div>
+          ) : loadError || !bill ? (
+            <p className="text-center text-danger-700">This bill could not be found.</p>
+          ) : (
+            <BillForm
+              initialValues={billToFormValues(bill)}
+              submitLabel="Save changes"
+              submitting={updateBill.isPending}
+              error={error}
+              onSubmit={handleSubmit}
+              onCancel={() => router.push(`/bills/${params.id}`)}
+            />
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
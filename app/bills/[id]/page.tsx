@@ -0,0 +1,131 @@
+'use client';
+
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import toast from 'react-hot-toast';
+import { BillStatusBadge } from '@/components/bills/bill-status-badge';
+import { useBill, useDeleteBill } from '@/lib/queries/bills';
+import { formatCurrency, formatDate, formatLabel } from '@/src/utils/format';
+import { logger } from '@/src/utils/logger';
+
+export default function BillDetailPage({ params }: { params: { id: string } }) {
+  const router = useRouter();
+  const { data: bill, isLoading, error } = useBill(params.id);
+  const deleteBill = useDeleteBill();
+
+  const handleDelete = () => {
+    if (!bill || !window.confirm(`Delete ${bill.biller_name}? You can't undo this.`)) {
+      return;
+    }
+
+    deleteBill.mutate(bill.id, {
+      onSuccess: () => {
+        toast.success(`${bill.biller_name} deleted`);
+        router.push('/bills');
+      },
+      onError: err => {
+        logger.error('Failed to delete bill', err as Error, { billId: bill.id });
+        toast.error('Could not delete the bill. Please try again.');
+      },
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  if (error || !bill) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center space-y-4">
+        <p className="text-neutral-900">This bill could not be found.</p>
+        <Link href="/bills" className="text-primary-600 hover:text-primary-700">
+          Back to your bills
+        </Link>
+      </div>
+    );
+  }
+
+  const details: Array<[string, string]> = [
+    ['Category', formatLabel(bill.biller_category)],
+    ['Due date', formatDate(bill.due_date)],
+    ['Frequency', formatLabel(bill.frequency)],
+    ['Auto-pay', bill.auto_pay ? 'On' : 'Off'],
+    [
+      'Reminder',
+      bill.reminder_days !== undefined && bill.reminder_days !== null
+        ? `${bill.reminder_days} day${bill.reminder_days === 1 ? '' : 's'} before`
+        : 'Your default',
+    ],
+  ];
+
+  if (bill.last_paid_date) {
+    details.push(['Last paid', formatDate(bill.last_paid_date)]);
+  }
+  if (bill.next_due_date) {
+    details.push(['Next due', formatDate(bill.next_due_date)]);
+  }
+
+  return (
+    <div className="min-h-screen bg-neutral-50">
+      <header className="bg-white shadow-sm">
+        <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-4">
+            <div className="flex items-center space-x-4">
+              <Link href="/bills" className="text-sm text-neutral-600 hover:text-neutral-900">
+                &larr; Bills
+              </Link>
+              <h1 className="text-2xl font-bold text-neutral-900">{bill.biller_name}</h1>
+            </div>
+            <BillStatusBadge status={bill.status} />
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div className="bg-white rounded-lg shadow p-6">
+          <p className="text-sm font-medium text-neutral-600">Amount</p>
+          <p className="text-3xl font-bold text-neutral-900">
+            {formatCurrency(bill.amount, bill.currency)}
+          </p>
+
+          <dl className="mt-6 grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {details.map(([label, value]) => (
+              <div key={label}>
+                <dt className="text-sm text-neutral-600">{label}</dt>
+                <dd className="font-medium text-neutral-900">{value}</dd>
+              </div>
+            ))}
+          </dl>
+
+          {bill.notes && (
+            <div className="mt-6">
+              <p className="text-sm text-neutral-600">Notes</p>
+              <p className="text-neutral-900 whitespace-pre-line">{bill.notes}</p>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-3">
+          <button
+            type="button"
+            onClick={handleDelete}
+            disabled={deleteBill.isPending}
+            className="py-2 px-4 border border-danger-500 text-sm font-medium rounded-md text-danger-700 bg-white hover:bg-danger-50 disabled:opacity-50"
+          >
+            Delete
+          </button>
+          <Link
+            href={`/bills/${bill.id}/edit`}
+            className="py-2 px-4 text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700"
+          >
+            Edit
+          </Link>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import toast from 'react-hot-toast';
+import { BillForm, BillFormValues, formValuesToBill } from '@/components/bills/bill-form';
+import { useCurrentUser } from '@/lib/queries/auth';
+import { useCreateBill } from '@/lib/queries/bills';
+import { logger } from '@/src/utils/logger';
+
+export default function AddBillPage() {
+  const router = useRouter();
+  const [error, setError] = useState('');
+  const { data: user } = useCurrentUser();
+  const createBill = useCreateBill();
+
+  const handleSubmit = (values: BillFormValues) => {
+    if (!user) {
+      setError('Your session has expired. Please sign in again.');
+      return;
+    }
+
+    setError('');
+    createBill.mutate(
+      {
+        ...formValuesToBill(values),
+        user_id: user.id,
+        status: 'pending',
+      },
+      {
+        onSuccess: bill => {
+          logger.info('Bill created', { userId: user.id, billId: bill.id });
+          toast.success(`${bill.biller_name} added`);
+          router.push(`/bills/${bill.id}`);
+        },
+        onError: err => {
+          logger.error('Failed to create bill', err as Error, { userId: user.id });
+          setError('We couldn\'t save this bill. Please try again.');
+        },
+      }
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-neutral-50">
+      <header className="bg-white shadow-sm">
+        <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center space-x-4 py-4">
+            <Link href="/bills" className="text-sm text-neutral-600 hover:text-neutral-900">
+              &larr; Bills
+            </Link>
+            <h1 className="text-2xl font-bold text-neutral-900">Add a Bill</h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-white rounded-lg shadow p-6">
+          <BillForm
+            submitLabel="Add bill"
+            submitting={createBill.isPending}
+            error={error}
+            onSubmit={handleSubmit}
+            onCancel={() => router.push('/bills')}
+          />
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import toast from 'react-hot-toast';
+import { BillStatusBadge } from '@/components/bills/bill-status-badge';
+import { LoadMore } from '@/components/common/load-more';
+import { useCurrentUser } from '@/lib/queries/auth';
+import { BillFilters, useBills, useDeleteBill } from '@/lib/queries/bills';
+import { Bill, BILL_CATEGORIES, BILL_STATUSES } from '@/src/database/repositories/bills';
+import { formatCurrency, formatDate, formatLabel } from '@/src/utils/format';
+import { logger } from '@/src/utils/logger';
+
+export default function BillsPage() {
+  const [filters, setFilters] = useState<BillFilters>({});
+  const { data: user } = useCurrentUser();
+  const { data, isLoading, isPlaceholderData, error, hasNextPage, isFetchingNextPage, fetchNextPage } =
+    useBills(user?.id, filters);
+  const bills = useMemo(() => data?.pages.flatMap(page => page.items), [data]);
+  const deleteBill = useDeleteBill();
+
+  const updateFilter = <K extends keyof BillFilters>(key: K, value: string) => {
+    setFilters(prev => {
+      const next = { ...prev };
+      if (value) {
+        next[key] = value as BillFilters[K];
+      } else {
+        delete next[key];
+      }
+      return next;
+    });
+  };
+
+  const handleDelete = (bill: Bill) => {
+    if (!window.confirm(`Delete ${bill.biller_name}? You can't undo this.`)) {
+      return;
+    }
+
+    deleteBill.mutate(bill.id, {
+      onSuccess: () => toast.success(`${bill.biller_name} deleted`),
+      onError: err => {
+        logger.error('Failed to delete bill', err as Error, { billId: bill.id });
+        toast.error('Could not delete the bill. Please try again.');
+      },
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-neutral-50">
+      <header className="bg-white shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-4">
+            <div className="flex items-center space-x-4">
+              <Link href="/dashboard" className="text-sm text-neutral-600 hover:text-neutral-900">
+                &larr; Dashboard
+              </Link>
+              <h1 className="text-2xl font-bold text-neutral-900">Your Bills</h1>
+            </div>
+            <Link
+              href="/bills/add"
+              className="py-2 px-4 text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700"
+            >
+              Add Bill
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Filters */}
+        <div className="bg-white rounded-lg shadow p-4 mb-6 grid grid-cols-1 md:grid-cols-3 gap-4">
+          <input
+            type="search"
+            placeholder="Search by biller"
+            value={filters.search ?? ''}
+            onChange={e => updateFilter('search', e.target.value)}
+            className="block w-full px-3 py-2 border border-neutral-300 rounded-md text-neutral-900 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+          />
+          <select
+            aria-label="Filter by category"
+            value={filters.category ?? ''}
+            onChange={e => updateFilter('category', e.target.value)}
+            className="block w-full px-3 py-2 border border-neutral-300 rounded-md text-neutral-900 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+          >
+            <option value="">All categories</option>
+            {BILL_CATEGORIES.map(category => (
+              <option key={category} value={category}>
+                {formatLabel(category)}
+              </option>
+            ))}
+          </select>
+          <select
+            aria-label="Filter by status"
+            value={filters.status ?? ''}
+            onChange={e => updateFilter('status', e.target.value)}
+            className="block w-full px-3 py-2 border border-neutral-300 rounded-md text-neutral-900 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+          >
+            <option value="">All statuses</option>
+            {BILL_STATUSES.map(status => (
+              <option key={status} value={status}>
+                {formatLabel(status)}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Bill list */}
+        <div className="bg-white rounded-lg shadow">
+          {isLoading ? (
+            <div className="p-6 space-y-4">
+              {[0, 1, 2].map(i => (
+                <div key={i} className="skeleton h-12 w-full" />
+              ))}
+            </div>
+          ) : error ? (
+            <div className="p-6 text-center text-danger-700">
+              We couldn&apos;t load your bills. Please refresh the page.
+            </div>
+          ) : !bills || bills.length === 0 ? (
+            <div className="p-12 text-center">
+              <h3 className="text-lg font-semibold text-neutral-900">No bills found</h3>
+              <p className="mt-2 text-sm text-neutral-600">
+                {filters.category || filters.status || filters.search
+                  ? 'Try clearing your filters.'
+                  : 'Add your first bill to start tracking payments.'}
+              </p>
+            </div>
+          ) : (
+            <>
+              <ul className={`divide-y divide-neutral-100 ${isPlaceholderData ? 'opacity-60' : ''}`}>
+                {bills.map(bill => (
+                  <li key={bill.id} className="flex items-center justify-between px-6 py-4">
+                    <Link href={`/bills/${bill.id}`} className="flex-1 min-w-0">
+                      <p className="font-medium text-neutral-900 truncate">{bill.biller_name}</p>
+                      <p className="text-sm text-neutral-600">
+                        {formatLabel(bill.biller_category)} &middot; Due {formatDate(bill.due_date)}
+                        {bill.frequency !== 'one_time' && ` · ${formatLabel(bill.frequency)}`}
+                      </p>
+                    </Link>
+                    <div className="flex items-center space-x-4 ml-4">
+                      <BillStatusBadge status={bill.status} />
+                      <span className="font-medium text-neutral-900">
+                        {formatCurrency(bill.amount, bill.currency)}
+                      </span>
+                      <Link
+                        href={`/bills/${bill.id}/edit`}
+                        className="text-sm text-primary-600 hover:text-primary-700"
+                      >
+                        Edit
+                      </Link>
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(bill)}
+                        disabled={deleteBill.isPending}
+                        className="text-sm text-danger-700 hover:text-danger-500 disabled:opacity-50"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+              <LoadMore
+                hasMore={!!hasNextPage && !isPlaceholderData}
+                isLoading={isFetchingNextPage}
+                onLoadMore={fetchNextPage}
+              />
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
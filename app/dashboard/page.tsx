@@ -1,28 +1,20 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { createBrowserClient } from '@supabase/ssr';
-import { User } from '@supabase/supabase-js';
-
-interface DashboardStats {
-  totalBills: number;
-  upcomingBills: number;
-  overdueBills: number;
-  monthlySpending: number;
-}
+import { useQueryClient } from '@tanstack/react-query';
+import { useCurrentUser } from '@/lib/queries/auth';
+import { useBillChanges, useDashboard } from '@/lib/queries/bills';
+import { formatCurrency, formatDate, formatRelativeDate } from '@/src/utils/format';
 
 export default function DashboardPage() {
   const router = useRouter();
-  const [user, setUser] = useState<User | null>(null);
-  const [stats, setStats] = useState<DashboardStats>({
-    totalBills: 0,
-    upcomingBills: 0,
-    overdueBills: 0,
-    monthlySpending: 0,
-  });
-  const [loading, setLoading] = useState(true);
+  const queryClient = useQueryClient();
+  const { data: user, isLoading: userLoading } = useCurrentUser();
+  const { data: dashboard, isLoading, error, refetch } = useDashboard(user?.id);
+  useBillChanges(user?.id);
 
   const supabase = createBrowserClient(
     process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -30,35 +22,18 @@ export default function DashboardPage() {
   );
 
   useEffect(() => {
-    const getUser = async () => {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
-        router.push('/auth/login');
-        return;
-      }
-      setUser(user);
-      
-      // For now, use mock data
-      // In production, fetch from database using billRepository
-      setStats({
-        totalBills: 12,
-        upcomingBills: 5,
-        overdueBills: 1,
-        monthlySpending: 847.50,
-      });
-      
-      setLoading(false);
-    };
-
-    getUser();
-  }, [router, supabase.auth]);
+    if (!userLoading && !user) {
+      router.push('/auth/login');
+    }
+  }, [router, user, userLoading]);
 
   const handleSignOut = async () => {
     await supabase.auth.signOut();
+    queryClient.clear();
     router.push('/');
   };
 
-  if (loading) {
+  if (userLoading || isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
@@ -66,6 +41,14 @@ export default function DashboardPage() {
     );
   }
 
+  const stats = {
+    totalBills: dashboard?.summary.billCount ?? 0,
+    upcomingBills: dashboard?.upcoming.length ?? 0,
+    overdueBills: dashboard?.overdue.length ?? 0,
+    monthlySpending: dashboard?.monthlySummary.totalAmount ?? 0,
+  };
+  const duePayments = [...(dashboard?.overdue ?? []), ...(dashboard?.upcoming ?? [])].slice(0, 5);
+
   return (
     <div className="min-h-screen bg-neutral-50">
       {/* Header */}
@@ -79,6 +62,9 @@ export default function DashboardPage() {
               <span className="text-sm text-neutral-600">
                 {user?.email}
               </span>
+              <Link href="/settings" className="text-sm text-neutral-600 hover:text-neutral-900">
+                Settings
+              </Link>
               <button
                 onClick={handleSignOut}
                 className="text-sm text-neutral-600 hover:text-neutral-900"
@@ -102,6 +88,20 @@ export default function DashboardPage() {
           </p>
         </div>
 
+        {error && (
+          <div className="rounded-md bg-danger-50 p-4 mb-8 flex items-center justify-between">
+            <p className="text-sm font-medium text-danger-700">
+              We couldn&apos;t load your latest bill figures.
+            </p>
+            <button
+              onClick={() => refetch()}
+              className="text-sm font-medium text-danger-700 hover:text-danger-500"
+            >
+              Try again
+            </button>
+          </div>
+        )}
+
         {/* Stats Grid */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
           <div className="bg-white p-6 rounded-lg shadow">
@@ -137,6 +137,11 @@ export default function DashboardPage() {
               <div>
                 <p className="text-sm font-medium text-neutral-600">Overdue</p>
                 <p className="text-2xl font-bold text-danger-600">{stats.overdueBills}</p>
+                {dashboard && dashboard.stats.total_overdue_amount > 0 && (
+                  <p className="text-xs text-neutral-600">
+                    {formatCurrency(dashboard.stats.total_overdue_amount)} outstanding
+                  </p>
+                )}
               </div>
               <div className="p-3 bg-danger-100 rounded-full">
                 <svg className="w-6 h-6 text-danger-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -150,7 +155,14 @@ export default function DashboardPage() {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm font-medium text-neutral-600">Monthly Total</p>
-                <p className="text-2xl font-bold text-neutral-900">£{stats.monthlySpending.toFixed(2)}</p>
+                <p className="text-2xl font-bold text-neutral-900">
+                  {formatCurrency(stats.monthlySpending, dashboard?.monthlySummary.currency)}
+                </p>
+                {dashboard && dashboard.stats.paid_this_month > 0 && (
+                  <p className="text-xs text-neutral-600">
+                    {dashboard.stats.paid_this_month} paid so far
+                  </p>
+                )}
               </div>
               <div className="p-3 bg-success-100 rounded-full">
                 <svg className="w-6 h-6 text-success-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -215,59 +227,71 @@ export default function DashboardPage() {
           </Link>
         </div>
 
-        {/* Recent Activity */}
+        {/* Upcoming Payments */}
         <div className="bg-white rounded-lg shadow">
           <div className="px-6 py-4 border-b border-neutral-200">
-            <h3 className="text-lg font-semibold text-neutral-900">Recent Activity</h3>
+            <h3 className="text-lg font-semibold text-neutral-900">Upcoming Payments</h3>
           </div>
           <div className="p-6">
-            <div className="space-y-4">
-              {/* Mock recent activities */}
-              <div className="flex items-center justify-between py-3 border-b border-neutral-100">
-                <div className="flex items-center space-x-3">
-                  <div className="p-2 bg-success-100 rounded-full">
-                    <svg className="w-4 h-4 text-success-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                    </svg>
-                  </div>
-                  <div>
-                    <p className="font-medium text-neutral-900">British Gas paid</p>
-                    <p className="text-sm text-neutral-600">2 days ago</p>
-                  </div>
-                </div>
-                <span className="text-neutral-900 font-medium">£75.50</span>
+            {duePayments.length === 0 ? (
+              <div className="text-center py-6">
+                <p className="font-medium text-neutral-900">
+                  {stats.totalBills === 0 ? 'No bills yet' : 'Nothing due in the next 30 days'}
+                </p>
+                <p className="text-sm text-neutral-600">
+                  {stats.totalBills === 0
+                    ? 'Add your first bill to see your payments here.'
+                    : 'You\'re all caught up.'}
+                </p>
+                {stats.totalBills === 0 && (
+                  <Link
+                    href="/bills/add"
+                    className="mt-4 inline-block text-sm font-medium text-primary-600 hover:text-primary-700"
+                  >
+                    Add a bill
+                  </Link>
+                )}
               </div>
-
-              <div className="flex items-center justify-between py-3 border-b border-neutral-100">
-                <div className="flex items-center space-x-3">
-                  <div className="p-2 bg-warning-100 rounded-full">
-                    <svg className="w-4 h-4 text-warning-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
-                    </svg>
-                  </div>
-                  <div>
-                    <p className="font-medium text-neutral-900">Thames Water due soon</p>
-                    <p className="text-sm text-neutral-600">In 3 days</p>
-                  </div>
-                </div>
-                <span className="text-neutral-900 font-medium">£45.00</span>
+            ) : (
+              <div className="space-y-4">
+                {duePayments.map((bill, index) => {
+                  const isOverdue = index < stats.overdueBills;
+                  return (
+                    <Link
+                      key={bill.id}
+                      href={`/bills/${bill.id}`}
+                      className={`flex items-center justify-between py-3 ${
+                        index < duePayments.length - 1 ? 'border-b border-neutral-100' : ''
+                      }`}
+                    >
+                      <div className="flex items-center space-x-3">
+                        <div className={`p-2 rounded-full ${isOverdue ? 'bg-danger-50' : 'bg-warning-50'}`}>
+                          <svg
+                            className={`w-4 h-4 ${isOverdue ? 'text-danger-700' : 'text-warning-700'}`}
+                            fill="none"
+                            viewBox="0 0 24 24"
+                            stroke="currentColor"
+                          >
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                          </svg>
+                        </div>
+                        <div>
+                          <p className="font-medium text-neutral-900">
+                            {bill.biller_name} {isOverdue ? 'overdue' : 'due'}
+                          </p>
+                          <p className="text-sm text-neutral-600">
+                            {formatDate(bill.due_date)} ({formatRelativeDate(bill.due_date)})
+                          </p>
+                        </div>
+                      </div>
+                      <span className="text-neutral-900 font-medium">
+                        {formatCurrency(bill.amount, bill.currency)}
+                      </span>
+                    </Link>
+                  );
+                })}
               </div>
-
-              <div className="flex items-center justify-between py-3">
-                <div className="flex items-center space-x-3">
-                  <div className="p-2 bg-primary-100 rounded-full">
-                    <svg className="w-4 h-4 text-primary-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-                    </svg>
-                  </div>
-                  <div>
-                    <p className="font-medium text-neutral-900">Netflix bill added</p>
-                    <p className="text-sm text-neutral-600">5 days ago</p>
-                  </div>
-                </div>
-                <span className="text-neutral-900 font-medium">£15.99</span>
-              </div>
-            </div>
+            )}
           </div>
         </div>
       </main>
@@ -0,0 +1,104 @@
+'use client';
+
+import Link from 'next/link';
+import { TransactionStatusBadge } from '@/components/payments/transaction-status-badge';
+import { useTransaction } from '@/lib/queries/transactions';
+import { formatCurrency, formatDateTime, formatLabel } from '@/src/utils/format';
+
+export default function PaymentDetailPage({ params }: { params: { id: string } }) {
+  const { data: transaction, isLoading, error } = useTransaction(params.id);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  if (error || !transaction) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center space-y-4">
+        <p className="text-neutral-900">This payment could not be found.</p>
+        <Link href="/payments" className="text-primary-600 hover:text-primary-700">
+          Back to payment history
+        </Link>
+      </div>
+    );
+  }
+
+  const amount = Number(transaction.amount);
+  const fee = Number(transaction.fee ?? 0);
+  const totalAmount = Number(transaction.total_amount ?? amount + fee);
+
+  const details: Array<[string, string]> = [
+    ['Amount', formatCurrency(amount, transaction.currency)],
+    ['Fee', formatCurrency(fee, transaction.currency)],
+    ['Created', formatDateTime(transaction.created_at)],
+  ];
+
+  if (transaction.processed_at) {
+    details.push(['Processed', formatDateTime(transaction.processed_at)]);
+  }
+  if (transaction.payment_method) {
+    details.push(['Payment method', formatLabel(transaction.payment_method)]);
+  }
+  if (transaction.external_transaction_id) {
+    details.push(['Reference', transaction.external_transaction_id]);
+  }
+
+  return (
+    <div className="min-h-screen bg-neutral-50">
+      <header className="bg-white shadow-sm">
+        <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-4">
+            <div className="flex items-center space-x-4">
+              <Link href="/payments" className="text-sm text-neutral-600 hover:text-neutral-900">
+                &larr; Payments
+              </Link>
+              <h1 className="text-2xl font-bold text-neutral-900">
+                {transaction.bill?.biller_name ?? 'Payment'}
+              </h1>
+            </div>
+            <TransactionStatusBadge status={transaction.status} />
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div className="bg-white rounded-lg shadow p-6">
+          <p className="text-sm font-medium text-neutral-600">Total</p>
+          <p className="text-3xl font-bold text-neutral-900">
+            {formatCurrency(totalAmount, transaction.currency)}
+          </p>
+
+          <dl className="mt-6 grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {details.map(([label, value]) => (
+              <div key={label}>
+                <dt className="text-sm text-neutral-600">{label}</dt>
+                <dd className="font-medium text-neutral-900 break-all">{value}</dd>
+              </div>
+            ))}
+          </dl>
+
+          {transaction.status === 'failed' && transaction.failure_reason && (
+            <div className="mt-6 rounded-md bg-danger-50 p-4">
+              <p className="text-sm font-medium text-danger-700">{transaction.failure_reason}</p>
+            </div>
+          )}
+        </div>
+
+        {transaction.bill && (
+          <div className="flex justify-end">
+            <Link
+              href={`/bills/${transaction.bill.id}`}
+              className="py-2 px-4 text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700"
+            >
+              View bill
+            </Link>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
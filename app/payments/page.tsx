@@ -0,0 +1,191 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { LoadMore } from '@/components/common/load-more';
+import { TransactionStatusBadge } from '@/components/payments/transaction-status-badge';
+import { useCurrentUser } from '@/lib/queries/auth';
+import { useTransactions, useTransactionTotals } from '@/lib/queries/transactions';
+import {
+  Transaction,
+  TransactionFilters,
+  TRANSACTION_STATUSES,
+} from '@/src/database/repositories/transactions';
+import { formatCurrency, formatDateTime, formatLabel } from '@/src/utils/format';
+
+interface FilterInputs {
+  status: string;
+  from: string;
+  to: string;
+}
+
+const inputClassName =
+  'block w-full px-3 py-2 border border-neutral-300 rounded-md text-neutral-900 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm';
+
+// Date inputs give yyyy-MM-dd; include the whole of the end day
+function toFilters(inputs: FilterInputs): TransactionFilters {
+  return {
+    ...(inputs.status && { status: inputs.status as Transaction['status'] }),
+    ...(inputs.from && { startDate: new Date(`${inputs.from}T00:00:00`) }),
+    ...(inputs.to && { endDate: new Date(`${inputs.to}T23:59:59.999`) }),
+  };
+}
+
+export default function PaymentsPage() {
+  const [inputs, setInputs] = useState<FilterInputs>({ status: '', from: '', to: '' });
+  const filters = useMemo(() => toFilters(inputs), [inputs]);
+
+  const { data: user } = useCurrentUser();
+  const { data, isLoading, isPlaceholderData, error, hasNextPage, isFetchingNextPage, fetchNextPage } =
+    useTransactions(user?.id, filters);
+  const transactions = useMemo(() => data?.pages.flatMap(page => page.items), [data]);
+  const { data: totals } = useTransactionTotals(user?.id, filters);
+
+  const updateInput = (key: keyof FilterInputs, value: string) => {
+    setInputs(prev => ({ ...prev, [key]: value }));
+  };
+
+  const hasFilters = !!(inputs.status || inputs.from || inputs.to);
+
+  return (
+    <div className="min-h-screen bg-neutral-50">
+      <header className="bg-white shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center space-x-4 py-4">
+            <Link href="/dashboard" className="text-sm text-neutral-600 hover:text-neutral-900">
+              &larr; Dashboard
+            </Link>
+            <h1 className="text-2xl font-bold text-neutral-900">Payment History</h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Totals */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+          <div className="bg-white rounded-lg shadow p-6">
+            <p className="text-sm font-medium text-neutral-600">Total Paid</p>
+            <p className="text-2xl font-bold text-neutral-900">
+              {formatCurrency(totals?.byStatus['completed']?.totalAmount ?? 0)}
+            </p>
+            <p className="text-xs text-neutral-500 mt-1">
+              {totals?.byStatus['completed']?.count ?? 0} completed payments
+            </p>
+          </div>
+          <div className="bg-white rounded-lg shadow p-6">
+            <p className="text-sm font-medium text-neutral-600">Fees</p>
+            <p className="text-2xl font-bold text-neutral-900">{formatCurrency(totals?.fee ?? 0)}</p>
+          </div>
+          <div className="bg-white rounded-lg shadow p-6">
+            <p className="text-sm font-medium text-neutral-600">Failed</p>
+            <p className="text-2xl font-bold text-danger-700">
+              {totals?.byStatus['failed']?.count ?? 0}
+            </p>
+            <p className="text-xs text-neutral-500 mt-1">of {totals?.count ?? 0} payments</p>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <div className="bg-white rounded-lg shadow p-4 mb-6 grid grid-cols-1 md:grid-cols-3 gap-4">
+          <select
+            aria-label="Filter by status"
+            value={inputs.status}
+            onChange={e => updateInput('status', e.target.value)}
+            className={inputClassName}
+          >
+            <option value="">All statuses</option>
+            {TRANSACTION_STATUSES.map(status => (
+              <option key={status} value={status}>
+                {formatLabel(status)}
+              </option>
+            ))}
+          </select>
+          <input
+            type="date"
+            aria-label="From date"
+            value={inputs.from}
+            max={inputs.to || undefined}
+            onChange={e => updateInput('from', e.target.value)}
+            className={inputClassName}
+          />
+          <input
+            type="date"
+            aria-label="To date"
+            value={inputs.to}
+            min={inputs.from || undefined}
+            onChange={e => updateInput('to', e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+
+        {/* Transaction list */}
+        <div className="bg-white rounded-lg shadow">
+          {isLoading ? (
+            <div className="p-6 space-y-4">
+              {[0, 1, 2].map(i => (
+                <div key={i} className="skeleton h-12 w-full" />
+              ))}
+            </div>
+          ) : error ? (
+            <div className="p-6 text-center text-danger-700">
+              We couldn&apos;t load your payments. Please refresh the page.
+            </div>
+          ) : !transactions || transactions.length === 0 ? (
+            <div className="p-12 text-center">
+              <h3 className="text-lg font-semibold text-neutral-900">No payments found</h3>
+              <p className="mt-2 text-sm text-neutral-600">
+                {hasFilters
+                  ? 'Try clearing your filters.'
+                  : 'Payments you make on your bills will appear here.'}
+              </p>
+            </div>
+          ) : (
+            <>
+              <ul className={`divide-y divide-neutral-100 ${isPlaceholderData ? 'opacity-60' : ''}`}>
+                {transactions.map(transaction => (
+                  <li key={transaction.id}>
+                    <Link
+                      href={`/payments/${transaction.id}`}
+                      className="flex items-center justify-between px-6 py-4 hover:bg-neutral-50"
+                    >
+                      <div className="min-w-0">
+                        <p className="font-medium text-neutral-900 truncate">
+                          {transaction.bill?.biller_name ?? 'Deleted bill'}
+                        </p>
+                        <p className="text-sm text-neutral-600">
+                          {formatDateTime(transaction.created_at)}
+                          {transaction.payment_method && ` · ${formatLabel(transaction.payment_method)}`}
+                        </p>
+                      </div>
+                      <div className="flex items-center space-x-4 ml-4">
+                        <TransactionStatusBadge status={transaction.status} />
+                        <span className="font-medium text-neutral-900">
+                          {formatCurrency(
+                            Number(transaction.total_amount ?? transaction.amount),
+                            transaction.currency
+                          )}
+                        </span>
+                      </div>
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+
+              <div className="px-6 py-4 border-t border-neutral-100">
+                <p className="text-sm text-neutral-600">
+                  Showing {transactions.length}
+                  {totals && ` of ${totals.count}`}
+                </p>
+              </div>
+              <LoadMore
+                hasMore={!!hasNextPage && !isPlaceholderData}
+                isLoading={isFetchingNextPage}
+                onLoadMore={fetchNextPage}
+              />
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import toast from 'react-hot-toast';
+import {
+  NotificationPreferencesForm,
+  NotificationPreferencesFormValues,
+  formValuesToPreferences,
+  preferencesToFormValues,
+} from '@/components/settings/notification-preferences-form';
+import { getPushSupport, PushSupport } from '@/lib/push';
+import { useCurrentUser } from '@/lib/queries/auth';
+import {
+  useNotificationPreferences,
+  useSaveNotificationPreferences,
+} from '@/lib/queries/notification-preferences';
+import {
+  useDevicePushEndpoint,
+  usePushSubscriptions,
+  useRemovePushSubscription,
+  useSubscribeDevice,
+} from '@/lib/queries/push-subscriptions';
+import { formatDate, formatRelativeDate } from '@/src/utils/format';
+import { logger } from '@/src/utils/logger';
+
+const PUSH_SUPPORT_MESSAGES: Record<Exclude<PushSupport, 'supported'>, string> = {
+  unsupported:
+    'This browser does not support push notifications. On iPhone and iPad, add the app to your Home Screen first.',
+  denied: 'Notifications are blocked for this site. Allow them in your browser settings to turn them on.',
+  not_configured: 'Push notifications are not available yet.',
+};
+
+export default function SettingsPage() {
+  const { data: user, isLoading: userLoading } = useCurrentUser();
+  const {
+    data: preferences,
+    dataUpdatedAt: preferencesUpdatedAt,
+    isLoading: preferencesLoading,
+  } = useNotificationPreferences(user?.id);
+  const savePreferences = useSaveNotificationPreferences(user?.id ?? '');
+  const { data: subscriptions, isLoading: subscriptionsLoading } = usePushSubscriptions(user?.id);
+  const { data: deviceEndpoint } = useDevicePushEndpoint();
+  const subscribeDevice = useSubscribeDevice();
+  const removeSubscription = useRemovePushSubscription();
+
+  // Browser APIs are only available after mounting
+  const [pushSupport, setPushSupport] = useState<PushSupport | null>(null);
+  useEffect(() => {
+    setPushSupport(getPushSupport());
+  }, []);
+
+  const handleSavePreferences = (values: NotificationPreferencesFormValues) => {
+    savePreferences.mutate(formValuesToPreferences(values), {
+      onSuccess: () => toast.success('Notification preferences saved'),
+      onError: err => {
+        logger.error('Failed to save notification preferences', err as Error);
+        toast.error('Could not save your preferences. Please try again.');
+      },
+    });
+  };
+
+  const handleEnable = () => {
+    subscribeDevice.mutate(undefined, {
+      onSuccess: () => toast.success('Push notifications turned on for this device'),
+      onError: err => {
+        logger.error('Failed to subscribe to push', err as Error);
+        setPushSupport(getPushSupport());
+        toast.error((err as Error).message);
+      },
+    });
+  };
+
+  const handleRemove = (endpoint: string, name: string) => {
+    removeSubscription.mutate(endpoint, {
+      onSuccess: () => toast.success(`Push notifications turned off for ${name}`),
+      onError: err => {
+        logger.error('Failed to remove push subscription', err as Error);
+        toast.error('Could not turn off push notifications. Please try again.');
+      },
+    });
+  };
+
+  if (userLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  const thisDeviceSubscribed = !!deviceEndpoint
+    && !!subscriptions?.some(subscription => subscription.endpoint === deviceEndpoint);
+
+  return (
+    <div className="min-h-screen bg-neutral-50">
+      <header className="bg-white shadow-sm">
+        <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center space-x-4 py-4">
+            <Link href="/dashboard" className="text-sm text-neutral-600 hover:text-neutral-900">
+              &larr; Dashboard
+            </Link>
+            <h1 className="text-2xl font-bold text-neutral-900">Settings</h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <section className="bg-white rounded-lg shadow p-6">
+          <h2 className="text-lg font-semibold text-neutral-900">Notifications</h2>
+          <p className="mt-1 text-sm text-neutral-600">
+            Choose how and when we remind you about bills.
+          </p>
+
+          <div className="mt-6">
+            {preferencesLoading || !preferences ? (
+              <p className="text-sm text-neutral-600">Loading...</p>
+            ) : (
+              // Remount after saving so the form starts clean from the saved values
+              <NotificationPreferencesForm
+                key={preferencesUpdatedAt}
+                initialValues={preferencesToFormValues(preferences)}
+                submitting={savePreferences.isPending}
+                onSubmit={handleSavePreferences}
+              />
+            )}
+          </div>
+        </section>
+
+        <section className="bg-white rounded-lg shadow p-6">
+          <h2 className="text-lg font-semibold text-neutral-900">Push notifications</h2>
+          <p className="mt-1 text-sm text-neutral-600">
+            Get bill reminders and payment results on your phone or computer. Tapping a
+            notification opens the bill.
+          </p>
+
+          <div className="mt-6 flex items-center justify-between">
+            <div>
+              <p className="font-medium text-neutral-900">This device</p>
+              <p className="text-sm text-neutral-600">
+                {pushSupport && pushSupport !== 'supported'
+                  ? PUSH_SUPPORT_MESSAGES[pushSupport]
+                  : thisDeviceSubscribed ? 'On' : 'Off'}
+              </p>
+            </div>
+            {pushSupport === 'supported' && !thisDeviceSubscribed && (
+              <button
+                type="button"
+                onClick={handleEnable}
+                disabled={subscribeDevice.isPending}
+                className="py-2 px-4 text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 disabled:opacity-50"
+              >
+                Turn on
+              </button>
+            )}
+          </div>
+
+          <div className="mt-6 border-t border-neutral-200 pt-6">
+            <p className="font-medium text-neutral-900">Your devices</p>
+            {subscriptionsLoading ? (
+              <p className="mt-2 text-sm text-neutral-600">Loading...</p>
+            ) : !subscriptions || subscriptions.length === 0 ? (
+              <p className="mt-2 text-sm text-neutral-600">No devices get push notifications yet.</p>
+            ) : (
+              <ul className="mt-2 divide-y divide-neutral-200">
+                {subscriptions.map(subscription => {
+                  const name = subscription.device_name ?? 'Unknown device';
+                  return (
+                    <li key={subscription.id} className="flex items-center justify-between py-3">
+                      <div>
+                        <p className="text-neutral-900">
+                          {name}
+                          {subscription.endpoint === deviceEndpoint && (
+                            <span className="ml-2 text-xs text-neutral-500">(this device)</span>
+                          )}
+                        </p>
+                        <p className="text-sm text-neutral-600">
+                          Added {formatDate(subscription.created_at)}
+                          {subscription.last_used_at &&
+                            ` · last notified ${formatRelativeDate(subscription.last_used_at)}`}
+                        </p>
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => handleRemove(subscription.endpoint, name)}
+                        disabled={removeSubscription.isPending}
+                        className="text-sm font-medium text-danger-700 hover:text-danger-800 disabled:opacity-50"
+                      >
+                        Remove
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        </section>
+
+        <section className="bg-white rounded-lg shadow p-6 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold text-neutral-900">Account activity</h2>
+            <p className="mt-1 text-sm text-neutral-600">
+              See every change to your bills, payments and payment methods, and where it came from.
+            </p>
+          </div>
+          <Link
+            href="/activity"
+            className="ml-4 shrink-0 text-sm font-medium text-primary-600 hover:text-primary-700"
+          >
+            View
+          </Link>
+        </section>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,333 @@
+'use client';
+
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { format } from 'date-fns';
+import {
+  Bill,
+  NewBill,
+  BILL_CATEGORIES,
+  BILL_CURRENCIES,
+  BILL_FREQUENCIES,
+} from '@/src/database/repositories/bills';
+import { formatLabel } from '@/src/utils/format';
+
+const optionalNumber = (schema: z.ZodNumber) =>
+  z.preprocess(
+    value => (value === '' || value === null || value === undefined ? undefined : Number(value)),
+    schema.optional()
+  );
+
+export const billFormSchema = z
+  .object({
+    biller_name: z.string().trim().min(1, 'Please enter the biller name').max(255),
+    biller_category: z.enum(BILL_CATEGORIES),
+    amount: z.coerce
+      .number({ invalid_type_error: 'Please enter an amount' })
+      .positive('Amount must be greater than zero')
+      .max(99999999.99, 'Amount is too large'),
+    currency: z.enum(BILL_CURRENCIES),
+    due_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Please choose a due date'),
+    frequency: z.enum(BILL_FREQUENCIES),
+    auto_pay: z.boolean(),
+    reminder_days: optionalNumber(
+      z.number().int('Whole days only').min(0, 'Cannot be negative').max(30, 'At most 30 days')
+    ),
+    notes: z.string().max(1000).optional(),
+    recurrence_end_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).or(z.literal('')).optional(),
+    recurrence_count: optionalNumber(
+      z.number().int('Whole numbers only').min(1, 'At least 1').max(1000, 'At most 1000')
+    ),
+  })
+  .refine(values => !(values.recurrence_end_date && values.recurrence_count !== undefined), {
+    message: 'Choose an end date or a number of payments, not both',
+    path: ['recurrence_count'],
+  })
+  .refine(
+    values => !values.recurrence_end_date || values.recurrence_end_date >= values.due_date,
+    { message: 'End date must be on or after the due date', path: ['recurrence_end_date'] }
+  );
+
+export type BillFormValues = z.infer<typeof billFormSchema>;
+
+// Map stored bill values onto form fields
+export function billToFormValues(bill: Bill): BillFormValues {
+  return {
+    biller_name: bill.biller_name,
+    biller_category: bill.biller_category,
+    amount: bill.amount,
+    currency: bill.currency,
+    due_date: format(new Date(bill.due_date), 'yyyy-MM-dd'),
+    frequency: bill.frequency,
+    auto_pay: bill.auto_pay,
+    reminder_days: bill.reminder_days ?? undefined,
+    notes: bill.notes ?? '',
+    recurrence_end_date: bill.recurrence_end_date
+      ? format(new Date(bill.recurrence_end_date), 'yyyy-MM-dd')
+      : '',
+    recurrence_count: bill.recurrence_count,
+  };
+}
+
+// Map form fields onto the columns written by the repository
+export function formValuesToBill(
+  values: BillFormValues
+): Omit<NewBill, 'user_id' | 'status'> {
+  return {
+    biller_name: values.biller_name,
+    biller_category: values.biller_category,
+    amount: values.amount,
+    currency: values.currency,
+    due_date: new Date(values.due_date),
+    frequency: values.frequency,
+    auto_pay: values.auto_pay,
+    // Left empty, the bill follows the reminder days in the user's notification preferences
+    reminder_days: values.reminder_days ?? null,
+    ...(values.notes && { notes: values.notes }),
+    ...(values.frequency !== 'one_time' && values.recurrence_end_date && {
+      recurrence_end_date: new Date(values.recurrence_end_date),
+    }),
+    ...(values.frequency !== 'one_time' && values.recurrence_count !== undefined && {
+      recurrence_count: values.recurrence_count,
+    }),
+  };
+}
+
+const defaultValues: BillFormValues = {
+  biller_name: '',
+  biller_category: 'utilities',
+  amount: 0,
+  currency: 'GBP',
+  due_date: format(new Date(), 'yyyy-MM-dd'),
+  frequency: 'monthly',
+  auto_pay: false,
+  notes: '',
+  recurrence_end_date: '',
+};
+
+interface BillFormProps {
+  initialValues?: BillFormValues;
+  submitLabel: string;
+  submitting?: boolean;
+  error?: string;
+  onSubmit: (values: BillFormValues) => void;
+  onCancel?: () => void;
+}
+
+const inputClassName =
+  'appearance-none block w-full px-3 py-2 border border-neutral-300 rounded-md placeholder-neutral-500 text-neutral-900 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm';
+
+export function BillForm({
+  initialValues,
+  submitLabel,
+  submitting = false,
+  error,
+  onSubmit,
+  onCancel,
+}: BillFormProps) {
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors },
+  } = useForm<BillFormValues>({
+    resolver: zodResolver(billFormSchema),
+    defaultValues: initialValues ?? defaultValues,
+  });
+
+  const recurring = watch('frequency') !== 'one_time';
+
+  return (
+    <form className="space-y-6" onSubmit={handleSubmit(onSubmit)} noValidate>
+      <div>
+        <label htmlFor="biller_name" className="block text-sm font-medium text-neutral-700">
+          Biller name
+        </label>
+        <input
+          id="biller_name"
+          type="text"
+          placeholder="e.g. British Gas"
+          className={`mt-1 ${inputClassName}`}
+          {...register('biller_name')}
+        />
+        {errors.biller_name && (
+          <p className="mt-1 text-sm text-danger-700">{errors.biller_name.message}</p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+        <div>
+          <label htmlFor="biller_category" className="block text-sm font-medium text-neutral-700">
+            Category
+          </label>
+          <select id="biller_category" className={`mt-1 ${inputClassName}`} {...register('biller_category')}>
+            {BILL_CATEGORIES.map(category => (
+              <option key={category} value={category}>
+                {formatLabel(category)}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="frequency" className="block text-sm font-medium text-neutral-700">
+            Frequency
+          </label>
+          <select id="frequency" className={`mt-1 ${inputClassName}`} {...register('frequency')}>
+            {BILL_FREQUENCIES.map(frequency => (
+              <option key={frequency} value={frequency}>
+                {formatLabel(frequency)}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-6">
+        <div className="sm:col-span-2">
+          <label htmlFor="amount" className="block text-sm font-medium text-neutral-700">
+            Amount
+          </label>
+          <input
+            id="amount"
+            type="number"
+            step="0.01"
+            min="0"
+            className={`mt-1 ${inputClassName}`}
+            {...register('amount')}
+          />
+          {errors.amount && (
+            <p className="mt-1 text-sm text-danger-700">{errors.amount.message}</p>
+          )}
+        </div>
+
+        <div>
+          <label htmlFor="currency" className="block text-sm font-medium text-neutral-700">
+            Currency
+          </label>
+          <select id="currency" className={`mt-1 ${inputClassName}`} {...register('currency')}>
+            {BILL_CURRENCIES.map(currency => (
+              <option key={currency} value={currency}>
+                {currency}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+        <div>
+          <label htmlFor="due_date" className="block text-sm font-medium text-neutral-700">
+            Due date
+          </label>
+          <input id="due_date" type="date" className={`mt-1 ${inputClassName}`} {...register('due_date')} />
+          {errors.due_date && (
+            <p className="mt-1 text-sm text-danger-700">{errors.due_date.message}</p>
+          )}
+        </div>
+
+        <div>
+          <label htmlFor="reminder_days" className="block text-sm font-medium text-neutral-700">
+            Remind me (days before)
+          </label>
+          <input
+            id="reminder_days"
+            type="number"
+            min="0"
+            max="30"
+            placeholder="Your default"
+            className={`mt-1 ${inputClassName}`}
+            {...register('reminder_days')}
+          />
+          {errors.reminder_days && (
+            <p className="mt-1 text-sm text-danger-700">{errors.reminder_days.message}</p>
+          )}
+        </div>
+      </div>
+
+      {recurring && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+          <div>
+            <label htmlFor="recurrence_end_date" className="block text-sm font-medium text-neutral-700">
+              Last payment on or before
+            </label>
+            <input
+              id="recurrence_end_date"
+              type="date"
+              className={`mt-1 ${inputClassName}`}
+              {...register('recurrence_end_date')}
+            />
+            {errors.recurrence_end_date && (
+              <p className="mt-1 text-sm text-danger-700">{errors.recurrence_end_date.message}</p>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="recurrence_count" className="block text-sm font-medium text-neutral-700">
+              Number of payments
+            </label>
+            <input
+              id="recurrence_count"
+              type="number"
+              min="1"
+              placeholder="No limit"
+              className={`mt-1 ${inputClassName}`}
+              {...register('recurrence_count')}
+            />
+            {errors.recurrence_count && (
+              <p className="mt-1 text-sm text-danger-700">{errors.recurrence_count.message}</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center">
+        <input
+          id="auto_pay"
+          type="checkbox"
+          className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-neutral-300 rounded"
+          {...register('auto_pay')}
+        />
+        <label htmlFor="auto_pay" className="ml-2 block text-sm text-neutral-900">
+          Pay automatically on the due date
+        </label>
+      </div>
+
+      <div>
+        <label htmlFor="notes" className="block text-sm font-medium text-neutral-700">
+          Notes
+        </label>
+        <textarea id="notes" rows={3} className={`mt-1 ${inputClassName}`} {...register('notes')} />
+        {errors.notes && (
+          <p className="mt-1 text-sm text-danger-700">{errors.notes.message}</p>
+        )}
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-danger-50 p-4">
+          <p className="text-sm font-medium text-danger-700">{error}</p>
+        </div>
+      )}
+
+      <div className="flex justify-end space-x-3">
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="py-2 px-4 border border-neutral-300 text-sm font-medium rounded-md text-neutral-700 bg-white hover:bg-neutral-50"
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={submitting}
+          className="py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {submitting ? 'Saving...' : submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+}
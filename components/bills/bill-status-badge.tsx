@@ -0,0 +1,20 @@
+import { Bill } from '@/src/database/repositories/bills';
+import { formatLabel } from '@/src/utils/format';
+
+const statusClassNames: Record<Bill['status'], string> = {
+  pending: 'bg-warning-50 text-warning-700',
+  scheduled: 'bg-primary-50 text-primary-700',
+  processing: 'bg-primary-50 text-primary-700',
+  paid: 'bg-success-50 text-success-700',
+  failed: 'bg-danger-50 text-danger-700',
+  cancelled: 'bg-neutral-100 text-neutral-600',
+  overdue: 'bg-danger-50 text-danger-700',
+};
+
+export function BillStatusBadge({ status }: { status: Bill['status'] }) {
+  return (
+    <span className={`badge ${statusClassNames[status]}`}>
+      {formatLabel(status)}
+    </span>
+  );
+}
@@ -0,0 +1,51 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+
+interface LoadMoreProps {
+  hasMore: boolean;
+  isLoading: boolean;
+  onLoadMore: () => void;
+}
+
+// Foot of an infinite list: loads the next page when it scrolls into view, with a button
+// for when it doesn't (e.g. the page is taller than the list)
+export function LoadMore({ hasMore, isLoading, onLoadMore }: LoadMoreProps) {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || !hasMore || isLoading) {
+      return;
+    }
+
+    const observer = new IntersectionObserver(
+      entries => {
+        if (entries.some(entry => entry.isIntersecting)) {
+          onLoadMore();
+        }
+      },
+      { rootMargin: '200px' }
+    );
+    observer.observe(element);
+
+    return () => observer.disconnect();
+  }, [hasMore, isLoading, onLoadMore]);
+
+  if (!hasMore) {
+    return null;
+  }
+
+  return (
+    <div ref={ref} className="flex justify-center px-6 py-4 border-t border-neutral-100">
+      <button
+        type="button"
+        onClick={onLoadMore}
+        disabled={isLoading}
+        className="py-1 px-3 border border-neutral-300 text-sm rounded-md text-neutral-700 bg-white hover:bg-neutral-50 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isLoading ? 'Loading…' : 'Load more'}
+      </button>
+    </div>
+  );
+}
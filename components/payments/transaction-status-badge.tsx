@@ -0,0 +1,18 @@
+import { Transaction } from '@/src/database/repositories/transactions';
+import { formatLabel } from '@/src/utils/format';
+
+const statusClassNames: Record<Transaction['status'], string> = {
+  pending: 'bg-warning-50 text-warning-700',
+  processing: 'bg-primary-50 text-primary-700',
+  completed: 'bg-success-50 text-success-700',
+  failed: 'bg-danger-50 text-danger-700',
+  refunded: 'bg-neutral-100 text-neutral-600',
+};
+
+export function TransactionStatusBadge({ status }: { status: Transaction['status'] }) {
+  return (
+    <span className={`badge ${statusClassNames[status]}`}>
+      {formatLabel(status)}
+    </span>
+  );
+}
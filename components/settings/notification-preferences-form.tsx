@@ -0,0 +1,266 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  DELIVERY_MODES,
+  NotificationPreferenceValues,
+} from '@/src/database/repositories/notification-preferences';
+import { isValidTimeZone } from '@/src/utils/quiet-hours';
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Please choose a time');
+
+export const notificationPreferencesFormSchema = z
+  .object({
+    email_enabled: z.boolean(),
+    sms_enabled: z.boolean(),
+    push_enabled: z.boolean(),
+    reminder_days: z.coerce
+      .number({ invalid_type_error: 'Please enter a number of days' })
+      .int('Whole days only')
+      .min(0, 'Cannot be negative')
+      .max(30, 'At most 30 days'),
+    quiet_hours_enabled: z.boolean(),
+    quiet_hours_start: timeOfDay.or(z.literal('')),
+    quiet_hours_end: timeOfDay.or(z.literal('')),
+    timezone: z.string().refine(isValidTimeZone, 'Please choose a time zone'),
+    delivery_mode: z.enum(DELIVERY_MODES),
+  })
+  .refine(values => !values.quiet_hours_enabled || values.quiet_hours_start, {
+    message: 'Please choose a start time',
+    path: ['quiet_hours_start'],
+  })
+  .refine(values => !values.quiet_hours_enabled || values.quiet_hours_end, {
+    message: 'Please choose an end time',
+    path: ['quiet_hours_end'],
+  })
+  .refine(
+    values => !values.quiet_hours_enabled || values.quiet_hours_start !== values.quiet_hours_end,
+    { message: 'Start and end must be different', path: ['quiet_hours_end'] }
+  );
+
+export type NotificationPreferencesFormValues = z.infer<typeof notificationPreferencesFormSchema>;
+
+// Map stored preferences onto form fields
+export function preferencesToFormValues(
+  preferences: NotificationPreferenceValues
+): NotificationPreferencesFormValues {
+  return {
+    email_enabled: preferences.email_enabled,
+    sms_enabled: preferences.sms_enabled,
+    push_enabled: preferences.push_enabled,
+    reminder_days: preferences.reminder_days,
+    quiet_hours_enabled: !!preferences.quiet_hours_start && !!preferences.quiet_hours_end,
+    quiet_hours_start: preferences.quiet_hours_start ?? '',
+    quiet_hours_end: preferences.quiet_hours_end ?? '',
+    timezone: preferences.timezone,
+    delivery_mode: preferences.delivery_mode,
+  };
+}
+
+// Map form fields onto the stored preferences
+export function formValuesToPreferences(
+  values: NotificationPreferencesFormValues
+): NotificationPreferenceValues {
+  return {
+    email_enabled: values.email_enabled,
+    sms_enabled: values.sms_enabled,
+    push_enabled: values.push_enabled,
+    reminder_days: values.reminder_days,
+    quiet_hours_start: values.quiet_hours_enabled ? values.quiet_hours_start : null,
+    quiet_hours_end: values.quiet_hours_enabled ? values.quiet_hours_end : null,
+    timezone: values.timezone,
+    delivery_mode: values.delivery_mode,
+  };
+}
+
+// Every zone the browser knows, falling back to the saved one
+function timeZoneOptions(current: string): string[] {
+  const zones = typeof Intl.supportedValuesOf === 'function'
+    ? Intl.supportedValuesOf('timeZone')
+    : [DEFAULT_NOTIFICATION_PREFERENCES.timezone];
+  return zones.includes(current) ? zones : [current, ...zones];
+}
+
+const CHANNELS: Array<{
+  field: 'email_enabled' | 'sms_enabled' | 'push_enabled';
+  label: string;
+  hint: string;
+}> = [
+  { field: 'email_enabled', label: 'Email', hint: 'Sent to the email address you sign in with.' },
+  { field: 'sms_enabled', label: 'Text message', hint: 'Sent to the mobile number on your profile.' },
+  { field: 'push_enabled', label: 'Push notifications', hint: 'Sent to the devices listed below.' },
+];
+
+const DELIVERY_MODE_LABELS: Record<NotificationPreferenceValues['delivery_mode'], [string, string]> = {
+  instant: ['As they happen', 'A message for each reminder and overdue bill.'],
+  digest: ['In a digest', 'A weekly email of what is due and overdue, plus a monthly spending recap.'],
+};
+
+interface NotificationPreferencesFormProps {
+  initialValues: NotificationPreferencesFormValues;
+  submitting?: boolean;
+  onSubmit: (values: NotificationPreferencesFormValues) => void;
+}
+
+const inputClassName =
+  'appearance-none block w-full px-3 py-2 border border-neutral-300 rounded-md placeholder-neutral-500 text-neutral-900 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm';
+
+const checkboxClassName = 'h-4 w-4 text-primary-600 focus:ring-primary-500 border-neutral-300 rounded';
+
+export function NotificationPreferencesForm({
+  initialValues,
+  submitting = false,
+  onSubmit,
+}: NotificationPreferencesFormProps) {
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors, isDirty },
+  } = useForm<NotificationPreferencesFormValues>({
+    resolver: zodResolver(notificationPreferencesFormSchema),
+    defaultValues: initialValues,
+  });
+
+  const quietHoursEnabled = watch('quiet_hours_enabled');
+  const timeZones = useMemo(() => timeZoneOptions(initialValues.timezone), [initialValues.timezone]);
+
+  return (
+    <form className="space-y-6" onSubmit={handleSubmit(onSubmit)} noValidate>
+      <fieldset>
+        <legend className="block text-sm font-medium text-neutral-700">Send me notifications by</legend>
+        <div className="mt-2 space-y-3">
+          {CHANNELS.map(({ field, label, hint }) => (
+            <div key={field} className="flex items-start">
+              <input id={field} type="checkbox" className={`mt-0.5 ${checkboxClassName}`} {...register(field)} />
+              <label htmlFor={field} className="ml-2 block text-sm">
+                <span className="text-neutral-900">{label}</span>
+                <span className="block text-neutral-600">{hint}</span>
+              </label>
+            </div>
+          ))}
+        </div>
+      </fieldset>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+        <div>
+          <label htmlFor="reminder_days" className="block text-sm font-medium text-neutral-700">
+            Remind me (days before)
+          </label>
+          <input
+            id="reminder_days"
+            type="number"
+            min="0"
+            max="30"
+            className={`mt-1 ${inputClassName}`}
+            {...register('reminder_days')}
+          />
+          <p className="mt-1 text-sm text-neutral-600">Bills with their own reminder keep it.</p>
+          {errors.reminder_days && (
+            <p className="mt-1 text-sm text-danger-700">{errors.reminder_days.message}</p>
+          )}
+        </div>
+
+        <div>
+          <label htmlFor="timezone" className="block text-sm font-medium text-neutral-700">
+            Time zone
+          </label>
+          <select id="timezone" className={`mt-1 ${inputClassName}`} {...register('timezone')}>
+            {timeZones.map(zone => (
+              <option key={zone} value={zone}>
+                {zone.replace(/_/g, ' ')}
+              </option>
+            ))}
+          </select>
+          {errors.timezone && (
+            <p className="mt-1 text-sm text-danger-700">{errors.timezone.message}</p>
+          )}
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center">
+          <input
+            id="quiet_hours_enabled"
+            type="checkbox"
+            className={checkboxClassName}
+            {...register('quiet_hours_enabled')}
+          />
+          <label htmlFor="quiet_hours_enabled" className="ml-2 block text-sm text-neutral-900">
+            Hold texts and push notifications during quiet hours
+          </label>
+        </div>
+
+        {quietHoursEnabled && (
+          <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-6">
+            <div>
+              <label htmlFor="quiet_hours_start" className="block text-sm font-medium text-neutral-700">
+                From
+              </label>
+              <input
+                id="quiet_hours_start"
+                type="time"
+                className={`mt-1 ${inputClassName}`}
+                {...register('quiet_hours_start')}
+              />
+              {errors.quiet_hours_start && (
+                <p className="mt-1 text-sm text-danger-700">{errors.quiet_hours_start.message}</p>
+              )}
+            </div>
+
+            <div>
+              <label htmlFor="quiet_hours_end" className="block text-sm font-medium text-neutral-700">
+                Until
+              </label>
+              <input
+                id="quiet_hours_end"
+                type="time"
+                className={`mt-1 ${inputClassName}`}
+                {...register('quiet_hours_end')}
+              />
+              {errors.quiet_hours_end && (
+                <p className="mt-1 text-sm text-danger-700">{errors.quiet_hours_end.message}</p>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <fieldset>
+        <legend className="block text-sm font-medium text-neutral-700">Reminders and overdue bills</legend>
+        <div className="mt-2 space-y-3">
+          {DELIVERY_MODES.map(mode => (
+            <div key={mode} className="flex items-start">
+              <input
+                id={`delivery_mode_${mode}`}
+                type="radio"
+                value={mode}
+                className="mt-0.5 h-4 w-4 text-primary-600 focus:ring-primary-500 border-neutral-300"
+                {...register('delivery_mode')}
+              />
+              <label htmlFor={`delivery_mode_${mode}`} className="ml-2 block text-sm">
+                <span className="text-neutral-900">{DELIVERY_MODE_LABELS[mode][0]}</span>
+                <span className="block text-neutral-600">{DELIVERY_MODE_LABELS[mode][1]}</span>
+              </label>
+            </div>
+          ))}
+        </div>
+        <p className="mt-2 text-sm text-neutral-600">Payment results are always sent straight away.</p>
+      </fieldset>
+
+      <div className="flex justify-end">
+        <button
+          type="submit"
+          disabled={submitting || !isDirty}
+          className="py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {submitting ? 'Saving...' : 'Save preferences'}
+        </button>
+      </div>
+    </form>
+  );
+}
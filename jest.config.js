@@ -0,0 +1,19 @@
+// Tests sit next to the code they cover as *.test.ts, including the Next.js route handlers
+// under app. Shared helpers, such as the in-process Postgres, live in src/test.
+/** @type {import('jest').Config} */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src', '<rootDir>/app'],
+  testMatch: ['**/*.test.ts'],
+  setupFiles: ['<rootDir>/src/test/env.ts'],
+  // tsconfig sets isolatedModules, so ts-jest only transpiles; `npx tsc --noEmit` type-checks
+  transform: {
+    '^.+\\.ts$': 'ts-jest',
+  },
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/$1',
+  },
+  // Each database test file starts its own Postgres; one at a time keeps memory in check
+  maxWorkers: 1,
+  testTimeout: 30000,
+};
@@ -0,0 +1,138 @@
+// Route handler helpers matching the Express middleware in src/middleware: withAuth for
+// the signed-in Supabase user (withRole to also require a role), Zod validation of body,
+// query and params, and errors returned as the same JSON as errorHandler. Changes made
+// under withAuth are attributed to the user in the audit trail.
+import { NextRequest, NextResponse } from 'next/server';
+import type { SupabaseClient, User } from '@supabase/supabase-js';
+import { ZodError, ZodSchema, z } from 'zod';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { createClient } from '@/lib/supabase/server';
+import { config } from '@/src/config';
+import { toErrorResponse, toValidationError } from '@/src/middleware/errorResponse';
+import { ProfileRepository, UserRole } from '@/src/database/repositories/profiles';
+import { AuditService, createAuditService, withAuditContext } from '@/src/services/audit';
+import { AuthenticationError, AuthorizationError, ValidationError, unwrap } from '@/src/utils/errors';
+import { logger } from '@/src/utils/logger';
+
+// Dynamic segments, e.g. { id } for app/api/bills/[id]
+export interface RouteContext {
+  params: Record<string, string | string[]>;
+}
+
+export type RouteHandler = (request: NextRequest, context: RouteContext) => Promise<Response>;
+
+export interface AuthContext extends RouteContext {
+  user: User;
+  // Acts as the user, so row level security applies
+  supabase: SupabaseClient;
+  // Give to repositories whose changes should be audited. Writes with the service role,
+  // as users cannot write audit_logs themselves.
+  audit: AuditService;
+}
+
+export interface RoleContext extends AuthContext {
+  role: UserRole;
+}
+
+// The JSON error response errorHandler would send
+export function errorResponse(error: unknown, request: NextRequest): NextResponse {
+  const err = error instanceof Error ? error : new Error(String(error));
+  const { statusCode, body } = toErrorResponse(err, config.get().NODE_ENV === 'development');
+
+  logger.error('Request error', err, {
+    statusCode,
+    path: request.nextUrl.pathname,
+    method: request.method,
+    userAgent: request.headers.get('user-agent') ?? undefined,
+  });
+
+  return NextResponse.json(body, { status: statusCode });
+}
+
+// Turn anything the handler throws into an error response
+export function handleErrors(handler: RouteHandler): RouteHandler {
+  return async (request, context) => {
+    try {
+      return await handler(request, context);
+    } catch (error) {
+      return errorResponse(error, request);
+    }
+  };
+}
+
+// Run the handler for the signed-in user, or respond 401
+export function withAuth(
+  handler: (request: NextRequest, context: AuthContext) => Promise<Response>
+): RouteHandler {
+  return handleErrors(async (request, context) => {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new AuthenticationError('Authentication required');
+    }
+
+    const audit = createAuditService(createAdminClient());
+    return withAuditContext({ actorId: user.id, ...clientInfo(request) }, () =>
+      handler(request, { ...context, user, supabase, audit })
+    );
+  });
+}
+
+// Run the handler for a signed-in user with one of the roles (from their profile),
+// otherwise respond 401 or 403
+export function withRole(
+  roles: UserRole[],
+  handler: (request: NextRequest, context: RoleContext) => Promise<Response>
+): RouteHandler {
+  return withAuth(async (request, context) => {
+    const profile = unwrap(await new ProfileRepository(context.supabase).findById(context.user.id));
+    if (!profile || !roles.includes(profile.role)) {
+      throw new AuthorizationError(`Access denied. Required roles: ${roles.join(', ')}`);
+    }
+
+    return handler(request, { ...context, role: profile.role });
+  });
+}
+
+// Where the request came from, for audit records
+export function clientInfo(request: NextRequest): { ipAddress?: string; userAgent?: string } {
+  const ipAddress = request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || request.ip;
+  const userAgent = request.headers.get('user-agent');
+  return {
+    ...(ipAddress && { ipAddress }),
+    ...(userAgent && { userAgent }),
+  };
+}
+
+async function parse<S extends ZodSchema>(schema: S, input: unknown, message: string): Promise<z.output<S>> {
+  try {
+    return await schema.parseAsync(input);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      throw toValidationError(message, error);
+    }
+    throw error;
+  }
+}
+
+// The JSON body, parsed with the schema
+export async function validateBody<S extends ZodSchema>(request: NextRequest, schema: S): Promise<z.output<S>> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    throw new ValidationError('Request body must be JSON');
+  }
+  return parse(schema, body, 'Request body validation failed');
+}
+
+// The query string, parsed with the schema (repeated keys keep their last value)
+export function validateQuery<S extends ZodSchema>(request: NextRequest, schema: S): Promise<z.output<S>> {
+  return parse(schema, Object.fromEntries(request.nextUrl.searchParams), 'Query parameters validation failed');
+}
+
+// The dynamic segments, parsed with the schema
+export function validateParams<S extends ZodSchema>(context: RouteContext, schema: S): Promise<z.output<S>> {
+  return parse(schema, context.params, 'URL parameters validation failed');
+}
@@ -0,0 +1,81 @@
+// Browser side of web push: the service worker registration next-pwa sets up, and this
+// device's subscription to it
+
+export type PushSupport = 'supported' | 'unsupported' | 'denied' | 'not_configured';
+
+const vapidPublicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+
+export function getPushSupport(): PushSupport {
+  if (typeof window === 'undefined' || !('serviceWorker' in navigator) || !('PushManager' in window)) {
+    return 'unsupported';
+  }
+  if (!vapidPublicKey) {
+    return 'not_configured';
+  }
+  return Notification.permission === 'denied' ? 'denied' : 'supported';
+}
+
+// This browser's current subscription, if it has one
+export async function getDeviceSubscription(): Promise<PushSubscription | null> {
+  if (getPushSupport() === 'unsupported') {
+    return null;
+  }
+  const registration = await navigator.serviceWorker.getRegistration();
+  return registration ? registration.pushManager.getSubscription() : null;
+}
+
+// Ask for permission, subscribe this browser and save the subscription for the signed-in user
+export async function subscribeDevice(): Promise<PushSubscription> {
+  if (getPushSupport() !== 'supported') {
+    throw new Error('Push notifications are not available in this browser');
+  }
+  if ((await Notification.requestPermission()) !== 'granted') {
+    throw new Error('Notification permission was not granted');
+  }
+
+  const registration = await navigator.serviceWorker.ready;
+  const subscription = await registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: base64UrlToUint8Array(vapidPublicKey!),
+  });
+
+  const response = await fetch('/api/push/subscriptions', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...subscription.toJSON(), deviceName: describeDevice(navigator.userAgent) }),
+  });
+  if (!response.ok) {
+    await subscription.unsubscribe();
+    throw new Error('Could not save the push subscription');
+  }
+
+  return subscription;
+}
+
+// e.g. 'Chrome on Android'; good enough to tell a user's devices apart in settings
+export function describeDevice(userAgent: string): string {
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge'
+      : /Firefox\//.test(userAgent) ? 'Firefox'
+        : /Chrome\//.test(userAgent) ? 'Chrome'
+          : /Safari\//.test(userAgent) ? 'Safari'
+            : 'Browser';
+  const os =
+    /Android/.test(userAgent) ? 'Android'
+      : /iPhone|iPad/.test(userAgent) ? 'iOS'
+        : /Mac OS X/.test(userAgent) ? 'macOS'
+          : /Windows/.test(userAgent) ? 'Windows'
+            : /Linux/.test(userAgent) ? 'Linux'
+              : 'unknown device';
+  return `${browser} on ${os}`;
+}
+
+function base64UrlToUint8Array(value: string) {
+  const base64 = (value + '='.repeat((4 - (value.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = atob(base64);
+  const bytes = new Uint8Array(raw.length);
+  for (let i = 0; i < raw.length; i++) {
+    bytes[i] = raw.charCodeAt(i);
+  }
+  return bytes;
+}
@@ -0,0 +1,29 @@
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { createClient } from '@/lib/supabase/client';
+import { AuditLogRepository } from '@/src/database/repositories/audit-logs';
+import { unwrap } from '@/src/utils/errors';
+
+export const ACTIVITY_PAGE_SIZE = 20;
+
+export const activityKeys = {
+  all: ['activity'] as const,
+  page: (userId: string, page: number) => [...activityKeys.all, userId, page] as const,
+};
+
+// One page of the user's account activity, newest first. The account_activity view only
+// returns entries about the user's own account, without staff members' IP addresses.
+export function useAccountActivity(userId: string | undefined, page: number = 1) {
+  return useQuery({
+    queryKey: activityKeys.page(userId ?? '', page),
+    enabled: !!userId,
+    placeholderData: keepPreviousData,
+    queryFn: async () =>
+      unwrap(
+        await new AuditLogRepository(createClient()).findAccountActivity(
+          userId!,
+          page,
+          ACTIVITY_PAGE_SIZE
+        )
+      ),
+  });
+}
@@ -0,0 +1,89 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { Profile } from '@/src/database/repositories/profiles';
+import type { RefundOutcome, UserOverview } from '@/src/services/admin';
+import type { BillPaymentOutcome } from '@/src/services/bill-payment';
+import type { ResendOutcome } from '@/src/services/notifications';
+
+export const adminKeys = {
+  all: ['admin'] as const,
+  search: (query: string) => [...adminKeys.all, 'search', query] as const,
+  user: (userId: string) => [...adminKeys.all, 'user', userId] as const,
+};
+
+// Error returned by the admin API, e.g. 403 for users who are not staff
+export class AdminApiError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'AdminApiError';
+  }
+}
+
+// The admin routes need the service role, so they go through /api/admin rather than
+// the browser Supabase client
+async function adminRequest<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(`/api/admin${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init.headers },
+  });
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new AdminApiError(body?.error?.message ?? 'Request failed', response.status);
+  }
+  return body.data as T;
+}
+
+export function useUserSearch(query: string) {
+  return useQuery({
+    queryKey: adminKeys.search(query),
+    enabled: query.trim().length >= 3,
+    retry: false,
+    queryFn: () => adminRequest<Profile[]>(`/users?q=${encodeURIComponent(query.trim())}`),
+  });
+}
+
+export function useUserOverview(userId: string) {
+  return useQuery({
+    queryKey: adminKeys.user(userId),
+    retry: false,
+    queryFn: () => adminRequest<UserOverview>(`/users/${userId}`),
+  });
+}
+
+export function useRetryPayment(userId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (transactionId: string) =>
+      adminRequest<BillPaymentOutcome>(`/transactions/${transactionId}/retry`, { method: 'POST' }),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: adminKeys.user(userId) });
+    },
+  });
+}
+
+export function useRefundPayment(userId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ transactionId, amount }: { transactionId: string; amount?: number }) =>
+      adminRequest<RefundOutcome>(`/transactions/${transactionId}/refund`, {
+        method: 'POST',
+        body: JSON.stringify(amount === undefined ? {} : { amount }),
+      }),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: adminKeys.user(userId) });
+    },
+  });
+}
+
+export function useResendNotification(userId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (notificationId: string) =>
+      adminRequest<ResendOutcome>(`/notifications/${notificationId}/resend`, { method: 'POST' }),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: adminKeys.user(userId) });
+    },
+  });
+}
@@ -0,0 +1,21 @@
+import { useQuery } from '@tanstack/react-query';
+import { createClient } from '@/lib/supabase/client';
+
+export const userKeys = {
+  current: ['user', 'current'] as const,
+};
+
+// Currently signed-in Supabase user (protected routes guarantee a session)
+export function useCurrentUser() {
+  return useQuery({
+    queryKey: userKeys.current,
+    queryFn: async () => {
+      const { data: { user }, error } = await createClient().auth.getUser();
+      if (error) {
+        throw error;
+      }
+      return user;
+    },
+    staleTime: Infinity,
+  });
+}
@@ -0,0 +1,161 @@
+import { useEffect } from 'react';
+import {
+  keepPreviousData,
+  useInfiniteQuery,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from '@tanstack/react-query';
+import { endOfMonth, startOfMonth } from 'date-fns';
+import { createClient } from '@/lib/supabase/client';
+import {
+  Bill,
+  BillListFilters,
+  BillRepository,
+  DashboardStats,
+  NewBill,
+  SpendingSummary,
+} from '@/src/database/repositories/bills';
+import { unwrap } from '@/src/utils/errors';
+
+export type BillFilters = BillListFilters;
+
+export const BILLS_PAGE_SIZE = 20;
+
+export interface DashboardData {
+  stats: DashboardStats;
+  summary: SpendingSummary;
+  monthlySummary: SpendingSummary;
+  upcoming: Bill[];
+  overdue: Bill[];
+}
+
+export const billKeys = {
+  all: ['bills'] as const,
+  lists: () => [...billKeys.all, 'list'] as const,
+  list: (userId: string, filters: BillFilters) => [...billKeys.lists(), userId, filters] as const,
+  details: () => [...billKeys.all, 'detail'] as const,
+  detail: (id: string) => [...billKeys.details(), id] as const,
+  dashboards: () => [...billKeys.all, 'dashboard'] as const,
+  dashboard: (userId: string) => [...billKeys.dashboards(), userId] as const,
+};
+
+function getBillRepository(): BillRepository {
+  return new BillRepository(createClient());
+}
+
+// A user's bills, soonest due first, a page at a time; fetchNextPage loads the next page.
+// Keeps showing the current list while a filter change loads.
+export function useBills(userId: string | undefined, filters: BillFilters = {}) {
+  return useInfiniteQuery({
+    queryKey: billKeys.list(userId ?? '', filters),
+    enabled: !!userId,
+    placeholderData: keepPreviousData,
+    initialPageParam: null as string | null,
+    queryFn: async ({ pageParam }) =>
+      unwrap(
+        await getBillRepository().findByCursorForUser(userId!, filters, pageParam, BILLS_PAGE_SIZE)
+      ),
+    getNextPageParam: lastPage => lastPage.nextCursor,
+  });
+}
+
+export function useBill(id: string) {
+  return useQuery({
+    queryKey: billKeys.detail(id),
+    queryFn: async () => unwrap(await getBillRepository().findByIdOrThrow(id)),
+  });
+}
+
+// Everything the dashboard shows, fetched in parallel
+export function useDashboard(userId: string | undefined) {
+  return useQuery({
+    queryKey: billKeys.dashboard(userId ?? ''),
+    enabled: !!userId,
+    queryFn: async (): Promise<DashboardData> => {
+      const repository = getBillRepository();
+      const now = new Date();
+
+      const [stats, summary, monthlySummary, upcoming, overdue] = await Promise.all([
+        repository.getDashboardStats(userId!),
+        repository.getSpendingSummary(userId!),
+        repository.getSpendingSummary(userId!, startOfMonth(now), endOfMonth(now)),
+        repository.findUpcomingForUser(userId!, 30),
+        repository.findOverdueForUser(userId!),
+      ]);
+
+      return {
+        stats: unwrap(stats),
+        summary: unwrap(summary),
+        monthlySummary: unwrap(monthlySummary),
+        upcoming: unwrap(upcoming),
+        overdue: unwrap(overdue),
+      };
+    },
+  });
+}
+
+// Refetch bill queries when the user's bills change elsewhere (other tabs, payments, webhooks)
+export function useBillChanges(userId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!userId) {
+      return;
+    }
+
+    const supabase = createClient();
+    const channel = supabase
+      .channel(`bills:${userId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'bills', filter: `user_id=eq.${userId}` },
+        () => {
+          queryClient.invalidateQueries({ queryKey: billKeys.all });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, queryClient]);
+}
+
+export function useCreateBill() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (bill: NewBill) => unwrap(await getBillRepository().create(bill)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: billKeys.all });
+    },
+  });
+}
+
+export function useUpdateBill(id: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (updates: Partial<NewBill>) =>
+      unwrap(await getBillRepository().update(id, updates)),
+    onSuccess: bill => {
+      queryClient.setQueryData(billKeys.detail(id), bill);
+      queryClient.invalidateQueries({ queryKey: billKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: billKeys.dashboards() });
+    },
+  });
+}
+
+export function useDeleteBill() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => unwrap(await getBillRepository().softDelete(id)),
+    onSuccess: (_bill, id) => {
+      queryClient.removeQueries({ queryKey: billKeys.detail(id) });
+      queryClient.invalidateQueries({ queryKey: billKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: billKeys.dashboards() });
+    },
+  });
+}
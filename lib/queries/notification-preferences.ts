@@ -0,0 +1,37 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { createClient } from '@/lib/supabase/client';
+import {
+  NotificationPreferenceRepository,
+  NotificationPreferenceValues,
+} from '@/src/database/repositories/notification-preferences';
+import { unwrap } from '@/src/utils/errors';
+
+export const notificationPreferenceKeys = {
+  all: ['notification-preferences'] as const,
+  detail: (userId: string) => [...notificationPreferenceKeys.all, userId] as const,
+};
+
+function getNotificationPreferenceRepository(): NotificationPreferenceRepository {
+  return new NotificationPreferenceRepository(createClient());
+}
+
+// The user's notification preferences (defaults until they save their own)
+export function useNotificationPreferences(userId: string | undefined) {
+  return useQuery({
+    queryKey: notificationPreferenceKeys.detail(userId ?? ''),
+    enabled: !!userId,
+    queryFn: async () => unwrap(await getNotificationPreferenceRepository().findForUser(userId!)),
+  });
+}
+
+export function useSaveNotificationPreferences(userId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (values: NotificationPreferenceValues) =>
+      unwrap(await getNotificationPreferenceRepository().save(userId, values)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: notificationPreferenceKeys.detail(userId) });
+    },
+  });
+}
@@ -0,0 +1,61 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { createClient } from '@/lib/supabase/client';
+import { getDeviceSubscription, subscribeDevice } from '@/lib/push';
+import { PushSubscriptionRepository } from '@/src/database/repositories/push-subscriptions';
+import { unwrap } from '@/src/utils/errors';
+
+export const pushSubscriptionKeys = {
+  all: ['push-subscriptions'] as const,
+  list: (userId: string) => [...pushSubscriptionKeys.all, 'list', userId] as const,
+  device: () => [...pushSubscriptionKeys.all, 'device'] as const,
+};
+
+function getPushSubscriptionRepository(): PushSubscriptionRepository {
+  return new PushSubscriptionRepository(createClient());
+}
+
+// Devices the user gets push notifications on
+export function usePushSubscriptions(userId: string | undefined) {
+  return useQuery({
+    queryKey: pushSubscriptionKeys.list(userId ?? ''),
+    enabled: !!userId,
+    queryFn: async () => unwrap(await getPushSubscriptionRepository().findByUserId(userId!)),
+  });
+}
+
+// Endpoint this browser is subscribed with, or null
+export function useDevicePushEndpoint() {
+  return useQuery({
+    queryKey: pushSubscriptionKeys.device(),
+    queryFn: async () => (await getDeviceSubscription())?.endpoint ?? null,
+  });
+}
+
+export function useSubscribeDevice() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: subscribeDevice,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: pushSubscriptionKeys.all });
+    },
+  });
+}
+
+// Stop push on a device. For this browser the subscription itself is cancelled too.
+export function useRemovePushSubscription() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (endpoint: string) => {
+      const device = await getDeviceSubscription();
+      if (device?.endpoint === endpoint) {
+        await device.unsubscribe();
+      }
+      unwrap(await getPushSubscriptionRepository().removeByEndpoints([endpoint]));
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: pushSubscriptionKeys.all });
+    },
+  });
+}
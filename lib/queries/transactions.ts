@@ -0,0 +1,65 @@
+import { keepPreviousData, useInfiniteQuery, useQuery } from '@tanstack/react-query';
+import { createClient } from '@/lib/supabase/client';
+import {
+  TransactionFilters,
+  TransactionRepository,
+} from '@/src/database/repositories/transactions';
+import { NotFoundError, unwrap } from '@/src/utils/errors';
+
+export const TRANSACTIONS_PAGE_SIZE = 20;
+
+export const transactionKeys = {
+  all: ['transactions'] as const,
+  lists: () => [...transactionKeys.all, 'list'] as const,
+  list: (userId: string, filters: TransactionFilters) =>
+    [...transactionKeys.lists(), userId, filters] as const,
+  totals: (userId: string, filters: TransactionFilters) =>
+    [...transactionKeys.all, 'totals', userId, filters] as const,
+  detail: (id: string) => [...transactionKeys.all, 'detail', id] as const,
+};
+
+function getTransactionRepository(): TransactionRepository {
+  return new TransactionRepository(createClient());
+}
+
+// Payment history, newest first, a page at a time; fetchNextPage loads the next page.
+// Keeps showing the current list while a filter change loads.
+export function useTransactions(userId: string | undefined, filters: TransactionFilters = {}) {
+  return useInfiniteQuery({
+    queryKey: transactionKeys.list(userId ?? '', filters),
+    enabled: !!userId,
+    placeholderData: keepPreviousData,
+    initialPageParam: null as string | null,
+    queryFn: async ({ pageParam }) =>
+      unwrap(
+        await getTransactionRepository().findByCursorForUser(
+          userId!,
+          filters,
+          pageParam,
+          TRANSACTIONS_PAGE_SIZE
+        )
+      ),
+    getNextPageParam: lastPage => lastPage.nextCursor,
+  });
+}
+
+export function useTransactionTotals(userId: string | undefined, filters: TransactionFilters = {}) {
+  return useQuery({
+    queryKey: transactionKeys.totals(userId ?? '', filters),
+    enabled: !!userId,
+    queryFn: async () => unwrap(await getTransactionRepository().getTotals(userId!, filters)),
+  });
+}
+
+export function useTransaction(id: string) {
+  return useQuery({
+    queryKey: transactionKeys.detail(id),
+    queryFn: async () => {
+      const transaction = unwrap(await getTransactionRepository().findWithBill(id));
+      if (!transaction) {
+        throw new NotFoundError('transactions', id);
+      }
+      return transaction;
+    },
+  });
+}
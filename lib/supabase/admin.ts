@@ -0,0 +1,3 @@
+// The service-role client lives with the server code in src, which the API and jobs
+// compile from; re-exported here for the Next.js routes
+export { createAdminClient } from '@/src/lib/supabase/admin'
@@ -1,8 +1,3 @@
-import { createBrowserClient } from '@supabase/ssr'
-
-export function createClient() {
-  return createBrowserClient(
-    process.env.NEXT_PUBLIC_SUPABASE_URL!,
-    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-  )
-}
\ No newline at end of file
+// The browser client lives with the repositories in src, which fall back to it; re-exported
+// here for the Next.js pages
+export { createClient } from '@/src/lib/supabase/client'
@@ -0,0 +1,193 @@
+// The REST API end to end: supertest requests with locally signed access tokens, against
+// the migrated schema
+import jwt from 'jsonwebtoken';
+import request from 'supertest';
+import { Express } from 'express';
+import { createTestDatabase, createTestUser, TestDatabase } from '../test/database';
+import { createTestClient } from '../test/postgrest';
+import { ProfileRepository } from '../database/repositories/profiles';
+import { SupabaseTokenVerifier } from '../infrastructure/auth/supabase-tokens';
+import { createAuthenticate } from '../middleware/auth';
+import { createApp } from './app';
+import { createApiContext } from './context';
+
+const ISSUER = 'http://supabase.test/auth/v1';
+const SECRET = 'local-test-jwt-secret';
+
+function accessToken(userId: string, secret: string = SECRET): string {
+  return jwt.sign({ sub: userId, role: 'authenticated' }, secret, {
+    issuer: ISSUER,
+    audience: 'authenticated',
+    expiresIn: '1h',
+  });
+}
+
+const newBill = {
+  biller_name: 'Thames Water',
+  biller_category: 'utilities',
+  amount: 38.4,
+  currency: 'GBP',
+  due_date: '2026-04-01',
+};
+
+describe('/api/v1', () => {
+  let db: TestDatabase;
+  let app: Express;
+  let owner: string;
+  let other: string;
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+    const client = createTestClient(db);
+    const verifier = new SupabaseTokenVerifier({ issuer: ISSUER, audience: 'authenticated', secret: SECRET });
+    app = createApp({
+      ...createApiContext(client),
+      authenticate: createAuthenticate(verifier, new ProfileRepository(client)),
+    });
+    owner = await createTestUser(db);
+    other = await createTestUser(db);
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  const as = (userId: string) => ({ Authorization: `Bearer ${accessToken(userId)}` });
+
+  it('answers the health check without a token', async () => {
+    const response = await request(app).get('/health');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ data: { status: 'ok' } });
+  });
+
+  it('rejects requests without a valid access token', async () => {
+    const missing = await request(app).get('/api/v1/bills');
+    const forged = await request(app)
+      .get('/api/v1/bills')
+      .set('Authorization', `Bearer ${accessToken(owner, 'someone-elses-secret')}`);
+
+    expect(missing.status).toBe(401);
+    expect(forged.status).toBe(401);
+  });
+
+  it('validates request bodies', async () => {
+    const response = await request(app).post('/api/v1/bills').set(as(owner)).send({ ...newBill, amount: -5 });
+
+    expect(response.status).toBe(400);
+  });
+
+  describe('bills', () => {
+    let billId: string;
+
+    beforeAll(async () => {
+      const response = await request(app).post('/api/v1/bills').set(as(owner)).send(newBill);
+      expect(response.status).toBe(201);
+      billId = response.body.data.id;
+    });
+
+    it('lists and reads the user\'s own bills', async () => {
+      const list = await request(app).get('/api/v1/bills').set(as(owner));
+      const one = await request(app).get(`/api/v1/bills/${billId}`).set(as(owner));
+
+      expect(list.status).toBe(200);
+      expect(list.body.data.map((bill: { id: string }) => bill.id)).toEqual([billId]);
+      expect(one.status).toBe(200);
+      expect(one.body.data).toMatchObject({ id: billId, biller_name: 'Thames Water', user_id: owner });
+    });
+
+    it('reports other users\' bills as not found', async () => {
+      const read = await request(app).get(`/api/v1/bills/${billId}`).set(as(other));
+      const update = await request(app).patch(`/api/v1/bills/${billId}`).set(as(other)).send({ amount: 1 });
+      const list = await request(app).get('/api/v1/bills').set(as(other));
+
+      expect(read.status).toBe(404);
+      expect(update.status).toBe(404);
+      expect(list.body.data).toEqual([]);
+    });
+
+    it('updates a bill', async () => {
+      const response = await request(app).patch(`/api/v1/bills/${billId}`).set(as(owner)).send({ amount: 41.25 });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toMatchObject({ id: billId, amount: 41.25 });
+    });
+
+    it('no longer finds a deleted bill', async () => {
+      const deleted = await request(app).delete(`/api/v1/bills/${billId}`).set(as(owner));
+      const read = await request(app).get(`/api/v1/bills/${billId}`).set(as(owner));
+      const update = await request(app).patch(`/api/v1/bills/${billId}`).set(as(owner)).send({ amount: 50 });
+      const deletedAgain = await request(app).delete(`/api/v1/bills/${billId}`).set(as(owner));
+      const list = await request(app).get('/api/v1/bills').set(as(owner));
+
+      expect(deleted.status).toBe(204);
+      expect(read.status).toBe(404);
+      expect(update.status).toBe(404);
+      expect(deletedAgain.status).toBe(404);
+      expect(list.body.data).toEqual([]);
+    });
+  });
+
+  it('lists the user\'s transactions', async () => {
+    const response = await request(app).get('/api/v1/transactions').set(as(owner));
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toEqual(expect.any(Array));
+  });
+
+  it('shows the user their activity without support staff\'s IP addresses', async () => {
+    const holder = await createTestUser(db);
+    const staff = await createTestUser(db);
+    await db.query(
+      `INSERT INTO audit_logs (user_id, actor_id, action, ip_address, user_agent, created_at)
+       VALUES ($1, $1, 'bills.updated', '203.0.113.7', 'Holder Browser', NOW() - INTERVAL '1 minute'),
+              ($1, $2, 'admin.payment_refunded', '198.51.100.2', 'Support Console', NOW()),
+              ($2, $2, 'profiles.updated', '198.51.100.2', 'Support Console', NOW())`,
+      [holder, staff]
+    );
+
+    const response = await request(app).get('/api/v1/activity').set(as(holder));
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toEqual([
+      expect.objectContaining({ action: 'admin.payment_refunded', ip_address: null, user_agent: null }),
+      expect.objectContaining({ action: 'bills.updated', ip_address: '203.0.113.7', user_agent: 'Holder Browser' }),
+    ]);
+
+    // Signed in, the view only returns entries about the user's own account
+    const { rows } = await db.transaction(async tx => {
+      await tx.query(`SELECT set_config('request.jwt.claim.sub', $1, true)`, [holder]);
+      return tx.query<{ user_id: string }>('SELECT DISTINCT user_id FROM account_activity');
+    });
+    expect(rows).toEqual([{ user_id: holder }]);
+  });
+
+  it('keeps admin routes to admins', async () => {
+    const response = await request(app).get('/api/v1/admin/users').set(as(owner));
+
+    expect(response.status).toBe(403);
+  });
+
+  it('audits support staff reading a user\'s notifications', async () => {
+    const staff = await createTestUser(db);
+    await db.query(`UPDATE profiles SET role = 'support' WHERE id = $1`, [staff]);
+    await db.query(
+      `INSERT INTO notifications (user_id, type, channel, message) VALUES ($1, 'reminder', 'email', 'Bill due soon')`,
+      [owner]
+    );
+
+    const denied = await request(app).get(`/api/v1/users/${owner}/notifications`).set(as(other));
+    const response = await request(app).get(`/api/v1/users/${owner}/notifications?channel=email`).set(as(staff));
+
+    expect(denied.status).toBe(403);
+    expect(response.status).toBe(200);
+    expect(response.body.data).toEqual([expect.objectContaining({ user_id: owner, message: 'Bill due soon' })]);
+    const { rows } = await db.query<{ entity_id: string; user_id: string | null; new_values: Record<string, any> }>(
+      `SELECT entity_id, user_id, new_values FROM audit_logs WHERE actor_id = $1 AND action = 'admin.notifications_viewed'`,
+      [staff]
+    );
+    expect(rows).toEqual([
+      { entity_id: owner, user_id: null, new_values: expect.objectContaining({ channel: 'email', results: 1 }) },
+    ]);
+  });
+});
@@ -0,0 +1,27 @@
+// Express app for the REST API. Built without listening so tests can drive it with
+// supertest, e.g. request(createApp(context)).get('/api/v1/bills'). Tests can sign their
+// own access tokens by giving the context an authenticate built with a
+// SupabaseTokenVerifier that has a local secret.
+import express, { Express } from 'express';
+import { createAdminClient } from '../lib/supabase/admin';
+import { errorHandler, notFoundHandler } from '../middleware/errorHandler';
+import { ApiContext, createApiContext } from './context';
+import { v1Router } from './v1';
+
+export function createApp(context: ApiContext = createApiContext(createAdminClient())): Express {
+  const app = express();
+
+  app.disable('x-powered-by');
+  app.use(express.json({ limit: '100kb' }));
+
+  app.get('/health', (_req, res) => {
+    res.json({ data: { status: 'ok' } });
+  });
+
+  app.use('/api/v1', v1Router(context));
+
+  app.use(notFoundHandler);
+  app.use(errorHandler);
+
+  return app;
+}
@@ -0,0 +1,68 @@
+// What the API routes work with. The API runs with the service role, so every route
+// scopes its queries to the authenticated user itself. Changes to bills, payments and
+// payment methods are recorded in the audit trail.
+import { SupabaseClient } from '@supabase/supabase-js';
+import { RequestHandler } from 'express';
+import { AuditLogRepository } from '../database/repositories/audit-logs';
+import { BillRepository } from '../database/repositories/bills';
+import { NotificationPreferenceRepository } from '../database/repositories/notification-preferences';
+import { NotificationRepository } from '../database/repositories/notifications';
+import { PaymentMethodRepository } from '../database/repositories/payment-methods';
+import { ProfileRepository } from '../database/repositories/profiles';
+import { PushSubscriptionRepository } from '../database/repositories/push-subscriptions';
+import { TransactionRepository } from '../database/repositories/transactions';
+import { tokenVerifier } from '../infrastructure/auth/supabase-tokens';
+import { notificationChannels } from '../infrastructure/notifications';
+import { paymentService } from '../infrastructure/payments';
+import { createAuthenticate } from '../middleware/auth';
+import { AdminService, createAdminService } from '../services/admin';
+import { createAuditService } from '../services/audit';
+import { BillPaymentService } from '../services/bill-payment';
+import { NotificationService } from '../services/notifications';
+import { RecurrenceService } from '../services/recurrence';
+
+export interface ApiContext {
+  // Sets req.user from the request's access token
+  authenticate: RequestHandler;
+  bills: BillRepository;
+  transactions: TransactionRepository;
+  paymentMethods: PaymentMethodRepository;
+  notifications: NotificationRepository;
+  auditLogs: AuditLogRepository;
+  billPayments: Pick<BillPaymentService, 'payBill'>;
+  admin: AdminService;
+}
+
+export function createApiContext(supabase: SupabaseClient): ApiContext {
+  const auditTrail = createAuditService(supabase);
+  const bills = new BillRepository(supabase, auditTrail);
+  const transactions = new TransactionRepository(supabase, auditTrail);
+  const paymentMethods = new PaymentMethodRepository(supabase, auditTrail);
+  const notifications = new NotificationRepository(supabase);
+  const profiles = new ProfileRepository(supabase);
+
+  return {
+    authenticate: createAuthenticate(tokenVerifier, profiles),
+    bills,
+    transactions,
+    paymentMethods,
+    notifications,
+    auditLogs: new AuditLogRepository(supabase),
+    billPayments: new BillPaymentService(
+      bills,
+      transactions,
+      paymentMethods,
+      paymentService,
+      new RecurrenceService(bills),
+      new NotificationService(
+        notifications,
+        bills,
+        profiles,
+        notificationChannels,
+        new PushSubscriptionRepository(supabase),
+        new NotificationPreferenceRepository(supabase)
+      )
+    ),
+    admin: createAdminService(supabase),
+  };
+}
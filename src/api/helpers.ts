@@ -0,0 +1,40 @@
+// Shared helpers for the API route handlers
+import { Request } from 'express';
+import { AuthRequest, JWTPayload } from '../middleware/auth';
+import { AdminActor } from '../services/admin';
+import { AuthenticationError, NotFoundError } from '../utils/errors';
+
+// The user set by authenticate
+export function currentUser(req: Request): JWTPayload {
+  const user = (req as AuthRequest).user;
+  if (!user) {
+    throw new AuthenticationError('Authentication required');
+  }
+  return user;
+}
+
+// The staff member making the request, for AdminService
+export function actorFor(req: Request): AdminActor {
+  const user = currentUser(req);
+  const userAgent = req.get('user-agent');
+  return {
+    userId: user.userId,
+    role: user.role,
+    ...(req.ip && { ipAddress: req.ip }),
+    ...(userAgent && { userAgent }),
+  };
+}
+
+// The row if it belongs to the user. Other users' rows are reported as not found, so the
+// API does not reveal which IDs exist.
+export function ownedBy<T extends { user_id: string }>(
+  row: T | null,
+  user: Pick<JWTPayload, 'userId'>,
+  resource: string,
+  id: string
+): T {
+  if (!row || row.user_id !== user.userId) {
+    throw new NotFoundError(resource, id);
+  }
+  return row;
+}
@@ -0,0 +1,188 @@
+// Request schemas for the REST API (bodies, query strings and URL params)
+import { z } from 'zod';
+import { Filter } from '../database';
+import { AuditLogFilters } from '../database/repositories/audit-logs';
+import {
+  BILL_CATEGORIES,
+  BILL_CURRENCIES,
+  BILL_FREQUENCIES,
+  BILL_STATUSES,
+  Bill,
+  NewBill,
+} from '../database/repositories/bills';
+import { TRANSACTION_STATUSES } from '../database/repositories/transactions';
+
+const calendarDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a date in YYYY-MM-DD format');
+
+export const idParamsSchema = z.object({
+  id: z.string().uuid(),
+});
+
+export const userIdParamsSchema = z.object({
+  userId: z.string().uuid(),
+});
+
+export const paginationQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export const billQuerySchema = paginationQuerySchema.extend({
+  status: z.enum(BILL_STATUSES).optional(),
+  category: z.enum(BILL_CATEGORIES).optional(),
+});
+
+export const upcomingBillsQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(30),
+});
+
+const billFields = {
+  biller_name: z.string().trim().min(1).max(255),
+  biller_category: z.enum(BILL_CATEGORIES),
+  account_number: z.string().max(50).optional(),
+  amount: z.number().positive().max(99999999.99),
+  currency: z.enum(BILL_CURRENCIES).default('GBP'),
+  due_date: calendarDate,
+  frequency: z.enum(BILL_FREQUENCIES).default('one_time'),
+  auto_pay: z.boolean().default(false),
+  payment_method_id: z.string().uuid().optional(),
+  // null follows the user's notification preferences
+  reminder_days: z.number().int().min(0).max(30).nullable().optional(),
+  notes: z.string().max(1000).optional(),
+  recurrence_end_date: calendarDate.optional(),
+  recurrence_count: z.number().int().min(1).max(1000).optional(),
+};
+
+export const createBillSchema = z
+  .object(billFields)
+  .strict()
+  .refine(bill => !(bill.recurrence_end_date && bill.recurrence_count !== undefined), {
+    message: 'Set recurrence_end_date or recurrence_count, not both',
+    path: ['recurrence_count'],
+  });
+
+// Status, series and payment fields are managed by the app, not edited directly
+export const updateBillSchema = z
+  .object({
+    biller_name: billFields.biller_name,
+    biller_category: billFields.biller_category,
+    account_number: billFields.account_number,
+    amount: billFields.amount,
+    currency: z.enum(BILL_CURRENCIES),
+    due_date: billFields.due_date,
+    auto_pay: z.boolean(),
+    payment_method_id: billFields.payment_method_id,
+    reminder_days: billFields.reminder_days,
+    notes: billFields.notes,
+  })
+  .partial()
+  .strict()
+  .refine(updates => Object.keys(updates).length > 0, { message: 'Nothing to update' });
+
+export const payBillSchema = z
+  .object({
+    payment_method_id: z.string().uuid().optional(),
+  })
+  .strict();
+
+export const transactionQuerySchema = z.object({
+  status: z.enum(TRANSACTION_STATUSES).optional(),
+  bill_id: z.string().uuid().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  page_size: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export const notificationQuerySchema = paginationQuerySchema.extend({
+  status: z.enum(['pending', 'sending', 'sent', 'delivered', 'retrying', 'failed']).optional(),
+  channel: z.enum(['email', 'sms', 'push']).optional(),
+});
+
+export const activityQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  page_size: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export const auditLogQuerySchema = activityQuerySchema.extend({
+  page_size: z.coerce.number().int().min(1).max(100).default(50),
+  user_id: z.string().uuid().optional(),
+  actor_id: z.string().uuid().optional(),
+  action: z.string().trim().min(1).max(100).optional(),
+  entity_type: z.string().trim().min(1).max(50).optional(),
+  entity_id: z.string().uuid().optional(),
+  from: calendarDate.optional(),
+  to: calendarDate.optional(),
+});
+
+export const userSearchQuerySchema = z.object({
+  q: z.string().trim().min(3, 'Enter at least 3 characters').max(255),
+});
+
+export const refundBodySchema = z
+  .object({
+    amount: z.number().positive().max(99999999.99).optional(),
+    reason: z.enum(['duplicate', 'fraudulent', 'requested_by_customer']).optional(),
+  })
+  .strict();
+
+export type BillQuery = z.infer<typeof billQuerySchema>;
+export type CreateBillBody = z.infer<typeof createBillSchema>;
+export type UpdateBillBody = z.infer<typeof updateBillSchema>;
+export type TransactionQuery = z.infer<typeof transactionQuerySchema>;
+export type NotificationQuery = z.infer<typeof notificationQuerySchema>;
+export type RefundBody = z.infer<typeof refundBodySchema>;
+export type ActivityQuery = z.infer<typeof activityQuerySchema>;
+export type AuditLogQuery = z.infer<typeof auditLogQuerySchema>;
+
+// Parsed bodies leave absent optional fields as undefined; drop them so the result fits
+// entity types with exact optional properties
+export function definedFields<T extends object>(
+  values: T
+): { [K in keyof T]: Exclude<T[K], undefined> } {
+  return Object.fromEntries(
+    Object.entries(values).filter(([, value]) => value !== undefined)
+  ) as { [K in keyof T]: Exclude<T[K], undefined> };
+}
+
+// A new pending bill for the user from a create body
+export function billFromBody(body: CreateBillBody, userId: string): NewBill {
+  const { due_date, recurrence_end_date, ...fields } = definedFields(body);
+  return {
+    ...fields,
+    user_id: userId,
+    status: 'pending',
+    due_date: new Date(due_date),
+    ...(recurrence_end_date && { recurrence_end_date: new Date(recurrence_end_date) }),
+  };
+}
+
+// Column updates from an update body
+export function billUpdatesFromBody(body: UpdateBillBody): Partial<Bill> {
+  const { due_date, ...updates } = definedFields(body);
+  return {
+    ...updates,
+    ...(due_date && { due_date: new Date(due_date) }),
+  };
+}
+
+// Filters for listing the user's bills
+export function billFilters(userId: string, { status, category }: Pick<BillQuery, 'status' | 'category'>): Filter[] {
+  return [
+    { column: 'user_id', operator: 'eq', value: userId },
+    { column: 'deleted_at', operator: 'is', value: null },
+    ...(status ? [{ column: 'status', operator: 'eq' as const, value: status }] : []),
+    ...(category ? [{ column: 'biller_category', operator: 'eq' as const, value: category }] : []),
+  ];
+}
+
+// Audit log filters from a query; from and to are whole UTC days
+export function auditLogFilters(query: AuditLogQuery): AuditLogFilters {
+  return {
+    ...(query.user_id && { userId: query.user_id }),
+    ...(query.actor_id && { actorId: query.actor_id }),
+    ...(query.action && { action: query.action }),
+    ...(query.entity_type && { entityType: query.entity_type }),
+    ...(query.entity_id && { entityId: query.entity_id }),
+    ...(query.from && { startDate: new Date(`${query.from}T00:00:00Z`) }),
+    ...(query.to && { endDate: new Date(`${query.to}T23:59:59.999Z`) }),
+  };
+}
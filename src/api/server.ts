@@ -0,0 +1,19 @@
+// Standalone REST API server
+//
+// Usage: ts-node src/api/server.ts (listens on API_PORT, default 4000)
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { createApp } from './app';
+
+const port = config.get().API_PORT;
+
+const server = createApp().listen(port, () => {
+  logger.info('API listening', { port });
+});
+
+// Finish in-flight requests before exiting
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.on(signal, () => {
+    server.close(() => process.exit(0));
+  });
+}
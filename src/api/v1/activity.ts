@@ -0,0 +1,27 @@
+// /api/v1/activity - the signed-in user's account activity from the audit trail
+import { Router } from 'express';
+import { asyncHandler } from '../../middleware/errorHandler';
+import { validateQuery } from '../../middleware/validation';
+import { unwrap } from '../../utils/errors';
+import { ApiContext } from '../context';
+import { currentUser } from '../helpers';
+import { ActivityQuery, activityQuerySchema } from '../schemas';
+
+export function activityRouter({ auditLogs }: ApiContext): Router {
+  const router = Router();
+
+  // Newest first
+  router.get('/', validateQuery(activityQuerySchema), asyncHandler(async (req, res) => {
+    const user = currentUser(req);
+    const { page, page_size } = req.query as unknown as ActivityQuery;
+
+    const result = unwrap(await auditLogs.findAccountActivity(user.userId, page, page_size));
+
+    res.json({
+      data: result.entries,
+      meta: { total: result.total, page: result.page, page_size: result.pageSize },
+    });
+  }));
+
+  return router;
+}
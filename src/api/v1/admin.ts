@@ -0,0 +1,70 @@
+// /api/v1/admin - support tools for staff (see AdminService)
+import { Router } from 'express';
+import { authorize } from '../../middleware/auth';
+import { asyncHandler } from '../../middleware/errorHandler';
+import { validateBody, validateParams, validateQuery } from '../../middleware/validation';
+import { STAFF_ROLES } from '../../services/admin';
+import { unwrap } from '../../utils/errors';
+import { ApiContext } from '../context';
+import { actorFor } from '../helpers';
+import {
+  AuditLogQuery,
+  RefundBody,
+  auditLogFilters,
+  auditLogQuerySchema,
+  definedFields,
+  idParamsSchema,
+  refundBodySchema,
+  userSearchQuerySchema,
+} from '../schemas';
+
+export function adminRouter({ admin }: ApiContext): Router {
+  const router = Router();
+
+  router.use(authorize(...STAFF_ROLES));
+
+  router.get('/users', validateQuery(userSearchQuerySchema), asyncHandler(async (req, res) => {
+    const { q } = req.query as unknown as { q: string };
+    res.json({ data: unwrap(await admin.searchUsers(actorFor(req), q)) });
+  }));
+
+  router.get('/users/:id', validateParams(idParamsSchema), asyncHandler(async (req, res) => {
+    res.json({ data: unwrap(await admin.getUserOverview(actorFor(req), req.params['id']!)) });
+  }));
+
+  router.post('/transactions/:id/retry', validateParams(idParamsSchema), asyncHandler(async (req, res) => {
+    const outcome = unwrap(await admin.retryPayment(actorFor(req), req.params['id']!));
+    res.status(outcome.status === 'processing' ? 202 : 200).json({ data: outcome });
+  }));
+
+  router.post(
+    '/transactions/:id/refund',
+    validateParams(idParamsSchema),
+    validateBody(refundBodySchema),
+    asyncHandler(async (req, res) => {
+      const body = definedFields(req.body as RefundBody);
+      res.json({ data: unwrap(await admin.refundPayment(actorFor(req), req.params['id']!, body)) });
+    })
+  );
+
+  router.get('/audit-logs', validateQuery(auditLogQuerySchema), asyncHandler(async (req, res) => {
+    const query = req.query as unknown as AuditLogQuery;
+    const result = unwrap(await admin.searchAuditLogs(
+      actorFor(req),
+      auditLogFilters(query),
+      query.page,
+      query.page_size
+    ));
+
+    res.json({
+      data: result.entries,
+      meta: { total: result.total, page: result.page, page_size: result.pageSize },
+    });
+  }));
+
+  router.post('/notifications/:id/resend', validateParams(idParamsSchema), asyncHandler(async (req, res) => {
+    res.json({ data: unwrap(await admin.resendNotification(actorFor(req), req.params['id']!)) });
+  }));
+
+  return router;
+}
@@ -0,0 +1,117 @@
+// /api/v1/bills
+import { Router } from 'express';
+import { asyncHandler } from '../../middleware/errorHandler';
+import { validateBody, validateParams, validateQuery } from '../../middleware/validation';
+import { unwrap } from '../../utils/errors';
+import { ApiContext } from '../context';
+import { currentUser, ownedBy } from '../helpers';
+import {
+  BillQuery,
+  CreateBillBody,
+  UpdateBillBody,
+  billFilters,
+  billFromBody,
+  billQuerySchema,
+  billUpdatesFromBody,
+  createBillSchema,
+  idParamsSchema,
+  payBillSchema,
+  updateBillSchema,
+  upcomingBillsQuerySchema,
+} from '../schemas';
+
+export function billsRouter({ bills, paymentMethods, billPayments }: ApiContext): Router {
+  const router = Router();
+
+  // A payment method set on a bill must be one of the user's own
+  const checkPaymentMethod = async (paymentMethodId: string | undefined, userId: string) => {
+    if (paymentMethodId) {
+      ownedBy(unwrap(await paymentMethods.findById(paymentMethodId)), { userId }, 'payment_methods', paymentMethodId);
+    }
+  };
+
+  // The user's bill, unless it has been deleted
+  const findBill = async (id: string, userId: string) => {
+    const bill = unwrap(await bills.findById(id));
+    return ownedBy(bill && !bill.deleted_at ? bill : null, { userId }, 'bills', id);
+  };
+
+  router.get('/', validateQuery(billQuerySchema), asyncHandler(async (req, res) => {
+    const user = currentUser(req);
+    const { status, category, limit, offset } = req.query as unknown as BillQuery;
+
+    const found = unwrap(await bills.findByFilters(billFilters(user.userId, { status, category }), {
+      orderBy: 'due_date',
+      orderDirection: 'asc',
+      limit,
+      offset,
+    }));
+
+    res.json({ data: found });
+  }));
+
+  router.get('/upcoming', validateQuery(upcomingBillsQuerySchema), asyncHandler(async (req, res) => {
+    const user = currentUser(req);
+    const { days } = req.query as unknown as { days: number };
+    res.json({ data: unwrap(await bills.getPaymentSchedule(user.userId, days)) });
+  }));
+
+  router.get('/:id', validateParams(idParamsSchema), asyncHandler(async (req, res) => {
+    const user = currentUser(req);
+    const id = req.params['id']!;
+    const bill = await findBill(id, user.userId);
+    res.json({ data: bill });
+  }));
+
+  router.post('/', validateBody(createBillSchema), asyncHandler(async (req, res) => {
+    const user = currentUser(req);
+    const body = req.body as CreateBillBody;
+    await checkPaymentMethod(body.payment_method_id, user.userId);
+
+    res.status(201).json({ data: unwrap(await bills.create(billFromBody(body, user.userId))) });
+  }));
+
+  router.patch(
+    '/:id',
+    validateParams(idParamsSchema),
+    validateBody(updateBillSchema),
+    asyncHandler(async (req, res) => {
+      const user = currentUser(req);
+      const id = req.params['id']!;
+      await findBill(id, user.userId);
+
+      const body = req.body as UpdateBillBody;
+      await checkPaymentMethod(body.payment_method_id, user.userId);
+      res.json({ data: unwrap(await bills.update(id, billUpdatesFromBody(body))) });
+    })
+  );
+
+  router.delete('/:id', validateParams(idParamsSchema), asyncHandler(async (req, res) => {
+    const user = currentUser(req);
+    const id = req.params['id']!;
+    await findBill(id, user.userId);
+
+    unwrap(await bills.softDelete(id));
+    res.status(204).end();
+  }));
+
+  // Pay now with the given payment method, or the bill's own or the user's default
+  router.post(
+    '/:id/pay',
+    validateParams(idParamsSchema),
+    validateBody(payBillSchema),
+    asyncHandler(async (req, res) => {
+      const user = currentUser(req);
+      const id = req.params['id']!;
+      await findBill(id, user.userId);
+
+      const { payment_method_id } = req.body as { payment_method_id?: string };
+      const outcome = unwrap(await billPayments.payBill(id, {
+        ...(payment_method_id && { paymentMethodId: payment_method_id }),
+      }));
+      res.status(outcome.status === 'processing' ? 202 : 200).json({ data: outcome });
+    })
+  );
+
+  return router;
+}
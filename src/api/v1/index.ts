@@ -0,0 +1,28 @@
+// Version 1 of the REST API. Every route needs a signed-in user; handlers return
+// { data } on success and errors go through errorHandler as { error }.
+import { Router } from 'express';
+import { auditContext } from '../../middleware/audit';
+import { authorize } from '../../middleware/auth';
+import { ApiContext } from '../context';
+import { activityRouter } from './activity';
+import { adminRouter } from './admin';
+import { billsRouter } from './bills';
+import { notificationsRouter, userNotificationsRouter } from './notifications';
+import { paymentMethodsRouter } from './payment-methods';
+import { transactionsRouter } from './transactions';
+
+export function v1Router(context: ApiContext): Router {
+  const router = Router();
+
+  router.use(context.authenticate, authorize('user', 'admin', 'support'), auditContext);
+
+  router.use('/bills', billsRouter(context));
+  router.use('/transactions', transactionsRouter(context));
+  router.use('/payment-methods', paymentMethodsRouter(context));
+  router.use('/notifications', notificationsRouter(context));
+  router.use('/users/:userId/notifications', userNotificationsRouter(context));
+  router.use('/activity', activityRouter(context));
+  router.use('/admin', adminRouter(context));
+
+  return router;
+}
@@ -0,0 +1,75 @@
+// /api/v1/notifications
+import { Router } from 'express';
+import { Filter } from '../../database';
+import { NotificationRepository } from '../../database/repositories/notifications';
+import { authorize } from '../../middleware/auth';
+import { asyncHandler } from '../../middleware/errorHandler';
+import { validateParams, validateQuery } from '../../middleware/validation';
+import { STAFF_ROLES } from '../../services/admin';
+import { unwrap } from '../../utils/errors';
+import { ApiContext } from '../context';
+import { actorFor, currentUser, ownedBy } from '../helpers';
+import {
+  NotificationQuery,
+  definedFields,
+  idParamsSchema,
+  notificationQuerySchema,
+  userIdParamsSchema,
+} from '../schemas';
+
+// A user's notifications, newest first
+async function listNotifications(
+  notifications: NotificationRepository,
+  userId: string,
+  { status, channel, limit, offset }: NotificationQuery
+) {
+  const filters: Filter[] = [
+    { column: 'user_id', operator: 'eq', value: userId },
+    ...(status ? [{ column: 'status', operator: 'eq' as const, value: status }] : []),
+    ...(channel ? [{ column: 'channel', operator: 'eq' as const, value: channel }] : []),
+  ];
+  return unwrap(await notifications.findByFilters(filters, {
+    orderBy: 'created_at',
+    orderDirection: 'desc',
+    limit,
+    offset,
+  }));
+}
+
+export function notificationsRouter({ notifications }: ApiContext): Router {
+  const router = Router();
+
+  router.get('/', validateQuery(notificationQuerySchema), asyncHandler(async (req, res) => {
+    const user = currentUser(req);
+    const query = req.query as unknown as NotificationQuery;
+    res.json({ data: await listNotifications(notifications, user.userId, query) });
+  }));
+
+  router.get('/:id', validateParams(idParamsSchema), asyncHandler(async (req, res) => {
+    const user = currentUser(req);
+    const id = req.params['id']!;
+    const notification = ownedBy(unwrap(await notifications.findById(id)), user, 'notifications', id);
+    res.json({ data: notification });
+  }));
+
+  return router;
+}
+
+// /api/v1/users/:userId/notifications - what a user was sent, for support staff. Goes
+// through AdminService, so every lookup is audited.
+export function userNotificationsRouter({ admin }: ApiContext): Router {
+  const router = Router({ mergeParams: true });
+
+  router.get(
+    '/',
+    authorize(...STAFF_ROLES),
+    validateParams(userIdParamsSchema),
+    validateQuery(notificationQuerySchema),
+    asyncHandler(async (req, res) => {
+      const query = definedFields(req.query as unknown as NotificationQuery);
+      res.json({ data: unwrap(await admin.listUserNotifications(actorFor(req), req.params['userId']!, query)) });
+    })
+  );
+
+  return router;
+}
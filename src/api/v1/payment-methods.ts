@@ -0,0 +1,37 @@
+// /api/v1/payment-methods
+//
+// Methods are added through the payment provider's checkout flow, so the API only lists
+// them and picks the default.
+import { Router } from 'express';
+import { asyncHandler } from '../../middleware/errorHandler';
+import { validateParams } from '../../middleware/validation';
+import { unwrap } from '../../utils/errors';
+import { ApiContext } from '../context';
+import { currentUser, ownedBy } from '../helpers';
+import { idParamsSchema } from '../schemas';
+
+export function paymentMethodsRouter({ paymentMethods }: ApiContext): Router {
+  const router = Router();
+
+  router.get('/', asyncHandler(async (req, res) => {
+    const user = currentUser(req);
+    res.json({ data: unwrap(await paymentMethods.findByUserId(user.userId)) });
+  }));
+
+  router.get('/:id', validateParams(idParamsSchema), asyncHandler(async (req, res) => {
+    const user = currentUser(req);
+    const id = req.params['id']!;
+    const method = ownedBy(unwrap(await paymentMethods.findById(id)), user, 'payment_methods', id);
+    res.json({ data: method });
+  }));
+
+  router.post('/:id/default', validateParams(idParamsSchema), asyncHandler(async (req, res) => {
+    const user = currentUser(req);
+    const id = req.params['id']!;
+    ownedBy(unwrap(await paymentMethods.findById(id)), user, 'payment_methods', id);
+
+    res.json({ data: unwrap(await paymentMethods.setDefault(id)) });
+  }));
+
+  return router;
+}
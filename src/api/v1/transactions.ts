@@ -0,0 +1,42 @@
+// /api/v1/transactions
+import { Router } from 'express';
+import { asyncHandler } from '../../middleware/errorHandler';
+import { validateParams, validateQuery } from '../../middleware/validation';
+import { unwrap } from '../../utils/errors';
+import { ApiContext } from '../context';
+import { currentUser, ownedBy } from '../helpers';
+import { TransactionQuery, idParamsSchema, transactionQuerySchema } from '../schemas';
+
+export function transactionsRouter({ transactions }: ApiContext): Router {
+  const router = Router();
+
+  // Payment history, newest first, with the bill each payment was for
+  router.get('/', validateQuery(transactionQuerySchema), asyncHandler(async (req, res) => {
+    const user = currentUser(req);
+    const { status, bill_id, page, page_size } = req.query as unknown as TransactionQuery;
+
+    const result = unwrap(await transactions.findPageForUser(
+      user.userId,
+      {
+        ...(status && { status }),
+        ...(bill_id && { billId: bill_id }),
+      },
+      page,
+      page_size
+    ));
+
+    res.json({
+      data: result.transactions,
+      meta: { total: result.total, page: result.page, page_size: result.pageSize },
+    });
+  }));
+
+  router.get('/:id', validateParams(idParamsSchema), asyncHandler(async (req, res) => {
+    const user = currentUser(req);
+    const id = req.params['id']!;
+    const transaction = ownedBy(unwrap(await transactions.findWithBill(id)), user, 'transactions', id);
+    res.json({ data: transaction });
+  }));
+
+  return router;
+}
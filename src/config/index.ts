@@ -11,12 +11,21 @@ const envSchema = z.object({
   NEXT_PUBLIC_SUPABASE_URL: z.string().url(),
   NEXT_PUBLIC_SUPABASE_ANON_KEY: z.string(),
   SUPABASE_SERVICE_ROLE_KEY: z.string().optional(),
+  // Legacy HS256 secret; access tokens signed with asymmetric keys are checked against JWKS
+  SUPABASE_JWT_SECRET: z.string().optional(),
+
+  // Direct Postgres connection (migrations)
+  DATABASE_URL: z.string().url().optional(),
 
   // Payment Providers
   STRIPE_SECRET_KEY: z.string().optional(),
   STRIPE_WEBHOOK_SECRET: z.string().optional(),
   STRIPE_PUBLISHABLE_KEY: z.string().optional(),
   
+  // Auto-pay job: charge bills due within this many days, up to this total per currency per run
+  AUTO_PAY_LEAD_DAYS: z.coerce.number().int().min(0).max(30).default(1),
+  AUTO_PAY_MAX_PER_RUN: z.coerce.number().positive().default(10000),
+
   // Open Banking
   TRUELAYER_CLIENT_ID: z.string().optional(),
   TRUELAYER_CLIENT_SECRET: z.string().optional(),
@@ -25,12 +34,27 @@ const envSchema = z.object({
   // Notification Providers
   SENDGRID_API_KEY: z.string().optional(),
   SENDGRID_FROM_EMAIL: z.string().email().optional(),
+  // Write emails to .eml files in this directory instead of sending them
+  EMAIL_FILE_SINK_DIR: z.string().optional(),
   TWILIO_ACCOUNT_SID: z.string().optional(),
   TWILIO_AUTH_TOKEN: z.string().optional(),
   TWILIO_FROM_NUMBER: z.string().optional(),
+  // Longest text message, in segments (153 GSM-7 or 67 UCS-2 characters each)
+  SMS_MAX_SEGMENTS: z.coerce.number().int().min(1).max(10).default(2),
+  // Web push (VAPID key pair, base64url; the public key is also used by the browser)
+  NEXT_PUBLIC_VAPID_PUBLIC_KEY: z.string().optional(),
+  VAPID_PRIVATE_KEY: z.string().optional(),
+  VAPID_SUBJECT: z.string().optional(),
+
+  // Standalone REST API (npm run api)
+  API_PORT: z.coerce.number().int().min(1).max(65535).default(4000),
 
   // Security
   ENCRYPTION_KEY: z.string().min(32).optional(),
+  // Audit checkpoints (npm run jobs:audit-checkpoint): Ed25519 keys, PEM with \n for newlines.
+  // Verifying only needs the public key, which is derived from the private key if unset.
+  AUDIT_CHECKPOINT_PRIVATE_KEY: z.string().optional(),
+  AUDIT_CHECKPOINT_PUBLIC_KEY: z.string().optional(),
   
   // Monitoring
   SENTRY_DSN: z.string().optional(),
@@ -163,8 +187,9 @@ config.setFeatureFlag('payment.openbanking', {
   rolloutPercentage: 10, // Start with 10% rollout
 });
 
+// Development sends texts to the log, so the flag is on there without Twilio
 config.setFeatureFlag('notifications.sms', {
-  enabled: !!process.env.TWILIO_ACCOUNT_SID,
+  enabled: !!process.env['TWILIO_ACCOUNT_SID'] || process.env['NODE_ENV'] === 'development',
 });
 
 config.setFeatureFlag('ui.darkmode', {
@@ -0,0 +1,266 @@
+// Property tests for filters: random condition trees (or, and, not, JSON paths) are run
+// through BillRepository count, updateMany and deleteMany against the migrated schema, and
+// the rows they touch are compared with an in-memory evaluation of the same conditions
+import fc from 'fast-check';
+import { createTestDatabase, createTestUser, TestDatabase } from '../test/database';
+import { createTestClient } from '../test/postgrest';
+import { BillRepository } from './repositories/bills';
+import { ValidationError } from '../utils/errors';
+import { Filter, FilterCondition } from './filters';
+
+interface Row {
+  id: string;
+  biller_name: string;
+  amount: number;
+  status: string;
+  auto_pay: boolean;
+  reminder_days: number | null;
+  notes: string | null;
+  metadata: Record<string, any>;
+}
+
+// Names with the characters a logic tree has to quote
+const NAMES = ['British Gas', 'Smith, Jones & Co', "Bob's (Builders)", 'The "Best" Gym', 'C:\\Backup', 'council.tax'];
+const AMOUNTS = [5, 12.5, 40, 99.99];
+const STATUSES = ['pending', 'paid', 'overdue'];
+const REMINDER_DAYS = [null, 0, 3, 7];
+const NOTES = [null, 'call first', 'Paid by phone'];
+const METADATA = [{}, { tag: 'a' }, { tag: 'b,c' }, { tag: 'x', ref: { kind: 'card' } }, { ref: { kind: 'bank' } }, { tag: null }];
+
+const ROWS: Row[] = Array.from({ length: 16 }, (_, n) => ({
+  id: `00000000-0000-4000-8000-${String(n + 1).padStart(12, '0')}`,
+  biller_name: NAMES[n % NAMES.length]!,
+  amount: AMOUNTS[n % AMOUNTS.length]!,
+  status: STATUSES[n % STATUSES.length]!,
+  auto_pay: n % 2 === 0,
+  reminder_days: REMINDER_DAYS[n % REMINDER_DAYS.length]!,
+  notes: NOTES[n % NOTES.length]!,
+  metadata: METADATA[n % METADATA.length]!,
+}));
+
+// Filters
+
+const leaf = (column: string, operator: Filter['operator'], value: any, path?: string[]): Filter => ({
+  column,
+  operator,
+  value,
+  ...(path && { path }),
+});
+
+// Fragments of the names and notes; no backslashes, which LIKE takes as escapes
+const FRAGMENTS = ['British', 'Smith, ', '(Builders)', '"Best"', 'tax', 'Gym', 'call', 'phone', 'o'];
+
+const pattern = fc.tuple(fc.constantFrom(...FRAGMENTS), fc.boolean())
+  .map(([fragment, prefix]) => (prefix ? `${fragment}%` : `%${fragment}%`));
+
+const textFilter = (column: string, values: readonly (string | null)[], path?: string[]) => {
+  const present = values.filter((value): value is string => value !== null);
+  return fc.oneof(
+    fc.tuple(fc.constantFrom<Filter['operator']>('eq', 'neq'), fc.constantFrom(...present, 'nobody'))
+      .map(([operator, value]) => leaf(column, operator, value, path)),
+    fc.tuple(fc.constantFrom<Filter['operator']>('like', 'ilike'), pattern)
+      .map(([operator, value]) => leaf(column, operator, operator === 'ilike' ? value.toLowerCase() : value, path)),
+    fc.subarray(present, { minLength: 1 }).map(value => leaf(column, 'in', value, path)),
+    fc.constant(leaf(column, 'is', null, path))
+  );
+};
+
+const numberFilter = (column: string, values: readonly (number | null)[]) => {
+  const present = values.filter((value): value is number => value !== null);
+  return fc.oneof(
+    fc.tuple(fc.constantFrom<Filter['operator']>('eq', 'neq', 'gt', 'gte', 'lt', 'lte'), fc.constantFrom(...present))
+      .map(([operator, value]) => leaf(column, operator, value)),
+    fc.subarray(present, { minLength: 1 }).map(value => leaf(column, 'in', value)),
+    fc.constant(leaf(column, 'is', null))
+  );
+};
+
+const filter: fc.Arbitrary<Filter> = fc.oneof(
+  textFilter('biller_name', NAMES),
+  textFilter('notes', NOTES),
+  textFilter('metadata', ['a', 'b,c', 'x'], ['tag']),
+  textFilter('metadata', ['card', 'bank'], ['ref', 'kind']),
+  numberFilter('amount', AMOUNTS),
+  numberFilter('reminder_days', REMINDER_DAYS),
+  fc.tuple(fc.constantFrom<Filter['operator']>('eq', 'neq'), fc.constantFrom(...STATUSES))
+    .map(([operator, value]) => leaf('status', operator, value)),
+  fc.subarray(STATUSES, { minLength: 1 }).map(value => leaf('status', 'in', value)),
+  fc.constantFrom(true, false, null).map(value => leaf('auto_pay', 'is', value))
+);
+
+const { condition } = fc.letrec<{ condition: FilterCondition }>(tie => ({
+  condition: fc.oneof(
+    { depthSize: 'small', withCrossShrink: true },
+    filter,
+    fc.array(tie('condition'), { minLength: 1, maxLength: 3 }).map(or => ({ or })),
+    fc.array(tie('condition'), { minLength: 1, maxLength: 3 }).map(and => ({ and })),
+    tie('condition').map(not => ({ not }))
+  ),
+}));
+
+const conditions = fc.array(condition, { minLength: 1, maxLength: 3 });
+
+// The oracle: SQL's three-valued logic, with null for unknown
+
+type Truth = boolean | null;
+
+function valueOf(row: Row, { column, path }: Filter): unknown {
+  let value: any = row[column as keyof Row];
+  for (const segment of path ?? []) {
+    value = value?.[segment];
+  }
+  return value ?? null;
+}
+
+function likePattern(pattern: string, flags: string): RegExp {
+  const source = pattern.split('%').map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${source}$`, flags);
+}
+
+function matchesFilter(row: Row, filter: Filter): Truth {
+  const value = valueOf(row, filter);
+  if (filter.operator === 'is') {
+    return value === filter.value;
+  }
+  if (value === null) {
+    return null;
+  }
+
+  const operand = filter.value;
+  switch (filter.operator) {
+    case 'eq': return value === operand;
+    case 'neq': return value !== operand;
+    case 'gt': return (value as number) > operand;
+    case 'gte': return (value as number) >= operand;
+    case 'lt': return (value as number) < operand;
+    case 'lte': return (value as number) <= operand;
+    case 'in': return (operand as unknown[]).includes(value);
+    case 'like': return likePattern(operand, '').test(value as string);
+    case 'ilike': return likePattern(operand, 'i').test(value as string);
+  }
+}
+
+function all(truths: Truth[]): Truth {
+  return truths.includes(false) ? false : truths.includes(null) ? null : true;
+}
+
+function any(truths: Truth[]): Truth {
+  return truths.includes(true) ? true : truths.includes(null) ? null : false;
+}
+
+function matches(row: Row, condition: FilterCondition): Truth {
+  if ('or' in condition) {
+    return any(condition.or.map(child => matches(row, child)));
+  }
+  if ('and' in condition) {
+    return all(condition.and.map(child => matches(row, child)));
+  }
+  if ('not' in condition) {
+    const inner = matches(row, condition.not);
+    return inner === null ? null : !inner;
+  }
+  return matchesFilter(row, condition);
+}
+
+function expectedIds(filters: FilterCondition[]): string[] {
+  return ROWS.filter(row => all(filters.map(condition => matches(row, condition))) === true).map(row => row.id);
+}
+
+describe('filters', () => {
+  let db: TestDatabase;
+  let bills: BillRepository;
+  let userId: string;
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+    bills = new BillRepository(createTestClient(db));
+    userId = await createTestUser(db);
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  // Put the table back to exactly ROWS
+  async function seed(): Promise<void> {
+    await db.query('DELETE FROM bills');
+    await db.query(
+      `INSERT INTO bills (id, user_id, biller_name, biller_category, amount, currency, due_date, frequency,
+                          status, auto_pay, reminder_days, notes, metadata)
+       SELECT id, $1, biller_name, 'utilities', amount, 'GBP', '2026-03-15', 'monthly',
+              status, auto_pay, reminder_days, notes, metadata
+       FROM jsonb_populate_recordset(NULL::bills, $2::jsonb)`,
+      [userId, JSON.stringify(ROWS)]
+    );
+  }
+
+  async function ids(sql: string): Promise<string[]> {
+    const { rows } = await db.query<{ id: string }>(sql);
+    return rows.map(row => row.id).sort();
+  }
+
+  beforeAll(seed);
+
+  it('counts the rows the conditions match', async () => {
+    await fc.assert(
+      fc.asyncProperty(conditions, async filters => {
+        const counted = await bills.count(filters);
+
+        expect(counted).toEqual({ ok: true, value: expectedIds(filters).length });
+      }),
+      { numRuns: 150 }
+    );
+  });
+
+  it('updates only the rows the conditions match', async () => {
+    await fc.assert(
+      fc.asyncProperty(conditions, async filters => {
+        await seed();
+
+        const updated = await bills.updateMany(filters, { account_number: 'matched' });
+
+        expect(updated.ok).toBe(true);
+        const expected = expectedIds(filters);
+        expect(updated.ok && updated.value.map(bill => bill.id).sort()).toEqual(expected);
+        await expect(ids(`SELECT id FROM bills WHERE account_number = 'matched'`)).resolves.toEqual(expected);
+      }),
+      { numRuns: 60 }
+    );
+  });
+
+  it('deletes only the rows the conditions match', async () => {
+    await fc.assert(
+      fc.asyncProperty(conditions, async filters => {
+        await seed();
+
+        const deleted = await bills.deleteMany(filters);
+
+        expect(deleted.ok).toBe(true);
+        const expected = new Set(expectedIds(filters));
+        await expect(ids('SELECT id FROM bills')).resolves.toEqual(ROWS.map(row => row.id).filter(id => !expected.has(id)));
+      }),
+      { numRuns: 60 }
+    );
+  });
+
+  it('rejects filters it cannot apply as invalid input, touching no rows', async () => {
+    await seed();
+    const unknown = { column: 'status', operator: 'regex', value: '.*' } as unknown as Filter;
+
+    const results = await Promise.all([
+      bills.findByFilters([unknown]),
+      bills.count([unknown]),
+      bills.updateMany([{ or: [unknown] }], { account_number: 'matched' }),
+      bills.deleteMany([{ not: unknown }]),
+      bills.deleteMany([]),
+    ]);
+
+    for (const result of results) {
+      expect(result.ok).toBe(false);
+      expect(!result.ok && result.error).toBeInstanceOf(ValidationError);
+    }
+    expect(!results[0].ok && results[0].error.message).toBe("Unsupported filter operator 'regex'");
+    await expect(ids('SELECT id FROM bills')).resolves.toHaveLength(ROWS.length);
+    await expect(ids(`SELECT id FROM bills WHERE account_number = 'matched'`)).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,171 @@
+// Repository filters and how they are applied to Supabase queries
+//
+// A list of conditions matches rows that match all of them. Conditions can be grouped with
+// or, and and not, and can compare a value inside a JSON column (e.g. metadata) by path.
+// Groups and negations are sent as PostgREST logic trees (or=(...)), which need their
+// values quoted; plain filters go through the query builder's own methods.
+
+// Filter operators
+export type FilterOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'like' | 'ilike' | 'in' | 'is';
+
+export const FILTER_OPERATORS: readonly FilterOperator[] = [
+  'eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'like', 'ilike', 'in', 'is',
+];
+
+// Filter definition. With a path the filter compares the text at that path inside a JSON
+// column, e.g. { column: 'metadata', path: ['refund_id'], operator: 'is', value: null }.
+export interface Filter {
+  column: string;
+  operator: FilterOperator;
+  value: any;
+  path?: string[];
+}
+
+// Matches rows that match any of the conditions
+export interface OrFilter {
+  or: FilterCondition[];
+}
+
+// Matches rows that match all of the conditions, for use inside or
+export interface AndFilter {
+  and: FilterCondition[];
+}
+
+// Matches rows that do not match the condition
+export interface NotFilter {
+  not: FilterCondition;
+}
+
+export type FilterCondition = Filter | OrFilter | AndFilter | NotFilter;
+
+// Filters that cannot be applied: an unknown operator, a malformed column or path, an
+// empty group, or a value the operator cannot take
+export class FilterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FilterError';
+  }
+}
+
+// The filter methods shared by supabase-js select, update and delete queries
+type FilterBuilder = Record<FilterOperator | 'or', (...args: any[]) => FilterBuilder>;
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const PATH_SEGMENT = /^[A-Za-z0-9_]+$/;
+// Characters that have a meaning in a PostgREST logic tree
+const RESERVED = /[,.:()"\\\s]/;
+
+// Apply the conditions to a query, all of which must match. Throws FilterError, before
+// anything is sent, if any of them cannot be applied.
+export function applyFilters<Q>(query: Q, filters: FilterCondition[]): Q {
+  let builder = query as unknown as FilterBuilder;
+
+  for (const condition of filters) {
+    if ('or' in condition) {
+      builder = builder.or(conditionList(condition.or));
+    } else if ('and' in condition) {
+      builder = applyFilters(builder, condition.and);
+    } else if ('not' in condition) {
+      builder = builder.or(encodeCondition(condition));
+    } else {
+      builder = applyFilter(builder, condition);
+    }
+  }
+
+  return builder as unknown as Q;
+}
+
+function applyFilter(builder: FilterBuilder, filter: Filter): FilterBuilder {
+  const column = columnExpression(filter);
+  checkOperator(filter.operator);
+
+  switch (filter.operator) {
+    case 'in':
+      return builder.in(column, inValues(filter.value));
+    case 'is':
+      return builder.is(column, isValue(filter.value));
+    default:
+      return builder[filter.operator](column, filter.value instanceof Date ? filter.value.toISOString() : filter.value);
+  }
+}
+
+// PostgREST logic tree syntax, e.g. `status.eq.paid`, `not.and(a.gt.1,b.is.null)`
+function encodeCondition(condition: FilterCondition, negated = false): string {
+  if ('not' in condition) {
+    return encodeCondition(condition.not, !negated);
+  }
+
+  const not = negated ? 'not.' : '';
+  if ('or' in condition) {
+    return `${not}or(${conditionList(condition.or)})`;
+  }
+  if ('and' in condition) {
+    return `${not}and(${conditionList(condition.and)})`;
+  }
+
+  const column = columnExpression(condition);
+  checkOperator(condition.operator);
+  return `${column}.${not}${condition.operator}.${encodeValue(condition)}`;
+}
+
+function conditionList(conditions: FilterCondition[]): string {
+  if (conditions.length === 0) {
+    throw new FilterError('A filter group needs at least one condition');
+  }
+  return conditions.map(condition => encodeCondition(condition)).join(',');
+}
+
+function encodeValue({ operator, value }: Filter): string {
+  switch (operator) {
+    case 'in':
+      return `(${inValues(value).map(quote).join(',')})`;
+    case 'is':
+      return String(isValue(value));
+    default:
+      return quote(value);
+  }
+}
+
+function quote(value: unknown): string {
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  if (text !== '' && !RESERVED.test(text)) {
+    return text;
+  }
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+function columnExpression({ column, path }: Filter): string {
+  if (!IDENTIFIER.test(column)) {
+    throw new FilterError(`Invalid filter column '${column}'`);
+  }
+  if (!path || path.length === 0) {
+    return column;
+  }
+  if (!path.every(segment => PATH_SEGMENT.test(segment))) {
+    throw new FilterError(`Invalid JSON path '${path.join('.')}' on '${column}'`);
+  }
+
+  // -> down to the last key, then ->> to compare it as text
+  const parents = path.slice(0, -1).map(segment => `->${segment}`).join('');
+  return `${column}${parents}->>${path[path.length - 1]}`;
+}
+
+function checkOperator(operator: string): void {
+  if (!(FILTER_OPERATORS as readonly string[]).includes(operator)) {
+    throw new FilterError(`Unsupported filter operator '${operator}'`);
+  }
+}
+
+function inValues(value: unknown): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new FilterError("The 'in' operator needs an array of values");
+  }
+  return value;
+}
+
+function isValue(value: unknown): boolean | null {
+  if (value !== null && typeof value !== 'boolean') {
+    throw new FilterError("The 'is' operator takes null, true or false");
+  }
+  return value;
+}
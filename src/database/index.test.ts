@@ -0,0 +1,88 @@
+// Units of work against the migrated schema
+import { createTestDatabase, createTestUser, TestDatabase } from '../test/database';
+import { createTestClient } from '../test/postgrest';
+import { BillRepository } from './repositories/bills';
+import { NotFoundError } from '../utils/errors';
+import { RepositoryAuditor } from './index';
+
+describe('UnitOfWork', () => {
+  let db: TestDatabase;
+  let userId: string;
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+    userId = await createTestUser(db);
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  async function bill(): Promise<string> {
+    const { rows } = await db.query<{ id: string }>(
+      `INSERT INTO bills (user_id, biller_name, biller_category, amount, currency, due_date, frequency, status, auto_pay)
+       VALUES ($1, 'Octopus Energy', 'utilities', 64.2, 'GBP', '2026-03-03', 'monthly', 'pending', false)
+       RETURNING id`,
+      [userId]
+    );
+    return rows[0]!.id;
+  }
+
+  it('commits even when a commit hook throws, and still runs the hooks after it', async () => {
+    const recordChange = jest.fn()
+      .mockRejectedValueOnce(new Error('audit store unavailable'))
+      .mockResolvedValue(undefined);
+    const auditor: RepositoryAuditor = { recordChange };
+    const bills = new BillRepository(createTestClient(db), auditor);
+    const first = await bill();
+    const second = await bill();
+
+    const unit = bills.unitOfWork();
+    bills.updateIn(unit, first, { amount: 70 });
+    const staged = bills.updateIn(unit, second, { amount: 80 });
+    const result = await unit.commit();
+
+    expect(result.ok).toBe(true);
+    expect(recordChange).toHaveBeenCalledTimes(2);
+    expect(staged.row).toMatchObject({ id: second, amount: 80 });
+    const { rows } = await db.query<{ id: string; amount: string }>(
+      'SELECT id, amount::text FROM bills WHERE id = ANY($1::uuid[]) ORDER BY amount',
+      [[first, second]]
+    );
+    expect(rows).toEqual([{ id: first, amount: '70.00' }, { id: second, amount: '80.00' }]);
+  });
+
+  it('rolls back every staged write and runs no hooks when an update finds no row', async () => {
+    const recordChange = jest.fn(async () => undefined);
+    const bills = new BillRepository(createTestClient(db), { recordChange });
+    const existing = await bill();
+    const missing = crypto.randomUUID();
+
+    const unit = bills.unitOfWork();
+    const created = bills.createIn(unit, {
+      user_id: userId,
+      biller_name: 'Thames Water',
+      biller_category: 'utilities',
+      amount: 38.4,
+      currency: 'GBP',
+      due_date: new Date('2026-04-01'),
+      frequency: 'monthly',
+      status: 'pending',
+      auto_pay: false,
+    });
+    bills.updateIn(unit, existing, { amount: 99 });
+    bills.updateIn(unit, missing, { amount: 10 });
+    const result = await unit.commit();
+
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.error).toBeInstanceOf(NotFoundError);
+    expect(!result.ok && result.error.context).toMatchObject({ resource: 'bills', identifier: missing });
+    expect(recordChange).not.toHaveBeenCalled();
+    expect(() => created.row).toThrow('has not been committed');
+    const { rows } = await db.query<{ id: string; amount: string }>(
+      'SELECT id, amount::text FROM bills WHERE id = ANY($1::uuid[])',
+      [[created.id, existing]]
+    );
+    expect(rows).toEqual([{ id: existing, amount: '64.20' }]);
+  });
+});
@@ -1,8 +1,16 @@
 // Base Repository Pattern with Supabase
 import { SupabaseClient } from '@supabase/supabase-js';
-import { createClient } from '../lib/supabase/server';
-import { Result, Ok, Err, DatabaseError, NotFoundError } from '../utils/errors';
+import { createClient } from '../lib/supabase/client';
+import { Result, Ok, Err, DatabaseError, NotFoundError, ValidationError } from '../utils/errors';
 import { logger, measureAsync } from '../utils/logger';
+import { FilterCondition, FilterError, applyFilters } from './filters';
+import { CursorOptions, CursorPage, afterKey, cursorAfter, decodeCursor, pageSize } from './pagination';
+
+export type { AndFilter, Filter, FilterCondition, FilterOperator, NotFilter, OrFilter } from './filters';
+export { FILTER_OPERATORS, FilterError } from './filters';
+
+export type { CursorOptions, CursorPage } from './pagination';
+export { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from './pagination';
 
 // Base entity interface
 export interface BaseEntity {
@@ -11,50 +19,197 @@ export interface BaseEntity {
   updated_at: Date;
 }
 
-// Query options for repositories
+// Query options for repositories. For long lists prefer findByCursor to offsets.
 export interface QueryOptions {
   limit?: number;
+  // Needs a limit
   offset?: number;
   orderBy?: string;
   orderDirection?: 'asc' | 'desc';
   select?: string;
 }
 
-// Filter operators
-export type FilterOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'like' | 'ilike' | 'in' | 'is';
+// A write made through a repository, with the row before and after
+export type RecordOperation = 'create' | 'update' | 'soft_delete' | 'delete';
+
+export interface RecordChange {
+  entityType: string;
+  entityId: string;
+  operation: RecordOperation;
+  before: Record<string, any> | null;
+  after: Record<string, any> | null;
+}
 
-// Filter definition
-export interface Filter {
-  column: string;
-  operator: FilterOperator;
-  value: any;
+// Told about every create, update and delete a repository makes (see AuditService).
+// Failures to record are the auditor's to handle; the write has already happened.
+export interface RepositoryAuditor {
+  recordChange(change: RecordChange): Promise<void>;
 }
 
-// Transaction support
-export interface Transaction {
+// Transaction support: a write as sent to run_unit_of_work
+export interface UnitOperation {
+  op: 'insert' | 'update' | 'delete';
+  table: string;
   id: string;
-  operations: Array<() => Promise<any>>;
-  rollback: () => Promise<void>;
+  values?: Record<string, any>;
+}
+
+// A staged write and what to do with its rows once the unit commits
+export interface StagedOperation extends UnitOperation {
+  onCommit: (before: Record<string, any> | null, after: Record<string, any> | null) => Promise<void>;
+}
+
+// A write waiting in a unit of work. Its row (as it was, for a delete) is available once
+// the unit has committed.
+export class StagedWrite<T> {
+  private written: T | null = null;
+
+  constructor(readonly id: string) {}
+
+  get row(): T {
+    if (!this.written) {
+      throw new Error(`Write to ${this.id} has not been committed`);
+    }
+    return this.written;
+  }
+
+  // Called by the unit of work when it commits
+  settle(row: T): void {
+    this.written = row;
+  }
+}
+
+// Writes that happen together or not at all. Repositories stage writes with createIn,
+// updateIn and deleteIn; nothing reaches the database until commit, which runs them in
+// order in one transaction (see run_unit_of_work) and rolls all of them back if any
+// fails. Rows created in the unit get their ids up front, so later writes can refer to
+// them. Stage writes only from repositories sharing the unit's client.
+export class UnitOfWork {
+  private readonly operations: StagedOperation[] = [];
+  private committed = false;
+
+  constructor(private readonly supabase: SupabaseClient) {}
+
+  get size(): number {
+    return this.operations.length;
+  }
+
+  stage(operation: StagedOperation): void {
+    if (this.committed) {
+      throw new Error('Unit of work has already been committed');
+    }
+    this.operations.push(operation);
+  }
+
+  async commit(): Promise<Result<void, DatabaseError | NotFoundError>> {
+    return measureAsync('database.unitOfWork.commit', async () => {
+      if (this.committed) {
+        return Err(new DatabaseError('commit', new Error('Unit of work has already been committed')));
+      }
+      this.committed = true;
+
+      if (this.operations.length === 0) {
+        return Ok(undefined);
+      }
+
+      let rows: Array<{ before: Record<string, any> | null; after: Record<string, any> | null }>;
+      try {
+        const { data, error } = await this.supabase.rpc('run_unit_of_work', {
+          p_operations: this.operations.map(({ op, table, id, values }) => ({
+            op,
+            table,
+            id,
+            ...(values && { values }),
+          })),
+        });
+
+        if (error) {
+          // run_unit_of_work reports which operation failed in the error's details
+          const failed = this.operations[Number(error.details)];
+          if (error.code === 'P0002' && failed) {
+            return Err(new NotFoundError(failed.table, failed.id));
+          }
+          logger.error('Unit of work rolled back', error, { operations: this.describe() });
+          return Err(new DatabaseError('commit', error));
+        }
+
+        rows = data || [];
+      } catch (error) {
+        logger.error('Unexpected error committing unit of work', error as Error);
+        return Err(new DatabaseError('commit', error as Error));
+      }
+
+      // The writes are in the database now, so a hook that throws (e.g. auditing) is logged
+      // rather than reported as a failed commit, and the hooks after it still run
+      for (const [index, operation] of this.operations.entries()) {
+        try {
+          await operation.onCommit(rows[index]?.before ?? null, rows[index]?.after ?? null);
+        } catch (error) {
+          logger.error('Unit of work commit hook failed', error as Error, {
+            operation: `${operation.op} ${operation.table} ${operation.id}`,
+          });
+        }
+      }
+
+      logger.debug('Committed unit of work', { operations: this.describe() });
+      return Ok(undefined);
+    });
+  }
+
+  private describe(): string[] {
+    return this.operations.map(({ op, table, id }) => `${op} ${table} ${id}`);
+  }
+}
+
+// The query builder methods QueryOptions use
+interface OptionsBuilder {
+  limit(count: number): OptionsBuilder;
+  range(from: number, to: number): OptionsBuilder;
+  order(column: string, options: { ascending: boolean }): OptionsBuilder;
+}
+
+function applyOptions<Q>(query: Q, options?: QueryOptions): Q {
+  let builder = query as unknown as OptionsBuilder;
+
+  if (options?.offset && !options.limit) {
+    // Rather than guess a page size
+    throw new Error('QueryOptions.offset needs a limit');
+  }
+  if (options?.limit) {
+    builder = options.offset
+      ? builder.range(options.offset, options.offset + options.limit - 1)
+      : builder.limit(options.limit);
+  }
+  if (options?.orderBy) {
+    builder = builder.order(options.orderBy, { ascending: options.orderDirection !== 'desc' });
+  }
+
+  return builder as unknown as Q;
+}
+
+// Bulk writes must say which rows they are for; an empty list would match every row
+function requireFilters(operation: string, filters: FilterCondition[]): void {
+  if (filters.length === 0) {
+    throw new FilterError(`${operation} needs at least one filter`);
+  }
+}
+
+// A filter that cannot be applied is the caller's mistake, reported like any invalid input
+function invalidFilter(error: unknown): Result<never, ValidationError> | null {
+  return error instanceof FilterError ? Err(new ValidationError(error.message)) : null;
 }
 
 // Base repository abstract class
 export abstract class BaseRepository<T extends BaseEntity> {
   protected supabase: SupabaseClient;
   protected abstract tableName: string;
+  protected readonly auditor: RepositoryAuditor | undefined;
 
-  constructor(supabase?: SupabaseClient) {
-    this.supabase = supabase || this.createClient();
-  }
-
-  private async createClient(): Promise<SupabaseClient> {
-    // For server-side, use server client
-    if (typeof window === 'undefined') {
-      return await createClient();
-    }
-    
-    // For client-side, use browser client
-    const { createBrowserClient } = await import('../lib/supabase/client');
-    return createBrowserClient();
+  // Without a client a repository uses the anon-key browser client, so client components can
+  // import repositories. Server code passes its own (see createApiContext and the jobs).
+  constructor(supabase?: SupabaseClient, auditor?: RepositoryAuditor) {
+    this.supabase = supabase ?? createClient();
+    this.auditor = auditor;
   }
 
   // CREATE
@@ -73,6 +228,7 @@ export abstract class BaseRepository<T extends BaseEntity> {
         }
 
         logger.debug(`Created ${this.tableName}`, { id: created.id });
+        await this.audit('create', created.id, null, created);
         return Ok(created);
       } catch (error) {
         logger.error(`Unexpected error creating ${this.tableName}`, error as Error);
@@ -127,17 +283,7 @@ export abstract class BaseRepository<T extends BaseEntity> {
       try {
         let query = this.supabase.from(this.tableName).select(options?.select || '*');
 
-        if (options?.limit) {
-          query = query.limit(options.limit);
-        }
-        if (options?.offset) {
-          query = query.range(options.offset, options.offset + (options.limit || 10) - 1);
-        }
-        if (options?.orderBy) {
-          query = query.order(options.orderBy, { 
-            ascending: options.orderDirection !== 'desc' 
-          });
-        }
+        query = applyOptions(query, options);
 
         const { data, error } = await query;
 
@@ -155,61 +301,16 @@ export abstract class BaseRepository<T extends BaseEntity> {
   }
 
   async findByFilters(
-    filters: Filter[],
+    filters: FilterCondition[],
     options?: QueryOptions
-  ): Promise<Result<T[], DatabaseError>> {
+  ): Promise<Result<T[], DatabaseError | ValidationError>> {
     return measureAsync(`repository.${this.tableName}.findByFilters`, async () => {
       try {
         let query = this.supabase.from(this.tableName).select(options?.select || '*');
 
-        // Apply filters
-        for (const filter of filters) {
-          switch (filter.operator) {
-            case 'eq':
-              query = query.eq(filter.column, filter.value);
-              break;
-            case 'neq':
-              query = query.neq(filter.column, filter.value);
-              break;
-            case 'gt':
-              query = query.gt(filter.column, filter.value);
-              break;
-            case 'gte':
-              query = query.gte(filter.column, filter.value);
-              break;
-            case 'lt':
-              query = query.lt(filter.column, filter.value);
-              break;
-            case 'lte':
-              query = query.lte(filter.column, filter.value);
-              break;
-            case 'like':
-              query = query.like(filter.column, filter.value);
-              break;
-            case 'ilike':
-              query = query.ilike(filter.column, filter.value);
-              break;
-            case 'in':
-              query = query.in(filter.column, filter.value);
-              break;
-            case 'is':
-              query = query.is(filter.column, filter.value);
-              break;
-          }
-        }
+        query = applyFilters(query, filters);
 
-        // Apply options
-        if (options?.limit) {
-          query = query.limit(options.limit);
-        }
-        if (options?.offset) {
-          query = query.range(options.offset, options.offset + (options.limit || 10) - 1);
-        }
-        if (options?.orderBy) {
-          query = query.order(options.orderBy, {
-            ascending: options.orderDirection !== 'desc'
-          });
-        }
+        query = applyOptions(query, options);
 
         const { data, error } = await query;
 
@@ -220,19 +321,88 @@ export abstract class BaseRepository<T extends BaseEntity> {
 
         return Ok(data || []);
       } catch (error) {
+        const invalid = invalidFilter(error);
+        if (invalid) {
+          return invalid;
+        }
         logger.error(`Unexpected error finding ${this.tableName} by filters`, error as Error);
         return Err(new DatabaseError('findByFilters', error as Error));
       }
     });
   }
 
+  // One page of matching rows, ordered by options.orderBy and then id. Pass a page's
+  // nextCursor back as options.cursor to fetch the page after it.
+  async findByCursor(
+    filters: FilterCondition[],
+    options: CursorOptions
+  ): Promise<Result<CursorPage<T>, DatabaseError | ValidationError>> {
+    return measureAsync(`repository.${this.tableName}.findByCursor`, async () => {
+      const direction = options.orderDirection ?? 'asc';
+      const limit = pageSize(options.limit);
+      const conditions = [...filters];
+
+      if (options.cursor) {
+        const key = decodeCursor(options.cursor, options.orderBy, direction);
+        if (!key) {
+          return Err(new ValidationError('Invalid cursor', { cursor: options.cursor }));
+        }
+        conditions.push(afterKey(key));
+      }
+
+      try {
+        const ascending = direction === 'asc';
+        // One row more than the page, to tell whether another page follows
+        const { data, error } = await applyFilters(
+          this.supabase.from(this.tableName).select(options.select || '*'),
+          conditions
+        )
+          .order(options.orderBy, { ascending })
+          .order('id', { ascending })
+          .limit(limit + 1);
+
+        if (error) {
+          logger.error(`Failed to find ${this.tableName} by cursor`, error, { filters });
+          return Err(new DatabaseError('findByCursor', error));
+        }
+
+        const rows = (data || []) as unknown as T[];
+        const items = rows.slice(0, limit);
+        const hasMore = rows.length > limit;
+        const last = items[items.length - 1];
+
+        return Ok({
+          items,
+          nextCursor: hasMore && last ? cursorAfter(last, options.orderBy, direction) : null,
+          hasMore,
+        });
+      } catch (error) {
+        const invalid = invalidFilter(error);
+        if (invalid) {
+          return invalid;
+        }
+        logger.error(`Unexpected error finding ${this.tableName} by cursor`, error as Error);
+        return Err(new DatabaseError('findByCursor', error as Error));
+      }
+    });
+  }
+
   // UPDATE
   async update(
     id: string,
     updates: Partial<Omit<T, 'id' | 'created_at' | 'updated_at'>>
+  ): Promise<Result<T, DatabaseError>> {
+    return this.applyUpdate(id, updates, 'update');
+  }
+
+  private async applyUpdate(
+    id: string,
+    updates: Partial<Omit<T, 'id' | 'created_at' | 'updated_at'>>,
+    operation: RecordOperation
   ): Promise<Result<T, DatabaseError>> {
     return measureAsync(`repository.${this.tableName}.update`, async () => {
       try {
+        const before = await this.snapshot(id);
         const { data, error } = await this.supabase
           .from(this.tableName)
           .update({
@@ -249,6 +419,7 @@ export abstract class BaseRepository<T extends BaseEntity> {
         }
 
         logger.debug(`Updated ${this.tableName}`, { id });
+        await this.audit(operation, id, before, data);
         return Ok(data);
       } catch (error) {
         logger.error(`Unexpected error updating ${this.tableName}`, error as Error);
@@ -261,6 +432,7 @@ export abstract class BaseRepository<T extends BaseEntity> {
   async delete(id: string): Promise<Result<void, DatabaseError>> {
     return measureAsync(`repository.${this.tableName}.delete`, async () => {
       try {
+        const before = await this.snapshot(id);
         const { error } = await this.supabase
           .from(this.tableName)
           .delete()
@@ -272,6 +444,7 @@ export abstract class BaseRepository<T extends BaseEntity> {
         }
 
         logger.debug(`Deleted ${this.tableName}`, { id });
+        await this.audit('delete', id, before, null);
         return Ok(undefined);
       } catch (error) {
         logger.error(`Unexpected error deleting ${this.tableName}`, error as Error);
@@ -282,7 +455,63 @@ export abstract class BaseRepository<T extends BaseEntity> {
 
   // Soft delete (if supported)
   async softDelete(id: string): Promise<Result<T, DatabaseError>> {
-    return this.update(id, { deleted_at: new Date() } as any);
+    return this.applyUpdate(id, { deleted_at: new Date() } as any, 'soft_delete');
+  }
+
+  // Units of work: the same writes, staged to commit together (see UnitOfWork)
+  unitOfWork(): UnitOfWork {
+    return new UnitOfWork(this.supabase);
+  }
+
+  createIn(
+    unit: UnitOfWork,
+    data: Omit<T, 'id' | 'created_at' | 'updated_at'> & { id?: string }
+  ): StagedWrite<T> {
+    const staged = new StagedWrite<T>(data.id ?? crypto.randomUUID());
+    unit.stage({
+      op: 'insert',
+      table: this.tableName,
+      id: staged.id,
+      values: { ...data, id: staged.id },
+      onCommit: async (_before, after) => {
+        staged.settle(after as T);
+        await this.audit('create', staged.id, null, after as T);
+      },
+    });
+    return staged;
+  }
+
+  updateIn(
+    unit: UnitOfWork,
+    id: string,
+    updates: Partial<Omit<T, 'id' | 'created_at' | 'updated_at'>>
+  ): StagedWrite<T> {
+    const staged = new StagedWrite<T>(id);
+    unit.stage({
+      op: 'update',
+      table: this.tableName,
+      id,
+      values: { ...updates, updated_at: new Date().toISOString() },
+      onCommit: async (before, after) => {
+        staged.settle(after as T);
+        await this.audit('update', id, before as T | null, after as T);
+      },
+    });
+    return staged;
+  }
+
+  deleteIn(unit: UnitOfWork, id: string): StagedWrite<T> {
+    const staged = new StagedWrite<T>(id);
+    unit.stage({
+      op: 'delete',
+      table: this.tableName,
+      id,
+      onCommit: async before => {
+        staged.settle(before as T);
+        await this.audit('delete', id, before as T, null);
+      },
+    });
+    return staged;
   }
 
   // Batch operations
@@ -311,11 +540,12 @@ export abstract class BaseRepository<T extends BaseEntity> {
   }
 
   async updateMany(
-    filters: Filter[],
+    filters: FilterCondition[],
     updates: Partial<Omit<T, 'id' | 'created_at' | 'updated_at'>>
-  ): Promise<Result<T[], DatabaseError>> {
+  ): Promise<Result<T[], DatabaseError | ValidationError>> {
     return measureAsync(`repository.${this.tableName}.updateMany`, async () => {
       try {
+        requireFilters('updateMany', filters);
         let query = this.supabase
           .from(this.tableName)
           .update({
@@ -323,13 +553,7 @@ export abstract class BaseRepository<T extends BaseEntity> {
             updated_at: new Date().toISOString(),
           });
 
-        // Apply filters
-        for (const filter of filters) {
-          if (filter.operator === 'eq') {
-            query = query.eq(filter.column, filter.value);
-          }
-          // Add other operators as needed
-        }
+        query = applyFilters(query, filters);
 
         const { data, error } = await query.select();
 
@@ -341,24 +565,23 @@ export abstract class BaseRepository<T extends BaseEntity> {
         logger.debug(`Updated ${data?.length || 0} ${this.tableName} records`);
         return Ok(data || []);
       } catch (error) {
+        const invalid = invalidFilter(error);
+        if (invalid) {
+          return invalid;
+        }
         logger.error(`Unexpected error updating many ${this.tableName}`, error as Error);
         return Err(new DatabaseError('updateMany', error as Error));
       }
     });
   }
 
-  async deleteMany(filters: Filter[]): Promise<Result<void, DatabaseError>> {
+  async deleteMany(filters: FilterCondition[]): Promise<Result<void, DatabaseError | ValidationError>> {
     return measureAsync(`repository.${this.tableName}.deleteMany`, async () => {
       try {
+        requireFilters('deleteMany', filters);
         let query = this.supabase.from(this.tableName).delete();
 
-        // Apply filters
-        for (const filter of filters) {
-          if (filter.operator === 'eq') {
-            query = query.eq(filter.column, filter.value);
-          }
-          // Add other operators as needed
-        }
+        query = applyFilters(query, filters);
 
         const { error } = await query;
 
@@ -370,6 +593,10 @@ export abstract class BaseRepository<T extends BaseEntity> {
         logger.debug(`Deleted multiple ${this.tableName} records`);
         return Ok(undefined);
       } catch (error) {
+        const invalid = invalidFilter(error);
+        if (invalid) {
+          return invalid;
+        }
         logger.error(`Unexpected error deleting many ${this.tableName}`, error as Error);
         return Err(new DatabaseError('deleteMany', error as Error));
       }
@@ -377,21 +604,15 @@ export abstract class BaseRepository<T extends BaseEntity> {
   }
 
   // Count
-  async count(filters?: Filter[]): Promise<Result<number, DatabaseError>> {
+  async count(filters?: FilterCondition[]): Promise<Result<number, DatabaseError | ValidationError>> {
     return measureAsync(`repository.${this.tableName}.count`, async () => {
       try {
         let query = this.supabase
           .from(this.tableName)
           .select('*', { count: 'exact', head: true });
 
-        // Apply filters if provided
         if (filters) {
-          for (const filter of filters) {
-            if (filter.operator === 'eq') {
-              query = query.eq(filter.column, filter.value);
-            }
-            // Add other operators as needed
-          }
+          query = applyFilters(query, filters);
         }
 
         const { count, error } = await query;
@@ -403,6 +624,10 @@ export abstract class BaseRepository<T extends BaseEntity> {
 
         return Ok(count || 0);
       } catch (error) {
+        const invalid = invalidFilter(error);
+        if (invalid) {
+          return invalid;
+        }
         logger.error(`Unexpected error counting ${this.tableName}`, error as Error);
         return Err(new DatabaseError('count', error as Error));
       }
@@ -417,4 +642,26 @@ export abstract class BaseRepository<T extends BaseEntity> {
     }
     return Ok(result.value !== null);
   }
-}
\ No newline at end of file
+
+  // Tell the auditor, if there is one, about a write
+  protected async audit(
+    operation: RecordOperation,
+    entityId: string,
+    before: T | null,
+    after: T | null
+  ): Promise<void> {
+    if (this.auditor) {
+      await this.auditor.recordChange({ entityType: this.tableName, entityId, operation, before, after });
+    }
+  }
+
+  // The row as it is before a write, when audited. A failed read leaves the change
+  // recorded without its before values rather than blocking the write.
+  protected async snapshot(id: string): Promise<T | null> {
+    if (!this.auditor) {
+      return null;
+    }
+    const found = await this.findById(id);
+    return found.ok ? found.value : null;
+  }
+}
@@ -0,0 +1,141 @@
+// Migration CLI
+//
+// Usage: ts-node src/database/migrate.ts <command> [options]
+//   up [--to VERSION]     apply pending migrations
+//   down [--steps N]      roll back the last N migrations (default 1)
+//   status                list applied, pending and drifted migrations
+//   baseline VERSION      mark migrations up to VERSION as applied without running them
+//
+// Options:
+//   --dry-run             run inside a transaction that is always rolled back
+//   --local               create the stand-in auth schema (plain Postgres container)
+//   --database-url URL    defaults to DATABASE_URL
+import { MigrationReport, MigrationRunner } from './migrations';
+
+interface CliArgs {
+  command: string;
+  positional: string[];
+  flags: Map<string, string | true>;
+}
+
+function parseArgs(argv: string[]): CliArgs {
+  const [command = 'status', ...rest] = argv;
+  const positional: string[] = [];
+  const flags = new Map<string, string | true>();
+
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i]!;
+    if (!arg.startsWith('--')) {
+      positional.push(arg);
+      continue;
+    }
+
+    const next = rest[i + 1];
+    if (next !== undefined && !next.startsWith('--') && ['--to', '--steps', '--database-url'].includes(arg)) {
+      flags.set(arg, next);
+      i++;
+    } else {
+      flags.set(arg, true);
+    }
+  }
+
+  return { command, positional, flags };
+}
+
+function printReport(report: MigrationReport): void {
+  const prefix = report.dryRun ? '[dry run] ' : '';
+  const lines = [
+    ...report.applied.map(name => `${prefix}applied     ${name}`),
+    ...report.rolledBack.map(name => `${prefix}rolled back ${name}`),
+    ...report.baselined.map(name => `${prefix}baselined   ${name}`),
+  ];
+  console.log(lines.length > 0 ? lines.join('\n') : `${prefix}Nothing to do`);
+  if (report.dryRun && lines.length > 0) {
+    console.log('[dry run] All changes were rolled back');
+  }
+}
+
+async function main(): Promise<number> {
+  const args = parseArgs(process.argv.slice(2));
+  const databaseUrl = args.flags.get('--database-url') ?? process.env['DATABASE_URL'];
+
+  if (typeof databaseUrl !== 'string') {
+    console.error('DATABASE_URL is not set (or pass --database-url)');
+    return 1;
+  }
+
+  const runner = new MigrationRunner({
+    connectionString: databaseUrl,
+    dryRun: args.flags.has('--dry-run'),
+    bootstrapLocalAuth: args.flags.has('--local'),
+  });
+
+  switch (args.command) {
+    case 'up': {
+      const to = args.flags.get('--to');
+      const result = await runner.up(typeof to === 'string' ? to : undefined);
+      if (!result.ok) {
+        console.error(result.error.message, result.error.context ?? '');
+        return 1;
+      }
+      printReport(result.value);
+      return 0;
+    }
+    case 'down': {
+      const steps = Number(args.flags.get('--steps') ?? 1);
+      if (!Number.isInteger(steps) || steps < 1) {
+        console.error('--steps must be a positive integer');
+        return 1;
+      }
+      const result = await runner.down(steps);
+      if (!result.ok) {
+        console.error(result.error.message, result.error.context ?? '');
+        return 1;
+      }
+      printReport(result.value);
+      return 0;
+    }
+    case 'baseline': {
+      const version = args.positional[0];
+      if (!version || !/^\d{4}$/.test(version)) {
+        console.error('Usage: migrate.ts baseline VERSION (e.g. 0000)');
+        return 1;
+      }
+      const result = await runner.baseline(version);
+      if (!result.ok) {
+        console.error(result.error.message, result.error.context ?? '');
+        return 1;
+      }
+      printReport(result.value);
+      return 0;
+    }
+    case 'status': {
+      const result = await runner.status();
+      if (!result.ok) {
+        console.error(result.error.message, result.error.context ?? '');
+        return 1;
+      }
+      for (const migration of result.value) {
+        const appliedAt = migration.appliedAt ? migration.appliedAt.toISOString() : '';
+        console.log(
+          `${migration.version}  ${migration.state.padEnd(17)}  ${migration.name.padEnd(32)}  ${appliedAt}`
+        );
+      }
+      const drifted = result.value.some(migration =>
+        migration.state === 'checksum_mismatch' || migration.state === 'missing_file'
+      );
+      return drifted ? 1 : 0;
+    }
+    default:
+      console.error(`Unknown command: ${args.command}`);
+      return 1;
+  }
+}
+
+// The logger keeps a metrics timer alive, so exit explicitly
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
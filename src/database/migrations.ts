@@ -0,0 +1,381 @@
+// Versioned SQL migrations for supabase/migrations
+//
+// Each migration is NNNN_name.sql with an optional NNNN_name.down.sql beside it.
+// Applied versions are recorded in public.schema_migrations with a checksum of
+// the up script, so edits to an already-applied migration are detected.
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Client } from 'pg';
+import { Result, Ok, Err, MigrationError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+export interface Migration {
+  version: string;
+  name: string;
+  upSql: string;
+  downSql?: string;
+  checksum: string;
+}
+
+export interface AppliedMigration {
+  version: string;
+  name: string;
+  checksum: string;
+  applied_at: Date;
+  execution_ms: number;
+}
+
+export type MigrationState = 'applied' | 'pending' | 'checksum_mismatch' | 'missing_file';
+
+export interface MigrationStatus {
+  version: string;
+  name: string;
+  state: MigrationState;
+  appliedAt?: Date;
+}
+
+export interface MigrationReport {
+  dryRun: boolean;
+  applied: string[];
+  rolledBack: string[];
+  baselined: string[];
+}
+
+export interface MigrationRunnerOptions {
+  connectionString: string;
+  migrationsDir?: string;
+  dryRun?: boolean;
+  // Create a stand-in auth schema and roles first (plain Postgres containers only)
+  bootstrapLocalAuth?: boolean;
+}
+
+const MIGRATION_FILE = /^(\d{4})_([a-z0-9_]+)\.sql$/;
+const DOWN_FILE = /^(\d{4})_([a-z0-9_]+)\.down\.sql$/;
+
+// Arbitrary constant shared by every runner so only one can migrate at a time
+const ADVISORY_LOCK_ID = 72_410_001;
+
+const DEFAULT_MIGRATIONS_DIR = path.resolve(__dirname, '../../supabase/migrations');
+const LOCAL_AUTH_STUB = path.resolve(__dirname, '../../supabase/local/auth_stub.sql');
+
+const CREATE_MIGRATIONS_TABLE = `
+  CREATE TABLE IF NOT EXISTS public.schema_migrations (
+    version VARCHAR(4) PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    checksum CHAR(64) NOT NULL,
+    applied_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    execution_ms INTEGER NOT NULL DEFAULT 0
+  );
+  ALTER TABLE public.schema_migrations ENABLE ROW LEVEL SECURITY;
+`;
+
+export function checksum(sql: string): string {
+  return createHash('sha256').update(sql).digest('hex');
+}
+
+export class MigrationRunner {
+  private readonly connectionString: string;
+  private readonly migrationsDir: string;
+  private readonly dryRun: boolean;
+  private readonly bootstrapLocalAuth: boolean;
+
+  constructor(options: MigrationRunnerOptions) {
+    this.connectionString = options.connectionString;
+    this.migrationsDir = options.migrationsDir ?? DEFAULT_MIGRATIONS_DIR;
+    this.dryRun = options.dryRun ?? false;
+    this.bootstrapLocalAuth = options.bootstrapLocalAuth ?? false;
+  }
+
+  // Read and pair up/down scripts from the migrations directory
+  async loadMigrations(): Promise<Result<Migration[], MigrationError>> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.migrationsDir);
+    } catch (error) {
+      return Err(new MigrationError('Cannot read migrations directory', {
+        dir: this.migrationsDir,
+        originalError: (error as Error).message,
+      }));
+    }
+
+    const migrations = new Map<string, Migration>();
+    const downScripts = new Map<string, string>();
+
+    for (const file of files.sort()) {
+      const fullPath = path.join(this.migrationsDir, file);
+      const down = DOWN_FILE.exec(file);
+      if (down) {
+        downScripts.set(down[1]!, await fs.readFile(fullPath, 'utf8'));
+        continue;
+      }
+
+      const up = MIGRATION_FILE.exec(file);
+      if (!up) {
+        continue;
+      }
+
+      const [, version, name] = up as unknown as [string, string, string];
+      if (migrations.has(version)) {
+        return Err(new MigrationError(`Duplicate migration version ${version}`, { file }));
+      }
+
+      const upSql = await fs.readFile(fullPath, 'utf8');
+      migrations.set(version, { version, name, upSql, checksum: checksum(upSql) });
+    }
+
+    for (const [version, downSql] of downScripts) {
+      const migration = migrations.get(version);
+      if (!migration) {
+        return Err(new MigrationError(`Down script ${version} has no matching migration`));
+      }
+      migration.downSql = downSql;
+    }
+
+    return Ok(Array.from(migrations.values()).sort((a, b) => a.version.localeCompare(b.version)));
+  }
+
+  async status(): Promise<Result<MigrationStatus[], MigrationError>> {
+    const migrationsResult = await this.loadMigrations();
+    if (!migrationsResult.ok) {
+      return migrationsResult;
+    }
+
+    return this.withClient(async client => {
+      const applied = await this.getApplied(client);
+      return Ok(this.compare(migrationsResult.value, applied));
+    });
+  }
+
+  // Apply pending migrations in version order, optionally stopping at targetVersion
+  async up(targetVersion?: string): Promise<Result<MigrationReport, MigrationError>> {
+    const migrationsResult = await this.loadMigrations();
+    if (!migrationsResult.ok) {
+      return migrationsResult;
+    }
+
+    return this.withClient(async client => {
+      const applied = await this.getApplied(client);
+      const drift = this.compare(migrationsResult.value, applied)
+        .filter(status => status.state === 'checksum_mismatch' || status.state === 'missing_file');
+
+      if (drift.length > 0) {
+        return Err(new MigrationError('Applied migrations do not match files on disk', { drift }));
+      }
+
+      const appliedVersions = new Set(applied.map(migration => migration.version));
+      const pending = migrationsResult.value.filter(migration =>
+        !appliedVersions.has(migration.version) &&
+        (!targetVersion || migration.version <= targetVersion)
+      );
+
+      const report = this.emptyReport();
+
+      return this.inTransactions(client, async run => {
+        for (const migration of pending) {
+          await run(migration.version, async () => {
+            const start = Date.now();
+            await client.query(migration.upSql);
+            await client.query(
+              `INSERT INTO public.schema_migrations (version, name, checksum, execution_ms)
+               VALUES ($1, $2, $3, $4)`,
+              [migration.version, migration.name, migration.checksum, Date.now() - start]
+            );
+          });
+
+          report.applied.push(`${migration.version}_${migration.name}`);
+          logger.info('Migration applied', { version: migration.version, dryRun: this.dryRun });
+        }
+
+        return report;
+      });
+    });
+  }
+
+  // Roll back the most recently applied migrations using their down scripts
+  async down(steps: number = 1): Promise<Result<MigrationReport, MigrationError>> {
+    const migrationsResult = await this.loadMigrations();
+    if (!migrationsResult.ok) {
+      return migrationsResult;
+    }
+
+    const byVersion = new Map(migrationsResult.value.map(migration => [migration.version, migration]));
+
+    return this.withClient(async client => {
+      const applied = await this.getApplied(client);
+      const targets = applied.slice(-steps).reverse();
+
+      for (const target of targets) {
+        const migration = byVersion.get(target.version);
+        if (!migration?.downSql) {
+          return Err(new MigrationError(`Migration ${target.version} has no down script`));
+        }
+        if (migration.checksum !== target.checksum) {
+          return Err(new MigrationError(`Migration ${target.version} changed since it was applied`));
+        }
+      }
+
+      const report = this.emptyReport();
+
+      return this.inTransactions(client, async run => {
+        for (const target of targets) {
+          const migration = byVersion.get(target.version)!;
+          await run(target.version, async () => {
+            await client.query(migration.downSql!);
+            await client.query('DELETE FROM public.schema_migrations WHERE version = $1', [target.version]);
+          });
+
+          report.rolledBack.push(`${migration.version}_${migration.name}`);
+          logger.info('Migration rolled back', { version: migration.version, dryRun: this.dryRun });
+        }
+
+        return report;
+      });
+    });
+  }
+
+  // Record migrations up to version as applied without running them, for
+  // databases that were created before migrations existed
+  async baseline(version: string): Promise<Result<MigrationReport, MigrationError>> {
+    const migrationsResult = await this.loadMigrations();
+    if (!migrationsResult.ok) {
+      return migrationsResult;
+    }
+
+    return this.withClient(async client => {
+      const applied = new Set((await this.getApplied(client)).map(migration => migration.version));
+      const report = this.emptyReport();
+
+      return this.inTransactions(client, async run => {
+        for (const migration of migrationsResult.value) {
+          if (migration.version > version || applied.has(migration.version)) {
+            continue;
+          }
+
+          await run(migration.version, async () => {
+            await client.query(
+              `INSERT INTO public.schema_migrations (version, name, checksum)
+               VALUES ($1, $2, $3)`,
+              [migration.version, migration.name, migration.checksum]
+            );
+          });
+          report.baselined.push(`${migration.version}_${migration.name}`);
+        }
+
+        return report;
+      });
+    });
+  }
+
+  private emptyReport(): MigrationReport {
+    return { dryRun: this.dryRun, applied: [], rolledBack: [], baselined: [] };
+  }
+
+  private compare(migrations: Migration[], applied: AppliedMigration[]): MigrationStatus[] {
+    const appliedByVersion = new Map(applied.map(migration => [migration.version, migration]));
+    const statuses: MigrationStatus[] = migrations.map(migration => {
+      const record = appliedByVersion.get(migration.version);
+      if (!record) {
+        return { version: migration.version, name: migration.name, state: 'pending' };
+      }
+      return {
+        version: migration.version,
+        name: migration.name,
+        state: record.checksum === migration.checksum ? 'applied' : 'checksum_mismatch',
+        appliedAt: record.applied_at,
+      };
+    });
+
+    const known = new Set(migrations.map(migration => migration.version));
+    for (const record of applied) {
+      if (!known.has(record.version)) {
+        statuses.push({
+          version: record.version,
+          name: record.name,
+          state: 'missing_file',
+          appliedAt: record.applied_at,
+        });
+      }
+    }
+
+    return statuses.sort((a, b) => a.version.localeCompare(b.version));
+  }
+
+  private async getApplied(client: Client): Promise<AppliedMigration[]> {
+    const { rows } = await client.query<AppliedMigration>(
+      'SELECT version, name, checksum, applied_at, execution_ms FROM public.schema_migrations ORDER BY version'
+    );
+    return rows;
+  }
+
+  // Run each step in its own transaction. When dry-running, withClient has
+  // already opened a single transaction that is rolled back at the end.
+  private async inTransactions(
+    client: Client,
+    fn: (run: (version: string, step: () => Promise<void>) => Promise<void>) => Promise<MigrationReport>
+  ): Promise<Result<MigrationReport, MigrationError>> {
+    try {
+      const report = await fn(async (version, step) => {
+        if (!this.dryRun) {
+          await client.query('BEGIN');
+        }
+        try {
+          await step();
+          if (!this.dryRun) {
+            await client.query('COMMIT');
+          }
+        } catch (error) {
+          if (!this.dryRun) {
+            await client.query('ROLLBACK');
+          }
+          throw new MigrationError(`Migration ${version} failed`, {
+            version,
+            originalError: (error as Error).message,
+          });
+        }
+      });
+      return Ok(report);
+    } catch (error) {
+      return Err(this.toMigrationError(error));
+    }
+  }
+
+  private async withClient<T>(
+    fn: (client: Client) => Promise<Result<T, MigrationError>>
+  ): Promise<Result<T, MigrationError>> {
+    const client = new Client({ connectionString: this.connectionString });
+
+    try {
+      await client.connect();
+      await client.query('SELECT pg_advisory_lock($1)', [ADVISORY_LOCK_ID]);
+
+      try {
+        if (this.dryRun) {
+          await client.query('BEGIN');
+        }
+        if (this.bootstrapLocalAuth) {
+          await client.query(await fs.readFile(LOCAL_AUTH_STUB, 'utf8'));
+        }
+        await client.query(CREATE_MIGRATIONS_TABLE);
+        return await fn(client);
+      } finally {
+        if (this.dryRun) {
+          await client.query('ROLLBACK');
+        }
+        await client.query('SELECT pg_advisory_unlock($1)', [ADVISORY_LOCK_ID]);
+      }
+    } catch (error) {
+      logger.error('Migration run failed', error as Error);
+      return Err(this.toMigrationError(error));
+    } finally {
+      await client.end().catch(() => undefined);
+    }
+  }
+
+  private toMigrationError(error: unknown): MigrationError {
+    if (error instanceof MigrationError) {
+      return error;
+    }
+    return new MigrationError('Migration run failed', { originalError: (error as Error).message });
+  }
+}
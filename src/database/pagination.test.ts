@@ -0,0 +1,90 @@
+// Cursor encoding and page sizes, and paging through rows with findByCursor against the
+// migrated schema
+import { createTestDatabase, createTestUser, TestDatabase } from '../test/database';
+import { createTestClient } from '../test/postgrest';
+import { BillRepository } from './repositories/bills';
+import { decodeCursor, DEFAULT_PAGE_SIZE, encodeCursor, MAX_PAGE_SIZE, pageSize } from './pagination';
+
+describe('pageSize', () => {
+  it.each([
+    [undefined, DEFAULT_PAGE_SIZE],
+    [NaN, DEFAULT_PAGE_SIZE],
+    [Infinity, DEFAULT_PAGE_SIZE],
+    [-Infinity, DEFAULT_PAGE_SIZE],
+    [0, 1],
+    [-5, 1],
+    [7.9, 7],
+    [MAX_PAGE_SIZE + 1, MAX_PAGE_SIZE],
+  ])('turns a limit of %p into pages of %p', (limit, expected) => {
+    expect(pageSize(limit)).toBe(expected);
+  });
+});
+
+describe('cursors', () => {
+  const key = { orderBy: 'due_date', direction: 'asc' as const, value: 'Café ☕', id: 'bill-1' };
+
+  it('round-trips the key for the same order', () => {
+    expect(decodeCursor(encodeCursor(key), 'due_date', 'asc')).toEqual(key);
+  });
+
+  it('rejects a cursor made for another order, or not made by encodeCursor', () => {
+    expect(decodeCursor(encodeCursor(key), 'due_date', 'desc')).toBeNull();
+    expect(decodeCursor(encodeCursor(key), 'amount', 'asc')).toBeNull();
+    expect(decodeCursor('not a cursor', 'due_date', 'asc')).toBeNull();
+  });
+});
+
+describe('findByCursor', () => {
+  const ROWS = 23;
+  let db: TestDatabase;
+  let bills: BillRepository;
+  let userId: string;
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+    bills = new BillRepository(createTestClient(db));
+    userId = await createTestUser(db);
+    // Three due dates between them, so most rows tie on due_date
+    await db.query(
+      `INSERT INTO bills (user_id, biller_name, biller_category, amount, currency, due_date, frequency, status, auto_pay)
+       SELECT $1, 'Octopus Energy', 'utilities', 64.2, 'GBP', DATE '2026-03-01' + (n % 3), 'monthly', 'pending', false
+       FROM generate_series(1, $2::int) AS n`,
+      [userId, ROWS]
+    );
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  async function pageThrough(orderDirection: 'asc' | 'desc'): Promise<string[]> {
+    const seen: string[] = [];
+    let cursor: string | null = null;
+    do {
+      const page = await bills.findByCursor([{ column: 'user_id', operator: 'eq', value: userId }], {
+        orderBy: 'due_date',
+        orderDirection,
+        limit: 4,
+        ...(cursor && { cursor }),
+      });
+      if (!page.ok) {
+        throw page.error;
+      }
+      seen.push(...page.value.items.map(bill => bill.id));
+      cursor = page.value.nextCursor;
+    } while (cursor);
+    return seen;
+  }
+
+  it.each(['asc', 'desc'] as const)('returns every row once, in (due_date, id) order, paging %s', async direction => {
+    const { rows } = await db.query<{ id: string }>(
+      `SELECT id FROM bills WHERE user_id = $1 ORDER BY due_date ${direction}, id ${direction}`,
+      [userId]
+    );
+
+    const seen = await pageThrough(direction);
+
+    expect(seen).toHaveLength(ROWS);
+    expect(seen).toEqual(rows.map(row => row.id));
+  });
+});
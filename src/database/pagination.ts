@@ -0,0 +1,117 @@
+// Keyset (cursor) pagination
+//
+// Rows are ordered by a column and then by id, so rows sharing a value still come in a
+// fixed order, and each page starts strictly after the last row of the page before. Unlike
+// offsets, rows added or removed in the meantime do not shift later pages, and deep pages
+// cost no more than the first. Cursors are opaque to callers: base64url JSON of the order
+// they were made for and the last row's key.
+import { FilterCondition } from './filters';
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export interface CursorOptions {
+  // Must not be null in any row; id breaks ties
+  orderBy: string;
+  orderDirection?: 'asc' | 'desc';
+  // Rows per page, up to MAX_PAGE_SIZE (default DEFAULT_PAGE_SIZE)
+  limit?: number;
+  // nextCursor of the previous page; omit for the first page
+  cursor?: string | null;
+  select?: string;
+}
+
+export interface CursorPage<T> {
+  items: T[];
+  // Pass as cursor to fetch the next page; null on the last page
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+// The position a cursor points after
+export interface CursorKey {
+  orderBy: string;
+  direction: 'asc' | 'desc';
+  value: string | number;
+  id: string;
+}
+
+export function encodeCursor(key: CursorKey): string {
+  return toBase64Url(JSON.stringify([key.orderBy, key.direction, key.value, key.id]));
+}
+
+// The key a cursor holds, or null if it is malformed or was made for a different order
+export function decodeCursor(
+  cursor: string,
+  orderBy: string,
+  direction: 'asc' | 'desc'
+): CursorKey | null {
+  try {
+    const decoded: unknown = JSON.parse(fromBase64Url(cursor));
+    if (!Array.isArray(decoded) || decoded.length !== 4) {
+      return null;
+    }
+
+    const [cursorOrderBy, cursorDirection, value, id] = decoded;
+    if (
+      cursorOrderBy !== orderBy ||
+      cursorDirection !== direction ||
+      (typeof value !== 'string' && typeof value !== 'number') ||
+      typeof id !== 'string'
+    ) {
+      return null;
+    }
+
+    return { orderBy, direction, value, id };
+  } catch {
+    return null;
+  }
+}
+
+// The cursor pointing after a row
+export function cursorAfter(row: Record<string, any>, orderBy: string, direction: 'asc' | 'desc'): string {
+  const value = row[orderBy];
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    throw new Error(`Cannot paginate on ${orderBy}: row ${row['id']} has no value for it`);
+  }
+  return encodeCursor({ orderBy, direction, value, id: String(row['id']) });
+}
+
+// Rows after the key: (orderBy, id) > (value, id), or < when descending
+export function afterKey({ orderBy, direction, value, id }: CursorKey): FilterCondition {
+  const operator = direction === 'asc' ? 'gt' : 'lt';
+  return {
+    or: [
+      { column: orderBy, operator, value },
+      {
+        and: [
+          { column: orderBy, operator: 'eq', value },
+          { column: 'id', operator, value: id },
+        ],
+      },
+    ],
+  };
+}
+
+// The limit clamped to 1..MAX_PAGE_SIZE; no limit, or one that is not a finite number
+// (e.g. NaN from a bad query string), gets DEFAULT_PAGE_SIZE
+export function pageSize(limit: number | undefined): number {
+  if (limit === undefined || !Number.isFinite(limit)) {
+    return DEFAULT_PAGE_SIZE;
+  }
+  return Math.min(Math.max(Math.trunc(limit), 1), MAX_PAGE_SIZE);
+}
+
+// btoa and atob work on Latin-1, so go through UTF-8 bytes. Both exist in browsers and Node.
+function toBase64Url(text: string): string {
+  let binary = '';
+  for (const byte of new TextEncoder().encode(text)) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(encoded: string): string {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+}
@@ -0,0 +1,73 @@
+// Audit Checkpoints Repository - signed snapshots of the audit chain's last link
+import { BaseRepository, BaseEntity } from '../index';
+import { Result, Ok, Err, DatabaseError } from '../../utils/errors';
+import { measureAsync } from '../../utils/logger';
+
+// Audit checkpoint entity. Written by the audit checkpoint job, never changed.
+export interface AuditCheckpoint extends Omit<BaseEntity, 'updated_at'> {
+  seq: number;
+  row_hash: string;
+  // Fingerprint of the signing key
+  key_id: string;
+  // Base64 Ed25519 signature of the checkpoint's payload (see checkpointPayload)
+  signature: string;
+}
+
+// created_at is part of what is signed, so it is set by the signer rather than defaulted
+export type NewAuditCheckpoint = Omit<AuditCheckpoint, 'id'>;
+
+export class AuditCheckpointRepository extends BaseRepository<AuditCheckpoint & BaseEntity> {
+  protected tableName = 'audit_checkpoints';
+
+  async findLatest(): Promise<Result<AuditCheckpoint | null, DatabaseError>> {
+    return measureAsync('repository.audit_checkpoints.findLatest', async () => {
+      try {
+        const { data, error } = await this.supabase
+          .from(this.tableName)
+          .select()
+          .order('seq', { ascending: false })
+          .limit(1)
+          .maybeSingle();
+
+        if (error) {
+          return Err(new DatabaseError('findLatest', error));
+        }
+
+        return Ok(data);
+      } catch (error) {
+        return Err(new DatabaseError('findLatest', error as Error));
+      }
+    });
+  }
+
+  // Checkpoints at or after fromSeq, oldest first
+  async findFrom(fromSeq: number): Promise<Result<AuditCheckpoint[], DatabaseError>> {
+    return this.findByFilters(
+      [{ column: 'seq', operator: 'gte', value: fromSeq }],
+      { orderBy: 'seq', orderDirection: 'asc' }
+    );
+  }
+
+  async record(checkpoint: NewAuditCheckpoint): Promise<Result<AuditCheckpoint, DatabaseError>> {
+    return measureAsync('repository.audit_checkpoints.record', async () => {
+      try {
+        const { data, error } = await this.supabase
+          .from(this.tableName)
+          .insert(checkpoint)
+          .select()
+          .single();
+
+        if (error) {
+          return Err(new DatabaseError('record', error));
+        }
+
+        return Ok(data);
+      } catch (error) {
+        return Err(new DatabaseError('record', error as Error));
+      }
+    });
+  }
+}
+
+// Export singleton instance
+export const auditCheckpointRepository = new AuditCheckpointRepository();
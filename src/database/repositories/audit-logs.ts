@@ -0,0 +1,225 @@
+// Audit Logs Repository - who did what to which record
+import { BaseRepository, BaseEntity } from '../index';
+import { Result, Ok, Err, DatabaseError } from '../../utils/errors';
+import { measureAsync } from '../../utils/logger';
+
+// Audit log entity. Rows are only ever inserted, with the service role; admins can read
+// them all, and users read the rows about their own account through account_activity. The database chains
+// each row onto the one before (see 0015_audit_hash_chain).
+export interface AuditLog extends Omit<BaseEntity, 'updated_at'> {
+  // Whose account the entry is about, if anyone's
+  user_id?: string | null;
+  // The user who acted (a staff member for admin actions); null for the system
+  actor_id?: string | null;
+  // e.g. 'bills.updated', 'payment.completed', 'admin.payment_refunded'
+  action: string;
+  entity_type?: string;
+  entity_id?: string;
+  old_values?: Record<string, any> | null;
+  new_values?: Record<string, any> | null;
+  ip_address?: string | null;
+  user_agent?: string | null;
+  // Position in the chain, from 1 with no gaps
+  seq: number;
+  // Hex SHA-256 of prev_hash and the row's content; prev_hash is null for the first row
+  prev_hash: string | null;
+  row_hash: string;
+}
+
+export type NewAuditLog = Omit<AuditLog, 'id' | 'created_at' | 'seq' | 'prev_hash' | 'row_hash'>;
+
+// A row as the chain verifier sees it: the hashes and the content they cover
+export interface AuditChainLink {
+  id: string;
+  seq: number;
+  prev_hash: string | null;
+  row_hash: string;
+  content: string;
+}
+
+// An entry as the account holder sees it (the account_activity view): the IP address and
+// user agent are null unless the holder acted themselves, so staff details stay hidden
+export type AccountActivity = Omit<AuditLog, 'seq' | 'prev_hash' | 'row_hash'>;
+
+export interface AuditChainHead {
+  last_seq: number;
+  last_hash: string | null;
+}
+
+export interface AuditLogFilters {
+  userId?: string;
+  actorId?: string;
+  action?: string;
+  entityType?: string;
+  entityId?: string;
+  startDate?: Date;
+  endDate?: Date;
+}
+
+export interface AuditLogPage {
+  entries: AuditLog[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export interface AccountActivityPage extends Omit<AuditLogPage, 'entries'> {
+  entries: AccountActivity[];
+}
+
+export class AuditLogRepository extends BaseRepository<AuditLog & BaseEntity> {
+  protected tableName = 'audit_logs';
+
+  async record(entry: NewAuditLog): Promise<Result<AuditLog, DatabaseError>> {
+    return measureAsync('repository.audit_logs.record', async () => {
+      try {
+        const { data, error } = await this.supabase
+          .from(this.tableName)
+          .insert(entry)
+          .select()
+          .single();
+
+        if (error) {
+          return Err(new DatabaseError('record', error));
+        }
+
+        return Ok(data);
+      } catch (error) {
+        return Err(new DatabaseError('record', error as Error));
+      }
+    });
+  }
+
+  // One page of matching entries, newest first, with the total number of matching rows
+  async findPage(
+    filters: AuditLogFilters = {},
+    page: number = 1,
+    pageSize: number = 20
+  ): Promise<Result<AuditLogPage, DatabaseError>> {
+    return measureAsync('repository.audit_logs.findPage', async () => {
+      try {
+        const from = (page - 1) * pageSize;
+        let query = this.supabase
+          .from(this.tableName)
+          .select('*', { count: 'exact' });
+
+        if (filters.userId) {
+          query = query.eq('user_id', filters.userId);
+        }
+        if (filters.actorId) {
+          query = query.eq('actor_id', filters.actorId);
+        }
+        if (filters.action) {
+          query = query.eq('action', filters.action);
+        }
+        if (filters.entityType) {
+          query = query.eq('entity_type', filters.entityType);
+        }
+        if (filters.entityId) {
+          query = query.eq('entity_id', filters.entityId);
+        }
+        if (filters.startDate) {
+          query = query.gte('created_at', filters.startDate.toISOString());
+        }
+        if (filters.endDate) {
+          query = query.lte('created_at', filters.endDate.toISOString());
+        }
+
+        const { data, count, error } = await query
+          .order('created_at', { ascending: false })
+          .range(from, from + pageSize - 1);
+
+        if (error) {
+          return Err(new DatabaseError('findPage', error));
+        }
+
+        return Ok({
+          entries: data || [],
+          total: count || 0,
+          page,
+          pageSize,
+        });
+      } catch (error) {
+        return Err(new DatabaseError('findPage', error as Error));
+      }
+    });
+  }
+
+  // One page of the user's account activity, newest first, with the total number of entries
+  async findAccountActivity(
+    userId: string,
+    page: number = 1,
+    pageSize: number = 20
+  ): Promise<Result<AccountActivityPage, DatabaseError>> {
+    return measureAsync('repository.audit_logs.findAccountActivity', async () => {
+      try {
+        const from = (page - 1) * pageSize;
+        const { data, count, error } = await this.supabase
+          .from('account_activity')
+          .select('*', { count: 'exact' })
+          .eq('user_id', userId)
+          .order('created_at', { ascending: false })
+          .range(from, from + pageSize - 1);
+
+        if (error) {
+          return Err(new DatabaseError('findAccountActivity', error));
+        }
+
+        return Ok({
+          entries: data || [],
+          total: count || 0,
+          page,
+          pageSize,
+        });
+      } catch (error) {
+        return Err(new DatabaseError('findAccountActivity', error as Error));
+      }
+    });
+  }
+
+  // Up to limit links from fromSeq on, in chain order. content is computed by
+  // audit_log_content from the row as it is now.
+  async findChain(fromSeq: number, limit: number): Promise<Result<AuditChainLink[], DatabaseError>> {
+    return measureAsync('repository.audit_logs.findChain', async () => {
+      try {
+        const { data, error } = await this.supabase
+          .from(this.tableName)
+          .select('id, seq, prev_hash, row_hash, content:audit_log_content')
+          .gte('seq', fromSeq)
+          .order('seq', { ascending: true })
+          .limit(limit);
+
+        if (error) {
+          return Err(new DatabaseError('findChain', error));
+        }
+
+        return Ok((data || []) as unknown as AuditChainLink[]);
+      } catch (error) {
+        return Err(new DatabaseError('findChain', error as Error));
+      }
+    });
+  }
+
+  // The last link written
+  async getChainHead(): Promise<Result<AuditChainHead, DatabaseError>> {
+    return measureAsync('repository.audit_logs.getChainHead', async () => {
+      try {
+        const { data, error } = await this.supabase
+          .from('audit_chain_head')
+          .select('last_seq, last_hash')
+          .single();
+
+        if (error) {
+          return Err(new DatabaseError('getChainHead', error));
+        }
+
+        return Ok(data);
+      } catch (error) {
+        return Err(new DatabaseError('getChainHead', error as Error));
+      }
+    });
+  }
+}
+
+// Export singleton instance
+export const auditLogRepository = new AuditLogRepository();
@@ -0,0 +1,222 @@
+// Schema conformance: the Bill model and every BillRepository query against the schema
+// the migrations build
+import { createTestDatabase, createTestUser, TestDatabase } from '../../test/database';
+import { createTestClient } from '../../test/postgrest';
+import {
+  Bill,
+  BILL_CATEGORIES,
+  BILL_CURRENCIES,
+  BILL_FREQUENCIES,
+  BILL_STATUSES,
+  BillRepository,
+  NewBill,
+} from './bills';
+
+// Postgres type (information_schema udt_name) of the column behind each Bill field
+const BILL_COLUMNS: Record<keyof Bill, string> = {
+  id: 'uuid',
+  user_id: 'uuid',
+  biller_name: 'varchar',
+  biller_category: 'varchar',
+  account_number: 'varchar',
+  amount: 'numeric',
+  currency: 'bpchar',
+  due_date: 'date',
+  frequency: 'varchar',
+  status: 'bill_status',
+  auto_pay: 'bool',
+  payment_method_id: 'uuid',
+  reminder_days: 'int4',
+  notes: 'text',
+  metadata: 'jsonb',
+  last_paid_date: 'date',
+  next_due_date: 'date',
+  deleted_at: 'timestamp',
+  series_id: 'uuid',
+  occurrence_number: 'int4',
+  recurrence_anchor: 'date',
+  recurrence_end_date: 'date',
+  recurrence_count: 'int4',
+  recurrence_ended_at: 'timestamp',
+  created_at: 'timestamp',
+  updated_at: 'timestamp',
+};
+
+interface ColumnInfo {
+  column_name: string;
+  udt_name: string;
+  is_nullable: 'YES' | 'NO';
+  column_default: string | null;
+}
+
+function newBill(userId: string, overrides: Partial<NewBill> = {}): NewBill {
+  return {
+    user_id: userId,
+    biller_name: 'British Gas',
+    biller_category: 'utilities',
+    amount: 42.5,
+    currency: 'GBP',
+    due_date: new Date('2026-03-15'),
+    frequency: 'monthly',
+    status: 'pending',
+    auto_pay: false,
+    ...overrides,
+  };
+}
+
+describe('bills schema', () => {
+  let db: TestDatabase;
+  let bills: BillRepository;
+  let userId: string;
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+    bills = new BillRepository(createTestClient(db));
+    userId = await createTestUser(db);
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  it('has a column of the matching type for every Bill field', async () => {
+    const { rows } = await db.query<ColumnInfo>(
+      `SELECT column_name, udt_name FROM information_schema.columns
+       WHERE table_schema = 'public' AND table_name = 'bills'`
+    );
+    const columns = Object.fromEntries(rows.map(row => [row.column_name, row.udt_name]));
+
+    expect(columns).toMatchObject(BILL_COLUMNS);
+  });
+
+  it('requires no column the model does not know about', async () => {
+    const { rows } = await db.query<ColumnInfo>(
+      `SELECT column_name, is_nullable, column_default FROM information_schema.columns
+       WHERE table_schema = 'public' AND table_name = 'bills'`
+    );
+    const unknownRequired = rows
+      .filter(row => !(row.column_name in BILL_COLUMNS))
+      .filter(row => row.is_nullable === 'NO' && row.column_default === null)
+      .map(row => row.column_name);
+
+    expect(unknownRequired).toEqual([]);
+  });
+
+  it('defines exactly the bill statuses the model uses', async () => {
+    const { rows } = await db.query<{ label: string }>(
+      `SELECT enumlabel AS label FROM pg_enum
+       WHERE enumtypid = 'public.bill_status'::regtype ORDER BY enumsortorder`
+    );
+
+    expect(rows.map(row => row.label).sort()).toEqual([...BILL_STATUSES].sort());
+  });
+
+  it.each([
+    ...BILL_CATEGORIES.map(value => ['biller_category', value] as const),
+    ...BILL_FREQUENCIES.map(value => ['frequency', value] as const),
+    ...BILL_CURRENCIES.map(value => ['currency', value] as const),
+    ...BILL_STATUSES.map(value => ['status', value] as const),
+  ])('accepts %s %s', async (column, value) => {
+    const result = await bills.create(newBill(userId, { [column]: value }));
+
+    expect(result.ok).toBe(true);
+  });
+
+  it('round-trips every Bill field through BillRepository', async () => {
+    const seriesId = crypto.randomUUID();
+    const created = await bills.create(newBill(userId, {
+      account_number: '12345678',
+      reminder_days: 5,
+      notes: 'Quarterly reading due',
+      metadata: { source: 'schema-test' },
+      last_paid_date: new Date('2026-02-15'),
+      next_due_date: new Date('2026-04-15'),
+      series_id: seriesId,
+      occurrence_number: 2,
+      recurrence_anchor: new Date('2026-01-31'),
+      recurrence_end_date: new Date('2026-12-31'),
+      recurrence_count: 12,
+    }));
+    if (!created.ok) {
+      throw created.error;
+    }
+
+    const found = await bills.findById(created.value.id);
+
+    expect(found.ok && found.value).toMatchObject({
+      account_number: '12345678',
+      reminder_days: 5,
+      metadata: { source: 'schema-test' },
+      due_date: '2026-03-15',
+      next_due_date: '2026-04-15',
+      series_id: seriesId,
+      occurrence_number: 2,
+      recurrence_anchor: '2026-01-31',
+      recurrence_count: 12,
+    });
+  });
+
+  it('keeps the rest of the metadata when a bill fails and then is paid', async () => {
+    const created = await bills.create(newBill(userId, { metadata: { generated_from: 'bill-1' } }));
+    if (!created.ok) {
+      throw created.error;
+    }
+
+    const failed = await bills.markAsFailed(created.value, 'Card declined', 'card_declined');
+    if (!failed.ok) {
+      throw failed.error;
+    }
+    const unit = bills.unitOfWork();
+    const paid = bills.markAsPaidIn(unit, failed.value, 'txn-1', new Date('2026-03-15'));
+    await unit.commit();
+
+    expect(failed.value.metadata).toMatchObject({ generated_from: 'bill-1', failure_code: 'card_declined' });
+    expect(paid.row).toMatchObject({
+      status: 'paid',
+      metadata: { generated_from: 'bill-1', transaction_id: 'txn-1', paid_at: '2026-03-15T00:00:00.000Z' },
+    });
+  });
+
+  describe('queries', () => {
+    let billId: string;
+
+    beforeAll(async () => {
+      const created = await bills.create(newBill(userId, { auto_pay: true, due_date: new Date('2026-01-10') }));
+      if (!created.ok) {
+        throw created.error;
+      }
+      billId = created.value.id;
+    });
+
+    const from = new Date('2026-01-01');
+    const to = new Date('2026-06-30');
+
+    it.each<[string, () => Promise<{ ok: boolean }>]>([
+      ['findByUserId', () => bills.findByUserId(userId, true)],
+      ['findByCursorForUser', () => bills.findByCursorForUser(userId, { status: 'pending', search: 'gas' })],
+      ['findUpcomingForUser', () => bills.findUpcomingForUser(userId, 30, from)],
+      ['findOverdueForUser', () => bills.findOverdueForUser(userId, to)],
+      ['findOverdue', () => bills.findOverdue(to)],
+      ['findByCategory', () => bills.findByCategory(userId, 'utilities')],
+      ['findAutoPayBills', () => bills.findAutoPayBills(userId)],
+      ['findAutoPayBillsDueBy', () => bills.findAutoPayBillsDueBy(to)],
+      ['findAutoPayBillsUsingPaymentMethod', () => bills.findAutoPayBillsUsingPaymentMethod(crypto.randomUUID())],
+      ['getSpendingSummary', () => bills.getSpendingSummary(userId, from, to)],
+      ['getDashboardStats', () => bills.getDashboardStats(userId)],
+      ['getPaymentSchedule', () => bills.getPaymentSchedule(userId, 30, from)],
+      ['findDueBetween', () => bills.findDueBetween(from, to)],
+      ['getBillsNeedingReminders', () => bills.getBillsNeedingReminders(7)],
+      ['findNeedingNextOccurrence', () => bills.findNeedingNextOccurrence(to)],
+      ['findOccurrence', () => bills.findOccurrence(crypto.randomUUID(), 1)],
+      ['schedulePayment', () => bills.schedulePayment(billId, new Date('2026-01-09'))],
+      ['markAsFailed', () => bills.markAsFailed({ id: billId }, 'Card declined', 'card_declined')],
+      ['markAsPaid', () => bills.markAsPaid({ id: billId }, crypto.randomUUID(), new Date('2026-01-10'))],
+      ['updateNextDueDate', () => bills.updateNextDueDate(billId)],
+      ['cloneBill', () => bills.cloneBill(billId, new Date('2026-02-10'))],
+    ])('%s runs against the migrated schema', async (_name, query) => {
+      const result = await query();
+
+      expect(result).toMatchObject({ ok: true });
+    });
+  });
+});
@@ -1,25 +1,86 @@
 // Bills Repository with business-specific queries
-import { BaseRepository, BaseEntity, Filter } from '../index';
-import { Result, Ok, Err, DatabaseError } from '../../utils/errors';
+import {
+  BaseRepository,
+  BaseEntity,
+  CursorPage,
+  Filter,
+  MAX_PAGE_SIZE,
+  StagedWrite,
+  UnitOfWork,
+} from '../index';
+import { Result, Ok, Err, DatabaseError, ValidationError } from '../../utils/errors';
 import { measureAsync } from '../../utils/logger';
+import { formatCalendarDate, isRecurring, occurrenceDate, toCalendarDate } from '../../utils/recurrence';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 // Bill entity
 export interface Bill extends BaseEntity {
   user_id: string;
   biller_name: string;
   biller_category: 'utilities' | 'insurance' | 'subscription' | 'loan' | 'credit_card' | 'other';
+  account_number?: string;
   amount: number;
   currency: 'GBP' | 'USD' | 'EUR';
   due_date: Date;
   frequency: 'one_time' | 'weekly' | 'monthly' | 'quarterly' | 'annually';
-  status: 'pending' | 'scheduled' | 'processing' | 'paid' | 'failed' | 'cancelled';
+  status: 'pending' | 'scheduled' | 'processing' | 'paid' | 'failed' | 'cancelled' | 'overdue';
   auto_pay: boolean;
   payment_method_id?: string;
-  reminder_days?: number;
+  // Days before the due date to remind; null uses the user's notification preferences
+  reminder_days?: number | null;
   notes?: string;
   metadata?: Record<string, any>;
   last_paid_date?: Date;
   next_due_date?: Date;
+  deleted_at?: Date;
+  // Recurring series (see src/utils/recurrence.ts)
+  series_id?: string;
+  occurrence_number?: number;
+  recurrence_anchor?: Date;
+  recurrence_end_date?: Date;
+  recurrence_count?: number;
+  recurrence_ended_at?: Date;
+}
+
+// Option lists mirroring the Bill union types (used by forms and filters)
+export const BILL_CATEGORIES = [
+  'utilities',
+  'insurance',
+  'subscription',
+  'loan',
+  'credit_card',
+  'other',
+] as const satisfies readonly Bill['biller_category'][];
+
+export const BILL_FREQUENCIES = [
+  'one_time',
+  'weekly',
+  'monthly',
+  'quarterly',
+  'annually',
+] as const satisfies readonly Bill['frequency'][];
+
+export const BILL_CURRENCIES = ['GBP', 'USD', 'EUR'] as const satisfies readonly Bill['currency'][];
+
+export const BILL_STATUSES = [
+  'pending',
+  'scheduled',
+  'processing',
+  'paid',
+  'failed',
+  'cancelled',
+  'overdue',
+] as const satisfies readonly Bill['status'][];
+
+// Input shape for creating a bill
+export type NewBill = Omit<Bill, 'id' | 'created_at' | 'updated_at'>;
+
+// What a bill list can be narrowed to; search matches the biller name
+export interface BillListFilters {
+  category?: Bill['biller_category'];
+  status?: Bill['status'];
+  search?: string;
 }
 
 // Spending summary type
@@ -32,6 +93,16 @@ export interface SpendingSummary {
   averageAmount: number;
 }
 
+// Row of the dashboard_stats view
+export interface DashboardStats {
+  user_id: string;
+  pending_bills: number;
+  overdue_bills: number;
+  paid_this_month: number;
+  total_pending_amount: number;
+  total_overdue_amount: number;
+}
+
 // Payment schedule
 export interface PaymentSchedule {
   bill: Bill;
@@ -39,6 +110,34 @@ export interface PaymentSchedule {
   amount: number;
 }
 
+// The changes markAsPaid and markAsFailed make. They add to the bill's metadata rather than
+// replace it, which would lose keys such as generated_from.
+type SettledBill = Pick<Bill, 'id' | 'metadata'>;
+
+function paidChanges(bill: SettledBill, transactionId: string, paidDate: Date): Partial<NewBill> {
+  return {
+    status: 'paid',
+    last_paid_date: paidDate,
+    metadata: {
+      ...bill.metadata,
+      transaction_id: transactionId,
+      paid_at: paidDate.toISOString()
+    }
+  };
+}
+
+function failedChanges(bill: SettledBill, reason: string, failureCode?: string): Partial<NewBill> {
+  return {
+    status: 'failed',
+    metadata: {
+      ...bill.metadata,
+      failure_reason: reason,
+      failure_code: failureCode ?? null,
+      failed_at: new Date().toISOString()
+    }
+  };
+}
+
 export class BillRepository extends BaseRepository<Bill> {
   protected tableName = 'bills';
 
@@ -58,21 +157,55 @@ export class BillRepository extends BaseRepository<Bill> {
     });
   }
 
+  // One page of a user's bills, soonest due first. Pass the page's nextCursor to get the next.
+  async findByCursorForUser(
+    userId: string,
+    filters: BillListFilters = {},
+    cursor?: string | null,
+    limit?: number
+  ): Promise<Result<CursorPage<Bill>, DatabaseError | ValidationError>> {
+    const conditions: Filter[] = [
+      { column: 'user_id', operator: 'eq', value: userId },
+      { column: 'deleted_at', operator: 'is', value: null }
+    ];
+
+    if (filters.category) {
+      conditions.push({ column: 'biller_category', operator: 'eq', value: filters.category });
+    }
+    if (filters.status) {
+      conditions.push({ column: 'status', operator: 'eq', value: filters.status });
+    }
+
+    const search = filters.search?.trim();
+    if (search) {
+      // Match the text literally, not as a pattern
+      conditions.push({ column: 'biller_name', operator: 'ilike', value: `%${search.replace(/[\\%_]/g, '\\$&')}%` });
+    }
+
+    return this.findByCursor(conditions, {
+      orderBy: 'due_date',
+      orderDirection: 'asc',
+      ...(cursor && { cursor }),
+      ...(limit !== undefined && { limit })
+    });
+  }
+
   // Find upcoming bills for a user
   async findUpcomingForUser(
     userId: string,
-    days: number = 30
+    days: number = 30,
+    from: Date = new Date()
   ): Promise<Result<Bill[], DatabaseError>> {
     return measureAsync('repository.bills.findUpcomingForUser', async () => {
       try {
-        const futureDate = new Date();
+        const futureDate = new Date(from);
         futureDate.setDate(futureDate.getDate() + days);
 
         const { data, error } = await this.supabase
           .from(this.tableName)
           .select()
           .eq('user_id', userId)
-          .gte('due_date', new Date().toISOString())
+          .gte('due_date', from.toISOString())
           .lte('due_date', futureDate.toISOString())
           .in('status', ['pending', 'scheduled'])
           .is('deleted_at', null)
@@ -90,15 +223,18 @@ export class BillRepository extends BaseRepository<Bill> {
   }
 
   // Find overdue bills
-  async findOverdueForUser(userId: string): Promise<Result<Bill[], DatabaseError>> {
+  async findOverdueForUser(
+    userId: string,
+    asOf: Date = new Date()
+  ): Promise<Result<Bill[], DatabaseError>> {
     return measureAsync('repository.bills.findOverdueForUser', async () => {
       try {
         const { data, error } = await this.supabase
           .from(this.tableName)
           .select()
           .eq('user_id', userId)
-          .lt('due_date', new Date().toISOString())
-          .eq('status', 'pending')
+          .lt('due_date', asOf.toISOString())
+          .in('status', ['pending', 'overdue'])
           .is('deleted_at', null)
           .order('due_date', { ascending: true });
 
@@ -113,6 +249,24 @@ export class BillRepository extends BaseRepository<Bill> {
     });
   }
 
+  // One page of overdue bills for all users, oldest first
+  async findOverdue(
+    asOf: Date = new Date(),
+    cursor?: string | null,
+    limit?: number
+  ): Promise<Result<CursorPage<Bill>, DatabaseError | ValidationError>> {
+    return this.findByCursor([
+      { column: 'due_date', operator: 'lt', value: formatCalendarDate(asOf) },
+      { column: 'status', operator: 'in', value: ['pending', 'overdue'] },
+      { column: 'deleted_at', operator: 'is', value: null }
+    ], {
+      orderBy: 'due_date',
+      orderDirection: 'asc',
+      ...(cursor && { cursor }),
+      ...(limit !== undefined && { limit })
+    });
+  }
+
   // Find bills by category
   async findByCategory(
     userId: string,
@@ -141,6 +295,38 @@ export class BillRepository extends BaseRepository<Bill> {
     });
   }
 
+  // One page of unpaid auto-pay bills for all users that fall due on or before a date, oldest
+  // first. Includes bills update_overdue_bills has already marked overdue.
+  async findAutoPayBillsDueBy(
+    dueBy: Date,
+    cursor?: string | null,
+    limit?: number
+  ): Promise<Result<CursorPage<Bill>, DatabaseError | ValidationError>> {
+    return this.findByCursor([
+      { column: 'auto_pay', operator: 'eq', value: true },
+      { column: 'status', operator: 'in', value: ['pending', 'scheduled', 'overdue'] },
+      { column: 'due_date', operator: 'lte', value: formatCalendarDate(dueBy) },
+      { column: 'deleted_at', operator: 'is', value: null }
+    ], {
+      orderBy: 'due_date',
+      orderDirection: 'asc',
+      ...(cursor && { cursor }),
+      ...(limit !== undefined && { limit })
+    });
+  }
+
+  // Find unpaid auto-pay bills that will be charged to a payment method
+  async findAutoPayBillsUsingPaymentMethod(
+    paymentMethodId: string
+  ): Promise<Result<Bill[], DatabaseError>> {
+    return this.findByFilters([
+      { column: 'payment_method_id', operator: 'eq', value: paymentMethodId },
+      { column: 'auto_pay', operator: 'eq', value: true },
+      { column: 'status', operator: 'in', value: ['pending', 'scheduled', 'processing', 'failed', 'overdue'] },
+      { column: 'deleted_at', operator: 'is', value: null }
+    ]);
+  }
+
   // Get spending summary for a user
   async getSpendingSummary(
     userId: string,
@@ -207,13 +393,43 @@ export class BillRepository extends BaseRepository<Bill> {
     });
   }
 
+  // Get aggregated counts from the dashboard_stats view
+  async getDashboardStats(userId: string): Promise<Result<DashboardStats, DatabaseError>> {
+    return measureAsync('repository.bills.getDashboardStats', async () => {
+      try {
+        const { data, error } = await this.supabase
+          .from('dashboard_stats')
+          .select()
+          .eq('user_id', userId)
+          .maybeSingle();
+
+        if (error) {
+          return Err(new DatabaseError('getDashboardStats', error));
+        }
+
+        // The view groups by user, so users without bills have no row
+        return Ok({
+          user_id: userId,
+          pending_bills: Number(data?.pending_bills ?? 0),
+          overdue_bills: Number(data?.overdue_bills ?? 0),
+          paid_this_month: Number(data?.paid_this_month ?? 0),
+          total_pending_amount: Number(data?.total_pending_amount ?? 0),
+          total_overdue_amount: Number(data?.total_overdue_amount ?? 0),
+        });
+      } catch (error) {
+        return Err(new DatabaseError('getDashboardStats', error as Error));
+      }
+    });
+  }
+
   // Get payment schedule for upcoming bills
   async getPaymentSchedule(
     userId: string,
-    days: number = 30
+    days: number = 30,
+    from: Date = new Date()
   ): Promise<Result<PaymentSchedule[], DatabaseError>> {
     return measureAsync('repository.bills.getPaymentSchedule', async () => {
-      const upcomingResult = await this.findUpcomingForUser(userId, days);
+      const upcomingResult = await this.findUpcomingForUser(userId, days, from);
       
       if (!upcomingResult.ok) {
         return upcomingResult as Result<never, DatabaseError>;
@@ -234,34 +450,39 @@ export class BillRepository extends BaseRepository<Bill> {
 
   // Mark bill as paid
   async markAsPaid(
-    billId: string,
+    bill: SettledBill,
     transactionId: string,
     paidDate: Date = new Date()
   ): Promise<Result<Bill, DatabaseError>> {
-    return this.update(billId, {
-      status: 'paid',
-      last_paid_date: paidDate,
-      metadata: {
-        transaction_id: transactionId,
-        paid_at: paidDate.toISOString()
-      }
-    });
+    return this.update(bill.id, paidChanges(bill, transactionId, paidDate));
   }
 
   // Mark bill as failed
   async markAsFailed(
-    billId: string,
+    bill: SettledBill,
     reason: string,
     failureCode?: string
   ): Promise<Result<Bill, DatabaseError>> {
-    return this.update(billId, {
-      status: 'failed',
-      metadata: {
-        failure_reason: reason,
-        failure_code: failureCode,
-        failed_at: new Date().toISOString()
-      }
-    });
+    return this.update(bill.id, failedChanges(bill, reason, failureCode));
+  }
+
+  // As markAsPaid and markAsFailed, staged in a unit of work
+  markAsPaidIn(
+    unit: UnitOfWork,
+    bill: SettledBill,
+    transactionId: string,
+    paidDate: Date = new Date()
+  ): StagedWrite<Bill> {
+    return this.updateIn(unit, bill.id, paidChanges(bill, transactionId, paidDate));
+  }
+
+  markAsFailedIn(
+    unit: UnitOfWork,
+    bill: SettledBill,
+    reason: string,
+    failureCode?: string
+  ): StagedWrite<Bill> {
+    return this.updateIn(unit, bill.id, failedChanges(bill, reason, failureCode));
   }
 
   // Schedule a bill for payment
@@ -277,42 +498,50 @@ export class BillRepository extends BaseRepository<Bill> {
     });
   }
 
-  // Get bills that need reminders
-  async getBillsNeedingReminders(days: number = 3): Promise<Result<Bill[], DatabaseError>> {
-    return measureAsync('repository.bills.getBillsNeedingReminders', async () => {
-      try {
-        const reminderDate = new Date();
-        reminderDate.setDate(reminderDate.getDate() + days);
-
-        const { data, error } = await this.supabase
-          .from(this.tableName)
-          .select()
-          .lte('due_date', reminderDate.toISOString())
-          .gte('due_date', new Date().toISOString())
-          .eq('status', 'pending')
-          .not('reminder_days', 'is', null)
-          .is('deleted_at', null);
-
-        if (error) {
-          return Err(new DatabaseError('getBillsNeedingReminders', error));
-        }
+  // One page of unpaid bills for all users falling due between two dates (inclusive).
+  // Whether each one is due a reminder depends on its reminder_days and the user's preferences.
+  async findDueBetween(
+    from: Date,
+    to: Date,
+    cursor?: string | null,
+    limit?: number
+  ): Promise<Result<CursorPage<Bill>, DatabaseError | ValidationError>> {
+    return this.findByCursor([
+      { column: 'due_date', operator: 'gte', value: formatCalendarDate(from) },
+      { column: 'due_date', operator: 'lte', value: formatCalendarDate(to) },
+      { column: 'status', operator: 'in', value: ['pending', 'scheduled'] },
+      { column: 'deleted_at', operator: 'is', value: null }
+    ], {
+      orderBy: 'due_date',
+      orderDirection: 'asc',
+      ...(cursor && { cursor }),
+      ...(limit !== undefined && { limit })
+    });
+  }
 
-        // Filter bills that actually need reminders based on their reminder_days setting
-        const billsNeedingReminders = (data || []).filter(bill => {
-          if (!bill.reminder_days) return false;
-          
-          const dueDate = new Date(bill.due_date);
-          const reminderDate = new Date();
-          reminderDate.setDate(reminderDate.getDate() + bill.reminder_days);
-          
-          return reminderDate >= dueDate;
-        });
+  // Bills with reminder_days set whose reminder window has opened, within the next `days`
+  // days. Kept for existing callers; NotificationService also applies user preferences.
+  async getBillsNeedingReminders(days: number = 3): Promise<Result<Bill[], DatabaseError | ValidationError>> {
+    const today = new Date();
+    const bills: Bill[] = [];
+    let cursor: string | null = null;
+
+    do {
+      const page = await this.findDueBetween(today, new Date(today.getTime() + days * DAY_MS), cursor, MAX_PAGE_SIZE);
+      if (!page.ok) {
+        return page;
+      }
+      bills.push(...page.value.items);
+      cursor = page.value.nextCursor;
+    } while (cursor);
 
-        return Ok(billsNeedingReminders);
-      } catch (error) {
-        return Err(new DatabaseError('getBillsNeedingReminders', error as Error));
+    return Ok(bills.filter(bill => {
+      if (bill.status !== 'pending' || !bill.reminder_days) {
+        return false;
       }
-    });
+      const daysLeft = (toCalendarDate(bill.due_date).getTime() - toCalendarDate(today).getTime()) / DAY_MS;
+      return daysLeft <= bill.reminder_days;
+    }));
   }
 
   // Clone a bill (for recurring bills)
@@ -331,7 +560,18 @@ export class BillRepository extends BaseRepository<Bill> {
     }
 
     const original = originalResult.value;
-    const { id, created_at, updated_at, ...billData } = original;
+    // A clone starts its own series rather than joining the original's
+    const {
+      id,
+      created_at,
+      updated_at,
+      series_id,
+      occurrence_number,
+      recurrence_anchor,
+      recurrence_ended_at,
+      next_due_date,
+      ...billData
+    } = original;
 
     return this.create({
       ...billData,
@@ -359,34 +599,115 @@ export class BillRepository extends BaseRepository<Bill> {
     }
 
     const bill = billResult.value;
-    let nextDueDate: Date | undefined;
-
-    switch (bill.frequency) {
-      case 'weekly':
-        nextDueDate = new Date(bill.due_date);
-        nextDueDate.setDate(nextDueDate.getDate() + 7);
-        break;
-      case 'monthly':
-        nextDueDate = new Date(bill.due_date);
-        nextDueDate.setMonth(nextDueDate.getMonth() + 1);
-        break;
-      case 'quarterly':
-        nextDueDate = new Date(bill.due_date);
-        nextDueDate.setMonth(nextDueDate.getMonth() + 3);
-        break;
-      case 'annually':
-        nextDueDate = new Date(bill.due_date);
-        nextDueDate.setFullYear(nextDueDate.getFullYear() + 1);
-        break;
-      default:
-        // One-time bills don't have next due date
-        return Ok(bill);
+
+    // One-time bills don't have next due date
+    if (!isRecurring(bill.frequency)) {
+      return Ok(bill);
     }
 
+    // Calculated from the series anchor so month-end dates clamp instead of overflowing
+    const nextDueDate = occurrenceDate(
+      bill.recurrence_anchor ?? bill.due_date,
+      bill.frequency,
+      (bill.occurrence_number ?? 1) + 1
+    );
+
     return this.update(billId, {
       next_due_date: nextDueDate
     });
   }
+
+  // Find an occurrence of a recurring series
+  async findOccurrence(
+    seriesId: string,
+    occurrenceNumber: number
+  ): Promise<Result<Bill | null, DatabaseError>> {
+    return measureAsync('repository.bills.findOccurrence', async () => {
+      try {
+        const { data, error } = await this.supabase
+          .from(this.tableName)
+          .select()
+          .or(`series_id.eq.${seriesId},id.eq.${seriesId}`)
+          .eq('occurrence_number', occurrenceNumber)
+          .maybeSingle();
+
+        if (error) {
+          return Err(new DatabaseError('findOccurrence', error));
+        }
+
+        return Ok(data);
+      } catch (error) {
+        return Err(new DatabaseError('findOccurrence', error as Error));
+      }
+    });
+  }
+
+  // Insert an occurrence, returning the existing row if it was already generated
+  async createOccurrence(
+    data: NewBill & { series_id: string; occurrence_number: number }
+  ): Promise<Result<{ bill: Bill; created: boolean }, DatabaseError>> {
+    return measureAsync('repository.bills.createOccurrence', async () => {
+      try {
+        const { data: created, error } = await this.supabase
+          .from(this.tableName)
+          .insert({
+            ...data,
+            due_date: formatCalendarDate(new Date(data.due_date)),
+          })
+          .select()
+          .single();
+
+        if (!error) {
+          await this.audit('create', created.id, null, created);
+          return Ok({ bill: created, created: true });
+        }
+
+        // Unique violation on (series, occurrence): someone else generated it first
+        if (error.code !== '23505') {
+          return Err(new DatabaseError('createOccurrence', error));
+        }
+
+        const existing = await this.findOccurrence(data.series_id, data.occurrence_number);
+        if (!existing.ok) {
+          return existing;
+        }
+        if (!existing.value) {
+          return Err(new DatabaseError('createOccurrence', error));
+        }
+
+        return Ok({ bill: existing.value, created: false });
+      } catch (error) {
+        return Err(new DatabaseError('createOccurrence', error as Error));
+      }
+    });
+  }
+
+  // One page of recurring bills that are paid or past due but have no next occurrence yet,
+  // oldest first
+  async findNeedingNextOccurrence(
+    asOf: Date = new Date(),
+    cursor?: string | null,
+    limit?: number
+  ): Promise<Result<CursorPage<Bill>, DatabaseError | ValidationError>> {
+    return this.findByCursor([
+      { column: 'frequency', operator: 'neq', value: 'one_time' },
+      { column: 'status', operator: 'neq', value: 'cancelled' },
+      { column: 'next_due_date', operator: 'is', value: null },
+      { column: 'recurrence_ended_at', operator: 'is', value: null },
+      { column: 'deleted_at', operator: 'is', value: null },
+      {
+        or: [
+          { column: 'status', operator: 'eq', value: 'paid' },
+          { column: 'due_date', operator: 'lte', value: formatCalendarDate(asOf) }
+        ]
+      }
+    ], {
+      orderBy: 'due_date',
+      orderDirection: 'asc',
+      ...(cursor && { cursor }),
+      ...(limit !== undefined && { limit })
+    });
+  }
 }
 
 // Export singleton instance
@@ -0,0 +1,112 @@
+// Job Runs Repository - records scheduled job runs and stops them overlapping
+import { BaseRepository, BaseEntity } from '../index';
+import { Result, Ok, Err, DatabaseError } from '../../utils/errors';
+import { logger, measureAsync } from '../../utils/logger';
+
+// Job run entity
+export interface JobRun extends BaseEntity {
+  job: string;
+  status: 'running' | 'completed' | 'failed';
+  report?: Record<string, any>;
+  error?: string;
+  started_at: Date;
+  finished_at?: Date;
+}
+
+// A run still marked as running after this long is assumed to have crashed
+const DEFAULT_STALE_AFTER_MS = 30 * 60 * 1000;
+
+const UNIQUE_VIOLATION = '23505';
+
+export class JobRunRepository extends BaseRepository<JobRun> {
+  protected tableName = 'job_runs';
+
+  // Start a run of a job. Returns null if another run of the same job is in progress.
+  async start(
+    job: string,
+    staleAfterMs: number = DEFAULT_STALE_AFTER_MS
+  ): Promise<Result<JobRun | null, DatabaseError>> {
+    return measureAsync('repository.job_runs.start', async () => {
+      try {
+        const first = await this.insertRunning(job);
+        if (!first.error) {
+          return Ok(first.data);
+        }
+        if (first.error.code !== UNIQUE_VIOLATION) {
+          return Err(new DatabaseError('start', first.error));
+        }
+
+        // Fail a run that has been going for too long, then try once more
+        const staleBefore = new Date(Date.now() - staleAfterMs).toISOString();
+        const { data, error } = await this.supabase
+          .from(this.tableName)
+          .update({
+            status: 'failed',
+            error: 'Run did not finish',
+            finished_at: new Date().toISOString(),
+          })
+          .eq('job', job)
+          .eq('status', 'running')
+          .lt('started_at', staleBefore)
+          .select();
+
+        if (error) {
+          return Err(new DatabaseError('start', error));
+        }
+        if (!data || data.length === 0) {
+          return Ok(null);
+        }
+
+        logger.warn('Abandoned stale job run', { job, runId: data[0].id });
+        const second = await this.insertRunning(job);
+        if (!second.error) {
+          return Ok(second.data);
+        }
+        return second.error.code === UNIQUE_VIOLATION
+          ? Ok(null)
+          : Err(new DatabaseError('start', second.error));
+      } catch (error) {
+        return Err(new DatabaseError('start', error as Error));
+      }
+    });
+  }
+
+  // Record a run as finished
+  async complete(id: string, report: Record<string, any>): Promise<Result<JobRun, DatabaseError>> {
+    return this.update(id, { status: 'completed', report, finished_at: new Date() });
+  }
+
+  // Record a run as failed
+  async fail(
+    id: string,
+    error: string,
+    report?: Record<string, any>
+  ): Promise<Result<JobRun, DatabaseError>> {
+    return this.update(id, {
+      status: 'failed',
+      error,
+      finished_at: new Date(),
+      ...(report && { report }),
+    });
+  }
+
+  // Most recent runs of a job, newest first
+  async findRecent(job: string, limit: number = 20): Promise<Result<JobRun[], DatabaseError>> {
+    return this.findByFilters([{ column: 'job', operator: 'eq', value: job }], {
+      orderBy: 'started_at',
+      orderDirection: 'desc',
+      limit,
+    });
+  }
+
+  private async insertRunning(job: string) {
+    return this.supabase
+      .from(this.tableName)
+      .insert({ job, status: 'running' })
+      .select()
+      .single<JobRun>();
+  }
+}
+
+// Export singleton instance
+export const jobRunRepository = new JobRunRepository();
@@ -0,0 +1,150 @@
+// Notification Preferences Repository - how and when each user wants to be notified
+import { BaseRepository, BaseEntity, CursorPage } from '../index';
+import { NotificationChannelName } from '../../utils/notification-channel';
+import { QuietHours } from '../../utils/quiet-hours';
+import { Result, Ok, Err, DatabaseError, ValidationError } from '../../utils/errors';
+import { measureAsync } from '../../utils/logger';
+
+export const DELIVERY_MODES = ['instant', 'digest'] as const;
+
+// The settings a user can change
+export interface NotificationPreferenceValues {
+  email_enabled: boolean;
+  sms_enabled: boolean;
+  push_enabled: boolean;
+  // Days before the due date to remind, for bills without their own reminder_days
+  reminder_days: number;
+  // 'HH:mm' local time, both set or both null
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  // IANA zone, e.g. 'Europe/London'
+  timezone: string;
+  // 'digest': reminders and overdue notices go in the digest email instead of one message each
+  delivery_mode: (typeof DELIVERY_MODES)[number];
+}
+
+// Notification preferences entity (id is the auth user's ID)
+export interface NotificationPreferences extends BaseEntity, NotificationPreferenceValues {}
+
+// Matches the column defaults; used for users who never saved their preferences
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferenceValues = {
+  email_enabled: true,
+  sms_enabled: false,
+  push_enabled: true,
+  reminder_days: 3,
+  quiet_hours_start: null,
+  quiet_hours_end: null,
+  timezone: 'Europe/London',
+  delivery_mode: 'instant',
+};
+
+export function isChannelEnabled(
+  preferences: NotificationPreferenceValues,
+  channel: NotificationChannelName
+): boolean {
+  switch (channel) {
+    case 'email':
+      return preferences.email_enabled;
+    case 'sms':
+      return preferences.sms_enabled;
+    case 'push':
+      return preferences.push_enabled;
+  }
+}
+
+export function preferredQuietHours(preferences: NotificationPreferenceValues): QuietHours | null {
+  if (!preferences.quiet_hours_start || !preferences.quiet_hours_end) {
+    return null;
+  }
+  return {
+    start: preferences.quiet_hours_start,
+    end: preferences.quiet_hours_end,
+    timeZone: preferences.timezone,
+  };
+}
+
+export class NotificationPreferenceRepository extends BaseRepository<NotificationPreferences> {
+  protected tableName = 'notification_preferences';
+
+  // The user's preferences, or the defaults if they have not saved any
+  async findForUser(userId: string): Promise<Result<NotificationPreferenceValues, DatabaseError>> {
+    const found = await this.findById(userId);
+    if (!found.ok) {
+      return found;
+    }
+    return Ok(withDefaults(found.value));
+  }
+
+  // Preferences for many users at once, keyed by user ID (defaults for users without a row)
+  async findForUsers(
+    userIds: string[]
+  ): Promise<Result<Map<string, NotificationPreferenceValues>, DatabaseError>> {
+    const unique = [...new Set(userIds)];
+    const preferences = new Map(unique.map(id => [id, { ...DEFAULT_NOTIFICATION_PREFERENCES }]));
+    if (unique.length === 0) {
+      return Ok(preferences);
+    }
+
+    const found = await this.findByFilters([{ column: 'id', operator: 'in', value: unique }]);
+    if (!found.ok) {
+      return found;
+    }
+
+    for (const row of found.value) {
+      preferences.set(row.id, withDefaults(row));
+    }
+    return Ok(preferences);
+  }
+
+  // One page of the users who chose digest delivery and still get email, i.e. who should
+  // get the digests
+  async findDigestRecipients(
+    cursor?: string | null,
+    limit?: number
+  ): Promise<Result<CursorPage<NotificationPreferences>, DatabaseError | ValidationError>> {
+    return this.findByCursor([
+      { column: 'delivery_mode', operator: 'eq', value: 'digest' },
+      { column: 'email_enabled', operator: 'eq', value: true }
+    ], {
+      orderBy: 'id',
+      orderDirection: 'asc',
+      ...(cursor && { cursor }),
+      ...(limit !== undefined && { limit })
+    });
+  }
+
+  async save(
+    userId: string,
+    values: NotificationPreferenceValues
+  ): Promise<Result<NotificationPreferences, DatabaseError>> {
+    return measureAsync('repository.notification_preferences.save', async () => {
+      try {
+        const { data, error } = await this.supabase
+          .from(this.tableName)
+          .upsert({ id: userId, ...values }, { onConflict: 'id' })
+          .select()
+          .single();
+
+        if (error) {
+          return Err(new DatabaseError('save', error));
+        }
+
+        return Ok(data);
+      } catch (error) {
+        return Err(new DatabaseError('save', error as Error));
+      }
+    });
+  }
+}
+
+function withDefaults(row: NotificationPreferences | null): NotificationPreferenceValues {
+  if (!row) {
+    return { ...DEFAULT_NOTIFICATION_PREFERENCES };
+  }
+
+  const { id, created_at, updated_at, ...values } = row;
+  return { ...DEFAULT_NOTIFICATION_PREFERENCES, ...values };
+}
+
+// Export singleton instance
+export const notificationPreferenceRepository = new NotificationPreferenceRepository();
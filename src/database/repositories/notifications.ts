@@ -0,0 +1,218 @@
+// Notifications Repository - messages to users and their delivery state
+import { BaseRepository, BaseEntity } from '../index';
+import {
+  NotificationChannelName,
+  NotificationType,
+} from '../../utils/notification-channel';
+import { Result, Ok, Err, DatabaseError } from '../../utils/errors';
+import { measureAsync } from '../../utils/logger';
+
+// Notification entity
+//
+// pending -> sending -> sent -> delivered / failed (provider delivery receipt)
+//                    -> retrying -> sending -> ...
+//                    -> failed (gave up)
+export interface Notification extends BaseEntity {
+  user_id: string;
+  bill_id?: string;
+  type: NotificationType;
+  channel: NotificationChannelName;
+  status: 'pending' | 'sending' | 'sent' | 'delivered' | 'retrying' | 'failed';
+  subject?: string;
+  message: string;
+  sent_at?: Date;
+  // One row per key, e.g. 'reminder:<bill>:<due date>:email'
+  dedupe_key?: string;
+  attempts: number;
+  next_attempt_at: Date;
+  last_error?: string;
+  external_id?: string;
+  metadata: Record<string, any>;
+}
+
+export type NewNotification = Pick<
+  Notification,
+  'user_id' | 'bill_id' | 'type' | 'channel' | 'subject' | 'message' | 'dedupe_key' | 'metadata'
+>;
+
+const UNIQUE_VIOLATION = '23505';
+
+export class NotificationRepository extends BaseRepository<Notification> {
+  protected tableName = 'notifications';
+
+  async findByDedupeKey(key: string): Promise<Result<Notification | null, DatabaseError>> {
+    return measureAsync('repository.notifications.findByDedupeKey', async () => {
+      try {
+        const { data, error } = await this.supabase
+          .from(this.tableName)
+          .select()
+          .eq('dedupe_key', key)
+          .maybeSingle();
+
+        if (error) {
+          return Err(new DatabaseError('findByDedupeKey', error));
+        }
+
+        return Ok(data);
+      } catch (error) {
+        return Err(new DatabaseError('findByDedupeKey', error as Error));
+      }
+    });
+  }
+
+  // Insert a notification unless one with the same dedupe key already exists
+  async createIfAbsent(
+    data: NewNotification
+  ): Promise<Result<{ notification: Notification; created: boolean }, DatabaseError>> {
+    return measureAsync('repository.notifications.createIfAbsent', async () => {
+      try {
+        const { data: created, error } = await this.supabase
+          .from(this.tableName)
+          .insert({ ...data, status: 'pending' })
+          .select()
+          .single();
+
+        if (!error) {
+          return Ok({ notification: created, created: true });
+        }
+        if (error.code !== UNIQUE_VIOLATION || !data.dedupe_key) {
+          return Err(new DatabaseError('createIfAbsent', error));
+        }
+
+        const existing = await this.findByDedupeKey(data.dedupe_key);
+        if (!existing.ok) {
+          return existing;
+        }
+        if (!existing.value) {
+          return Err(new DatabaseError('createIfAbsent', error));
+        }
+
+        return Ok({ notification: existing.value, created: false });
+      } catch (error) {
+        return Err(new DatabaseError('createIfAbsent', error as Error));
+      }
+    });
+  }
+
+  // Notifications due to be sent or retried, including sends that were claimed but never finished
+  async findDeliverable(
+    now: Date = new Date(),
+    limit: number = 100
+  ): Promise<Result<Notification[], DatabaseError>> {
+    return this.findByFilters([
+      { column: 'status', operator: 'in', value: ['pending', 'sending', 'retrying'] },
+      { column: 'next_attempt_at', operator: 'lte', value: now.toISOString() }
+    ], {
+      orderBy: 'next_attempt_at',
+      orderDirection: 'asc',
+      limit
+    });
+  }
+
+  // Claim a notification for sending. Moving next_attempt_at forward means no other
+  // dispatcher picks it up until the lease runs out. Returns null if it was claimed first.
+  async claim(
+    notification: Notification,
+    leaseUntil: Date
+  ): Promise<Result<Notification | null, DatabaseError>> {
+    return measureAsync('repository.notifications.claim', async () => {
+      try {
+        const { data, error } = await this.supabase
+          .from(this.tableName)
+          .update({
+            status: 'sending',
+            attempts: notification.attempts + 1,
+            next_attempt_at: leaseUntil.toISOString(),
+          })
+          .eq('id', notification.id)
+          .eq('status', notification.status)
+          .eq('attempts', notification.attempts)
+          .lte('next_attempt_at', new Date().toISOString())
+          .select();
+
+        if (error) {
+          return Err(new DatabaseError('claim', error));
+        }
+
+        return Ok(data && data.length > 0 ? data[0] : null);
+      } catch (error) {
+        return Err(new DatabaseError('claim', error as Error));
+      }
+    });
+  }
+
+  // Find a notification by the provider's message ID
+  async findByExternalId(
+    channel: Notification['channel'],
+    externalId: string
+  ): Promise<Result<Notification | null, DatabaseError>> {
+    return measureAsync('repository.notifications.findByExternalId', async () => {
+      try {
+        const { data, error } = await this.supabase
+          .from(this.tableName)
+          .select()
+          .eq('channel', channel)
+          .eq('external_id', externalId)
+          .maybeSingle();
+
+        if (error) {
+          return Err(new DatabaseError('findByExternalId', error));
+        }
+
+        return Ok(data);
+      } catch (error) {
+        return Err(new DatabaseError('findByExternalId', error as Error));
+      }
+    });
+  }
+
+  // Put off an unclaimed notification without counting it as an attempt
+  async defer(
+    notification: Notification,
+    until: Date
+  ): Promise<Result<Notification | null, DatabaseError>> {
+    return measureAsync('repository.notifications.defer', async () => {
+      try {
+        const { data, error } = await this.supabase
+          .from(this.tableName)
+          .update({ next_attempt_at: until.toISOString() })
+          .eq('id', notification.id)
+          .eq('status', notification.status)
+          .eq('attempts', notification.attempts)
+          .select();
+
+        if (error) {
+          return Err(new DatabaseError('defer', error));
+        }
+
+        return Ok(data && data.length > 0 ? data[0] : null);
+      } catch (error) {
+        return Err(new DatabaseError('defer', error as Error));
+      }
+    });
+  }
+
+  async markSent(id: string, externalId?: string): Promise<Result<Notification, DatabaseError>> {
+    return this.update(id, {
+      status: 'sent',
+      sent_at: new Date(),
+      ...(externalId && { external_id: externalId }),
+    });
+  }
+
+  // Record a failed attempt; with retryAt it will be tried again, without it the send is given up
+  async markFailed(
+    id: string,
+    error: string,
+    retryAt?: Date
+  ): Promise<Result<Notification, DatabaseError>> {
+    return this.update(id, {
+      status: retryAt ? 'retrying' : 'failed',
+      last_error: error,
+      ...(retryAt && { next_attempt_at: retryAt }),
+    });
+  }
+}
+
+// Export singleton instance
+export const notificationRepository = new NotificationRepository();
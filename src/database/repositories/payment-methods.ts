@@ -0,0 +1,118 @@
+// Payment Methods Repository - a user's saved cards and bank accounts
+import { BaseRepository, BaseEntity } from '../index';
+import { Result, Ok, Err, DatabaseError, NotFoundError } from '../../utils/errors';
+import { measureAsync } from '../../utils/logger';
+
+// Payment method entity
+export interface PaymentMethod extends BaseEntity {
+  user_id: string;
+  type: 'bank_account' | 'card';
+  provider?: string;
+  provider_customer_id?: string;
+  provider_payment_method_id?: string;
+  last_four?: string;
+  bank_name?: string;
+  is_default: boolean;
+  metadata?: Record<string, any>;
+}
+
+export class PaymentMethodRepository extends BaseRepository<PaymentMethod> {
+  protected tableName = 'payment_methods';
+
+  // Find a user's payment methods, default first
+  async findByUserId(userId: string): Promise<Result<PaymentMethod[], DatabaseError>> {
+    return measureAsync('repository.payment_methods.findByUserId', async () => {
+      try {
+        const { data, error } = await this.supabase
+          .from(this.tableName)
+          .select()
+          .eq('user_id', userId)
+          .order('is_default', { ascending: false })
+          .order('created_at', { ascending: false });
+
+        if (error) {
+          return Err(new DatabaseError('findByUserId', error));
+        }
+
+        return Ok(data || []);
+      } catch (error) {
+        return Err(new DatabaseError('findByUserId', error as Error));
+      }
+    });
+  }
+
+  // Find the row mirroring a provider's payment method
+  async findByProviderId(
+    provider: string,
+    providerPaymentMethodId: string
+  ): Promise<Result<PaymentMethod | null, DatabaseError>> {
+    return measureAsync('repository.payment_methods.findByProviderId', async () => {
+      try {
+        const { data, error } = await this.supabase
+          .from(this.tableName)
+          .select()
+          .eq('provider', provider)
+          .eq('provider_payment_method_id', providerPaymentMethodId)
+          .maybeSingle();
+
+        if (error) {
+          return Err(new DatabaseError('findByProviderId', error));
+        }
+
+        return Ok(data);
+      } catch (error) {
+        return Err(new DatabaseError('findByProviderId', error as Error));
+      }
+    });
+  }
+
+  // Find a user's default payment method
+  async findDefaultForUser(userId: string): Promise<Result<PaymentMethod | null, DatabaseError>> {
+    return measureAsync('repository.payment_methods.findDefaultForUser', async () => {
+      try {
+        const { data, error } = await this.supabase
+          .from(this.tableName)
+          .select()
+          .eq('user_id', userId)
+          .eq('is_default', true)
+          .limit(1)
+          .maybeSingle();
+
+        if (error) {
+          return Err(new DatabaseError('findDefaultForUser', error));
+        }
+
+        return Ok(data);
+      } catch (error) {
+        return Err(new DatabaseError('findDefaultForUser', error as Error));
+      }
+    });
+  }
+
+  // Make a method its owner's only default (atomic, see set_default_payment_method)
+  async setDefault(id: string): Promise<Result<PaymentMethod, DatabaseError | NotFoundError>> {
+    return measureAsync('repository.payment_methods.setDefault', async () => {
+      try {
+        const before = await this.snapshot(id);
+        const { error } = await this.supabase.rpc('set_default_payment_method', {
+          p_method_id: id,
+        });
+
+        if (error) {
+          return Err(new DatabaseError('setDefault', error));
+        }
+
+        const updated = await this.findByIdOrThrow(id);
+        if (updated.ok) {
+          await this.audit('update', id, before, updated.value);
+        }
+        return updated;
+      } catch (error) {
+        return Err(new DatabaseError('setDefault', error as Error));
+      }
+    });
+  }
+}
+
+// Export singleton instance
+export const paymentMethodRepository = new PaymentMethodRepository();
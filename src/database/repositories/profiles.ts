@@ -0,0 +1,54 @@
+// Profiles Repository - user details kept alongside Supabase auth users
+import { BaseRepository, BaseEntity } from '../index';
+import { Result, Ok, Err, DatabaseError } from '../../utils/errors';
+import { measureAsync } from '../../utils/logger';
+import { phoneVariants } from '../../utils/sms';
+
+export const USER_ROLES = ['user', 'admin', 'support'] as const;
+export type UserRole = typeof USER_ROLES[number];
+
+// Profile entity (id is the auth user's ID)
+export interface Profile extends BaseEntity {
+  email: string;
+  full_name?: string;
+  phone?: string;
+  kyc_status: 'pending' | 'verified' | 'rejected';
+  kyc_verified_at?: Date;
+  credit_building_opted_in: boolean;
+  // Set while the user has replied STOP to our text messages
+  sms_opted_out_at?: Date | null;
+  // Only changed with the service role (see 0013_profile_roles)
+  role: UserRole;
+}
+
+export class ProfileRepository extends BaseRepository<Profile> {
+  protected tableName = 'profiles';
+
+  // Find the profile with a phone number, however the number was stored
+  async findByPhone(e164: string): Promise<Result<Profile | null, DatabaseError>> {
+    return measureAsync('repository.profiles.findByPhone', async () => {
+      try {
+        const { data, error } = await this.supabase
+          .from(this.tableName)
+          .select()
+          .in('phone', phoneVariants(e164))
+          .limit(1);
+
+        if (error) {
+          return Err(new DatabaseError('findByPhone', error));
+        }
+
+        return Ok(data && data.length > 0 ? data[0] : null);
+      } catch (error) {
+        return Err(new DatabaseError('findByPhone', error as Error));
+      }
+    });
+  }
+
+  async setSmsOptOut(id: string, optedOut: boolean): Promise<Result<Profile, DatabaseError>> {
+    return this.update(id, { sms_opted_out_at: optedOut ? new Date() : null });
+  }
+}
+
+// Export singleton instance
+export const profileRepository = new ProfileRepository();
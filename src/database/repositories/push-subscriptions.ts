@@ -0,0 +1,97 @@
+// Push Subscriptions Repository - the browsers/devices each user gets web push on
+import { BaseRepository, BaseEntity } from '../index';
+import { Result, Ok, Err, DatabaseError } from '../../utils/errors';
+import { measureAsync } from '../../utils/logger';
+
+// Push subscription entity (one per browser endpoint)
+export interface PushSubscription extends BaseEntity {
+  user_id: string;
+  endpoint: string;
+  // Browser's P-256 public key and auth secret, base64url
+  p256dh: string;
+  auth: string;
+  device_name?: string;
+  user_agent?: string;
+  last_used_at?: Date;
+}
+
+export type NewPushSubscription = Pick<
+  PushSubscription,
+  'user_id' | 'endpoint' | 'p256dh' | 'auth' | 'device_name' | 'user_agent'
+>;
+
+export class PushSubscriptionRepository extends BaseRepository<PushSubscription> {
+  protected tableName = 'push_subscriptions';
+
+  async findByUserId(userId: string): Promise<Result<PushSubscription[], DatabaseError>> {
+    return this.findByFilters(
+      [{ column: 'user_id', operator: 'eq', value: userId }],
+      { orderBy: 'created_at', orderDirection: 'desc' }
+    );
+  }
+
+  // Save a subscription. An endpoint already on file (the browser re-subscribed, or another
+  // account signed in on it) is updated and moved to this user.
+  async upsert(data: NewPushSubscription): Promise<Result<PushSubscription, DatabaseError>> {
+    return measureAsync('repository.push_subscriptions.upsert', async () => {
+      try {
+        const { data: saved, error } = await this.supabase
+          .from(this.tableName)
+          .upsert(data, { onConflict: 'endpoint' })
+          .select()
+          .single();
+
+        if (error) {
+          return Err(new DatabaseError('upsert', error));
+        }
+
+        return Ok(saved);
+      } catch (error) {
+        return Err(new DatabaseError('upsert', error as Error));
+      }
+    });
+  }
+
+  // Note when devices last accepted a message
+  async touch(endpoints: string[]): Promise<Result<void, DatabaseError>> {
+    return measureAsync('repository.push_subscriptions.touch', async () => {
+      try {
+        const { error } = await this.supabase
+          .from(this.tableName)
+          .update({ last_used_at: new Date().toISOString() })
+          .in('endpoint', endpoints);
+
+        if (error) {
+          return Err(new DatabaseError('touch', error));
+        }
+
+        return Ok(undefined);
+      } catch (error) {
+        return Err(new DatabaseError('touch', error as Error));
+      }
+    });
+  }
+
+  // Remove subscriptions the push service says no longer exist
+  async removeByEndpoints(endpoints: string[]): Promise<Result<void, DatabaseError>> {
+    return measureAsync('repository.push_subscriptions.removeByEndpoints', async () => {
+      try {
+        const { error } = await this.supabase
+          .from(this.tableName)
+          .delete()
+          .in('endpoint', endpoints);
+
+        if (error) {
+          return Err(new DatabaseError('removeByEndpoints', error));
+        }
+
+        return Ok(undefined);
+      } catch (error) {
+        return Err(new DatabaseError('removeByEndpoints', error as Error));
+      }
+    });
+  }
+}
+
+// Export singleton instance
+export const pushSubscriptionRepository = new PushSubscriptionRepository();
@@ -0,0 +1,322 @@
+// Transactions Repository - payments made against bills
+import { BaseRepository, BaseEntity, CursorPage, Filter, QueryOptions } from '../index';
+import { Bill } from './bills';
+import { Result, Ok, Err, DatabaseError, ValidationError } from '../../utils/errors';
+import { measureAsync } from '../../utils/logger';
+import { Refund, fromMoney, toMoney } from '../../utils/payment-provider';
+
+// Transaction entity
+export interface Transaction extends BaseEntity {
+  bill_id?: string;
+  user_id: string;
+  amount: number;
+  fee?: number;
+  total_amount?: number; // Generated column (amount + fee), only present on reads
+  currency: 'GBP' | 'USD' | 'EUR';
+  payment_method?: 'bank_transfer' | 'card' | 'open_banking';
+  payment_method_id?: string;
+  external_transaction_id?: string;
+  idempotency_key?: string;
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'refunded';
+  failure_reason?: string;
+  processed_at?: Date;
+  metadata?: Record<string, any>;
+}
+
+// Input shape for recording a transaction
+export type NewTransaction = Omit<Transaction, 'id' | 'created_at' | 'updated_at' | 'total_amount'>;
+
+export const TRANSACTION_STATUSES = [
+  'pending',
+  'processing',
+  'completed',
+  'failed',
+  'refunded',
+] as const satisfies readonly Transaction['status'][];
+
+// Transaction with the bill it paid, as returned by the history queries
+export interface TransactionWithBill extends Transaction {
+  bill: Pick<Bill, 'id' | 'biller_name' | 'biller_category'> | null;
+}
+
+export interface TransactionFilters {
+  status?: Transaction['status'];
+  billId?: string;
+  startDate?: Date;
+  endDate?: Date;
+}
+
+export interface TransactionPage {
+  transactions: TransactionWithBill[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+// Totals over a set of transactions; totalAmount includes fees
+export interface TransactionTotals {
+  count: number;
+  amount: number;
+  fee: number;
+  totalAmount: number;
+  byStatus: Record<string, { count: number; totalAmount: number }>;
+}
+
+const WITH_BILL = '*, bill:bills(id, biller_name, biller_category)';
+
+export class TransactionRepository extends BaseRepository<Transaction> {
+  protected tableName = 'transactions';
+
+  // Find transactions for a user, newest first
+  async findByUserId(
+    userId: string,
+    filters: TransactionFilters = {},
+    options?: QueryOptions
+  ): Promise<Result<Transaction[], DatabaseError>> {
+    return this.findByFilters(this.buildFilters(userId, filters), {
+      orderBy: 'created_at',
+      orderDirection: 'desc',
+      ...options,
+    });
+  }
+
+  // Find every payment attempt for a bill, newest first
+  async findByBillId(billId: string): Promise<Result<Transaction[], DatabaseError>> {
+    return this.findByFilters([
+      { column: 'bill_id', operator: 'eq', value: billId }
+    ], {
+      orderBy: 'created_at',
+      orderDirection: 'desc'
+    });
+  }
+
+  // Find a transaction together with its bill
+  async findWithBill(id: string): Promise<Result<TransactionWithBill | null, DatabaseError>> {
+    return measureAsync('repository.transactions.findWithBill', async () => {
+      try {
+        const { data, error } = await this.supabase
+          .from(this.tableName)
+          .select(WITH_BILL)
+          .eq('id', id)
+          .maybeSingle();
+
+        if (error) {
+          return Err(new DatabaseError('findWithBill', error));
+        }
+
+        return Ok(data as TransactionWithBill | null);
+      } catch (error) {
+        return Err(new DatabaseError('findWithBill', error as Error));
+      }
+    });
+  }
+
+  // One page of a user's payment history with the total number of matching rows
+  async findPageForUser(
+    userId: string,
+    filters: TransactionFilters = {},
+    page: number = 1,
+    pageSize: number = 20
+  ): Promise<Result<TransactionPage, DatabaseError>> {
+    return measureAsync('repository.transactions.findPageForUser', async () => {
+      try {
+        const from = (page - 1) * pageSize;
+        let query = this.supabase
+          .from(this.tableName)
+          .select(WITH_BILL, { count: 'exact' })
+          .eq('user_id', userId);
+
+        if (filters.status) {
+          query = query.eq('status', filters.status);
+        }
+        if (filters.billId) {
+          query = query.eq('bill_id', filters.billId);
+        }
+        if (filters.startDate) {
+          query = query.gte('created_at', filters.startDate.toISOString());
+        }
+        if (filters.endDate) {
+          query = query.lte('created_at', filters.endDate.toISOString());
+        }
+
+        const { data, count, error } = await query
+          .order('created_at', { ascending: false })
+          .range(from, from + pageSize - 1);
+
+        if (error) {
+          return Err(new DatabaseError('findPageForUser', error));
+        }
+
+        return Ok({
+          transactions: (data || []) as TransactionWithBill[],
+          total: count || 0,
+          page,
+          pageSize,
+        });
+      } catch (error) {
+        return Err(new DatabaseError('findPageForUser', error as Error));
+      }
+    });
+  }
+
+  // One page of a user's payment history, newest first, for lists that load more as they
+  // scroll. Pass the page's nextCursor to get the next.
+  async findByCursorForUser(
+    userId: string,
+    filters: TransactionFilters = {},
+    cursor?: string | null,
+    limit?: number
+  ): Promise<Result<CursorPage<TransactionWithBill>, DatabaseError | ValidationError>> {
+    const result = await this.findByCursor(this.buildFilters(userId, filters), {
+      orderBy: 'created_at',
+      orderDirection: 'desc',
+      select: WITH_BILL,
+      ...(cursor && { cursor }),
+      ...(limit !== undefined && { limit }),
+    });
+
+    return result as Result<CursorPage<TransactionWithBill>, DatabaseError | ValidationError>;
+  }
+
+  // Sum amounts, fees and totals for a user's transactions
+  async getTotals(
+    userId: string,
+    filters: TransactionFilters = {}
+  ): Promise<Result<TransactionTotals, DatabaseError>> {
+    return measureAsync('repository.transactions.getTotals', async () => {
+      const result = await this.findByFilters(this.buildFilters(userId, filters), {
+        select: 'amount, fee, total_amount, status',
+      });
+
+      if (!result.ok) {
+        return result as Result<never, DatabaseError>;
+      }
+
+      const totals: TransactionTotals = {
+        count: 0,
+        amount: 0,
+        fee: 0,
+        totalAmount: 0,
+        byStatus: {},
+      };
+
+      for (const transaction of result.value) {
+        // DECIMAL columns can arrive as strings
+        const amount = Number(transaction.amount);
+        const fee = Number(transaction.fee ?? 0);
+        const totalAmount = Number(transaction.total_amount ?? amount + fee);
+
+        totals.count++;
+        totals.amount += amount;
+        totals.fee += fee;
+        totals.totalAmount += totalAmount;
+
+        const byStatus = totals.byStatus[transaction.status] ??= { count: 0, totalAmount: 0 };
+        byStatus.count++;
+        byStatus.totalAmount += totalAmount;
+      }
+
+      return Ok(totals);
+    });
+  }
+
+  // Find the transaction recorded for an idempotency key
+  async findByIdempotencyKey(key: string): Promise<Result<Transaction | null, DatabaseError>> {
+    return measureAsync('repository.transactions.findByIdempotencyKey', async () => {
+      try {
+        const { data, error } = await this.supabase
+          .from(this.tableName)
+          .select()
+          .eq('idempotency_key', key)
+          .maybeSingle();
+
+        if (error) {
+          return Err(new DatabaseError('findByIdempotencyKey', error));
+        }
+
+        return Ok(data);
+      } catch (error) {
+        return Err(new DatabaseError('findByIdempotencyKey', error as Error));
+      }
+    });
+  }
+
+  // Find a transaction by the provider's transaction ID
+  async findByExternalId(externalId: string): Promise<Result<Transaction | null, DatabaseError>> {
+    return measureAsync('repository.transactions.findByExternalId', async () => {
+      try {
+        const { data, error } = await this.supabase
+          .from(this.tableName)
+          .select()
+          .eq('external_transaction_id', externalId)
+          .maybeSingle();
+
+        if (error) {
+          return Err(new DatabaseError('findByExternalId', error));
+        }
+
+        return Ok(data);
+      } catch (error) {
+        return Err(new DatabaseError('findByExternalId', error as Error));
+      }
+    });
+  }
+
+  // Record a transaction, returning the existing row if the idempotency key was already used
+  async createIdempotent(data: NewTransaction): Promise<Result<Transaction, DatabaseError>> {
+    const created = await this.create(data as Omit<Transaction, 'id' | 'created_at' | 'updated_at'>);
+    if (created.ok || !data.idempotency_key) {
+      return created;
+    }
+
+    const existing = await this.findByIdempotencyKey(data.idempotency_key);
+    if (existing.ok && existing.value) {
+      return Ok(existing.value);
+    }
+
+    return created;
+  }
+
+  // Record a provider refund on the payment it refunds. Partial refunds are recorded but
+  // leave the payment completed.
+  async recordRefund(
+    transaction: Transaction,
+    refund: Refund
+  ): Promise<Result<Transaction, DatabaseError>> {
+    const fullyRefunded = refund.amount.amount >= toMoney(transaction.amount, transaction.currency).amount;
+
+    return this.update(transaction.id, {
+      ...(fullyRefunded && { status: 'refunded' as const }),
+      metadata: {
+        ...transaction.metadata,
+        refund_id: refund.id,
+        refunded_amount: fromMoney(refund.amount),
+        refunded_at: new Date(refund.createdAt).toISOString(),
+      },
+    });
+  }
+
+  private buildFilters(userId: string, filters: TransactionFilters): Filter[] {
+    const conditions: Filter[] = [
+      { column: 'user_id', operator: 'eq', value: userId }
+    ];
+
+    if (filters.status) {
+      conditions.push({ column: 'status', operator: 'eq', value: filters.status });
+    }
+    if (filters.billId) {
+      conditions.push({ column: 'bill_id', operator: 'eq', value: filters.billId });
+    }
+    if (filters.startDate) {
+      conditions.push({ column: 'created_at', operator: 'gte', value: filters.startDate.toISOString() });
+    }
+    if (filters.endDate) {
+      conditions.push({ column: 'created_at', operator: 'lte', value: filters.endDate.toISOString() });
+    }
+
+    return conditions;
+  }
+}
+
+// Export singleton instance
+export const transactionRepository = new TransactionRepository();
@@ -0,0 +1,76 @@
+// Webhook Events Repository - records provider events so each one is processed once
+import { BaseRepository, BaseEntity } from '../index';
+import { Result, Ok, Err, DatabaseError } from '../../utils/errors';
+import { logger, measureAsync } from '../../utils/logger';
+
+// Webhook event entity (id is the provider's event ID)
+export interface WebhookEventRecord extends BaseEntity {
+  provider: string;
+  type: string;
+  status: 'processing' | 'processed';
+  processed_at?: Date;
+}
+
+// A claim older than this is assumed to belong to a handler that crashed
+const STALE_CLAIM_MS = 5 * 60 * 1000;
+
+const UNIQUE_VIOLATION = '23505';
+
+export class WebhookEventRepository extends BaseRepository<WebhookEventRecord> {
+  protected tableName = 'webhook_events';
+
+  // Claim an event for processing. Returns false if it was already processed or
+  // another delivery of it is being processed right now.
+  async claim(id: string, provider: string, type: string): Promise<Result<boolean, DatabaseError>> {
+    return measureAsync('repository.webhook_events.claim', async () => {
+      try {
+        const { error } = await this.supabase
+          .from(this.tableName)
+          .insert({ id, provider, type, status: 'processing' });
+
+        if (!error) {
+          return Ok(true);
+        }
+        if (error.code !== UNIQUE_VIOLATION) {
+          return Err(new DatabaseError('claim', error));
+        }
+
+        // Take over a stale claim; the updated_at condition stops two handlers both winning
+        const staleBefore = new Date(Date.now() - STALE_CLAIM_MS).toISOString();
+        const { data, error: reclaimError } = await this.supabase
+          .from(this.tableName)
+          .update({ updated_at: new Date().toISOString() })
+          .eq('id', id)
+          .eq('status', 'processing')
+          .lt('updated_at', staleBefore)
+          .select();
+
+        if (reclaimError) {
+          return Err(new DatabaseError('claim', reclaimError));
+        }
+
+        if (data && data.length > 0) {
+          logger.warn('Reclaimed stale webhook event', { id, provider, type });
+          return Ok(true);
+        }
+
+        return Ok(false);
+      } catch (error) {
+        return Err(new DatabaseError('claim', error as Error));
+      }
+    });
+  }
+
+  // Mark a claimed event as done
+  async complete(id: string): Promise<Result<WebhookEventRecord, DatabaseError>> {
+    return this.update(id, { status: 'processed', processed_at: new Date() });
+  }
+
+  // Give up a claim so the provider's retry can process the event
+  async release(id: string): Promise<Result<void, DatabaseError>> {
+    return this.delete(id);
+  }
+}
+
+// Export singleton instance
+export const webhookEventRepository = new WebhookEventRepository();
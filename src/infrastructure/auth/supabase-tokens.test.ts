@@ -0,0 +1,98 @@
+// Access token verification with tokens minted locally: HS256 with a test secret, and
+// ES256 with a key pair whose public half is served as JWKS from a local server
+import { generateKeyPairSync } from 'crypto';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import jwt from 'jsonwebtoken';
+import { AuthenticationError } from '../../utils/errors';
+import { SupabaseTokenVerifier } from './supabase-tokens';
+
+const ISSUER = 'http://supabase.test/auth/v1';
+const SECRET = 'local-test-jwt-secret';
+const USER_ID = '6f1f0c6e-2a61-4c1e-9a57-0d6f1d2b7c11';
+
+function hs256(claims: object, options: jwt.SignOptions = {}, secret: string = SECRET): string {
+  return jwt.sign(claims, secret, { issuer: ISSUER, audience: 'authenticated', expiresIn: '1h', ...options });
+}
+
+describe('SupabaseTokenVerifier', () => {
+  describe('with the legacy secret', () => {
+    const verifier = new SupabaseTokenVerifier({ issuer: ISSUER, audience: 'authenticated', secret: SECRET });
+
+    it('returns the claims of a valid token', async () => {
+      const token = hs256({ sub: USER_ID, email: 'payer@example.test', role: 'authenticated', session_id: 'session-1' });
+
+      await expect(verifier.verify(token)).resolves.toMatchObject({
+        sub: USER_ID,
+        email: 'payer@example.test',
+        session_id: 'session-1',
+      });
+    });
+
+    it.each([
+      ['expired', hs256({ sub: USER_ID }, { expiresIn: -60 }), 'Token has expired'],
+      ['signed with another secret', hs256({ sub: USER_ID }, {}, 'another-secret'), 'Invalid token'],
+      ['from another project', hs256({ sub: USER_ID }, { issuer: 'http://other.test/auth/v1' }), 'Invalid token'],
+      ['for another audience', hs256({ sub: USER_ID }, { audience: 'anon' }), 'Invalid token'],
+      ['without a subject', hs256({ role: 'authenticated' }), 'Invalid token'],
+      ['unsigned', jwt.sign({ sub: USER_ID }, '', { algorithm: 'none', issuer: ISSUER, audience: 'authenticated' }), 'Invalid token'],
+    ])('rejects a token %s', async (_case, token, message) => {
+      const error = await verifier.verify(token).catch(caught => caught);
+
+      expect(error).toBeInstanceOf(AuthenticationError);
+      expect(error.message).toBe(message);
+    });
+  });
+
+  it('rejects HS256 tokens when no secret is configured', async () => {
+    const verifier = new SupabaseTokenVerifier({ issuer: ISSUER, audience: 'authenticated' });
+
+    await expect(verifier.verify(hs256({ sub: USER_ID }))).rejects.toBeInstanceOf(AuthenticationError);
+  });
+
+  describe('with signing keys', () => {
+    const { privateKey, publicKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    const other = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    let server: Server;
+    let verifier: SupabaseTokenVerifier;
+    let jwksRequests = 0;
+
+    beforeAll(async () => {
+      const jwk = { ...publicKey.export({ format: 'jwk' }), kid: 'key-1', alg: 'ES256', use: 'sig' };
+      server = createServer((_req, res) => {
+        jwksRequests++;
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({ keys: [jwk] }));
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      const { port } = server.address() as AddressInfo;
+      verifier = new SupabaseTokenVerifier({
+        issuer: ISSUER,
+        audience: 'authenticated',
+        jwksUri: `http://127.0.0.1:${port}/auth/v1/.well-known/jwks.json`,
+      });
+    });
+
+    afterAll(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    const es256 = (key: typeof privateKey, kid: string) =>
+      jwt.sign({ sub: USER_ID }, key, { algorithm: 'ES256', keyid: kid, issuer: ISSUER, audience: 'authenticated', expiresIn: '1h' });
+
+    it('verifies a token against the published key, fetching the keys once', async () => {
+      await expect(verifier.verify(es256(privateKey, 'key-1'))).resolves.toMatchObject({ sub: USER_ID });
+      await expect(verifier.verify(es256(privateKey, 'key-1'))).resolves.toMatchObject({ sub: USER_ID });
+
+      expect(jwksRequests).toBe(1);
+    });
+
+    it('rejects a token signed with a key that is not the published one', async () => {
+      await expect(verifier.verify(es256(other.privateKey, 'key-1'))).rejects.toBeInstanceOf(AuthenticationError);
+    });
+
+    it('rejects an HS256 token when only signing keys are configured', async () => {
+      await expect(verifier.verify(hs256({ sub: USER_ID }))).rejects.toBeInstanceOf(AuthenticationError);
+    });
+  });
+});
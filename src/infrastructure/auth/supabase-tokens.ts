@@ -0,0 +1,109 @@
+// Supabase Access Tokens - verifies the JWTs Supabase Auth issues to signed-in users
+//
+// Projects on the legacy JWT secret sign tokens with HS256; projects using signing keys
+// sign them with ES256 or RS256 and publish the public keys as JWKS. Both are accepted,
+// picked by the token's alg header.
+import jwt, { JwtHeader, JwtPayload } from 'jsonwebtoken';
+import jwksClient, { JwksClient } from 'jwks-rsa';
+import { AuthenticationError } from '../../utils/errors';
+
+// Claims Supabase puts in an access token
+export interface SupabaseClaims extends JwtPayload {
+  sub: string;
+  email?: string;
+  // Postgres role the token acts as, 'authenticated' for signed-in users
+  role?: string;
+  session_id?: string;
+  app_metadata?: Record<string, any>;
+  user_metadata?: Record<string, any>;
+}
+
+export interface TokenVerifierOptions {
+  // e.g. https://<project>.supabase.co/auth/v1
+  issuer: string;
+  audience: string;
+  // Legacy HS256 secret
+  secret?: string;
+  // Public signing keys, usually <issuer>/.well-known/jwks.json
+  jwksUri?: string;
+}
+
+const ASYMMETRIC_ALGORITHMS: jwt.Algorithm[] = ['ES256', 'RS256'];
+
+// Options for this project, from the environment
+export function tokenVerifierOptions(): TokenVerifierOptions {
+  const issuer = `${(process.env['NEXT_PUBLIC_SUPABASE_URL'] ?? '').replace(/\/$/, '')}/auth/v1`;
+  const secret = process.env['SUPABASE_JWT_SECRET'];
+  return {
+    issuer,
+    audience: 'authenticated',
+    jwksUri: `${issuer}/.well-known/jwks.json`,
+    ...(secret && { secret }),
+  };
+}
+
+export class SupabaseTokenVerifier {
+  private jwks: JwksClient | null = null;
+
+  constructor(private readonly options: TokenVerifierOptions = tokenVerifierOptions()) {}
+
+  // The token's claims, or AuthenticationError if it is expired, tampered with, or
+  // issued for another project
+  async verify(token: string): Promise<SupabaseClaims> {
+    let claims: JwtPayload;
+    try {
+      claims = await new Promise<JwtPayload>((resolve, reject) => {
+        jwt.verify(
+          token,
+          (header, callback) => {
+            this.keyFor(header).then(key => callback(null, key), error => callback(error));
+          },
+          {
+            algorithms: [...(this.options.secret ? ['HS256' as const] : []), ...ASYMMETRIC_ALGORITHMS],
+            issuer: this.options.issuer,
+            audience: this.options.audience,
+          },
+          (error, decoded) => (error ? reject(error) : resolve(decoded as JwtPayload))
+        );
+      });
+    } catch (error) {
+      if (error instanceof jwt.TokenExpiredError) {
+        throw new AuthenticationError('Token has expired');
+      }
+      if (error instanceof jwt.JsonWebTokenError) {
+        throw new AuthenticationError('Invalid token', { reason: error.message });
+      }
+      throw error;
+    }
+
+    if (typeof claims.sub !== 'string' || !claims.sub) {
+      throw new AuthenticationError('Invalid token', { reason: 'missing sub claim' });
+    }
+    return claims as SupabaseClaims;
+  }
+
+  private async keyFor(header: JwtHeader): Promise<string> {
+    if (header.alg === 'HS256') {
+      if (!this.options.secret) {
+        throw new Error('SUPABASE_JWT_SECRET is not configured');
+      }
+      return this.options.secret;
+    }
+
+    if (!this.options.jwksUri) {
+      throw new Error('No JWKS URI configured for asymmetric tokens');
+    }
+    // Keys are cached, so only a new kid (key rotation) fetches the JWKS again
+    this.jwks ??= jwksClient({
+      jwksUri: this.options.jwksUri,
+      cache: true,
+      rateLimit: true,
+      jwksRequestsPerMinute: 10,
+    });
+    const key = await this.jwks.getSigningKey(header.kid);
+    return key.getPublicKey();
+  }
+}
+
+// Export singleton instance
+export const tokenVerifier = new SupabaseTokenVerifier();
@@ -0,0 +1,227 @@
+// Email templates for the digests: the weekly "what's due" summary and the monthly
+// spending recap (HTML and plain text)
+import { format } from 'date-fns';
+import {
+  DigestBill,
+  DigestData,
+  MonthlyDigestData,
+  OutboundNotification,
+  WeeklyDigestData,
+} from '../../utils/notification-channel';
+import { formatCurrency, formatDate, formatLabel } from '../../utils/format';
+import {
+  EmailContext,
+  RenderedEmail,
+  billUrl,
+  escapeHtml,
+  greeting,
+  htmlButton,
+  htmlLayout,
+  htmlParagraph,
+} from './email-templates';
+
+// The subject and one-line summary stored with the notification
+export interface DigestSummary {
+  subject: string;
+  message: string;
+}
+
+interface Table {
+  heading: string;
+  columns: string[];
+  // Plain text cells; the first cell links to the bill when it has one
+  rows: Array<{ cells: string[]; billId?: string }>;
+}
+
+interface DigestContent {
+  heading: string;
+  paragraphs: string[];
+  tables: Table[];
+  action: { label: string; url: string };
+}
+
+export function isDigestNotification(
+  notification: OutboundNotification
+): notification is OutboundNotification & { data: DigestData } {
+  const kind = (notification.data as Partial<DigestData>).kind;
+  return (notification.type === 'weekly_digest' && kind === 'weekly')
+    || (notification.type === 'monthly_digest' && kind === 'monthly');
+}
+
+export function summarizeDigest(data: DigestData): DigestSummary {
+  return data.kind === 'weekly' ? summarizeWeekly(data) : summarizeMonthly(data);
+}
+
+export function renderDigestEmail(data: DigestData, context: EmailContext): RenderedEmail {
+  const { subject } = summarizeDigest(data);
+  const content = data.kind === 'weekly' ? weeklyContent(data, context) : monthlyContent(data, context);
+
+  return {
+    subject,
+    html: renderHtml(subject, content, context),
+    text: renderText(content, context),
+  };
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+// Amounts in different currencies cannot be added up, so each gets its own total
+function totalsByCurrency(bills: DigestBill[]): string {
+  const totals = new Map<string, number>();
+  for (const bill of bills) {
+    totals.set(bill.currency, (totals.get(bill.currency) ?? 0) + bill.amount);
+  }
+  return [...totals].map(([currency, amount]) => formatCurrency(amount, currency)).join(' + ');
+}
+
+function monthName(data: MonthlyDigestData): string {
+  return format(new Date(data.periodStart), 'MMMM yyyy');
+}
+
+function summarizeWeekly(data: WeeklyDigestData): DigestSummary {
+  const period = `${formatDate(data.periodStart)} to ${formatDate(data.periodEnd)}`;
+  const subject = data.upcoming.length > 0
+    ? `${plural(data.upcoming.length, 'bill')} due this week`
+    : `${plural(data.overdue.length, 'overdue bill')} to pay`;
+
+  const due = data.upcoming.length > 0
+    ? `${plural(data.upcoming.length, 'bill')} totalling ${totalsByCurrency(data.upcoming)} due ${period}.`
+    : `Nothing due ${period}.`;
+  const overdue = data.overdue.length > 0
+    ? ` ${plural(data.overdue.length, 'overdue bill')} totalling ${totalsByCurrency(data.overdue)}.`
+    : '';
+
+  return { subject, message: due + overdue };
+}
+
+function summarizeMonthly(data: MonthlyDigestData): DigestSummary {
+  const total = formatCurrency(data.totalAmount, data.currency);
+  return {
+    subject: `Your ${monthName(data)} spending recap`,
+    message: `${plural(data.billCount, 'bill')} totalling ${total} in ${monthName(data)}, ` +
+      `${formatCurrency(data.paidAmount, data.currency)} of it paid.`,
+  };
+}
+
+function billRows(bills: DigestBill[]): Table['rows'] {
+  return bills.map(bill => ({
+    billId: bill.billId,
+    cells: [
+      bill.billerName + (bill.autoPay ? ' (auto-pay)' : ''),
+      formatDate(bill.dueDate),
+      formatCurrency(bill.amount, bill.currency),
+    ],
+  }));
+}
+
+function weeklyContent(data: WeeklyDigestData, context: EmailContext): DigestContent {
+  const period = `${formatDate(data.periodStart)} and ${formatDate(data.periodEnd)}`;
+  const tables: Table[] = [];
+
+  if (data.upcoming.length > 0) {
+    tables.push({ heading: 'Due this week', columns: ['Bill', 'Due', 'Amount'], rows: billRows(data.upcoming) });
+  }
+  if (data.overdue.length > 0) {
+    tables.push({ heading: 'Overdue', columns: ['Bill', 'Was due', 'Amount'], rows: billRows(data.overdue) });
+  }
+
+  return {
+    heading: 'Your week ahead',
+    paragraphs: [
+      data.upcoming.length > 0
+        ? `You have ${plural(data.upcoming.length, 'bill')} totalling ` +
+          `${totalsByCurrency(data.upcoming)} due between ${period}.`
+        : `Nothing is due between ${period}.`,
+      ...(data.overdue.length > 0
+        ? [`${plural(data.overdue.length, 'bill')} totalling ${totalsByCurrency(data.overdue)} ` +
+           `${data.overdue.length === 1 ? 'is' : 'are'} overdue. Paying as soon as possible helps avoid further charges.`]
+        : []),
+    ],
+    tables,
+    action: { label: 'View your bills', url: `${context.appUrl.replace(/\/+$/, '')}/dashboard` },
+  };
+}
+
+function monthlyContent(data: MonthlyDigestData, context: EmailContext): DigestContent {
+  const month = monthName(data);
+  const unpaidCount = data.billCount - data.paidCount;
+
+  let comparison = '';
+  if (data.previousTotalAmount) {
+    const change = (data.totalAmount - data.previousTotalAmount) / data.previousTotalAmount;
+    const percent = Math.round(Math.abs(change) * 100);
+    comparison = percent === 0
+      ? 'That is about the same as the month before.'
+      : `That is ${percent}% ${change > 0 ? 'more' : 'less'} than the month before ` +
+        `(${formatCurrency(data.previousTotalAmount, data.currency)}).`;
+  }
+
+  return {
+    heading: `${month} recap`,
+    paragraphs: [
+      `You had ${plural(data.billCount, 'bill')} totalling ${formatCurrency(data.totalAmount, data.currency)} ` +
+        `in ${month}.` + (comparison && ` ${comparison}`),
+      unpaidCount > 0
+        ? `${formatCurrency(data.paidAmount, data.currency)} of it is paid; ` +
+          `${plural(unpaidCount, 'bill')} ${unpaidCount === 1 ? 'is' : 'are'} still unpaid.`
+        : 'All of them are paid.',
+    ],
+    tables: [{
+      heading: 'By category',
+      columns: ['Category', 'Bills', 'Amount'],
+      rows: data.byCategory.map(category => ({
+        cells: [formatLabel(category.category), String(category.count), formatCurrency(category.amount, data.currency)],
+      })),
+    }],
+    action: { label: 'View your dashboard', url: `${context.appUrl.replace(/\/+$/, '')}/dashboard` },
+  };
+}
+
+function renderText(content: DigestContent, context: EmailContext): string {
+  const tables = content.tables.map(table =>
+    [`${table.heading}:`, ...table.rows.map(row => `- ${row.cells.join(' | ')}`)].join('\n')
+  );
+
+  return [
+    greeting(context),
+    ...content.paragraphs,
+    ...tables,
+    `${content.action.label}: ${content.action.url}`,
+    `- ${context.appName}`,
+  ].join('\n\n') + '\n';
+}
+
+function renderHtml(subject: string, content: DigestContent, context: EmailContext): string {
+  const cellStyle = 'padding:8px 0;border-bottom:1px solid #e5e5e5';
+  const lastColumnStyle = `${cellStyle};text-align:right`;
+
+  const tables = content.tables.map(table => {
+    const header = table.columns
+      .map((column, index) =>
+        `<th style="${index === table.columns.length - 1 ? lastColumnStyle : cellStyle};` +
+        `font-size:12px;color:#737373;text-align:${index === table.columns.length - 1 ? 'right' : 'left'}">` +
+        `${escapeHtml(column)}</th>`)
+      .join('');
+    const rows = table.rows
+      .map(row => '<tr>' + row.cells.map((cell, index) => {
+        const text = index === 0 && row.billId
+          ? `<a href="${escapeHtml(billUrl(context.appUrl, row.billId))}" style="color:#2563eb">${escapeHtml(cell)}</a>`
+          : escapeHtml(cell);
+        return `<td style="${index === row.cells.length - 1 ? lastColumnStyle : cellStyle}">${text}</td>`;
+      }).join('') + '</tr>')
+      .join('\n');
+
+    return `<h2 style="margin:24px 0 8px;font-size:16px">${escapeHtml(table.heading)}</h2>\n` +
+      `<table style="width:100%;border-collapse:collapse;font-size:14px">\n<tr>${header}</tr>\n${rows}\n</table>`;
+  });
+
+  const body = [
+    ...[greeting(context), ...content.paragraphs].map(htmlParagraph),
+    ...tables,
+    htmlButton(content.action.label, content.action.url),
+  ].join('\n');
+
+  return htmlLayout(subject, content.heading, body, context);
+}
@@ -0,0 +1,178 @@
+// Email templates for bill notifications (HTML and plain text)
+import {
+  BillNotificationData,
+  NotificationType,
+  OutboundNotification,
+} from '../../utils/notification-channel';
+import { formatCurrency, formatDate } from '../../utils/format';
+
+export interface EmailContext {
+  appName: string;
+  // Base URL used for links back to the app, e.g. 'https://app.example.com'
+  appUrl: string;
+  recipientName?: string;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+interface TemplateContent {
+  subject: string;
+  heading: string;
+  // Paragraphs of plain text; escaped when rendered as HTML
+  paragraphs: string[];
+  action?: { label: string; url: string };
+}
+
+type BillTemplate = (data: BillNotificationData, billUrl: string) => TemplateContent;
+
+const BILL_TEMPLATES: Partial<Record<NotificationType, BillTemplate>> = {
+  reminder: (data, billUrl) => {
+    const amount = formatCurrency(data.amount, data.currency);
+    const dueDate = formatDate(data.dueDate);
+    return {
+      subject: `${data.billerName} bill due ${dueDate}`,
+      heading: 'Bill reminder',
+      paragraphs: [
+        `Your ${data.billerName} bill of ${amount} is due on ${dueDate}.`,
+        data.autoPay
+          ? 'Auto-pay is on, so we will pay it for you. Make sure your payment method has enough funds.'
+          : 'Pay it before the due date to avoid late fees.',
+      ],
+      action: { label: data.autoPay ? 'View bill' : 'Pay bill', url: billUrl },
+    };
+  },
+
+  payment_success: (data, billUrl) => {
+    const amount = formatCurrency(data.amount, data.currency);
+    return {
+      subject: `Receipt: ${amount} paid to ${data.billerName}`,
+      heading: 'Payment receipt',
+      paragraphs: [
+        `We've paid ${amount} to ${data.billerName} for your bill due on ${formatDate(data.dueDate)}.`,
+        ...(data.transactionId ? [`Payment reference: ${data.transactionId}`] : []),
+      ],
+      action: { label: 'View bill', url: billUrl },
+    };
+  },
+
+  payment_failed: (data, billUrl) => {
+    const amount = formatCurrency(data.amount, data.currency);
+    return {
+      subject: `Payment to ${data.billerName} failed`,
+      heading: 'Payment failed',
+      paragraphs: [
+        `We couldn't pay ${amount} to ${data.billerName}` +
+          (data.failureReason ? `: ${data.failureReason}.` : '.'),
+        `Please check your payment method and try again before ${formatDate(data.dueDate)}.`,
+      ],
+      action: { label: 'Retry payment', url: billUrl },
+    };
+  },
+
+  overdue: (data, billUrl) => {
+    const amount = formatCurrency(data.amount, data.currency);
+    return {
+      subject: `${data.billerName} bill is overdue`,
+      heading: 'Bill overdue',
+      paragraphs: [
+        `Your ${data.billerName} bill of ${amount} was due on ${formatDate(data.dueDate)} and has not been paid yet.`,
+        'Paying it as soon as possible helps avoid further charges.',
+      ],
+      action: { label: 'Pay bill', url: billUrl },
+    };
+  },
+};
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+export function billUrl(appUrl: string, billId: string): string {
+  return `${appUrl.replace(/\/+$/, '')}/bills/${encodeURIComponent(billId)}`;
+}
+
+// Render an email for a notification, using the bill template for its type when there is one
+export function renderEmail(notification: OutboundNotification, context: EmailContext): RenderedEmail {
+  const data = notification.data as Partial<BillNotificationData>;
+  const template = BILL_TEMPLATES[notification.type];
+
+  const content: TemplateContent = template && isBillData(data)
+    ? template(data, billUrl(context.appUrl, data.billId))
+    : {
+        subject: notification.subject ?? context.appName,
+        heading: notification.subject ?? context.appName,
+        paragraphs: [notification.message],
+        ...(notification.billId && {
+          action: { label: 'View bill', url: billUrl(context.appUrl, notification.billId) },
+        }),
+      };
+
+  return {
+    subject: content.subject,
+    html: renderHtml(content, context),
+    text: renderText(content, context),
+  };
+}
+
+function isBillData(data: Partial<BillNotificationData>): data is BillNotificationData {
+  return typeof data.billId === 'string'
+    && typeof data.billerName === 'string'
+    && typeof data.amount === 'number'
+    && typeof data.currency === 'string'
+    && typeof data.dueDate === 'string';
+}
+
+export function greeting(context: EmailContext): string {
+  return context.recipientName ? `Hi ${context.recipientName},` : 'Hi,';
+}
+
+function renderText(content: TemplateContent, context: EmailContext): string {
+  return [
+    greeting(context),
+    ...content.paragraphs,
+    ...(content.action ? [`${content.action.label}: ${content.action.url}`] : []),
+    `- ${context.appName}`,
+  ].join('\n\n') + '\n';
+}
+
+function renderHtml(content: TemplateContent, context: EmailContext): string {
+  const paragraphs = [greeting(context), ...content.paragraphs].map(htmlParagraph).join('\n');
+  const action = content.action ? htmlButton(content.action.label, content.action.url) : '';
+
+  return htmlLayout(content.subject, content.heading, `${paragraphs}\n${action}`, context);
+}
+
+export function htmlParagraph(text: string): string {
+  return `<p style="margin:0 0 16px;line-height:1.5">${escapeHtml(text)}</p>`;
+}
+
+export function htmlButton(label: string, url: string): string {
+  return `<p style="margin:24px 0"><a href="${escapeHtml(url)}" ` +
+    'style="background:#2563eb;color:#ffffff;padding:12px 20px;border-radius:6px;' +
+    `text-decoration:none;display:inline-block">${escapeHtml(label)}</a></p>`;
+}
+
+// The page every email shares; body is HTML that has already been escaped
+export function htmlLayout(title: string, heading: string, body: string, context: EmailContext): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head><meta charset="utf-8"><title>${escapeHtml(title)}</title></head>
+<body style="margin:0;padding:24px;background:#f5f5f5;font-family:Arial,Helvetica,sans-serif;color:#171717">
+<div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:32px">
+<h1 style="margin:0 0 24px;font-size:20px">${escapeHtml(heading)}</h1>
+${body}
+<p style="margin:32px 0 0;font-size:12px;color:#737373">${escapeHtml(context.appName)}</p>
+</div>
+</body>
+</html>
+`;
+}
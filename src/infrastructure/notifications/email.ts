@@ -0,0 +1,192 @@
+// Email Channel - renders bill and digest emails and sends them through a transport
+// (SendGrid in production, a directory of .eml files for offline development and tests)
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import {
+  DeliveryReceipt,
+  NotificationChannel,
+  NotificationChannelError,
+  OutboundNotification,
+  Recipient,
+} from '../../utils/notification-channel';
+import { Result, Ok, Err } from '../../utils/errors';
+import { renderEmail } from './email-templates';
+import { isDigestNotification, renderDigestEmail } from './digest-templates';
+
+export interface EmailMessage {
+  to: { email: string; name?: string };
+  from: { email: string; name?: string };
+  subject: string;
+  html: string;
+  text: string;
+  // Echoed back by the provider's event webhooks
+  customArgs?: Record<string, string>;
+}
+
+export interface EmailTransport {
+  readonly name: string;
+  send(message: EmailMessage): Promise<Result<DeliveryReceipt, NotificationChannelError>>;
+}
+
+const SENDGRID_API_URL = 'https://api.sendgrid.com/v3/mail/send';
+
+export class SendGridTransport implements EmailTransport {
+  readonly name = 'sendgrid';
+
+  constructor(
+    private readonly apiKey: string,
+    private readonly fetchImpl: typeof fetch = fetch
+  ) {}
+
+  async send(message: EmailMessage): Promise<Result<DeliveryReceipt, NotificationChannelError>> {
+    let response: Response;
+    try {
+      response = await this.fetchImpl(SENDGRID_API_URL, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${this.apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          personalizations: [{ to: [message.to] }],
+          from: message.from,
+          subject: message.subject,
+          content: [
+            { type: 'text/plain', value: message.text },
+            { type: 'text/html', value: message.html },
+          ],
+          ...(message.customArgs && { custom_args: message.customArgs }),
+        }),
+      });
+    } catch (error) {
+      return Err(new NotificationChannelError(
+        `SendGrid request failed: ${(error as Error).message}`,
+        'network_error',
+        'email',
+        true
+      ));
+    }
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      // Rate limiting and server errors are worth retrying; anything else will fail again
+      const retriable = response.status === 429 || response.status >= 500;
+      return Err(new NotificationChannelError(
+        `SendGrid responded ${response.status}: ${body.slice(0, 500)}`,
+        `sendgrid_${response.status}`,
+        'email',
+        retriable
+      ));
+    }
+
+    const messageId = response.headers.get('x-message-id');
+    return Ok(messageId ? { externalId: messageId } : {});
+  }
+}
+
+// Writes each email to a .eml file that any mail client can open
+export class FileSinkTransport implements EmailTransport {
+  readonly name = 'file';
+  private counter = 0;
+
+  constructor(private readonly directory: string) {}
+
+  async send(message: EmailMessage): Promise<Result<DeliveryReceipt, NotificationChannelError>> {
+    const id = `${Date.now()}-${++this.counter}`;
+    const file = path.join(this.directory, `${id}.eml`);
+
+    try {
+      await mkdir(this.directory, { recursive: true });
+      await writeFile(file, toEml(message, id), 'utf8');
+    } catch (error) {
+      return Err(new NotificationChannelError(
+        `Could not write ${file}: ${(error as Error).message}`,
+        'file_write_failed',
+        'email',
+        false
+      ));
+    }
+
+    return Ok({ externalId: id });
+  }
+}
+
+export interface EmailChannelOptions {
+  from: { email: string; name?: string };
+  appName: string;
+  appUrl: string;
+}
+
+export class EmailChannel implements NotificationChannel {
+  readonly name = 'email' as const;
+
+  constructor(
+    private readonly transport: EmailTransport,
+    private readonly options: EmailChannelOptions
+  ) {}
+
+  canDeliver(recipient: Recipient): boolean {
+    return !!recipient.email;
+  }
+
+  async send(
+    notification: OutboundNotification,
+    recipient: Recipient
+  ): Promise<Result<DeliveryReceipt, NotificationChannelError>> {
+    if (!recipient.email) {
+      return Err(new NotificationChannelError('Recipient has no email address', 'no_address', 'email'));
+    }
+
+    const context = {
+      appName: this.options.appName,
+      appUrl: this.options.appUrl,
+      ...(recipient.name && { recipientName: recipient.name }),
+    };
+    const email = isDigestNotification(notification)
+      ? renderDigestEmail(notification.data, context)
+      : renderEmail(notification, context);
+
+    return this.transport.send({
+      to: { email: recipient.email, ...(recipient.name && { name: recipient.name }) },
+      from: this.options.from,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+      customArgs: { notification_id: notification.id },
+    });
+  }
+}
+
+function formatAddress(address: { email: string; name?: string }): string {
+  return address.name ? `"${address.name.replace(/"/g, '')}" <${address.email}>` : address.email;
+}
+
+// RFC 2047 encoding for headers with non-ASCII text, e.g. a '£' in the subject
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function toEml(message: EmailMessage, id: string): string {
+  const boundary = `boundary-${id}`;
+  return [
+    `From: ${formatAddress(message.from)}`,
+    `To: ${formatAddress(message.to)}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    '',
+    message.text,
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    '',
+    message.html,
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+}
@@ -0,0 +1,86 @@
+// Fake Notification Channel for development and testing - keeps sent messages in memory
+import {
+  DeliveryReceipt,
+  NotificationChannel,
+  NotificationChannelError,
+  NotificationChannelName,
+  OutboundNotification,
+  Recipient,
+} from '../../utils/notification-channel';
+import { Result, Ok, Err } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+
+export interface SentNotification {
+  notification: OutboundNotification;
+  recipient: Recipient;
+  externalId: string;
+  sentAt: Date;
+}
+
+export class FakeNotificationChannel implements NotificationChannel {
+  readonly sent: SentNotification[] = [];
+
+  // Control test behavior
+  public shouldFail = false;
+  public retriable = true;
+  public failureCode = 'test_failure';
+
+  private failuresRemaining = 0;
+  private counter = 0;
+
+  constructor(
+    readonly name: NotificationChannelName,
+    private readonly options: { log?: boolean } = {}
+  ) {}
+
+  canDeliver(recipient: Recipient): boolean {
+    switch (this.name) {
+      case 'email':
+        return !!recipient.email;
+      case 'sms':
+        return !!recipient.phone;
+      case 'push':
+        return !!recipient.pushSubscriptions?.length;
+      default:
+        return true;
+    }
+  }
+
+  async send(
+    notification: OutboundNotification,
+    recipient: Recipient
+  ): Promise<Result<DeliveryReceipt, NotificationChannelError>> {
+    if (this.shouldFail || this.failuresRemaining > 0) {
+      this.failuresRemaining = Math.max(0, this.failuresRemaining - 1);
+      return Err(new NotificationChannelError(
+        'Fake failure for testing',
+        this.failureCode,
+        this.name,
+        this.retriable
+      ));
+    }
+
+    const externalId = `fake_${this.name}_${++this.counter}`;
+    this.sent.push({ notification, recipient, externalId, sentAt: new Date() });
+
+    if (this.options.log) {
+      logger.info(`[${this.name}] ${notification.subject ?? notification.type}`, {
+        to: recipient.email ?? recipient.phone ?? recipient.userId,
+        message: notification.message,
+      });
+    }
+
+    return Ok({ externalId });
+  }
+
+  // Fail the next n sends, then succeed again
+  failNext(count: number = 1): void {
+    this.failuresRemaining = count;
+  }
+
+  reset(): void {
+    this.sent.length = 0;
+    this.shouldFail = false;
+    this.failuresRemaining = 0;
+  }
+}
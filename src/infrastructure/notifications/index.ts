@@ -0,0 +1,180 @@
+// Notification Channel Registry - Manages which delivery channels are available
+import {
+  NotificationChannel,
+  NotificationChannelName,
+} from '../../utils/notification-channel';
+import { FakeNotificationChannel } from './fake';
+import { EmailChannel, FileSinkTransport, SendGridTransport } from './email';
+import { EmailContext } from './email-templates';
+import { FakeSmsTransport, SmsChannel, TwilioSmsTransport } from './sms';
+import { FakePushTransport, PushChannel, WebPushTransport } from './push';
+import { config } from '../../config';
+import { logger } from '../../utils/logger';
+
+// App name and base URL used in email links and sign-offs
+export function emailContext(): EmailContext {
+  return {
+    appName: process.env['NEXT_PUBLIC_APP_NAME'] ?? 'BillPaymentApp',
+    appUrl: process.env['NEXT_PUBLIC_APP_URL'] ?? 'http://localhost:3000',
+  };
+}
+
+export class NotificationChannelRegistry {
+  private channels: Map<NotificationChannelName, NotificationChannel> = new Map();
+
+  // Pass channels to use exactly those instead of the ones configured for the environment
+  constructor(channels?: NotificationChannel[]) {
+    if (channels) {
+      channels.forEach(channel => this.register(channel));
+    } else {
+      this.initializeChannels();
+    }
+  }
+
+  private initializeChannels(): void {
+    // Tests deliver to in-memory fakes
+    if (process.env['NODE_ENV'] === 'test') {
+      for (const name of ['email', 'sms', 'push'] as const) {
+        this.channels.set(name, new FakeNotificationChannel(name));
+      }
+      return;
+    }
+
+    const email = this.createEmailChannel();
+    if (email) {
+      this.channels.set('email', email);
+    }
+
+    const sms = this.createSmsChannel();
+    if (sms) {
+      this.channels.set('sms', sms);
+    }
+
+    const push = this.createPushChannel();
+    if (push) {
+      this.channels.set('push', push);
+    }
+
+    // Local development logs anything it has no real channel for, so reminders
+    // can be seen without any provider accounts
+    if (process.env['NODE_ENV'] === 'development') {
+      for (const name of ['email', 'sms', 'push'] as const) {
+        if (!this.channels.has(name)) {
+          this.channels.set(name, new FakeNotificationChannel(name, { log: true }));
+        }
+      }
+    }
+  }
+
+  private createEmailChannel(): EmailChannel | null {
+    const from = process.env['SENDGRID_FROM_EMAIL'];
+    const context = emailContext();
+    const options = {
+      from: { email: from ?? 'no-reply@localhost', name: context.appName },
+      ...context,
+    };
+
+    // A file sink takes priority so development never sends real email by accident
+    if (process.env['EMAIL_FILE_SINK_DIR']) {
+      logger.info('Email notifications written to files', { directory: process.env['EMAIL_FILE_SINK_DIR'] });
+      return new EmailChannel(new FileSinkTransport(process.env['EMAIL_FILE_SINK_DIR']), options);
+    }
+
+    if (process.env['SENDGRID_API_KEY'] && from) {
+      return new EmailChannel(new SendGridTransport(process.env['SENDGRID_API_KEY']), options);
+    }
+
+    return null;
+  }
+
+  private createSmsChannel(): SmsChannel | null {
+    const appUrl = process.env['NEXT_PUBLIC_APP_URL'] ?? 'http://localhost:3000';
+    const options = {
+      appName: process.env['NEXT_PUBLIC_APP_NAME'] ?? 'BillPaymentApp',
+      appUrl,
+      maxSegments: Number(process.env['SMS_MAX_SEGMENTS'] ?? 2),
+      isEnabled: (userId: string) => config.isFeatureEnabled('notifications.sms', { userId }),
+    };
+
+    const { TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM_NUMBER } = process.env;
+    if (TWILIO_ACCOUNT_SID && TWILIO_AUTH_TOKEN && TWILIO_FROM_NUMBER) {
+      return new SmsChannel(new TwilioSmsTransport({
+        accountSid: TWILIO_ACCOUNT_SID,
+        authToken: TWILIO_AUTH_TOKEN,
+        from: TWILIO_FROM_NUMBER,
+        statusCallbackUrl: `${appUrl}/api/webhooks/twilio/status`,
+      }), options);
+    }
+
+    // Development texts go to the log, with the same length, opt-out and quiet hours rules
+    if (process.env['NODE_ENV'] === 'development') {
+      return new SmsChannel(new FakeSmsTransport({ log: true }), options);
+    }
+
+    return null;
+  }
+
+  private createPushChannel(): PushChannel | null {
+    const options = { appName: process.env['NEXT_PUBLIC_APP_NAME'] ?? 'BillPaymentApp' };
+
+    const publicKey = process.env['NEXT_PUBLIC_VAPID_PUBLIC_KEY'];
+    const privateKey = process.env['VAPID_PRIVATE_KEY'];
+    if (publicKey && privateKey) {
+      return new PushChannel(new WebPushTransport({
+        publicKey,
+        privateKey,
+        subject: process.env['VAPID_SUBJECT'] ?? process.env['NEXT_PUBLIC_APP_URL'] ?? 'mailto:admin@localhost',
+      }), options);
+    }
+
+    if (process.env['NODE_ENV'] === 'development') {
+      return new PushChannel(new FakePushTransport({ log: true }), options);
+    }
+
+    return null;
+  }
+
+  register(channel: NotificationChannel): void {
+    this.channels.set(channel.name, channel);
+  }
+
+  get(name: NotificationChannelName): NotificationChannel | undefined {
+    return this.channels.get(name);
+  }
+
+  list(): NotificationChannel[] {
+    return [...this.channels.values()];
+  }
+}
+
+// Export singleton instance
+export const notificationChannels = new NotificationChannelRegistry();
+
+// Export channel types for direct use
+export { FakeNotificationChannel } from './fake';
+export { EmailChannel, FileSinkTransport, SendGridTransport } from './email';
+export type { EmailMessage, EmailTransport } from './email';
+export type { EmailContext, RenderedEmail } from './email-templates';
+export { renderDigestEmail, summarizeDigest } from './digest-templates';
+export { SmsChannel, FakeSmsTransport, TwilioSmsTransport, validateTwilioSignature } from './sms';
+export type { SmsMessage, SmsTransport } from './sms';
+export { PushChannel, FakePushTransport, WebPushTransport } from './push';
+export type { PushMessage, PushTransport, VapidKeys } from './push';
+export type { SentNotification } from './fake';
+
+// Re-export types
+export type {
+  BillNotificationData,
+  DigestBill,
+  DigestData,
+  MonthlyDigestData,
+  WeeklyDigestData,
+  NotificationChannel,
+  NotificationChannelName,
+  NotificationType,
+  OutboundNotification,
+  PushTarget,
+  Recipient,
+  DeliveryReceipt,
+} from '../../utils/notification-channel';
+export { NotificationChannelError } from '../../utils/notification-channel';
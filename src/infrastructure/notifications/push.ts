@@ -0,0 +1,275 @@
+// Push Channel - web push to the installed PWA through each browser's push service
+//
+// Messages are encrypted for each subscription (RFC 8291, aes128gcm) and signed with
+// our VAPID key (RFC 8292), so no third-party push provider is involved. The service
+// worker (worker/index.js) shows them and opens the linked bill when tapped.
+import crypto from 'crypto';
+import {
+  DeliveryReceipt,
+  NotificationChannel,
+  NotificationChannelError,
+  OutboundNotification,
+  PushTarget,
+  Recipient,
+} from '../../utils/notification-channel';
+import { Result, Ok, Err } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+import { quietHoursEnd } from '../../utils/quiet-hours';
+
+// What the service worker receives
+export interface PushMessage {
+  title: string;
+  body: string;
+  // Path to open when the notification is tapped
+  url: string;
+  // Notifications with the same tag replace each other on the device
+  tag: string;
+  notificationId: string;
+}
+
+export interface PushTransport {
+  readonly name: string;
+  send(target: PushTarget, message: PushMessage): Promise<Result<DeliveryReceipt, NotificationChannelError>>;
+}
+
+export interface VapidKeys {
+  // Uncompressed P-256 public key, base64url (also given to browsers when subscribing)
+  publicKey: string;
+  // P-256 private key, base64url
+  privateKey: string;
+  // Contact for the push services, 'mailto:...' or an https URL
+  subject: string;
+}
+
+// How long push services keep a message for an offline device
+const PUSH_TTL_SECONDS = 24 * 60 * 60;
+// VAPID tokens may be valid for at most 24 hours
+const VAPID_TOKEN_SECONDS = 12 * 60 * 60;
+const RECORD_SIZE = 4096;
+
+export class WebPushTransport implements PushTransport {
+  readonly name = 'web-push';
+  private readonly signingKey: crypto.KeyObject;
+
+  constructor(
+    private readonly vapid: VapidKeys,
+    private readonly fetchImpl: typeof fetch = fetch
+  ) {
+    this.signingKey = vapidSigningKey(vapid);
+  }
+
+  async send(target: PushTarget, message: PushMessage): Promise<Result<DeliveryReceipt, NotificationChannelError>> {
+    let response: Response;
+    try {
+      response = await this.fetchImpl(target.endpoint, {
+        method: 'POST',
+        headers: {
+          Authorization: vapidAuthorization(target.endpoint, this.vapid, this.signingKey),
+          'Content-Encoding': 'aes128gcm',
+          'Content-Type': 'application/octet-stream',
+          TTL: String(PUSH_TTL_SECONDS),
+          Urgency: 'normal',
+        },
+        body: new Uint8Array(encryptPushPayload(target, Buffer.from(JSON.stringify(message), 'utf8'))),
+      });
+    } catch (error) {
+      return Err(new NotificationChannelError(
+        `Push request failed: ${(error as Error).message}`,
+        'network_error',
+        'push',
+        true
+      ));
+    }
+
+    // 404/410: the user revoked permission or the browser dropped the subscription
+    if (response.status === 404 || response.status === 410) {
+      return Err(new NotificationChannelError(
+        'Push subscription no longer exists',
+        'subscription_gone',
+        'push',
+        false,
+        [target.endpoint]
+      ));
+    }
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      return Err(new NotificationChannelError(
+        `Push service responded ${response.status}: ${detail || response.statusText}`,
+        `push_http_${response.status}`,
+        'push',
+        response.status === 429 || response.status >= 500
+      ));
+    }
+
+    const location = response.headers.get('location');
+    return Ok(location ? { externalId: location } : {});
+  }
+}
+
+// Keeps messages in memory (and optionally logs them) instead of sending them
+export class FakePushTransport implements PushTransport {
+  readonly name = 'fake';
+  readonly sent: Array<{ target: PushTarget; message: PushMessage }> = [];
+
+  constructor(private readonly options: { log?: boolean } = {}) {}
+
+  async send(target: PushTarget, message: PushMessage): Promise<Result<DeliveryReceipt, NotificationChannelError>> {
+    this.sent.push({ target, message });
+    if (this.options.log) {
+      logger.info('[push]', { endpoint: target.endpoint, title: message.title, url: message.url });
+    }
+    return Ok({});
+  }
+}
+
+export class PushChannel implements NotificationChannel {
+  readonly name = 'push' as const;
+
+  constructor(
+    private readonly transport: PushTransport,
+    private readonly options: { appName: string }
+  ) {}
+
+  canDeliver(recipient: Recipient): boolean {
+    return !!recipient.pushSubscriptions?.length;
+  }
+
+  // Push makes the device buzz, so it waits for the end of the user's quiet hours
+  deferUntil(recipient: Recipient, now: Date): Date | null {
+    return recipient.quietHours ? quietHoursEnd(now, recipient.quietHours) : null;
+  }
+
+  // Send to every device the user has subscribed. Succeeds if any device accepted it;
+  // devices whose subscription is gone are reported so they can be removed.
+  async send(
+    notification: OutboundNotification,
+    recipient: Recipient
+  ): Promise<Result<DeliveryReceipt, NotificationChannelError>> {
+    const targets = recipient.pushSubscriptions ?? [];
+    if (targets.length === 0) {
+      return Err(new NotificationChannelError('Recipient has no push subscriptions', 'no_address', 'push'));
+    }
+
+    const message = renderPush(notification, this.options.appName);
+    const results = await Promise.all(targets.map(target => this.transport.send(target, message)));
+
+    const expiredAddresses: string[] = [];
+    const errors: NotificationChannelError[] = [];
+    let delivered: DeliveryReceipt | null = null;
+
+    for (const result of results) {
+      if (result.ok) {
+        delivered = delivered ?? result.value;
+      } else {
+        errors.push(result.error);
+        expiredAddresses.push(...result.error.expiredAddresses);
+      }
+    }
+
+    if (delivered) {
+      return Ok({
+        ...(delivered.externalId && { externalId: delivered.externalId }),
+        ...(expiredAddresses.length > 0 && { expiredAddresses }),
+      });
+    }
+
+    // Retry if any device might still take it
+    const retriable = errors.find(error => error.retriable);
+    const first = retriable ?? errors[0]!;
+    return Err(new NotificationChannelError(
+      first.message,
+      first.code,
+      'push',
+      !!retriable,
+      expiredAddresses
+    ));
+  }
+}
+
+// Short title and body plus the page to open. Reminders for a bill share a tag, so a
+// newer one replaces the last instead of stacking up.
+export function renderPush(notification: OutboundNotification, appName: string): PushMessage {
+  return {
+    title: notification.subject ?? appName,
+    body: notification.message,
+    url: notification.billId ? `/bills/${notification.billId}` : '/dashboard',
+    tag: notification.billId ? `${notification.type}:${notification.billId}` : notification.type,
+    notificationId: notification.id,
+  };
+}
+
+// Encrypt a payload for one subscription: RFC 8291 key derivation, then a single
+// aes128gcm record (RFC 8188) whose header carries our one-off public key
+export function encryptPushPayload(target: PushTarget, payload: Buffer): Buffer {
+  const userAgentPublicKey = Buffer.from(target.p256dh, 'base64url');
+  const authSecret = Buffer.from(target.auth, 'base64url');
+
+  const ecdh = crypto.createECDH('prime256v1');
+  const serverPublicKey = ecdh.generateKeys();
+  const sharedSecret = ecdh.computeSecret(userAgentPublicKey);
+
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), userAgentPublicKey, serverPublicKey]);
+  const ikm = hkdf(sharedSecret, authSecret, keyInfo, 32);
+
+  const salt = crypto.randomBytes(16);
+  const contentKey = hkdf(ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16);
+  const nonce = hkdf(ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12);
+
+  // 0x02 marks the last (and only) record
+  const cipher = crypto.createCipheriv('aes-128-gcm', contentKey, nonce);
+  const ciphertext = Buffer.concat([
+    cipher.update(Buffer.concat([payload, Buffer.from([2])])),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(serverPublicKey.length, 20);
+
+  return Buffer.concat([header, serverPublicKey, ciphertext]);
+}
+
+// 'vapid t=<JWT>, k=<public key>' for the push service the endpoint belongs to
+export function vapidAuthorization(
+  endpoint: string,
+  vapid: VapidKeys,
+  signingKey: crypto.KeyObject = vapidSigningKey(vapid),
+  now: Date = new Date()
+): string {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const unsigned = `${encode({ typ: 'JWT', alg: 'ES256' })}.${encode({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(now.getTime() / 1000) + VAPID_TOKEN_SECONDS,
+    sub: vapid.subject,
+  })}`;
+  const signature = crypto
+    .sign('sha256', Buffer.from(unsigned), { key: signingKey, dsaEncoding: 'ieee-p1363' })
+    .toString('base64url');
+
+  return `vapid t=${unsigned}.${signature}, k=${vapid.publicKey}`;
+}
+
+function vapidSigningKey(vapid: VapidKeys): crypto.KeyObject {
+  const publicKey = Buffer.from(vapid.publicKey, 'base64url');
+  if (publicKey.length !== 65 || publicKey[0] !== 4) {
+    throw new Error('VAPID public key must be an uncompressed P-256 point');
+  }
+
+  return crypto.createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      x: publicKey.subarray(1, 33).toString('base64url'),
+      y: publicKey.subarray(33, 65).toString('base64url'),
+      d: vapid.privateKey,
+    },
+    format: 'jwk',
+  });
+}
+
+function hkdf(ikm: Buffer, salt: Buffer, info: Buffer, length: number): Buffer {
+  return Buffer.from(crypto.hkdfSync('sha256', ikm, salt, info, length));
+}
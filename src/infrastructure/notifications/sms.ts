@@ -0,0 +1,259 @@
+// SMS Channel - short bill messages sent through Twilio (or an in-memory fake)
+//
+// UK rules applied here: messages fit a segment budget, nothing is sent during quiet
+// hours (the UK window and the user's own, deferred until both have ended), every message
+// says how to opt out, and numbers that replied STOP are never texted.
+import crypto from 'crypto';
+import { format } from 'date-fns';
+import {
+  DeliveryReceipt,
+  NotificationChannel,
+  NotificationChannelError,
+  OutboundNotification,
+  Recipient,
+  BillNotificationData,
+} from '../../utils/notification-channel';
+import { Result, Ok, Err } from '../../utils/errors';
+import { formatCurrency } from '../../utils/format';
+import { logger } from '../../utils/logger';
+import { QuietHours, UK_QUIET_HOURS, quietHoursEnd } from '../../utils/quiet-hours';
+import { fitsSegments, toE164 } from '../../utils/sms';
+import { billUrl } from './email-templates';
+
+export interface SmsMessage {
+  // E.164, e.g. '+447700900123'
+  to: string;
+  body: string;
+}
+
+export interface SmsTransport {
+  readonly name: string;
+  send(message: SmsMessage): Promise<Result<DeliveryReceipt, NotificationChannelError>>;
+}
+
+// Twilio error codes that mean the number will never accept our messages
+export const TWILIO_UNSUBSCRIBED = 21610;
+const TWILIO_PERMANENT_ERRORS = new Set([21211, 21408, 21610, 21612, 21614]);
+
+export interface TwilioOptions {
+  accountSid: string;
+  authToken: string;
+  // Sender number or alphanumeric sender ID
+  from: string;
+  // Where Twilio posts delivery status updates
+  statusCallbackUrl?: string;
+}
+
+export class TwilioSmsTransport implements SmsTransport {
+  readonly name = 'twilio';
+
+  constructor(
+    private readonly options: TwilioOptions,
+    private readonly fetchImpl: typeof fetch = fetch
+  ) {}
+
+  async send(message: SmsMessage): Promise<Result<DeliveryReceipt, NotificationChannelError>> {
+    const { accountSid, authToken, from, statusCallbackUrl } = this.options;
+    const body = new URLSearchParams({ To: message.to, From: from, Body: message.body });
+    if (statusCallbackUrl) {
+      body.set('StatusCallback', statusCallbackUrl);
+    }
+
+    let response: Response;
+    try {
+      response = await this.fetchImpl(
+        `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`,
+        {
+          method: 'POST',
+          headers: {
+            Authorization: `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString('base64')}`,
+            'Content-Type': 'application/x-www-form-urlencoded',
+          },
+          body,
+        }
+      );
+    } catch (error) {
+      return Err(new NotificationChannelError(
+        `Twilio request failed: ${(error as Error).message}`,
+        'network_error',
+        'sms',
+        true
+      ));
+    }
+
+    const payload = await response.json().catch(() => ({})) as { sid?: string; code?: number; message?: string };
+    if (!response.ok) {
+      const retriable = (response.status === 429 || response.status >= 500)
+        && !TWILIO_PERMANENT_ERRORS.has(payload.code ?? 0);
+      return Err(new NotificationChannelError(
+        `Twilio responded ${response.status}: ${payload.message ?? 'unknown error'}`,
+        payload.code ? `twilio_${payload.code}` : `twilio_http_${response.status}`,
+        'sms',
+        retriable
+      ));
+    }
+
+    return Ok(payload.sid ? { externalId: payload.sid } : {});
+  }
+}
+
+// Keeps messages in memory (and optionally logs them) instead of sending them
+export class FakeSmsTransport implements SmsTransport {
+  readonly name = 'fake';
+  readonly sent: Array<SmsMessage & { sid: string }> = [];
+  private counter = 0;
+
+  constructor(private readonly options: { log?: boolean } = {}) {}
+
+  async send(message: SmsMessage): Promise<Result<DeliveryReceipt, NotificationChannelError>> {
+    const sid = `SMfake${String(++this.counter).padStart(8, '0')}`;
+    this.sent.push({ ...message, sid });
+    if (this.options.log) {
+      logger.info('[sms]', { to: message.to, body: message.body });
+    }
+    return Ok({ externalId: sid });
+  }
+}
+
+export interface SmsChannelOptions {
+  appName: string;
+  appUrl: string;
+  quietHours?: QuietHours;
+  // Most segments one message may use
+  maxSegments?: number;
+  // Whether SMS is switched on for this user (the notifications.sms feature flag)
+  isEnabled: (userId: string) => boolean;
+}
+
+const OPT_OUT_TEXT = 'Reply STOP to opt out.';
+
+export class SmsChannel implements NotificationChannel {
+  readonly name = 'sms' as const;
+
+  constructor(
+    private readonly transport: SmsTransport,
+    private readonly options: SmsChannelOptions
+  ) {}
+
+  canDeliver(recipient: Recipient): boolean {
+    return !!recipient.phone
+      && !!toE164(recipient.phone)
+      && !recipient.smsOptedOut
+      && this.options.isEnabled(recipient.userId);
+  }
+
+  deferUntil(recipient: Recipient, now: Date): Date | null {
+    const ends = [this.options.quietHours ?? UK_QUIET_HOURS, recipient.quietHours]
+      .map(quietHours => (quietHours ? quietHoursEnd(now, quietHours) : null))
+      .filter((end): end is Date => end !== null);
+
+    return ends.length > 0 ? new Date(Math.max(...ends.map(end => end.getTime()))) : null;
+  }
+
+  async send(
+    notification: OutboundNotification,
+    recipient: Recipient
+  ): Promise<Result<DeliveryReceipt, NotificationChannelError>> {
+    if (!this.options.isEnabled(recipient.userId)) {
+      return Err(new NotificationChannelError('SMS is switched off', 'sms_disabled', 'sms'));
+    }
+    if (recipient.smsOptedOut) {
+      return Err(new NotificationChannelError('Recipient has opted out of SMS', 'opted_out', 'sms'));
+    }
+
+    const to = recipient.phone ? toE164(recipient.phone) : null;
+    if (!to) {
+      return Err(new NotificationChannelError('Recipient has no valid phone number', 'no_address', 'sms'));
+    }
+
+    return this.transport.send({
+      to,
+      body: renderSms(notification, this.options.appName, this.options.appUrl, this.options.maxSegments ?? 2),
+    });
+  }
+}
+
+// Build the message text, dropping the link and then shortening the biller name
+// until it fits the segment budget. The opt-out text is always kept.
+export function renderSms(
+  notification: OutboundNotification,
+  appName: string,
+  appUrl: string,
+  maxSegments: number
+): string {
+  const data = notification.data as Partial<BillNotificationData>;
+  const link = notification.billId ? billUrl(appUrl, notification.billId) : null;
+
+  const build = (billerName: string | undefined, withLink: boolean) =>
+    [
+      `${appName}: ${smsText(notification, data, billerName)}`,
+      ...(withLink && link ? [link] : []),
+      OPT_OUT_TEXT,
+    ].join(' ');
+
+  const candidates = [build(data.billerName, true), build(data.billerName, false)];
+  if (data.billerName) {
+    for (const length of [24, 16, 10]) {
+      if (data.billerName.length > length) {
+        candidates.push(build(`${data.billerName.slice(0, length - 3).trimEnd()}...`, false));
+      }
+    }
+  }
+
+  const fitting = candidates.find(text => fitsSegments(text, maxSegments));
+  if (fitting) {
+    return fitting;
+  }
+
+  // Last resort: cut the text, keeping the opt-out instruction
+  const suffix = `... ${OPT_OUT_TEXT}`;
+  let text = `${appName}: ${smsText(notification, data, data.billerName)}`;
+  while (text.length > 0 && !fitsSegments(text + suffix, maxSegments)) {
+    text = text.slice(0, -1);
+  }
+  return text.trimEnd() + suffix;
+}
+
+function smsText(
+  notification: OutboundNotification,
+  data: Partial<BillNotificationData>,
+  billerName: string | undefined
+): string {
+  if (!billerName || data.amount === undefined || !data.currency || !data.dueDate) {
+    return notification.message;
+  }
+
+  const amount = formatCurrency(data.amount, data.currency);
+  const dueDate = format(new Date(data.dueDate), 'd MMM');
+
+  switch (notification.type) {
+    case 'reminder':
+      return `${billerName} bill of ${amount} due ${dueDate}.${data.autoPay ? ' Auto-pay is on.' : ''}`;
+    case 'overdue':
+      return `${billerName} bill of ${amount} was due ${dueDate} and is unpaid.`;
+    case 'payment_success':
+      return `Paid ${amount} to ${billerName}.`;
+    case 'payment_failed':
+      return `Payment of ${amount} to ${billerName} failed. Open the app to retry.`;
+    default:
+      return notification.message;
+  }
+}
+
+// Check the X-Twilio-Signature header of a webhook request: base64 HMAC-SHA1 of the full
+// URL followed by each POST parameter name and value, sorted by name
+export function validateTwilioSignature(
+  authToken: string,
+  url: string,
+  params: Record<string, string>,
+  signature: string
+): boolean {
+  const data = Object.keys(params)
+    .sort()
+    .reduce((acc, key) => acc + key + params[key], url);
+  const expected = crypto.createHmac('sha1', authToken).update(data, 'utf8').digest('base64');
+
+  const a = Buffer.from(expected);
+  const b = Buffer.from(signature);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
@@ -360,7 +360,7 @@ export class MockPaymentProvider implements PaymentProvider {
 
     const data = JSON.parse(payload.toString());
     return Ok({
-      id: `evt_mock_${Date.now()}`,
+      id: data.id || `evt_mock_${Date.now()}`,
       type: data.type || 'payment.succeeded',
       data: data,
       createdAt: new Date(),
@@ -369,10 +369,13 @@ export class MockPaymentProvider implements PaymentProvider {
 
   async handleWebhook(event: WebhookEvent): Promise<WebhookResult> {
     await this.simulateLatency();
-    
+
+    // Mock payloads carry provider-neutral objects directly
     return {
       processed: true,
       event,
+      ...(event.data?.transaction && { transaction: event.data.transaction }),
+      ...(event.data?.refund && { refund: event.data.refund }),
     };
   }
 
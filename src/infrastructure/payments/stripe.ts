@@ -63,7 +63,7 @@ export class StripePaymentProvider implements PaymentProvider {
 
         return Ok(this.mapStripeCustomer(stripeCustomer));
       } catch (error) {
-        return Err(this.mapStripeError(error as Stripe.StripeError));
+        return Err(this.mapStripeError(error as Stripe.errors.StripeError));
       }
     });
   }
@@ -82,7 +82,7 @@ export class StripePaymentProvider implements PaymentProvider {
 
         return Ok(this.mapStripeCustomer(stripeCustomer));
       } catch (error) {
-        return Err(this.mapStripeError(error as Stripe.StripeError));
+        return Err(this.mapStripeError(error as Stripe.errors.StripeError));
       }
     });
   }
@@ -105,7 +105,7 @@ export class StripePaymentProvider implements PaymentProvider {
 
         return Ok(this.mapStripeCustomer(stripeCustomer as Stripe.Customer));
       } catch (error) {
-        return Err(this.mapStripeError(error as Stripe.StripeError));
+        return Err(this.mapStripeError(error as Stripe.errors.StripeError));
       }
     });
   }
@@ -116,7 +116,7 @@ export class StripePaymentProvider implements PaymentProvider {
         await this.stripe.customers.del(customerId);
         return Ok(undefined);
       } catch (error) {
-        return Err(this.mapStripeError(error as Stripe.StripeError));
+        return Err(this.mapStripeError(error as Stripe.errors.StripeError));
       }
     });
   }
@@ -137,7 +137,7 @@ export class StripePaymentProvider implements PaymentProvider {
 
         return Ok(this.mapStripePaymentMethod(pm));
       } catch (error) {
-        return Err(this.mapStripeError(error as Stripe.StripeError));
+        return Err(this.mapStripeError(error as Stripe.errors.StripeError));
       }
     });
   }
@@ -150,7 +150,7 @@ export class StripePaymentProvider implements PaymentProvider {
         await this.stripe.paymentMethods.detach(paymentMethodId);
         return Ok(undefined);
       } catch (error) {
-        return Err(this.mapStripeError(error as Stripe.StripeError));
+        return Err(this.mapStripeError(error as Stripe.errors.StripeError));
       }
     });
   }
@@ -167,7 +167,7 @@ export class StripePaymentProvider implements PaymentProvider {
 
         return Ok(paymentMethods.data.map(pm => this.mapStripePaymentMethod(pm)));
       } catch (error) {
-        return Err(this.mapStripeError(error as Stripe.StripeError));
+        return Err(this.mapStripeError(error as Stripe.errors.StripeError));
       }
     });
   }
@@ -185,7 +185,7 @@ export class StripePaymentProvider implements PaymentProvider {
         });
         return Ok(undefined);
       } catch (error) {
-        return Err(this.mapStripeError(error as Stripe.StripeError));
+        return Err(this.mapStripeError(error as Stripe.errors.StripeError));
       }
     });
   }
@@ -215,7 +215,7 @@ export class StripePaymentProvider implements PaymentProvider {
 
           return Ok(this.mapStripePaymentIntent(paymentIntent));
         } catch (error) {
-          const mappedError = this.mapStripeError(error as Stripe.StripeError);
+          const mappedError = this.mapStripeError(error as Stripe.errors.StripeError);
           
           // Log payment failures for monitoring
           logger.error('Payment charge failed', mappedError, {
@@ -248,7 +248,7 @@ export class StripePaymentProvider implements PaymentProvider {
 
         return Ok(this.mapStripePaymentIntent(paymentIntent));
       } catch (error) {
-        return Err(this.mapStripeError(error as Stripe.StripeError));
+        return Err(this.mapStripeError(error as Stripe.errors.StripeError));
       }
     });
   }
@@ -259,7 +259,7 @@ export class StripePaymentProvider implements PaymentProvider {
         await this.stripe.paymentIntents.cancel(transactionId);
         return Ok(undefined);
       } catch (error) {
-        return Err(this.mapStripeError(error as Stripe.StripeError));
+        return Err(this.mapStripeError(error as Stripe.errors.StripeError));
       }
     });
   }
@@ -277,7 +277,7 @@ export class StripePaymentProvider implements PaymentProvider {
 
         return Ok(this.mapStripeRefund(stripeRefund));
       } catch (error) {
-        return Err(this.mapStripeError(error as Stripe.StripeError));
+        return Err(this.mapStripeError(error as Stripe.errors.StripeError));
       }
     });
   }
@@ -288,7 +288,7 @@ export class StripePaymentProvider implements PaymentProvider {
         const stripeRefund = await this.stripe.refunds.retrieve(refundId);
         return Ok(this.mapStripeRefund(stripeRefund));
       } catch (error) {
-        return Err(this.mapStripeError(error as Stripe.StripeError));
+        return Err(this.mapStripeError(error as Stripe.errors.StripeError));
       }
     });
   }
@@ -302,7 +302,7 @@ export class StripePaymentProvider implements PaymentProvider {
         const paymentIntent = await this.stripe.paymentIntents.retrieve(transactionId);
         return Ok(this.mapStripePaymentIntent(paymentIntent));
       } catch (error) {
-        return Err(this.mapStripeError(error as Stripe.StripeError));
+        return Err(this.mapStripeError(error as Stripe.errors.StripeError));
       }
     });
   }
@@ -331,7 +331,7 @@ export class StripePaymentProvider implements PaymentProvider {
         const paymentIntents = await this.stripe.paymentIntents.list(params);
         return Ok(paymentIntents.data.map(pi => this.mapStripePaymentIntent(pi)));
       } catch (error) {
-        return Err(this.mapStripeError(error as Stripe.StripeError));
+        return Err(this.mapStripeError(error as Stripe.errors.StripeError));
       }
     });
   }
@@ -385,17 +385,37 @@ export class StripePaymentProvider implements PaymentProvider {
         eventType: event.type,
       });
 
-      // Handle different event types
+      // Map the event payload into provider-neutral objects; persisting them is up to the caller
       switch (event.type) {
         case 'payment_intent.succeeded':
-          // Update transaction status in database
-          break;
+        case 'payment_intent.processing':
+        case 'payment_intent.canceled':
+          return {
+            processed: true,
+            event,
+            transaction: this.mapStripePaymentIntent(event.data.object as Stripe.PaymentIntent),
+          };
         case 'payment_intent.payment_failed':
-          // Handle failed payment
-          break;
-        case 'charge.refunded':
-          // Update refund status
-          break;
+          // A failed attempt sends the intent back to requires_payment_method, which on its
+          // own reads as pending, so the event type decides the outcome
+          return {
+            processed: true,
+            event,
+            transaction: {
+              ...this.mapStripePaymentIntent(event.data.object as Stripe.PaymentIntent),
+              status: 'failed',
+            },
+          };
+        case 'charge.refunded': {
+          const charge = event.data.object as Stripe.Charge;
+          // Charges no longer embed their refunds, so look up the one that triggered this
+          const refunds = await this.stripe.refunds.list({ charge: charge.id, limit: 1 });
+          return {
+            processed: true,
+            event,
+            refund: this.mapStripeChargeRefund(charge, refunds.data[0]),
+          };
+        }
         default:
           logger.debug('Unhandled webhook event type', { type: event.type });
       }
@@ -509,6 +529,21 @@ export class StripePaymentProvider implements PaymentProvider {
     };
   }
 
+  // A refunded charge, keyed by its payment intent so it matches our stored transaction
+  private mapStripeChargeRefund(charge: Stripe.Charge, latest?: Stripe.Refund): Refund {
+    return {
+      id: latest?.id ?? charge.id,
+      transactionId: (charge.payment_intent as string | null) ?? charge.id,
+      amount: {
+        amount: charge.amount_refunded,
+        currency: charge.currency.toUpperCase() as 'GBP' | 'USD' | 'EUR',
+      },
+      status: 'succeeded',
+      ...(latest?.reason && { reason: latest.reason }),
+      createdAt: new Date((latest?.created ?? charge.created) * 1000),
+    };
+  }
+
   private mapPaymentIntentStatus(
     status: Stripe.PaymentIntent.Status
   ): Transaction['status'] {
@@ -543,7 +578,7 @@ export class StripePaymentProvider implements PaymentProvider {
     };
   }
 
-  private mapStripeError(error: Stripe.StripeError): PaymentProviderError {
+  private mapStripeError(error: Stripe.errors.StripeError): PaymentProviderError {
     const retriableErrors = [
       'api_connection_error',
       'rate_limit_error',
@@ -0,0 +1,129 @@
+// Auto-pay job
+//
+// Usage: ts-node src/jobs/auto-pay.ts [options]
+//   --dry-run             list the bills that would be charged, without charging them
+//   --as-of YYYY-MM-DD    treat this date as today (default: now)
+//   --lead-days N         charge bills due up to N days ahead (default AUTO_PAY_LEAD_DAYS)
+//   --max-amount N        most to charge per currency in this run (default AUTO_PAY_MAX_PER_RUN)
+//   --limit N             maximum number of bills to look at (default: all that are due)
+//
+// Only one run can be in progress at a time; a second run exits with status 2.
+import { createAdminClient } from '../lib/supabase/admin';
+import { BillRepository } from '../database/repositories/bills';
+import { JobRunRepository } from '../database/repositories/job-runs';
+import { NotificationPreferenceRepository } from '../database/repositories/notification-preferences';
+import { NotificationRepository } from '../database/repositories/notifications';
+import { ProfileRepository } from '../database/repositories/profiles';
+import { PushSubscriptionRepository } from '../database/repositories/push-subscriptions';
+import { TransactionRepository } from '../database/repositories/transactions';
+import { PaymentMethodRepository } from '../database/repositories/payment-methods';
+import { notificationChannels } from '../infrastructure/notifications';
+import { paymentService } from '../infrastructure/payments';
+import { createAuditService } from '../services/audit';
+import { AutoPayReport, AutoPayRunOptions, AutoPayService } from '../services/auto-pay';
+import { BillPaymentService } from '../services/bill-payment';
+import { NotificationService } from '../services/notifications';
+import { RecurrenceService } from '../services/recurrence';
+import { ConflictError } from '../utils/errors';
+import { toCalendarDate } from '../utils/recurrence';
+
+function flag(argv: string[], name: string): string | undefined {
+  const index = argv.indexOf(name);
+  return index === -1 ? undefined : argv[index + 1];
+}
+
+function numberFlag(argv: string[], name: string): number | undefined | null {
+  const value = flag(argv, name);
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+}
+
+function printReport(report: AutoPayReport): void {
+  const prefix = report.dryRun ? '[dry run] ' : '';
+  console.log(`${prefix}Auto-pay for bills due by ${report.dueBy} (checked ${report.checked})`);
+
+  for (const charge of report.charged) {
+    const note = charge.replayed ? ' (already charged)' : '';
+    console.log(
+      `${prefix}${charge.status.padEnd(10)} ${charge.billId}  ${charge.dueDate}  ` +
+      `${charge.amount.toFixed(2)} ${charge.currency}${note}`
+    );
+  }
+  for (const skipped of report.skipped) {
+    console.log(`${prefix}skipped    ${skipped.billId}  ${skipped.reason}`);
+  }
+  for (const failure of report.failed) {
+    console.error(`${prefix}failed     ${failure.billId}  ${failure.code}: ${failure.error}`);
+  }
+
+  const totals = Object.entries(report.totals)
+    .map(([currency, amount]) => `${amount.toFixed(2)} ${currency}`)
+    .join(', ');
+  console.log(`${prefix}Total: ${totals || 'nothing'} (limit ${report.maxAmount.toFixed(2)} per currency)`);
+}
+
+async function main(): Promise<number> {
+  const argv = process.argv.slice(2);
+
+  const asOfArg = flag(argv, '--as-of');
+  if (asOfArg !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(asOfArg)) {
+    console.error('--as-of must be a date in YYYY-MM-DD format');
+    return 1;
+  }
+
+  const leadDays = numberFlag(argv, '--lead-days');
+  const maxAmount = numberFlag(argv, '--max-amount');
+  const limit = numberFlag(argv, '--limit');
+  if (leadDays === null || maxAmount === null || limit === null) {
+    console.error('--lead-days, --max-amount and --limit must be non-negative numbers');
+    return 1;
+  }
+
+  const options: AutoPayRunOptions = {
+    dryRun: argv.includes('--dry-run'),
+    ...(asOfArg && { asOf: toCalendarDate(asOfArg) }),
+    ...(leadDays !== undefined && { leadDays: Math.floor(leadDays) }),
+    ...(maxAmount !== undefined && { maxAmount }),
+    ...(limit !== undefined && { limit: Math.floor(limit) }),
+  };
+
+  const supabase = createAdminClient();
+  const auditTrail = createAuditService(supabase);
+  const bills = new BillRepository(supabase, auditTrail);
+  const payments = new BillPaymentService(
+    bills,
+    new TransactionRepository(supabase, auditTrail),
+    new PaymentMethodRepository(supabase, auditTrail),
+    paymentService,
+    new RecurrenceService(bills),
+    new NotificationService(
+      new NotificationRepository(supabase),
+      bills,
+      new ProfileRepository(supabase),
+      notificationChannels,
+      new PushSubscriptionRepository(supabase),
+      new NotificationPreferenceRepository(supabase)
+    )
+  );
+  const service = new AutoPayService(bills, payments, new JobRunRepository(supabase));
+
+  const result = await service.run(options);
+  if (!result.ok) {
+    console.error(result.error.message, result.error.context ?? '');
+    return result.error instanceof ConflictError ? 2 : 1;
+  }
+
+  printReport(result.value);
+  return result.value.failed.length > 0 ? 1 : 0;
+}
+
+// The logger keeps a metrics timer alive, so exit explicitly
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
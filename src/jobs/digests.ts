@@ -0,0 +1,135 @@
+// Digests job
+//
+// Usage: ts-node src/jobs/digests.ts weekly|monthly [options]
+//   --preview             print the digests instead of recording and sending them
+//   --html                with --preview, print the HTML version instead of the text
+//   --user ID             only this user (repeatable); ignores their delivery mode
+//   --as-of YYYY-MM-DD    treat this date as today (default: today)
+//   --limit N             maximum number of users (default: all)
+//
+// Queues a digest email for each user who chose digest delivery, then sends pending
+// notifications. Run the weekly digest on Mondays and the monthly one on the 1st; running
+// it again in the same week or month does not send a second digest.
+import { createAdminClient } from '../lib/supabase/admin';
+import { BillRepository } from '../database/repositories/bills';
+import { NotificationPreferenceRepository } from '../database/repositories/notification-preferences';
+import { NotificationRepository } from '../database/repositories/notifications';
+import { ProfileRepository } from '../database/repositories/profiles';
+import { PushSubscriptionRepository } from '../database/repositories/push-subscriptions';
+import { emailContext, notificationChannels } from '../infrastructure/notifications';
+import { DigestOutcome, DigestReport, DigestService } from '../services/digests';
+import { NotificationService } from '../services/notifications';
+
+function flag(argv: string[], name: string): string | undefined {
+  const index = argv.indexOf(name);
+  return index === -1 ? undefined : argv[index + 1];
+}
+
+function flags(argv: string[], name: string): string[] {
+  return argv.flatMap((arg, index) => (arg === name && argv[index + 1] ? [argv[index + 1]!] : []));
+}
+
+function printPreview(report: DigestReport, html: boolean): void {
+  for (const digest of report.digests) {
+    if (!digest.email) {
+      console.log(`${digest.userId}: ${digest.status}`);
+      continue;
+    }
+    console.log(`==== ${digest.userId} <${digest.email.to}>`);
+    console.log(`Subject: ${digest.email.subject}\n`);
+    console.log(html ? digest.email.html : digest.email.text);
+  }
+}
+
+async function main(): Promise<number> {
+  const argv = process.argv.slice(2);
+
+  const kind = argv[0];
+  if (kind !== 'weekly' && kind !== 'monthly') {
+    console.error('Usage: digests.ts weekly|monthly [--preview] [--html] [--user ID] [--as-of YYYY-MM-DD] [--limit N]');
+    return 1;
+  }
+
+  const asOfArg = flag(argv, '--as-of');
+  if (asOfArg !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(asOfArg)) {
+    console.error('--as-of must be a date in YYYY-MM-DD format');
+    return 1;
+  }
+
+  const limitArg = flag(argv, '--limit');
+  const limit = limitArg === undefined ? undefined : Number(limitArg);
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+    console.error('--limit must be a positive integer');
+    return 1;
+  }
+
+  const preview = argv.includes('--preview');
+  const userIds = flags(argv, '--user');
+
+  const supabase = createAdminClient();
+  const bills = new BillRepository(supabase);
+  const notifications = new NotificationRepository(supabase);
+  const profiles = new ProfileRepository(supabase);
+  const preferences = new NotificationPreferenceRepository(supabase);
+  const digests = new DigestService(bills, notifications, profiles, preferences, emailContext());
+
+  const result = await digests.run(kind, {
+    preview,
+    ...(limit !== undefined && { limit }),
+    // Midday UTC falls on the same calendar date in every user's time zone
+    ...(asOfArg && { asOf: new Date(`${asOfArg}T12:00:00Z`) }),
+    ...(userIds.length > 0 && { userIds }),
+  });
+  if (!result.ok) {
+    console.error(result.error.message, result.error.context ?? '');
+    return 1;
+  }
+
+  const report = result.value;
+  for (const failure of report.failed) {
+    console.error(`  ${failure.userId}: ${failure.error}`);
+  }
+
+  if (preview) {
+    printPreview(report, argv.includes('--html'));
+    return report.failed.length > 0 ? 1 : 0;
+  }
+
+  const count = (status: DigestOutcome['status']) => report.digests.filter(digest => digest.status === status).length;
+  console.log(
+    `Checked ${report.checked} users: ${count('queued')} ${kind} digests queued, ` +
+    `${count('already_queued')} already queued, ${count('empty')} with nothing to report, ` +
+    `${count('no_email')} without an email address, ${report.failed.length} failed`
+  );
+
+  const notifier = new NotificationService(
+    notifications,
+    bills,
+    profiles,
+    notificationChannels,
+    new PushSubscriptionRepository(supabase),
+    preferences
+  );
+  const delivered = await notifier.deliverPending(Math.max(100, count('queued')));
+  if (!delivered.ok) {
+    console.error(delivered.error.message, delivered.error.context ?? '');
+    return 1;
+  }
+  console.log(
+    `Sent ${delivered.value.sent} of ${delivered.value.checked} pending notifications: ` +
+    `${delivered.value.retrying} to retry, ${delivered.value.failed} failed`
+  );
+  for (const failure of delivered.value.errors) {
+    console.error(`  ${failure.notificationId}: ${failure.error}`);
+  }
+
+  return report.failed.length > 0 || delivered.value.failed > 0 || delivered.value.errors.length > 0 ? 1 : 0;
+}
+
+// The logger keeps a metrics timer alive, so exit explicitly
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
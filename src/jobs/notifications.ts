@@ -0,0 +1,82 @@
+// Notifications job
+//
+// Usage: ts-node src/jobs/notifications.ts [options]
+//   --deliver-only        skip queueing and only send what is already pending
+//   --limit N             maximum number of notifications to send (default 100)
+//
+// Queues bill reminders and overdue notices, then sends everything pending or due a
+// retry. Safe to run as often as needed; each bill and due date is notified once.
+import { createAdminClient } from '../lib/supabase/admin';
+import { BillRepository } from '../database/repositories/bills';
+import { NotificationPreferenceRepository } from '../database/repositories/notification-preferences';
+import { NotificationRepository } from '../database/repositories/notifications';
+import { ProfileRepository } from '../database/repositories/profiles';
+import { PushSubscriptionRepository } from '../database/repositories/push-subscriptions';
+import { notificationChannels } from '../infrastructure/notifications';
+import { NotificationService } from '../services/notifications';
+
+function flag(argv: string[], name: string): string | undefined {
+  const index = argv.indexOf(name);
+  return index === -1 ? undefined : argv[index + 1];
+}
+
+async function main(): Promise<number> {
+  const argv = process.argv.slice(2);
+
+  const limit = Number(flag(argv, '--limit') ?? 100);
+  if (!Number.isInteger(limit) || limit < 1) {
+    console.error('--limit must be a positive integer');
+    return 1;
+  }
+
+  const supabase = createAdminClient();
+  const service = new NotificationService(
+    new NotificationRepository(supabase),
+    new BillRepository(supabase),
+    new ProfileRepository(supabase),
+    notificationChannels,
+    new PushSubscriptionRepository(supabase),
+    new NotificationPreferenceRepository(supabase)
+  );
+
+  if (!argv.includes('--deliver-only')) {
+    const reminders = await service.queueReminders();
+    if (!reminders.ok) {
+      console.error(reminders.error.message, reminders.error.context ?? '');
+      return 1;
+    }
+    const overdue = await service.queueOverdueNotices();
+    if (!overdue.ok) {
+      console.error(overdue.error.message, overdue.error.context ?? '');
+      return 1;
+    }
+    console.log(
+      `Queued ${reminders.value.queued} reminders (${reminders.value.checked} bills) and ` +
+      `${overdue.value.queued} overdue notices (${overdue.value.checked} bills)`
+    );
+  }
+
+  const delivered = await service.deliverPending(limit);
+  if (!delivered.ok) {
+    console.error(delivered.error.message, delivered.error.context ?? '');
+    return 1;
+  }
+
+  const report = delivered.value;
+  console.log(
+    `Sent ${report.sent} of ${report.checked}: ${report.retrying} to retry, ` +
+    `${report.failed} failed, ${report.deferred} held for quiet hours, ${report.skipped} claimed elsewhere`
+  );
+  for (const failure of report.errors) {
+    console.error(`  ${failure.notificationId}: ${failure.error}`);
+  }
+  return report.failed > 0 || report.errors.length > 0 ? 1 : 0;
+}
+
+// The logger keeps a metrics timer alive, so exit explicitly
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
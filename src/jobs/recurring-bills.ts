@@ -0,0 +1,62 @@
+// Recurring bills job
+//
+// Usage: ts-node src/jobs/recurring-bills.ts [options]
+//   --as-of YYYY-MM-DD    treat this date as today (default: today)
+//   --limit N             maximum number of bills to process (default: all that need one)
+//
+// Generates the next occurrence of every recurring bill that has been paid or is past
+// due. Safe to run as often as needed; an occurrence that already exists is left alone.
+import { createAdminClient } from '../lib/supabase/admin';
+import { BillRepository } from '../database/repositories/bills';
+import { createAuditService } from '../services/audit';
+import { RecurrenceService } from '../services/recurrence';
+import { toCalendarDate } from '../utils/recurrence';
+
+function flag(argv: string[], name: string): string | undefined {
+  const index = argv.indexOf(name);
+  return index === -1 ? undefined : argv[index + 1];
+}
+
+async function main(): Promise<number> {
+  const argv = process.argv.slice(2);
+
+  const asOfArg = flag(argv, '--as-of');
+  if (asOfArg !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(asOfArg)) {
+    console.error('--as-of must be a date in YYYY-MM-DD format');
+    return 1;
+  }
+
+  const limitArg = flag(argv, '--limit');
+  const limit = limitArg === undefined ? undefined : Number(limitArg);
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+    console.error('--limit must be a positive integer');
+    return 1;
+  }
+
+  const supabase = createAdminClient();
+  const service = new RecurrenceService(new BillRepository(supabase, createAuditService(supabase)));
+  const asOf = asOfArg ? toCalendarDate(asOfArg) : new Date();
+  const result = await service.generateDue(asOf, limit);
+  if (!result.ok) {
+    console.error(result.error.message, result.error.context ?? '');
+    return 1;
+  }
+
+  const report = result.value;
+  console.log(
+    `Checked ${report.checked} bills: ${report.created.length} created, ` +
+    `${report.ended.length} series ended, ${report.failed.length} failed`
+  );
+  for (const failure of report.failed) {
+    console.error(`  ${failure.billId}: ${failure.error}`);
+  }
+  return report.failed.length > 0 ? 1 : 0;
+}
+
+// The logger keeps a metrics timer alive, so exit explicitly
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,16 @@
+import { createClient } from '@supabase/supabase-js'
+
+// Service-role client for webhooks and scheduled jobs. It bypasses RLS, so it must
+// only be used in server code and never for requests acting on behalf of a user.
+export function createAdminClient() {
+  return createClient(
+    process.env['NEXT_PUBLIC_SUPABASE_URL']!,
+    process.env['SUPABASE_SERVICE_ROLE_KEY']!,
+    {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+      },
+    }
+  )
+}
@@ -0,0 +1,10 @@
+import { createBrowserClient } from '@supabase/ssr'
+
+// Anon-key client, safe to build in the browser. Row level security limits it to what the
+// signed-in user may see.
+export function createClient() {
+  return createBrowserClient(
+    process.env['NEXT_PUBLIC_SUPABASE_URL']!,
+    process.env['NEXT_PUBLIC_SUPABASE_ANON_KEY']!
+  )
+}
@@ -0,0 +1,19 @@
+import { Request, Response, NextFunction } from 'express';
+import { AuthRequest } from './auth';
+import { withAuditContext } from '../services/audit';
+
+// Attribute the rest of the request's changes to the signed-in user and their client.
+// Goes after authenticate.
+export const auditContext = (req: Request, _res: Response, next: NextFunction): void => {
+  const user = (req as AuthRequest).user;
+  const userAgent = req.get('user-agent');
+
+  withAuditContext(
+    {
+      ...(user && { actorId: user.userId }),
+      ...(req.ip && { ipAddress: req.ip }),
+      ...(userAgent && { userAgent }),
+    },
+    next
+  );
+};
@@ -0,0 +1,88 @@
+// Authentication middleware with locally minted tokens and an in-memory profile lookup
+import { NextFunction, Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
+import { Profile } from '../database/repositories/profiles';
+import { SupabaseTokenVerifier } from '../infrastructure/auth/supabase-tokens';
+import { AuthenticationError, Ok } from '../utils/errors';
+import { AuthRequest, createAuthenticate, createOptionalAuth } from './auth';
+
+const ISSUER = 'http://supabase.test/auth/v1';
+const SECRET = 'local-test-jwt-secret';
+const USER_ID = '6f1f0c6e-2a61-4c1e-9a57-0d6f1d2b7c11';
+
+const verifier = new SupabaseTokenVerifier({ issuer: ISSUER, audience: 'authenticated', secret: SECRET });
+const profiles = {
+  findById: jest.fn(async (id: string) => Ok(
+    id === USER_ID ? { id, email: 'payer@example.test', role: 'support' } as Profile : null
+  )),
+};
+
+function token(sub: string, options: jwt.SignOptions = {}): string {
+  return jwt.sign({ sub, session_id: 'session-1' }, SECRET, {
+    issuer: ISSUER,
+    audience: 'authenticated',
+    expiresIn: '1h',
+    ...options,
+  });
+}
+
+// Run a middleware on a request with the given Authorization header
+async function run(
+  middleware: (req: Request, res: Response, next: NextFunction) => Promise<void>,
+  authorization?: string
+): Promise<{ req: AuthRequest; error: unknown }> {
+  const req = { headers: authorization ? { authorization } : {} } as AuthRequest;
+  let error: unknown;
+  await middleware(req, {} as Response, (caught?: unknown) => {
+    error = caught;
+  });
+  return { req, error };
+}
+
+describe('createAuthenticate', () => {
+  const authenticate = createAuthenticate(verifier, profiles);
+
+  it('sets the user from the token, with their role from profiles', async () => {
+    const { req, error } = await run(authenticate, `Bearer ${token(USER_ID)}`);
+
+    expect(error).toBeUndefined();
+    expect(req.user).toMatchObject({
+      userId: USER_ID,
+      email: 'payer@example.test',
+      role: 'support',
+      sessionId: 'session-1',
+    });
+  });
+
+  it.each([
+    ['no Authorization header', undefined, 'No valid authentication token provided'],
+    ['a non-bearer scheme', `Basic ${Buffer.from('user:pass').toString('base64')}`, 'No valid authentication token provided'],
+    ['an expired token', `Bearer ${token(USER_ID, { expiresIn: -60 })}`, 'Token has expired'],
+    ['a token for a user without a profile', `Bearer ${token('00000000-0000-4000-8000-000000000000')}`, 'User not found'],
+  ])('fails with %s', async (_case, authorization, message) => {
+    const { req, error } = await run(authenticate, authorization);
+
+    expect(error).toBeInstanceOf(AuthenticationError);
+    expect((error as Error).message).toBe(message);
+    expect(req.user).toBeUndefined();
+  });
+});
+
+describe('createOptionalAuth', () => {
+  const optionalAuth = createOptionalAuth(verifier, profiles);
+
+  it('sets the user when a valid token is sent', async () => {
+    const { req, error } = await run(optionalAuth, `Bearer ${token(USER_ID)}`);
+
+    expect(error).toBeUndefined();
+    expect(req.user?.userId).toBe(USER_ID);
+  });
+
+  it('carries on without a user when the token is missing or invalid', async () => {
+    const missing = await run(optionalAuth);
+    const invalid = await run(optionalAuth, 'Bearer not-a-token');
+
+    expect(missing).toEqual({ req: expect.not.objectContaining({ user: expect.anything() }), error: undefined });
+    expect(invalid).toEqual({ req: expect.not.objectContaining({ user: expect.anything() }), error: undefined });
+  });
+});
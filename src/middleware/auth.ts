@@ -1,13 +1,13 @@
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
-import { config } from '../config';
-import { AuthenticationError, AuthorizationError } from '../utils/errors';
-import { db } from '../database';
+import { ProfileRepository, UserRole, profileRepository } from '../database/repositories/profiles';
+import { SupabaseTokenVerifier, tokenVerifier } from '../infrastructure/auth/supabase-tokens';
+import { AuthenticationError, AuthorizationError, unwrap } from '../utils/errors';
 
 export interface JWTPayload {
   userId: string;
   email: string;
-  role: 'user' | 'admin' | 'support';
+  role: UserRole;
+  sessionId?: string;
   iat?: number;
   exp?: number;
 }
@@ -16,56 +16,66 @@ export interface AuthRequest extends Request {
   user?: JWTPayload;
 }
 
-export const authenticate = async (
-  req: AuthRequest,
-  res: Response,
-  next: NextFunction
-): Promise<void> => {
-  try {
-    const authHeader = req.headers.authorization;
-    
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      throw new AuthenticationError('No valid authentication token provided');
-    }
+type TokenVerifier = Pick<SupabaseTokenVerifier, 'verify'>;
+// Must be able to read every profile, so built on the service role client
+type ProfileLookup = Pick<ProfileRepository, 'findById'>;
 
-    const token = authHeader.substring(7);
-    
-    try {
-      const decoded = jwt.verify(token, config.JWT_SECRET) as JWTPayload;
-      
-      // Check if user still exists and is active
-      const users = await db.query(
-        'SELECT id, email, role, status FROM users WHERE id = $1 AND status = $2',
-        [decoded.userId, 'active']
-      );
+function bearerToken(req: Request): string | null {
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return null;
+  }
+  return authHeader.substring(7);
+}
+
+// The signed-in user for a Supabase access token, with their role from profiles
+async function userForToken(
+  token: string,
+  verifier: TokenVerifier,
+  profiles: ProfileLookup
+): Promise<JWTPayload> {
+  const claims = await verifier.verify(token);
 
-      if (users.length === 0) {
-        throw new AuthenticationError('User not found or inactive');
+  const profile = unwrap(await profiles.findById(claims.sub));
+  if (!profile) {
+    throw new AuthenticationError('User not found');
+  }
+
+  return {
+    userId: claims.sub,
+    email: claims.email ?? profile.email,
+    role: profile.role,
+    ...(claims.session_id && { sessionId: claims.session_id }),
+    ...(claims.iat !== undefined && { iat: claims.iat }),
+    ...(claims.exp !== undefined && { exp: claims.exp }),
+  };
+}
+
+// Require a valid Supabase access token in the Authorization header
+export const createAuthenticate = (verifier: TokenVerifier, profiles: ProfileLookup) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const token = bearerToken(req);
+      if (!token) {
+        throw new AuthenticationError('No valid authentication token provided');
       }
 
-      req.user = decoded;
+      (req as AuthRequest).user = await userForToken(token, verifier, profiles);
       next();
     } catch (error) {
-      if (error instanceof jwt.TokenExpiredError) {
-        throw new AuthenticationError('Token has expired');
-      }
-      if (error instanceof jwt.JsonWebTokenError) {
-        throw new AuthenticationError('Invalid token');
-      }
-      throw error;
+      next(error);
     }
-  } catch (error) {
-    next(error);
-  }
+  };
 };
 
-export const authorize = (...roles: string[]) => {
-  return (req: AuthRequest, res: Response, next: NextFunction): void => {
-    if (!req.user) {
+export const authorize = (...roles: UserRole[]) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const { user } = req as AuthRequest;
+    if (!user) {
       return next(new AuthenticationError('Authentication required'));
     }
 
-    if (!roles.includes(req.user.role)) {
+    if (!roles.includes(user.role)) {
       return next(
         new AuthorizationError(
           `Access denied. Required roles: ${roles.join(', ')}`
@@ -77,25 +87,24 @@ export const authorize = (...roles: string[]) => {
   };
 };
 
-export const optionalAuth = async (
-  req: AuthRequest,
-  res: Response,
-  next: NextFunction
-): Promise<void> => {
-  const authHeader = req.headers.authorization;
-  
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    return next();
-  }
+// Set req.user when a valid token is sent, otherwise continue without one
+export const createOptionalAuth = (verifier: TokenVerifier, profiles: ProfileLookup) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const token = bearerToken(req);
+    if (!token) {
+      return next();
+    }
 
-  const token = authHeader.substring(7);
-  
-  try {
-    const decoded = jwt.verify(token, config.JWT_SECRET) as JWTPayload;
-    req.user = decoded;
-  } catch (error) {
-    // Invalid token, but continue without authentication
-  }
-  
-  next();
-};
\ No newline at end of file
+    try {
+      (req as AuthRequest).user = await userForToken(token, verifier, profiles);
+    } catch (error) {
+      // Invalid token, but continue without authentication
+    }
+
+    next();
+  };
+};
+
+// The middleware for this project's tokens, checked against the default profile repository
+export const authenticate = createAuthenticate(tokenVerifier, profileRepository);
+export const optionalAuth = createOptionalAuth(tokenVerifier, profileRepository);
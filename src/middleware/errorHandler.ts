@@ -2,6 +2,7 @@ import { Request, Response, NextFunction } from 'express';
 import { AppError } from '../utils/errors';
 import { logger } from '../utils/logger';
 import { config } from '../config';
+import { toErrorResponse } from './errorResponse';
 
 export const errorHandler = (
   err: Error | AppError,
@@ -13,15 +14,9 @@ export const errorHandler = (
     return next(err);
   }
 
-  const isAppError = err instanceof AppError;
-  const statusCode = isAppError ? err.statusCode : 500;
-  const message = isAppError && err.isOperational 
-    ? err.message 
-    : 'Internal server error';
+  const { statusCode, body } = toErrorResponse(err, config.get().NODE_ENV === 'development');
 
-  logger.error('Request error', {
-    error: err.message,
-    stack: err.stack,
+  logger.error('Request error', err, {
     statusCode,
     path: req.path,
     method: req.method,
@@ -29,19 +24,7 @@ export const errorHandler = (
     userAgent: req.get('user-agent')
   });
 
-  const errorResponse: any = {
-    error: {
-      message,
-      code: isAppError ? err.code : 'INTERNAL_ERROR',
-      timestamp: new Date().toISOString()
-    }
-  };
-
-  if (config.NODE_ENV === 'development' && !isAppError) {
-    errorResponse.error.stack = err.stack;
-  }
-
-  res.status(statusCode).json(errorResponse);
+  res.status(statusCode).json(body);
 };
 
 export const notFoundHandler = (
@@ -51,9 +34,8 @@ export const notFoundHandler = (
 ): void => {
   const error = new AppError(
     `Resource not found: ${req.method} ${req.path}`,
-    404,
-    true,
-    'NOT_FOUND'
+    'NOT_FOUND',
+    404
   );
   next(error);
 };
@@ -0,0 +1,52 @@
+// Error responses shared by the Express error handler and the Next.js route handlers
+import { ZodError } from 'zod';
+import { AppError, ValidationError } from '../utils/errors';
+
+export interface ErrorResponseBody {
+  error: {
+    message: string;
+    code: string;
+    timestamp: string;
+    details?: unknown;
+    stack?: string;
+  };
+}
+
+export interface ErrorResponse {
+  statusCode: number;
+  body: ErrorResponseBody;
+}
+
+// Status and JSON body for an error. Only operational AppErrors show their message;
+// anything else is reported as an internal error, with the stack in development.
+export function toErrorResponse(err: Error, includeStack: boolean = false): ErrorResponse {
+  const isAppError = err instanceof AppError;
+  const statusCode = isAppError ? err.statusCode : 500;
+  const body: ErrorResponseBody = {
+    error: {
+      message: isAppError && err.isOperational ? err.message : 'Internal server error',
+      code: isAppError ? err.code : 'INTERNAL_ERROR',
+      timestamp: new Date().toISOString(),
+    },
+  };
+
+  // Which fields failed, as listed by the validation helpers
+  if (err instanceof ValidationError && err.context) {
+    body.error.details = err.context;
+  }
+
+  if (includeStack && !isAppError && err.stack) {
+    body.error.stack = err.stack;
+  }
+
+  return { statusCode, body };
+}
+
+// The ValidationError for a failed schema parse, listing each failing field
+export function toValidationError(message: string, error: ZodError): ValidationError {
+  const errors = error.errors.map(err => ({
+    field: err.path.join('.'),
+    message: err.message,
+  }));
+  return new ValidationError(message, errors);
+}
@@ -1,6 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import { ZodSchema, ZodError } from 'zod';
-import { ValidationError } from '../utils/errors';
+import { toValidationError } from './errorResponse';
 
 export const validate = (schema: ZodSchema) => {
   return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
@@ -13,12 +13,7 @@ export const validate = (schema: ZodSchema) => {
       next();
     } catch (error) {
       if (error instanceof ZodError) {
-        const errors = error.errors.map(err => ({
-          field: err.path.join('.'),
-          message: err.message
-        }));
-        
-        next(new ValidationError('Validation failed', errors));
+        next(toValidationError('Validation failed', error));
       } else {
         next(error);
       }
@@ -33,12 +28,7 @@ export const validateBody = (schema: ZodSchema) => {
       next();
     } catch (error) {
       if (error instanceof ZodError) {
-        const errors = error.errors.map(err => ({
-          field: err.path.join('.'),
-          message: err.message
-        }));
-        
-        next(new ValidationError('Request body validation failed', errors));
+        next(toValidationError('Request body validation failed', error));
       } else {
         next(error);
       }
@@ -53,12 +43,7 @@ export const validateQuery = (schema: ZodSchema) => {
       next();
     } catch (error) {
       if (error instanceof ZodError) {
-        const errors = error.errors.map(err => ({
-          field: err.path.join('.'),
-          message: err.message
-        }));
-        
-        next(new ValidationError('Query parameters validation failed', errors));
+        next(toValidationError('Query parameters validation failed', error));
       } else {
         next(error);
       }
@@ -73,12 +58,7 @@ export const validateParams = (schema: ZodSchema) => {
       next();
     } catch (error) {
       if (error instanceof ZodError) {
-        const errors = error.errors.map(err => ({
-          field: err.path.join('.'),
-          message: err.message
-        }));
-        
-        next(new ValidationError('URL parameters validation failed', errors));
+        next(toValidationError('URL parameters validation failed', error));
       } else {
         next(error);
       }
@@ -0,0 +1,528 @@
+// Admin Service - what support staff can see and do for a user
+//
+// Staff can look a user up, see their bills, payments and notifications, retry a failed
+// payment, refund a completed one and resend a notification; admins can also search the
+// audit trail. Every one of these, lookups included, writes an audit_logs row naming the
+// staff member, the record and the outcome. Actions on an account are recorded against
+// it, so the user sees them in their account activity; lookups are not.
+import { SupabaseClient } from '@supabase/supabase-js';
+import {
+  AuditLogFilters,
+  AuditLogPage,
+  AuditLogRepository,
+} from '../database/repositories/audit-logs';
+import { Bill, BillRepository } from '../database/repositories/bills';
+import { Notification, NotificationRepository } from '../database/repositories/notifications';
+import { NotificationPreferenceRepository } from '../database/repositories/notification-preferences';
+import { PaymentMethodRepository } from '../database/repositories/payment-methods';
+import { Profile, ProfileRepository, UserRole } from '../database/repositories/profiles';
+import { PushSubscriptionRepository } from '../database/repositories/push-subscriptions';
+import {
+  Transaction,
+  TransactionRepository,
+  TransactionWithBill,
+} from '../database/repositories/transactions';
+import { notificationChannels } from '../infrastructure/notifications';
+import { PaymentProviderType, paymentService } from '../infrastructure/payments';
+import { BillPaymentError, BillPaymentOutcome, BillPaymentService } from './bill-payment';
+import { AuditEntry, AuditService, createAuditService } from './audit';
+import { NotificationService, ResendOutcome } from './notifications';
+import { RecurrenceService } from './recurrence';
+import {
+  Result,
+  Ok,
+  Err,
+  AppError,
+  AuthorizationError,
+  ConflictError,
+  DatabaseError,
+  ExternalServiceError,
+  NotFoundError,
+  PaymentError,
+  ValidationError,
+} from '../utils/errors';
+import { logger, measureAsync } from '../utils/logger';
+import { Refund, RefundParams, generateIdempotencyKey, toMoney } from '../utils/payment-provider';
+
+export const STAFF_ROLES: UserRole[] = ['admin', 'support'];
+
+// The staff member acting, and where the request came from
+export interface AdminActor {
+  userId: string;
+  role: UserRole;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface UserOverview {
+  profile: Profile;
+  bills: Bill[];
+  transactions: TransactionWithBill[];
+  notifications: Notification[];
+}
+
+export interface NotificationListOptions {
+  status?: Notification['status'];
+  channel?: Notification['channel'];
+  limit?: number;
+  offset?: number;
+}
+
+export interface RefundRequest {
+  // Decimal amount for a partial refund; the whole payment if omitted
+  amount?: number;
+  reason?: RefundParams['reason'];
+}
+
+export interface RefundOutcome {
+  transaction: Transaction;
+  refund: Refund;
+}
+
+// How many of each record the overview shows, newest first
+const OVERVIEW_LIMIT = 50;
+const SEARCH_LIMIT = 20;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type ProviderResolver = Pick<typeof paymentService, 'getProvider'>;
+
+export class AdminService {
+  constructor(
+    private readonly profiles: Pick<ProfileRepository, 'findById' | 'findByFilters'>,
+    private readonly bills: Pick<BillRepository, 'findByIdOrThrow' | 'findByFilters'>,
+    private readonly transactions: Pick<
+      TransactionRepository,
+      'findByIdOrThrow' | 'findPageForUser' | 'recordRefund'
+    >,
+    private readonly notifications: Pick<NotificationRepository, 'findByFilters'>,
+    private readonly billPayments: Pick<BillPaymentService, 'payBill'>,
+    private readonly notifier: Pick<NotificationService, 'resend'>,
+    private readonly auditTrail: Pick<AuditService, 'record'>,
+    private readonly auditLogs: Pick<AuditLogRepository, 'findPage'>,
+    private readonly providers: ProviderResolver = paymentService
+  ) {}
+
+  // Users whose email contains the query, or the user with that ID
+  async searchUsers(actor: AdminActor, query: string): Promise<Result<Profile[], AppError>> {
+    return measureAsync('service.admin.searchUsers', async () => {
+      const denied = this.checkStaff(actor);
+      if (denied) {
+        return denied;
+      }
+
+      const term = query.trim();
+      const found = UUID_PATTERN.test(term)
+        ? await this.profiles.findByFilters([{ column: 'id', operator: 'eq', value: term }])
+        : await this.profiles.findByFilters(
+            [{ column: 'email', operator: 'ilike', value: `%${term.replace(/[\\%_]/g, '\\$&')}%` }],
+            { limit: SEARCH_LIMIT, orderBy: 'email', orderDirection: 'asc' }
+          );
+      if (!found.ok) {
+        return found;
+      }
+
+      // Lookups are recorded before anything is shown
+      const audited = await this.audit(actor, {
+        action: 'admin.users_searched',
+        entityType: 'profiles',
+        newValues: { query: term, results: found.value.length },
+      });
+      if (!audited.ok) {
+        return audited;
+      }
+
+      return found;
+    });
+  }
+
+  async getUserOverview(actor: AdminActor, userId: string): Promise<Result<UserOverview, AppError>> {
+    return measureAsync('service.admin.getUserOverview', async () => {
+      const denied = this.checkStaff(actor);
+      if (denied) {
+        return denied;
+      }
+
+      const profile = await this.profiles.findById(userId);
+      if (!profile.ok) {
+        return profile;
+      }
+      if (!profile.value) {
+        return Err(new NotFoundError('profiles', userId));
+      }
+
+      const [bills, transactions, notifications] = await Promise.all([
+        this.bills.findByFilters([{ column: 'user_id', operator: 'eq', value: userId }], {
+          limit: OVERVIEW_LIMIT,
+          orderBy: 'due_date',
+          orderDirection: 'desc',
+        }),
+        this.transactions.findPageForUser(userId, {}, 1, OVERVIEW_LIMIT),
+        this.notifications.findByFilters([{ column: 'user_id', operator: 'eq', value: userId }], {
+          limit: OVERVIEW_LIMIT,
+          orderBy: 'created_at',
+          orderDirection: 'desc',
+        }),
+      ]);
+      if (!bills.ok) {
+        return bills;
+      }
+      if (!transactions.ok) {
+        return transactions;
+      }
+      if (!notifications.ok) {
+        return notifications;
+      }
+
+      const audited = await this.audit(actor, {
+        action: 'admin.user_viewed',
+        entityType: 'profiles',
+        entityId: userId,
+      });
+      if (!audited.ok) {
+        return audited;
+      }
+
+      return Ok({
+        profile: profile.value,
+        bills: bills.value,
+        transactions: transactions.value.transactions,
+        notifications: notifications.value,
+      });
+    });
+  }
+
+  // A user's notifications, newest first, to check what they were sent
+  async listUserNotifications(
+    actor: AdminActor,
+    userId: string,
+    { status, channel, limit = OVERVIEW_LIMIT, offset }: NotificationListOptions = {}
+  ): Promise<Result<Notification[], AppError>> {
+    return measureAsync('service.admin.listUserNotifications', async () => {
+      const denied = this.checkStaff(actor);
+      if (denied) {
+        return denied;
+      }
+
+      const found = await this.notifications.findByFilters(
+        [
+          { column: 'user_id', operator: 'eq', value: userId },
+          ...(status ? [{ column: 'status', operator: 'eq' as const, value: status }] : []),
+          ...(channel ? [{ column: 'channel', operator: 'eq' as const, value: channel }] : []),
+        ],
+        {
+          limit,
+          ...(offset !== undefined && { offset }),
+          orderBy: 'created_at',
+          orderDirection: 'desc',
+        }
+      );
+      if (!found.ok) {
+        return found;
+      }
+
+      const audited = await this.audit(actor, {
+        action: 'admin.notifications_viewed',
+        entityType: 'profiles',
+        entityId: userId,
+        newValues: {
+          ...(status && { status }),
+          ...(channel && { channel }),
+          results: found.value.length,
+        },
+      });
+      if (!audited.ok) {
+        return audited;
+      }
+
+      return found;
+    });
+  }
+
+  // Charge the bill of a failed payment again, under a new idempotency key so the
+  // provider treats it as a new attempt. Retrying the same failed payment twice only
+  // charges once.
+  async retryPayment(
+    actor: AdminActor,
+    transactionId: string
+  ): Promise<Result<BillPaymentOutcome, BillPaymentError | AuthorizationError>> {
+    return measureAsync('service.admin.retryPayment', async () => {
+      const denied = this.checkStaff(actor);
+      if (denied) {
+        return denied;
+      }
+
+      const found = await this.transactions.findByIdOrThrow(transactionId);
+      if (!found.ok) {
+        return found;
+      }
+      const transaction = found.value;
+
+      const result = await this.retry(transaction);
+      await this.auditOutcome(actor, 'admin.payment_retried', 'transactions', transaction.id, result, {
+        userId: transaction.user_id,
+        old: { status: transaction.status, failure_reason: transaction.failure_reason },
+        new: outcome => ({
+          status: outcome.transaction.status,
+          transaction_id: outcome.transaction.id,
+          bill_status: outcome.bill.status,
+        }),
+      });
+      return result;
+    });
+  }
+
+  async refundPayment(
+    actor: AdminActor,
+    transactionId: string,
+    request: RefundRequest = {}
+  ): Promise<Result<RefundOutcome, AppError>> {
+    return measureAsync('service.admin.refundPayment', async () => {
+      const denied = this.checkStaff(actor);
+      if (denied) {
+        return denied;
+      }
+
+      const found = await this.transactions.findByIdOrThrow(transactionId);
+      if (!found.ok) {
+        return found;
+      }
+      const transaction = found.value;
+
+      const result = await this.refund(actor, transaction, request);
+      await this.auditOutcome(actor, 'admin.payment_refunded', 'transactions', transaction.id, result, {
+        userId: transaction.user_id,
+        old: { status: transaction.status, amount: transaction.amount },
+        new: outcome => ({
+          status: outcome.transaction.status,
+          refund_id: outcome.refund.id,
+          refunded_amount: outcome.transaction.metadata?.['refunded_amount'],
+          reason: outcome.refund.reason ?? request.reason,
+        }),
+      });
+      return result;
+    });
+  }
+
+  async resendNotification(
+    actor: AdminActor,
+    notificationId: string
+  ): Promise<Result<ResendOutcome, AppError>> {
+    return measureAsync('service.admin.resendNotification', async () => {
+      const denied = this.checkStaff(actor);
+      if (denied) {
+        return denied;
+      }
+
+      const result = await this.notifier.resend(notificationId);
+      await this.auditOutcome(actor, 'admin.notification_resent', 'notifications', notificationId, result, {
+        ...(result.ok && { userId: result.value.notification.user_id }),
+        new: outcome => ({
+          notification_id: outcome.notification.id,
+          channel: outcome.notification.channel,
+          status: outcome.status,
+        }),
+      });
+      return result;
+    });
+  }
+
+  // Audit log entries matching the filters, newest first. Admins only.
+  async searchAuditLogs(
+    actor: AdminActor,
+    filters: AuditLogFilters,
+    page: number = 1,
+    pageSize: number = 50
+  ): Promise<Result<AuditLogPage, AppError>> {
+    return measureAsync('service.admin.searchAuditLogs', async () => {
+      if (actor.role !== 'admin') {
+        return Err(new AuthorizationError('Only admins can search the audit log'));
+      }
+
+      const found = await this.auditLogs.findPage(filters, page, pageSize);
+      if (!found.ok) {
+        return found;
+      }
+
+      const audited = await this.audit(actor, {
+        action: 'admin.audit_logs_searched',
+        entityType: 'audit_logs',
+        newValues: { filters, page, results: found.value.entries.length },
+      });
+      if (!audited.ok) {
+        return audited;
+      }
+
+      return found;
+    });
+  }
+
+  private async retry(
+    transaction: Transaction
+  ): Promise<Result<BillPaymentOutcome, BillPaymentError>> {
+    if (transaction.status !== 'failed') {
+      return Err(new ConflictError('Only failed payments can be retried', {
+        transactionId: transaction.id,
+        status: transaction.status,
+      }));
+    }
+    if (!transaction.bill_id) {
+      return Err(new ValidationError('Payment is not for a bill', { transactionId: transaction.id }));
+    }
+
+    return this.billPayments.payBill(transaction.bill_id, {
+      idempotencyKey: generateIdempotencyKey({ billId: transaction.bill_id, retryOf: transaction.id }),
+    });
+  }
+
+  private async refund(
+    actor: AdminActor,
+    transaction: Transaction,
+    request: RefundRequest
+  ): Promise<Result<RefundOutcome, AppError>> {
+    if (transaction.status !== 'completed') {
+      return Err(new ConflictError('Only completed payments can be refunded', {
+        transactionId: transaction.id,
+        status: transaction.status,
+      }));
+    }
+    if (transaction.metadata?.['refund_id']) {
+      return Err(new ConflictError('Payment has already been refunded', {
+        transactionId: transaction.id,
+        refundId: transaction.metadata['refund_id'],
+      }));
+    }
+    if (!transaction.external_transaction_id) {
+      return Err(new ValidationError('Payment has no provider reference to refund', {
+        transactionId: transaction.id,
+      }));
+    }
+    if (request.amount !== undefined && (request.amount <= 0 || request.amount > transaction.amount)) {
+      return Err(new ValidationError('Refund amount must be more than 0 and at most the payment amount', {
+        transactionId: transaction.id,
+        amount: request.amount,
+      }));
+    }
+
+    const providerName = transaction.metadata?.['provider'] as PaymentProviderType | undefined;
+    let provider;
+    try {
+      provider = this.providers.getProvider(providerName);
+    } catch (error) {
+      return Err(new ExternalServiceError('payments', (error as Error).message, error as Error));
+    }
+
+    const refunded = await provider.refund({
+      transactionId: transaction.external_transaction_id,
+      ...(request.amount !== undefined && { amount: toMoney(request.amount, transaction.currency) }),
+      reason: request.reason ?? 'requested_by_customer',
+      metadata: { transaction_id: transaction.id, refunded_by: actor.userId },
+    });
+    if (!refunded.ok) {
+      const error = refunded.error;
+      return Err(error.retriable
+        ? new ExternalServiceError(error.provider, error.message, error)
+        : new PaymentError(error.message, error.provider, error.code, { transactionId: transaction.id }));
+    }
+    if (refunded.value.status === 'failed') {
+      return Err(new PaymentError('Refund failed', provider.name, undefined, {
+        transactionId: transaction.id,
+        refundId: refunded.value.id,
+      }));
+    }
+
+    const updated = await this.transactions.recordRefund(transaction, refunded.value);
+    if (!updated.ok) {
+      return updated;
+    }
+    return Ok({ transaction: updated.value, refund: refunded.value });
+  }
+
+  private checkStaff(actor: AdminActor): Result<never, AuthorizationError> | null {
+    return STAFF_ROLES.includes(actor.role)
+      ? null
+      : Err(new AuthorizationError('Only admin and support staff can use the admin console'));
+  }
+
+  private async audit(actor: AdminActor, entry: AuditEntry): Promise<Result<unknown, DatabaseError>> {
+    return this.auditTrail.record(
+      { ...entry, newValues: { ...entry.newValues, actor_role: actor.role } },
+      {
+        actorId: actor.userId,
+        ...(actor.ipAddress && { ipAddress: actor.ipAddress }),
+        ...(actor.userAgent && { userAgent: actor.userAgent }),
+      }
+    );
+  }
+
+  // Record an action that has already happened, whether it worked or not. The action
+  // cannot be undone if the audit row fails to save, so that is logged for follow-up
+  // rather than reported as the action failing.
+  private async auditOutcome<T>(
+    actor: AdminActor,
+    action: string,
+    entityType: string,
+    entityId: string,
+    result: Result<T, AppError>,
+    values: {
+      userId?: string;
+      old?: Record<string, any>;
+      new: (value: T) => Record<string, any>;
+    }
+  ): Promise<void> {
+    const newValues = result.ok
+      ? { outcome: 'succeeded', ...values.new(result.value) }
+      : { outcome: 'failed', error: result.error.code, message: result.error.message };
+
+    const audited = await this.audit(actor, {
+      action,
+      entityType,
+      entityId,
+      userId: values.userId ?? null,
+      oldValues: values.old ?? null,
+      newValues,
+    });
+    if (!audited.ok) {
+      logger.error('Failed to audit admin action', audited.error, {
+        action,
+        entityType,
+        entityId,
+        actorId: actor.userId,
+        outcome: newValues.outcome,
+      });
+    }
+  }
+}
+
+// An AdminService working through the given (service role) client
+export function createAdminService(supabase: SupabaseClient): AdminService {
+  const auditTrail = createAuditService(supabase);
+  const bills = new BillRepository(supabase, auditTrail);
+  const transactions = new TransactionRepository(supabase, auditTrail);
+  const notificationRepository = new NotificationRepository(supabase);
+  const notifications = new NotificationService(
+    notificationRepository,
+    bills,
+    new ProfileRepository(supabase),
+    notificationChannels,
+    new PushSubscriptionRepository(supabase),
+    new NotificationPreferenceRepository(supabase)
+  );
+
+  return new AdminService(
+    new ProfileRepository(supabase),
+    bills,
+    transactions,
+    notificationRepository,
+    new BillPaymentService(
+      bills,
+      transactions,
+      new PaymentMethodRepository(supabase, auditTrail),
+      paymentService,
+      new RecurrenceService(bills),
+      notifications
+    ),
+    notifications,
+    auditTrail,
+    new AuditLogRepository(supabase)
+  );
+}
@@ -0,0 +1,120 @@
+// Checking the audit chain against the migrated schema, after editing its rows the way
+// someone with direct database access could
+import { generateKeyPairSync } from 'crypto';
+import { createTestDatabase, TestDatabase } from '../test/database';
+import { createTestClient } from '../test/postgrest';
+import { AuditLogRepository } from '../database/repositories/audit-logs';
+import { AuditChainService, CheckpointSigner, createAuditChainService } from './audit-chain';
+import { AuditService } from './audit';
+
+const ENTRIES = 5;
+
+describe('AuditChainService.verify', () => {
+  let db: TestDatabase;
+  let chain: AuditChainService;
+
+  beforeEach(async () => {
+    db = await createTestDatabase();
+    const client = createTestClient(db);
+    const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+    chain = createAuditChainService(client, new CheckpointSigner(publicKey, privateKey));
+
+    const audit = new AuditService(new AuditLogRepository(client));
+    for (let n = 1; n <= ENTRIES; n++) {
+      const recorded = await audit.record(
+        { action: 'bill.update', entityType: 'bills', newValues: { amount: n } },
+        {}
+      );
+      expect(recorded.ok).toBe(true);
+    }
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  // Run SQL with the append-only triggers switched off
+  async function tamper(sql: string): Promise<void> {
+    await db.exec(`SET session_replication_role = replica; ${sql}; SET session_replication_role = DEFAULT;`);
+  }
+
+  async function verify() {
+    const result = await chain.verify();
+    if (!result.ok) {
+      throw result.error;
+    }
+    return result.value;
+  }
+
+  it('finds an untouched chain intact', async () => {
+    await expect(verify()).resolves.toMatchObject({ checked: ENTRIES, toSeq: ENTRIES, intact: true, firstBreak: null });
+  });
+
+  it('reports a past row whose content was changed', async () => {
+    await tamper(`UPDATE audit_logs SET new_values = '{"amount": 100}' WHERE seq = 2`);
+
+    await expect(verify()).resolves.toMatchObject({
+      intact: false,
+      checked: 1,
+      firstBreak: { seq: 2, reason: 'hash_mismatch' },
+    });
+  });
+
+  it('reports a changed row whose hash was rewritten to match at the next link', async () => {
+    await tamper(
+      `UPDATE audit_logs SET new_values = '{"amount": 100}' WHERE seq = 2;
+       UPDATE audit_logs a SET row_hash = audit_log_hash(a.prev_hash, audit_log_content(a)) WHERE seq = 2`
+    );
+
+    await expect(verify()).resolves.toMatchObject({
+      intact: false,
+      checked: 2,
+      firstBreak: { seq: 3, reason: 'link_mismatch' },
+    });
+  });
+
+  it('reports a past row that was deleted', async () => {
+    await tamper('DELETE FROM audit_logs WHERE seq = 3');
+
+    await expect(verify()).resolves.toMatchObject({
+      intact: false,
+      checked: 2,
+      firstBreak: { seq: 3, reason: 'missing_row' },
+    });
+  });
+
+  it('reports the last row deleted, through the chain head', async () => {
+    await tamper(`DELETE FROM audit_logs WHERE seq = ${ENTRIES}`);
+
+    await expect(verify()).resolves.toMatchObject({
+      intact: false,
+      firstBreak: { seq: ENTRIES, reason: 'missing_row' },
+    });
+  });
+
+  it('reports rows rewritten from a checkpointed row onwards', async () => {
+    const checkpoint = await chain.createCheckpoint();
+    expect(checkpoint.ok).toBe(true);
+
+    // Re-chain every row from seq 4 so each link holds again, head included
+    await tamper(
+      `UPDATE audit_logs SET new_values = '{"amount": 100}' WHERE seq = 4;
+       DO $$
+       DECLARE entry audit_logs;
+       BEGIN
+         FOR entry IN SELECT * FROM audit_logs WHERE seq >= 4 ORDER BY seq LOOP
+           UPDATE audit_logs a SET
+             prev_hash = (SELECT row_hash FROM audit_logs WHERE seq = entry.seq - 1),
+             row_hash = audit_log_hash((SELECT row_hash FROM audit_logs WHERE seq = entry.seq - 1), audit_log_content(a))
+           WHERE a.seq = entry.seq;
+         END LOOP;
+         UPDATE audit_chain_head SET last_hash = (SELECT row_hash FROM audit_logs ORDER BY seq DESC LIMIT 1);
+       END $$`
+    );
+
+    await expect(verify()).resolves.toMatchObject({
+      intact: false,
+      firstBreak: { seq: ENTRIES, reason: 'checkpoint_mismatch' },
+    });
+  });
+});
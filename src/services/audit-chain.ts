@@ -0,0 +1,357 @@
+// Audit Chain Service - checks that the audit trail has not been edited, and signs checkpoints
+//
+// The database chains every audit_logs row onto the one before: row_hash is the SHA-256 of
+// the previous row's hash and the row's own content (see 0015_audit_hash_chain). verify walks
+// the chain in order, recomputes each hash and reports the first link that does not hold.
+// Changing a row breaks its own hash; rewriting its hash to match breaks the next row's link;
+// deleting a row leaves a gap in seq. Rewriting everything from some row onwards is caught by
+// signed checkpoints, which pin the hash of a row at the time they were made and can be
+// exported and kept outside the database.
+import crypto, { KeyObject } from 'crypto';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { config } from '../config';
+import { AuditChainLink, AuditLogRepository } from '../database/repositories/audit-logs';
+import {
+  AuditCheckpoint,
+  AuditCheckpointRepository,
+} from '../database/repositories/audit-checkpoints';
+import { Result, Ok, Err, ConflictError, DatabaseError, ValidationError } from '../utils/errors';
+import { measureAsync } from '../utils/logger';
+
+// Rows fetched per round trip while walking the chain
+const PAGE_SIZE = 1000;
+
+export type ChainBreakReason =
+  // A row's content no longer matches its hash
+  | 'hash_mismatch'
+  // A row's prev_hash is not the previous row's hash
+  | 'link_mismatch'
+  // A seq is missing, or the chain ends before a row that existed
+  | 'missing_row'
+  // The chain head does not match the last row
+  | 'head_mismatch'
+  // A checkpoint's hash is not the row's hash
+  | 'checkpoint_mismatch'
+  // A checkpoint's signature does not verify
+  | 'bad_signature';
+
+export interface ChainBreak {
+  seq: number;
+  id?: string;
+  reason: ChainBreakReason;
+  expected?: string | null;
+  actual?: string | null;
+}
+
+export interface ChainReport {
+  fromSeq: number;
+  // Last seq checked; fromSeq - 1 if there was nothing to check
+  toSeq: number;
+  // Hash of the last row checked
+  lastHash: string | null;
+  checked: number;
+  checkpoints: number;
+  intact: boolean;
+  firstBreak: ChainBreak | null;
+}
+
+// A checkpoint as signed and exported
+export type SignedCheckpoint = Pick<AuditCheckpoint, 'seq' | 'row_hash' | 'key_id' | 'signature' | 'created_at'>;
+
+export interface CheckpointExport {
+  checkpoint: SignedCheckpoint;
+  // PEM public key the signature verifies with
+  public_key: string;
+}
+
+export interface VerifyOptions {
+  // First row whose link is checked (default 1, the whole chain)
+  fromSeq?: number;
+  // Checkpoints to check besides those stored, e.g. exported copies
+  checkpoints?: SignedCheckpoint[];
+}
+
+// Hex SHA-256 of a row's content chained onto the previous row's hash, as audit_log_hash
+export function auditHash(prevHash: string | null, content: string): string {
+  return crypto.createHash('sha256').update((prevHash ?? '') + content, 'utf8').digest('hex');
+}
+
+// The bytes a checkpoint signature covers. created_at is normalised, as the database
+// returns it in its own format.
+export function checkpointPayload(checkpoint: Pick<SignedCheckpoint, 'seq' | 'row_hash' | 'created_at'>): string {
+  const createdAt = new Date(checkpoint.created_at).toISOString();
+  return `audit-checkpoint:v1:${checkpoint.seq}:${checkpoint.row_hash}:${createdAt}`;
+}
+
+export class CheckpointSigner {
+  readonly keyId: string;
+
+  constructor(private readonly publicKey: KeyObject, private readonly privateKey?: KeyObject) {
+    // First 16 hex digits of the SHA-256 of the DER public key
+    this.keyId = crypto
+      .createHash('sha256')
+      .update(publicKey.export({ type: 'spki', format: 'der' }))
+      .digest('hex')
+      .slice(0, 16);
+  }
+
+  get canSign(): boolean {
+    return this.privateKey !== undefined;
+  }
+
+  get publicKeyPem(): string {
+    return this.publicKey.export({ type: 'spki', format: 'pem' }).toString();
+  }
+
+  sign(checkpoint: Pick<SignedCheckpoint, 'seq' | 'row_hash' | 'created_at'>): SignedCheckpoint {
+    if (!this.privateKey) {
+      throw new Error('No private key to sign audit checkpoints with');
+    }
+    const signature = crypto.sign(null, Buffer.from(checkpointPayload(checkpoint)), this.privateKey);
+    return { ...checkpoint, key_id: this.keyId, signature: signature.toString('base64') };
+  }
+
+  // Whether this key signed the checkpoint as it stands
+  verify(checkpoint: SignedCheckpoint): boolean {
+    if (checkpoint.key_id !== this.keyId) {
+      return false;
+    }
+    try {
+      return crypto.verify(
+        null,
+        Buffer.from(checkpointPayload(checkpoint)),
+        this.publicKey,
+        Buffer.from(checkpoint.signature, 'base64')
+      );
+    } catch {
+      return false;
+    }
+  }
+}
+
+// The signer for the configured keys. Keys are PEM, with \n allowed in place of newlines.
+export function createCheckpointSigner(
+  privateKeyPem: string | undefined = config.get().AUDIT_CHECKPOINT_PRIVATE_KEY,
+  publicKeyPem: string | undefined = config.get().AUDIT_CHECKPOINT_PUBLIC_KEY
+): Result<CheckpointSigner, ValidationError> {
+  const pem = (value: string) => value.replace(/\\n/g, '\n');
+
+  try {
+    const privateKey = privateKeyPem ? crypto.createPrivateKey(pem(privateKeyPem)) : undefined;
+    const publicKey = publicKeyPem
+      ? crypto.createPublicKey(pem(publicKeyPem))
+      : privateKey && crypto.createPublicKey(privateKey);
+
+    if (!publicKey) {
+      return Err(new ValidationError(
+        'Set AUDIT_CHECKPOINT_PRIVATE_KEY or AUDIT_CHECKPOINT_PUBLIC_KEY to check audit checkpoints'
+      ));
+    }
+    if (publicKey.asymmetricKeyType !== 'ed25519' || (privateKey && privateKey.asymmetricKeyType !== 'ed25519')) {
+      return Err(new ValidationError('Audit checkpoint keys must be Ed25519 keys'));
+    }
+
+    return Ok(new CheckpointSigner(publicKey, privateKey));
+  } catch (error) {
+    return Err(new ValidationError('Audit checkpoint keys are not valid PEM keys', {
+      error: (error as Error).message,
+    }));
+  }
+}
+
+export class AuditChainService {
+  constructor(
+    private readonly auditLogs: Pick<AuditLogRepository, 'findChain' | 'getChainHead'>,
+    private readonly checkpoints: Pick<AuditCheckpointRepository, 'findLatest' | 'findFrom' | 'record'>,
+    private readonly signer: CheckpointSigner
+  ) {}
+
+  // Walk the chain from fromSeq to the head and report the first broken link
+  async verify(options: VerifyOptions = {}): Promise<Result<ChainReport, DatabaseError>> {
+    return measureAsync('service.audit_chain.verify', async () => {
+      const fromSeq = Math.max(1, options.fromSeq ?? 1);
+
+      const stored = await this.checkpoints.findFrom(fromSeq);
+      if (!stored.ok) {
+        return Err(stored.error);
+      }
+      const pending = [...stored.value, ...(options.checkpoints ?? [])]
+        .filter(checkpoint => checkpoint.seq >= fromSeq)
+        .sort((a, b) => a.seq - b.seq);
+      const checkpointCount = pending.length;
+
+      // The row before fromSeq anchors the walk: its hash is checked but not its link
+      let nextSeq = fromSeq > 1 ? fromSeq - 1 : 1;
+      let prevHash: string | null = null;
+      let checked = 0;
+      let firstBreak: ChainBreak | null = null;
+
+      let more = true;
+      while (more && !firstBreak) {
+        const page = await this.auditLogs.findChain(nextSeq, PAGE_SIZE);
+        if (!page.ok) {
+          return Err(page.error);
+        }
+        more = page.value.length === PAGE_SIZE;
+
+        for (const link of page.value) {
+          firstBreak = this.checkLink(link, nextSeq, nextSeq >= fromSeq ? prevHash : link.prev_hash);
+          while (!firstBreak && pending.length > 0 && pending[0]!.seq === link.seq) {
+            firstBreak = this.checkCheckpoint(pending.shift()!, link);
+          }
+          if (firstBreak) {
+            break;
+          }
+
+          prevHash = link.row_hash;
+          nextSeq = link.seq + 1;
+          if (link.seq >= fromSeq) {
+            checked++;
+          }
+        }
+      }
+
+      if (!firstBreak) {
+        const end = await this.checkEnd(nextSeq, prevHash, pending);
+        if (!end.ok) {
+          return Err(end.error);
+        }
+        firstBreak = end.value;
+      }
+
+      return Ok({
+        fromSeq,
+        toSeq: Math.max(nextSeq - 1, fromSeq - 1),
+        lastHash: prevHash,
+        checked,
+        checkpoints: checkpointCount,
+        intact: firstBreak === null,
+        firstBreak,
+      });
+    });
+  }
+
+  // Verify the chain since the latest checkpoint, then sign and store a checkpoint of the
+  // last row. Returns the latest checkpoint as is if no rows have been added since.
+  async createCheckpoint(): Promise<Result<CheckpointExport, DatabaseError | ConflictError | ValidationError>> {
+    return measureAsync('service.audit_chain.createCheckpoint', async () => {
+      if (!this.signer.canSign) {
+        return Err(new ValidationError('Set AUDIT_CHECKPOINT_PRIVATE_KEY to create audit checkpoints'));
+      }
+
+      const latest = await this.checkpoints.findLatest();
+      if (!latest.ok) {
+        return Err(latest.error);
+      }
+
+      const report = await this.verify(latest.value ? { fromSeq: latest.value.seq } : {});
+      if (!report.ok) {
+        return Err(report.error);
+      }
+      if (!report.value.intact) {
+        return Err(new ConflictError('The audit chain is broken; not signing a checkpoint', {
+          firstBreak: report.value.firstBreak,
+        }));
+      }
+
+      const { toSeq, lastHash } = report.value;
+      if (latest.value && latest.value.seq === toSeq) {
+        return Ok(this.export(latest.value));
+      }
+      if (!lastHash) {
+        return Err(new ValidationError('The audit log is empty; nothing to checkpoint'));
+      }
+
+      const signed = this.signer.sign({ seq: toSeq, row_hash: lastHash, created_at: new Date() });
+      const recorded = await this.checkpoints.record(signed);
+      if (!recorded.ok) {
+        return Err(recorded.error);
+      }
+
+      return Ok(this.export(signed));
+    });
+  }
+
+  private export(checkpoint: SignedCheckpoint): CheckpointExport {
+    return {
+      checkpoint: {
+        seq: checkpoint.seq,
+        row_hash: checkpoint.row_hash,
+        key_id: checkpoint.key_id,
+        signature: checkpoint.signature,
+        created_at: checkpoint.created_at,
+      },
+      public_key: this.signer.publicKeyPem,
+    };
+  }
+
+  private checkLink(link: AuditChainLink, expectedSeq: number, expectedPrev: string | null): ChainBreak | null {
+    if (link.seq !== expectedSeq) {
+      return { seq: expectedSeq, reason: 'missing_row' };
+    }
+    if (link.prev_hash !== expectedPrev) {
+      return { seq: link.seq, id: link.id, reason: 'link_mismatch', expected: expectedPrev, actual: link.prev_hash };
+    }
+    const hash = auditHash(link.prev_hash, link.content);
+    if (hash !== link.row_hash) {
+      return { seq: link.seq, id: link.id, reason: 'hash_mismatch', expected: hash, actual: link.row_hash };
+    }
+    return null;
+  }
+
+  private checkCheckpoint(checkpoint: SignedCheckpoint, link: AuditChainLink): ChainBreak | null {
+    if (!this.signer.verify(checkpoint)) {
+      return { seq: checkpoint.seq, id: link.id, reason: 'bad_signature' };
+    }
+    if (checkpoint.row_hash !== link.row_hash) {
+      return {
+        seq: link.seq,
+        id: link.id,
+        reason: 'checkpoint_mismatch',
+        expected: checkpoint.row_hash,
+        actual: link.row_hash,
+      };
+    }
+    return null;
+  }
+
+  // After the last row: the head must point at it, and no checkpoint may be past it
+  private async checkEnd(
+    nextSeq: number,
+    lastHash: string | null,
+    pending: SignedCheckpoint[]
+  ): Promise<Result<ChainBreak | null, DatabaseError>> {
+    if (pending.length > 0) {
+      return Ok({ seq: nextSeq, reason: 'missing_row' });
+    }
+
+    const head = await this.auditLogs.getChainHead();
+    if (!head.ok) {
+      return Err(head.error);
+    }
+    if (head.value.last_seq >= nextSeq) {
+      return Ok({ seq: nextSeq, reason: 'missing_row' });
+    }
+    if (head.value.last_seq !== nextSeq - 1 || head.value.last_hash !== lastHash) {
+      return Ok({
+        seq: head.value.last_seq,
+        reason: 'head_mismatch',
+        expected: lastHash,
+        actual: head.value.last_hash,
+      });
+    }
+    return Ok(null);
+  }
+}
+
+// An AuditChainService reading through the given (service role) client
+export function createAuditChainService(
+  supabase: SupabaseClient,
+  signer: CheckpointSigner
+): AuditChainService {
+  return new AuditChainService(
+    new AuditLogRepository(supabase),
+    new AuditCheckpointRepository(supabase),
+    signer
+  );
+}
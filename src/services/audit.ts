@@ -0,0 +1,163 @@
+// Audit Service - the trail of changes in audit_logs
+//
+// Repositories given the service as their auditor record every create, update and delete
+// with the row before and after. Payments are named by what happened to them
+// (payment.completed, payment.refunded, ...) rather than as plain updates. Who acted and
+// where the request came from is taken from the request being handled, see
+// withAuditContext. Sensitive values are redacted before anything is stored.
+import { AsyncLocalStorage } from 'async_hooks';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { RecordChange, RecordOperation, RepositoryAuditor } from '../database';
+import { AuditLog, AuditLogRepository } from '../database/repositories/audit-logs';
+import { Result, DatabaseError } from '../utils/errors';
+import { logger, measureAsync } from '../utils/logger';
+
+// Who is acting and where from. Empty for jobs and webhooks, which act as the system.
+export interface AuditContext {
+  actorId?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface AuditEntry {
+  action: string;
+  entityType: string;
+  entityId?: string;
+  // Whose account the entry is about; they see it in their account activity
+  userId?: string | null;
+  oldValues?: Record<string, any> | null;
+  newValues?: Record<string, any> | null;
+}
+
+export const REDACTED = '[REDACTED]';
+
+// Account numbers, provider references and push endpoints and keys, and anything that
+// looks like a credential or card detail
+const SENSITIVE_FIELDS = new Set([
+  'account_number',
+  'provider_customer_id',
+  'provider_payment_method_id',
+  'endpoint',
+  'p256dh',
+  'auth',
+]);
+const SENSITIVE_PATTERN = /password|secret|token|api_?key|card_?number|cvc|cvv|iban|sort_?code|routing_?number/i;
+
+const OPERATION_VERBS: Record<RecordOperation, string> = {
+  create: 'created',
+  update: 'updated',
+  soft_delete: 'deleted',
+  delete: 'deleted',
+};
+
+const requestContext = new AsyncLocalStorage<AuditContext>();
+
+// Run fn (and everything it awaits) with changes attributed to the given context
+export function withAuditContext<T>(context: AuditContext, fn: () => T): T {
+  return requestContext.run(context, fn);
+}
+
+export function currentAuditContext(): AuditContext {
+  return requestContext.getStore() ?? {};
+}
+
+// A copy with sensitive values replaced, at any depth
+export function redact<T>(values: T): T {
+  if (Array.isArray(values)) {
+    return values.map(redact) as T;
+  }
+  if (values && typeof values === 'object' && !(values instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(values).map(([key, value]) => [
+        key,
+        value !== null && value !== undefined && isSensitive(key) ? REDACTED : redact(value),
+      ])
+    ) as T;
+  }
+  return values;
+}
+
+function isSensitive(key: string): boolean {
+  return SENSITIVE_FIELDS.has(key) || SENSITIVE_PATTERN.test(key);
+}
+
+// The action for a repository write, e.g. 'bills.updated' or 'payment.failed'
+export function changeAction({ entityType, operation, before, after }: RecordChange): string {
+  if (entityType !== 'transactions') {
+    return `${entityType}.${OPERATION_VERBS[operation]}`;
+  }
+
+  if (operation === 'create') {
+    return 'payment.created';
+  }
+  if (!after) {
+    return 'payment.deleted';
+  }
+  if (after['metadata']?.['refund_id'] && !before?.['metadata']?.['refund_id']) {
+    return 'payment.refunded';
+  }
+  if (after['status'] !== before?.['status']) {
+    return `payment.${after['status']}`;
+  }
+  return 'payment.updated';
+}
+
+// The user whose account a row belongs to
+function accountOf({ entityType, entityId, before, after }: RecordChange): string | null {
+  const row = after ?? before;
+  if (row?.['user_id']) {
+    return row['user_id'];
+  }
+  return entityType === 'profiles' ? entityId : null;
+}
+
+export class AuditService implements RepositoryAuditor {
+  constructor(private readonly auditLogs: Pick<AuditLogRepository, 'record'>) {}
+
+  // Record an entry, attributed to the current request unless a context is given
+  async record(
+    entry: AuditEntry,
+    context: AuditContext = currentAuditContext()
+  ): Promise<Result<AuditLog, DatabaseError>> {
+    return measureAsync('service.audit.record', async () =>
+      this.auditLogs.record({
+        user_id: entry.userId ?? null,
+        actor_id: context.actorId ?? null,
+        action: entry.action,
+        entity_type: entry.entityType,
+        ...(entry.entityId && { entity_id: entry.entityId }),
+        old_values: entry.oldValues ? redact(entry.oldValues) : null,
+        new_values: entry.newValues ? redact(entry.newValues) : null,
+        ip_address: context.ipAddress ?? null,
+        user_agent: context.userAgent ?? null,
+      })
+    );
+  }
+
+  // Record a repository write. It has already happened, so a failure to record it is
+  // logged for follow-up rather than reported to the caller.
+  async recordChange(change: RecordChange): Promise<void> {
+    const action = changeAction(change);
+    const recorded = await this.record({
+      action,
+      entityType: change.entityType,
+      entityId: change.entityId,
+      userId: accountOf(change),
+      oldValues: change.before,
+      newValues: change.after,
+    });
+
+    if (!recorded.ok) {
+      logger.error('Failed to audit change', recorded.error, {
+        action,
+        entityType: change.entityType,
+        entityId: change.entityId,
+      });
+    }
+  }
+}
+
+// An AuditService writing through the given (service role) client
+export function createAuditService(supabase: SupabaseClient): AuditService {
+  return new AuditService(new AuditLogRepository(supabase));
+}
@@ -0,0 +1,91 @@
+// Auto-pay runs against the migrated schema, with payments stubbed
+import { createTestDatabase, createTestUser, TestDatabase } from '../test/database';
+import { createTestClient } from '../test/postgrest';
+import { MAX_PAGE_SIZE } from '../database/pagination';
+import { Bill, BillRepository } from '../database/repositories/bills';
+import { JobRunRepository } from '../database/repositories/job-runs';
+import { Transaction } from '../database/repositories/transactions';
+import { Err, ExternalServiceError, Ok } from '../utils/errors';
+import { AutoPayService } from './auto-pay';
+
+describe('AutoPayService', () => {
+  let db: TestDatabase;
+  let bills: BillRepository;
+  let runs: JobRunRepository;
+  let userId: string;
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+    const client = createTestClient(db);
+    bills = new BillRepository(client);
+    runs = new JobRunRepository(client);
+    userId = await createTestUser(db);
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  async function autoPayBills(count: number, dueDate: string, status = 'pending'): Promise<string[]> {
+    const { rows } = await db.query<{ id: string }>(
+      `INSERT INTO bills (user_id, biller_name, biller_category, amount, currency, due_date, frequency, status, auto_pay)
+       SELECT $1, 'Council Tax', 'utilities', 10, 'GBP', $2::date, 'monthly', $4::bill_status, true
+       FROM generate_series(1, $3::int)
+       RETURNING id`,
+      [userId, dueDate, count, status]
+    );
+    return rows.map(row => row.id);
+  }
+
+  it('reaches newly due bills behind more than a page of bills that keep failing', async () => {
+    const stuck = new Set(await autoPayBills(MAX_PAGE_SIZE + 5, '2026-01-05'));
+    const [fresh] = await autoPayBills(1, '2026-02-01');
+    const payBill = jest.fn(async (billId: string) => stuck.has(billId)
+      ? Err(new ExternalServiceError('stripe', 'Card declined'))
+      : Ok({
+          bill: { id: billId } as Bill,
+          transaction: { id: `txn-${billId}` } as Transaction,
+          status: 'paid' as const,
+          replayed: false,
+        }));
+    const service = new AutoPayService(bills, { payBill }, runs);
+
+    const result = await service.run({ asOf: new Date('2026-02-01'), leadDays: 0, maxAmount: 10000 });
+
+    expect(result.ok).toBe(true);
+    const report = result.ok ? result.value : null;
+    expect(report?.checked).toBe(stuck.size + 1);
+    expect(report?.failed).toHaveLength(stuck.size);
+    expect(report?.charged).toEqual([expect.objectContaining({ billId: fresh, status: 'paid' })]);
+    expect(report?.totals).toEqual({ GBP: 10 });
+  });
+
+  it('looks at no more than limit bills', async () => {
+    const payBill = jest.fn();
+    const service = new AutoPayService(bills, { payBill }, runs);
+
+    const result = await service.run({ asOf: new Date('2026-02-01'), leadDays: 0, limit: 3, dryRun: true });
+
+    expect(result.ok && result.value.checked).toBe(3);
+    expect(payBill).not.toHaveBeenCalled();
+  });
+
+  it('pays bills that were marked overdue before it ran, but not paid or failed ones', async () => {
+    await db.query('DELETE FROM bills');
+    const [overdue] = await autoPayBills(1, '2026-01-20', 'overdue');
+    await autoPayBills(1, '2026-01-20', 'paid');
+    await autoPayBills(1, '2026-01-20', 'failed');
+    const payBill = jest.fn(async (billId: string) => Ok({
+      bill: { id: billId } as Bill,
+      transaction: { id: `txn-${billId}` } as Transaction,
+      status: 'paid' as const,
+      replayed: false,
+    }));
+    const service = new AutoPayService(bills, { payBill }, runs);
+
+    const result = await service.run({ asOf: new Date('2026-02-01'), leadDays: 0, maxAmount: 10000 });
+
+    expect(result.ok && result.value.charged).toEqual([expect.objectContaining({ billId: overdue, status: 'paid' })]);
+    expect(payBill).toHaveBeenCalledTimes(1);
+  });
+});
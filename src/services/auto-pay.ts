@@ -0,0 +1,225 @@
+// Auto-Pay Service - charges auto-pay bills as they fall due
+//
+// Flow: take the job lock -> page through auto-pay bills due within the lead time (all users)
+//       -> charge each through BillPaymentService until the per-run cap is reached
+//       -> record the report on the job run
+//
+// Charges use the default bill payment key (bill id + due date), so a bill picked up by
+// two runs, or by a run retried after a crash, is still only charged once.
+import { config } from '../config';
+import { MAX_PAGE_SIZE } from '../database/pagination';
+import { Bill, BillRepository, billRepository } from '../database/repositories/bills';
+import { JobRunRepository, jobRunRepository } from '../database/repositories/job-runs';
+import { BillPaymentService, billPaymentKey, billPaymentService } from './bill-payment';
+import { Result, Ok, Err, ConflictError, DatabaseError, ValidationError } from '../utils/errors';
+import { logger, measureAsync } from '../utils/logger';
+import { fromMoney, toMoney } from '../utils/payment-provider';
+import { formatCalendarDate, toCalendarDate } from '../utils/recurrence';
+
+export const AUTO_PAY_JOB = 'auto-pay';
+
+export interface AutoPayRunOptions {
+  // Treat this as the current time (default: now)
+  asOf?: Date;
+  // Charge bills due up to this many days ahead (default: AUTO_PAY_LEAD_DAYS)
+  leadDays?: number;
+  // Most to charge per currency in one run (default: AUTO_PAY_MAX_PER_RUN)
+  maxAmount?: number;
+  // Most bills to look at in one run (default: all that are due)
+  limit?: number;
+  // Report what would be charged without charging anything
+  dryRun?: boolean;
+}
+
+export interface AutoPayCharge {
+  billId: string;
+  userId: string;
+  amount: number;
+  currency: Bill['currency'];
+  dueDate: string;
+  // 'planned' in a dry run
+  status: 'paid' | 'processing' | 'planned';
+  transactionId?: string;
+  // True when the bill had already been charged under the same key
+  replayed?: boolean;
+}
+
+export interface AutoPayReport {
+  runId?: string;
+  dryRun: boolean;
+  asOf: string;
+  dueBy: string;
+  maxAmount: number;
+  checked: number;
+  charged: AutoPayCharge[];
+  skipped: Array<{ billId: string; reason: string }>;
+  failed: Array<{ billId: string; code: string; error: string }>;
+  // Amount charged (or planned) per currency
+  totals: Record<string, number>;
+}
+
+export class AutoPayService {
+  constructor(
+    private readonly bills: BillRepository = billRepository,
+    private readonly payments: Pick<BillPaymentService, 'payBill'> = billPaymentService,
+    private readonly runs: JobRunRepository = jobRunRepository
+  ) {}
+
+  async run(
+    options: AutoPayRunOptions = {}
+  ): Promise<Result<AutoPayReport, ConflictError | DatabaseError | ValidationError>> {
+    return measureAsync('service.autoPay.run', async () => {
+      const settings = config.get();
+      const asOf = options.asOf ?? new Date();
+      const leadDays = options.leadDays ?? settings.AUTO_PAY_LEAD_DAYS;
+      const maxAmount = options.maxAmount ?? settings.AUTO_PAY_MAX_PER_RUN;
+      const dryRun = options.dryRun ?? false;
+
+      const today = toCalendarDate(asOf);
+      const dueBy = new Date(Date.UTC(
+        today.getUTCFullYear(),
+        today.getUTCMonth(),
+        today.getUTCDate() + leadDays
+      ));
+
+      const report: AutoPayReport = {
+        dryRun,
+        asOf: asOf.toISOString(),
+        dueBy: formatCalendarDate(dueBy),
+        maxAmount,
+        checked: 0,
+        charged: [],
+        skipped: [],
+        failed: [],
+        totals: {},
+      };
+
+      // Dry runs change nothing, so they neither take the lock nor get recorded
+      let runId: string | undefined;
+      if (!dryRun) {
+        const started = await this.runs.start(AUTO_PAY_JOB);
+        if (!started.ok) {
+          return started;
+        }
+        if (!started.value) {
+          return Err(new ConflictError('Auto-pay is already running'));
+        }
+        runId = started.value.id;
+        report.runId = runId;
+      }
+
+      try {
+        // Page through every due bill, so bills that keep failing or being skipped at the
+        // front of the queue never hold back ones that fell due after them
+        const totals = new Map<string, number>();
+        let cursor: string | null = null;
+        do {
+          const remaining = (options.limit ?? Infinity) - report.checked;
+          if (remaining <= 0) {
+            break;
+          }
+
+          const page = await this.bills.findAutoPayBillsDueBy(dueBy, cursor, Math.min(remaining, MAX_PAGE_SIZE));
+          if (!page.ok) {
+            if (runId) {
+              await this.runs.fail(runId, page.error.message, report);
+            }
+            return page;
+          }
+
+          report.checked += page.value.items.length;
+          await this.chargeAll(page.value.items, report, totals, maxAmount, dryRun);
+          cursor = page.value.nextCursor;
+        } while (cursor);
+
+        for (const [currency, amount] of totals) {
+          report.totals[currency] = fromMoney({ amount, currency: currency as Bill['currency'] });
+        }
+      } catch (error) {
+        if (runId) {
+          await this.runs.fail(runId, (error as Error).message, report);
+        }
+        throw error;
+      }
+
+      if (runId) {
+        const completed = await this.runs.complete(runId, report);
+        if (!completed.ok) {
+          return completed;
+        }
+      }
+
+      logger.info('Auto-pay run finished', {
+        runId,
+        dryRun,
+        checked: report.checked,
+        charged: report.charged.length,
+        skipped: report.skipped.length,
+        failed: report.failed.length,
+        totals: report.totals,
+      });
+
+      return Ok(report);
+    });
+  }
+
+  // Charge one page of bills. totals carries the run's charges so far per currency, in
+  // minor units so the cap is not thrown off by rounding.
+  private async chargeAll(
+    bills: Bill[],
+    report: AutoPayReport,
+    totals: Map<string, number>,
+    maxAmount: number,
+    dryRun: boolean
+  ): Promise<void> {
+    const cap = (currency: Bill['currency']) => toMoney(maxAmount, currency).amount;
+
+    for (const bill of bills) {
+      const amount = toMoney(bill.amount, bill.currency).amount;
+      const charged = totals.get(bill.currency) ?? 0;
+      if (charged + amount > cap(bill.currency)) {
+        report.skipped.push({ billId: bill.id, reason: 'Run limit reached' });
+        continue;
+      }
+
+      const charge: AutoPayCharge = {
+        billId: bill.id,
+        userId: bill.user_id,
+        amount: bill.amount,
+        currency: bill.currency,
+        dueDate: formatCalendarDate(toCalendarDate(bill.due_date)),
+        status: 'planned',
+      };
+
+      if (dryRun) {
+        totals.set(bill.currency, charged + amount);
+        report.charged.push(charge);
+        continue;
+      }
+
+      const result = await this.payments.payBill(bill.id, { idempotencyKey: billPaymentKey(bill) });
+      if (!result.ok) {
+        if (result.error instanceof ConflictError) {
+          report.skipped.push({ billId: bill.id, reason: result.error.message });
+        } else {
+          report.failed.push({ billId: bill.id, code: result.error.code, error: result.error.message });
+        }
+        continue;
+      }
+
+      const outcome = result.value;
+      if (!outcome.replayed) {
+        totals.set(bill.currency, charged + amount);
+      }
+      report.charged.push({
+        ...charge,
+        status: outcome.status,
+        transactionId: outcome.transaction.id,
+        replayed: outcome.replayed,
+      });
+    }
+  }
+}
+
+// Export singleton instance
+export const autoPayService = new AutoPayService();
@@ -0,0 +1,158 @@
+// Paying bills against the migrated schema, with the payment provider stubbed
+import { createTestDatabase, createTestUser, TestDatabase } from '../test/database';
+import { createTestClient } from '../test/postgrest';
+import { BillRepository } from '../database/repositories/bills';
+import { PaymentMethodRepository } from '../database/repositories/payment-methods';
+import { TransactionRepository } from '../database/repositories/transactions';
+import { Err, ExternalServiceError, Ok, PaymentError } from '../utils/errors';
+import { PaymentProvider, PaymentProviderError, Transaction } from '../utils/payment-provider';
+import { BillPaymentService } from './bill-payment';
+
+function succeeded(providerId: string): Transaction {
+  return {
+    id: providerId,
+    providerId,
+    amount: { amount: 4250, currency: 'GBP' },
+    status: 'succeeded',
+    customerId: 'cus_test',
+    createdAt: new Date(),
+    capturedAt: new Date(),
+  };
+}
+
+describe('BillPaymentService', () => {
+  let db: TestDatabase;
+  let transactions: TransactionRepository;
+  let charge: jest.Mock;
+  let notifyPaymentQuietly: jest.Mock;
+  let service: BillPaymentService;
+  let userId: string;
+  let methodId: string;
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+    const client = createTestClient(db);
+    transactions = new TransactionRepository(client);
+    userId = await createTestUser(db);
+
+    const { rows } = await db.query<{ id: string }>(
+      `INSERT INTO payment_methods (user_id, type, provider, last_four, is_default, provider_customer_id, provider_payment_method_id)
+       VALUES ($1, 'card', 'stripe', '4242', true, 'cus_test', 'pm_test')
+       RETURNING id`,
+      [userId]
+    );
+    methodId = rows[0]!.id;
+  });
+
+  beforeEach(() => {
+    charge = jest.fn();
+    notifyPaymentQuietly = jest.fn(async () => undefined);
+    const client = createTestClient(db);
+    const provider = { name: 'stripe', charge } as unknown as PaymentProvider;
+    service = new BillPaymentService(
+      new BillRepository(client),
+      transactions,
+      new PaymentMethodRepository(client),
+      { getProviderForCurrency: async () => provider },
+      { generateNextQuietly: jest.fn(async () => undefined) },
+      { notifyPaymentQuietly }
+    );
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  async function unpaidBill(): Promise<string> {
+    const { rows } = await db.query<{ id: string }>(
+      `INSERT INTO bills (user_id, biller_name, biller_category, amount, currency, due_date, frequency, status, auto_pay, payment_method_id)
+       VALUES ($1, 'Octopus Energy', 'utilities', 42.5, 'GBP', '2026-03-15', 'monthly', 'pending', false, $2)
+       RETURNING id`,
+      [userId, methodId]
+    );
+    return rows[0]!.id;
+  }
+
+  async function stored(billId: string) {
+    const bill = await db.query<{ status: string }>(
+      'SELECT status FROM bills WHERE id = $1',
+      [billId]
+    );
+    const rows = await db.query<{ id: string; status: string; failure_reason: string | null; idempotency_key: string }>(
+      'SELECT id, status, failure_reason, idempotency_key FROM transactions WHERE bill_id = $1',
+      [billId]
+    );
+    return { bill: bill.rows[0]!, transactions: rows.rows };
+  }
+
+  it('completes the transaction and pays the bill together in one unit of work', async () => {
+    const billId = await unpaidBill();
+    charge.mockResolvedValue(Ok(succeeded('pi_paid')));
+    const unitOfWork = jest.spyOn(transactions, 'unitOfWork');
+
+    const result = await service.payBill(billId);
+
+    expect(result).toMatchObject({ ok: true, value: { status: 'paid', replayed: false } });
+    expect(unitOfWork).toHaveBeenCalledTimes(1);
+    expect(unitOfWork.mock.results[0]!.value.size).toBe(2);
+    const { bill, transactions: rows } = await stored(billId);
+    expect(bill.status).toBe('paid');
+    expect(rows).toEqual([expect.objectContaining({ status: 'completed' })]);
+    expect(notifyPaymentQuietly).toHaveBeenCalledWith(
+      expect.objectContaining({ id: billId, status: 'paid' }),
+      expect.objectContaining({ status: 'completed' }),
+      'paid'
+    );
+    unitOfWork.mockRestore();
+  });
+
+  it('returns the original transaction on a replay without charging again', async () => {
+    const billId = await unpaidBill();
+    charge.mockResolvedValue(Ok(succeeded('pi_once')));
+
+    const first = await service.payBill(billId);
+    const replay = await service.payBill(billId);
+
+    expect(charge).toHaveBeenCalledTimes(1);
+    expect(replay).toMatchObject({ ok: true, value: { status: 'paid', replayed: true } });
+    expect(first.ok && replay.ok && replay.value.transaction.id).toBe(first.ok && first.value.transaction.id);
+    expect((await stored(billId)).transactions).toHaveLength(1);
+  });
+
+  it('fails the transaction and the bill when the provider declines', async () => {
+    const billId = await unpaidBill();
+    charge.mockResolvedValue(Err(new PaymentProviderError('Your card was declined', 'card_declined', 'stripe')));
+
+    const result = await service.payBill(billId);
+
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.error).toBeInstanceOf(PaymentError);
+    const { bill, transactions: rows } = await stored(billId);
+    expect(bill.status).toBe('failed');
+    expect(rows).toEqual([
+      expect.objectContaining({ status: 'failed', failure_reason: 'Your card was declined' }),
+    ]);
+  });
+
+  it('leaves the transaction pending and the bill unpaid after a retriable error, and resumes it', async () => {
+    const billId = await unpaidBill();
+    charge.mockResolvedValueOnce(Err(new PaymentProviderError('Connection reset', 'api_connection_error', 'stripe', true)));
+
+    const result = await service.payBill(billId);
+
+    expect(!result.ok && result.error).toBeInstanceOf(ExternalServiceError);
+    const interrupted = await stored(billId);
+    expect(interrupted.bill.status).not.toBe('paid');
+    expect(interrupted.transactions).toEqual([expect.objectContaining({ status: 'pending' })]);
+
+    // The re-run resubmits the same transaction under the same key
+    charge.mockResolvedValueOnce(Ok(succeeded('pi_resumed')));
+    const resumed = await service.payBill(billId);
+
+    expect(resumed).toMatchObject({ ok: true, value: { status: 'paid', replayed: false } });
+    expect(charge.mock.calls[1]![0].idempotencyKey).toBe(interrupted.transactions[0]!.idempotency_key);
+    const { bill, transactions: rows } = await stored(billId);
+    expect(bill.status).toBe('paid');
+    expect(rows).toEqual([expect.objectContaining({ id: interrupted.transactions[0]!.id, status: 'completed' })]);
+  });
+});
@@ -0,0 +1,362 @@
+// Bill Payment Service - charges a bill through the payment provider and records the outcome
+//
+// Flow: resolve payment method -> record pending transaction -> bill 'processing'
+//       -> provider charge -> transaction 'completed' / bill 'paid'
+//                          or transaction 'failed' / bill 'failed'
+//
+// Each attempt is keyed by an idempotency key (bill id + due date by default). The key is
+// stored on the transaction and sent to the provider, so re-running a payment that was
+// interrupted resumes it instead of charging twice.
+import { Bill, BillRepository, billRepository } from '../database/repositories/bills';
+import {
+  Transaction,
+  TransactionRepository,
+  transactionRepository,
+} from '../database/repositories/transactions';
+import {
+  PaymentMethod,
+  PaymentMethodRepository,
+  paymentMethodRepository,
+} from '../database/repositories/payment-methods';
+import { paymentService } from '../infrastructure/payments';
+import { NotificationService, notificationService } from './notifications';
+import { RecurrenceService, recurrenceService } from './recurrence';
+import {
+  PaymentProvider,
+  PaymentProviderError,
+  Transaction as ProviderTransaction,
+  generateIdempotencyKey,
+  toMoney,
+} from '../utils/payment-provider';
+import {
+  Result,
+  Ok,
+  Err,
+  ConflictError,
+  DatabaseError,
+  ExternalServiceError,
+  NotFoundError,
+  PaymentError,
+  ValidationError,
+} from '../utils/errors';
+import { logger, measureAsync } from '../utils/logger';
+
+export interface PayBillOptions {
+  // Charge this payment method instead of the bill's own or the user's default
+  paymentMethodId?: string;
+  // Override the default key, e.g. to retry a payment that has already failed
+  idempotencyKey?: string;
+}
+
+export interface BillPaymentOutcome {
+  bill: Bill;
+  transaction: Transaction;
+  // 'processing' when the provider has accepted the charge but not settled it yet
+  status: 'paid' | 'processing';
+  // True when the payment had already completed under the same idempotency key
+  replayed: boolean;
+}
+
+export type BillPaymentError =
+  | DatabaseError
+  | NotFoundError
+  | ValidationError
+  | ConflictError
+  | PaymentError
+  | ExternalServiceError;
+
+type PaymentProviderResolver = Pick<typeof paymentService, 'getProviderForCurrency'>;
+
+// Default idempotency key: one payment per bill per due date
+export function billPaymentKey(bill: Pick<Bill, 'id' | 'due_date'>): string {
+  return generateIdempotencyKey({
+    billId: bill.id,
+    dueDate: new Date(bill.due_date).toISOString().slice(0, 10),
+  });
+}
+
+export class BillPaymentService {
+  constructor(
+    private readonly bills: BillRepository = billRepository,
+    private readonly transactions: TransactionRepository = transactionRepository,
+    private readonly paymentMethods: PaymentMethodRepository = paymentMethodRepository,
+    private readonly providers: PaymentProviderResolver = paymentService,
+    private readonly recurrence: Pick<RecurrenceService, 'generateNextQuietly'> = recurrenceService,
+    private readonly notifier: Pick<NotificationService, 'notifyPaymentQuietly'> = notificationService
+  ) {}
+
+  async payBill(
+    billId: string,
+    options: PayBillOptions = {}
+  ): Promise<Result<BillPaymentOutcome, BillPaymentError>> {
+    return measureAsync('service.billPayment.payBill', async () => {
+      const billResult = await this.bills.findByIdOrThrow(billId);
+      if (!billResult.ok) {
+        return billResult;
+      }
+
+      const bill = billResult.value;
+      if (bill.deleted_at || bill.status === 'cancelled') {
+        return Err(new ValidationError('Bill cannot be paid', { billId, status: bill.status }));
+      }
+
+      const idempotencyKey = options.idempotencyKey ?? billPaymentKey(bill);
+      const existingResult = await this.transactions.findByIdempotencyKey(idempotencyKey);
+      if (!existingResult.ok) {
+        return existingResult;
+      }
+
+      const existing = existingResult.value;
+      if (existing) {
+        const settled = await this.settleExisting(bill, existing);
+        if (settled) {
+          return settled;
+        }
+      } else if (bill.status === 'paid') {
+        return Err(new ConflictError('Bill has already been paid', { billId }));
+      } else if (bill.status === 'processing') {
+        return Err(new ConflictError('A payment for this bill is already in progress', { billId }));
+      }
+
+      const methodResult = await this.resolvePaymentMethod(
+        bill,
+        options.paymentMethodId ?? existing?.payment_method_id
+      );
+      if (!methodResult.ok) {
+        return methodResult;
+      }
+      const method = methodResult.value;
+
+      let provider: PaymentProvider;
+      try {
+        provider = await this.providers.getProviderForCurrency(bill.currency);
+      } catch (error) {
+        return Err(new ExternalServiceError('payments', (error as Error).message, error as Error));
+      }
+
+      const transactionResult = existing
+        ? Ok(existing)
+        : await this.transactions.createIdempotent({
+            bill_id: bill.id,
+            user_id: bill.user_id,
+            amount: bill.amount,
+            currency: bill.currency,
+            payment_method: method.type === 'card' ? 'card' : 'bank_transfer',
+            payment_method_id: method.id,
+            idempotency_key: idempotencyKey,
+            status: 'pending',
+            metadata: { provider: provider.name },
+          });
+      if (!transactionResult.ok) {
+        return transactionResult;
+      }
+      const transaction = transactionResult.value;
+
+      let processingBill = bill;
+      if (bill.status !== 'processing') {
+        const updated = await this.bills.update(bill.id, { status: 'processing' });
+        if (!updated.ok) {
+          return updated;
+        }
+        processingBill = updated.value;
+      }
+
+      const chargeResult = await provider.charge({
+        amount: toMoney(bill.amount, bill.currency),
+        customerId: method.provider_customer_id!,
+        paymentMethodId: method.provider_payment_method_id!,
+        description: bill.biller_name,
+        metadata: {
+          bill_id: bill.id,
+          transaction_id: transaction.id,
+          user_id: bill.user_id,
+        },
+        idempotencyKey,
+        captureImmediately: true,
+      });
+
+      if (!chargeResult.ok) {
+        return this.handleChargeError(processingBill, transaction, chargeResult.error);
+      }
+
+      return this.recordCharge(processingBill, transaction, provider.name, chargeResult.value);
+    });
+  }
+
+  // Finish off a transaction left by an earlier attempt with the same key.
+  // Returns null when the payment should be (re)submitted to the provider.
+  private async settleExisting(
+    bill: Bill,
+    transaction: Transaction
+  ): Promise<Result<BillPaymentOutcome, BillPaymentError> | null> {
+    switch (transaction.status) {
+      case 'completed': {
+        if (bill.status === 'paid') {
+          return Ok({ bill, transaction, status: 'paid', replayed: true });
+        }
+        const paid = await this.bills.markAsPaid(bill, transaction.id);
+        if (!paid.ok) {
+          return paid;
+        }
+        await this.recurrence.generateNextQuietly(paid.value);
+        await this.notifier.notifyPaymentQuietly(paid.value, transaction, 'paid');
+        return Ok({ bill: paid.value, transaction, status: 'paid', replayed: true });
+      }
+      case 'failed': {
+        if (bill.status !== 'failed') {
+          const failed = await this.bills.markAsFailed(
+            bill,
+            transaction.failure_reason ?? 'Payment failed',
+            transaction.metadata?.['failure_code']
+          );
+          if (!failed.ok) {
+            return failed;
+          }
+        }
+        return Err(this.toPaymentError(transaction));
+      }
+      case 'refunded':
+        return Err(new ConflictError('Payment has been refunded', { transactionId: transaction.id }));
+      default:
+        return null;
+    }
+  }
+
+  private async resolvePaymentMethod(
+    bill: Bill,
+    paymentMethodId?: string
+  ): Promise<Result<PaymentMethod, BillPaymentError>> {
+    const id = paymentMethodId ?? bill.payment_method_id;
+    const result = id
+      ? await this.paymentMethods.findById(id)
+      : await this.paymentMethods.findDefaultForUser(bill.user_id);
+    if (!result.ok) {
+      return result;
+    }
+
+    const method = result.value;
+    if (!method || method.user_id !== bill.user_id) {
+      return Err(new ValidationError('No payment method available for this bill', {
+        billId: bill.id,
+        paymentMethodId: id,
+      }));
+    }
+
+    if (!method.provider_customer_id || !method.provider_payment_method_id) {
+      return Err(new ValidationError('Payment method is not linked to a payment provider', {
+        paymentMethodId: method.id,
+      }));
+    }
+
+    return Ok(method);
+  }
+
+  private async recordCharge(
+    bill: Bill,
+    transaction: Transaction,
+    providerName: string,
+    charge: ProviderTransaction
+  ): Promise<Result<BillPaymentOutcome, BillPaymentError>> {
+    if (charge.status === 'failed' || charge.status === 'cancelled') {
+      return this.recordFailure(
+        bill,
+        transaction,
+        providerName,
+        charge.failureMessage ?? 'Payment failed',
+        charge.failureCode,
+        charge.providerId
+      );
+    }
+
+    if (charge.status !== 'succeeded') {
+      const updated = await this.transactions.update(transaction.id, {
+        status: 'processing',
+        external_transaction_id: charge.providerId,
+      });
+      if (!updated.ok) {
+        return updated;
+      }
+
+      // Settled later by the provider's webhook
+      logger.info('Bill payment submitted', { billId: bill.id, transactionId: transaction.id });
+      return Ok({ bill, transaction: updated.value, status: 'processing', replayed: false });
+    }
+
+    // Complete the transaction and mark the bill paid together, so neither is left without the other
+    const unit = this.transactions.unitOfWork();
+    const updated = this.transactions.updateIn(unit, transaction.id, {
+      status: 'completed',
+      external_transaction_id: charge.providerId,
+      processed_at: charge.capturedAt ?? new Date(),
+    });
+    const paid = this.bills.markAsPaidIn(unit, bill, transaction.id);
+    const committed = await unit.commit();
+    if (!committed.ok) {
+      return committed;
+    }
+
+    await this.recurrence.generateNextQuietly(paid.row);
+    await this.notifier.notifyPaymentQuietly(paid.row, updated.row, 'paid');
+
+    logger.info('Bill paid', { billId: bill.id, transactionId: transaction.id, provider: providerName });
+    return Ok({ bill: paid.row, transaction: updated.row, status: 'paid', replayed: false });
+  }
+
+  private async handleChargeError(
+    bill: Bill,
+    transaction: Transaction,
+    error: PaymentProviderError
+  ): Promise<Result<BillPaymentOutcome, BillPaymentError>> {
+    // The outcome of a retriable error is unknown: leave the transaction pending so a
+    // re-run resubmits it under the same idempotency key
+    if (error.retriable) {
+      logger.warn('Bill payment interrupted', {
+        billId: bill.id,
+        transactionId: transaction.id,
+        code: error.code,
+      });
+      return Err(new ExternalServiceError(error.provider, error.message, error));
+    }
+
+    return this.recordFailure(bill, transaction, error.provider, error.message, error.code);
+  }
+
+  private async recordFailure(
+    bill: Bill,
+    transaction: Transaction,
+    providerName: string,
+    reason: string,
+    failureCode?: string,
+    externalId?: string
+  ): Promise<Result<BillPaymentOutcome, BillPaymentError>> {
+    const unit = this.transactions.unitOfWork();
+    const updated = this.transactions.updateIn(unit, transaction.id, {
+      status: 'failed',
+      failure_reason: reason,
+      processed_at: new Date(),
+      metadata: { ...transaction.metadata, provider: providerName, failure_code: failureCode },
+      ...(externalId && { external_transaction_id: externalId }),
+    });
+    const failed = this.bills.markAsFailedIn(unit, bill, reason, failureCode);
+    const committed = await unit.commit();
+    if (!committed.ok) {
+      return committed;
+    }
+    await this.notifier.notifyPaymentQuietly(failed.row, updated.row, 'failed');
+
+    logger.warn('Bill payment failed', { billId: bill.id, transactionId: transaction.id, failureCode });
+    return Err(this.toPaymentError(updated.row));
+  }
+
+  private toPaymentError(transaction: Transaction): PaymentError {
+    return new PaymentError(
+      transaction.failure_reason ?? 'Payment failed',
+      transaction.metadata?.['provider'] ?? 'unknown',
+      transaction.metadata?.['failure_code'],
+      { billId: transaction.bill_id, transactionId: transaction.id }
+    );
+  }
+}
+
+// Export singleton instance
+export const billPaymentService = new BillPaymentService();
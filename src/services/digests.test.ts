@@ -0,0 +1,68 @@
+// Choosing digest recipients against the migrated schema
+import { createTestDatabase, TestDatabase } from '../test/database';
+import { createTestClient } from '../test/postgrest';
+import { MAX_PAGE_SIZE } from '../database/pagination';
+import { BillRepository } from '../database/repositories/bills';
+import { NotificationPreferenceRepository } from '../database/repositories/notification-preferences';
+import { NotificationRepository } from '../database/repositories/notifications';
+import { ProfileRepository } from '../database/repositories/profiles';
+import { DigestService } from './digests';
+
+const CONTEXT = { appName: 'BillPaymentApp', appUrl: 'http://localhost:3000' };
+
+describe('DigestService recipients', () => {
+  let db: TestDatabase;
+  let service: DigestService;
+  let digestUsers: string[];
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+    const client = createTestClient(db);
+    service = new DigestService(
+      new BillRepository(client),
+      new NotificationRepository(client),
+      new ProfileRepository(client),
+      new NotificationPreferenceRepository(client),
+      CONTEXT
+    );
+
+    // More digest users than fit in a page, plus users the digest should pass over
+    const { rows } = await db.query<{ id: string; delivery_mode: string; email_enabled: boolean }>(
+      `WITH users AS (
+         INSERT INTO auth.users (email)
+         SELECT 'user' || n || '@example.test' FROM generate_series(1, $1::int) n
+         RETURNING id
+       )
+       INSERT INTO notification_preferences (id, delivery_mode, email_enabled)
+       SELECT id,
+              CASE WHEN row_number() OVER () % 10 = 0 THEN 'instant' ELSE 'digest' END,
+              row_number() OVER () % 15 <> 0
+       FROM users
+       RETURNING id, delivery_mode, email_enabled`,
+      [MAX_PAGE_SIZE * 2]
+    );
+    digestUsers = rows
+      .filter(row => row.delivery_mode === 'digest' && row.email_enabled)
+      .map(row => row.id);
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  it('looks at every user who chose digests, across pages', async () => {
+    const result = await service.run('weekly', { asOf: new Date('2026-03-02T12:00:00Z'), preview: true });
+
+    expect(digestUsers.length).toBeGreaterThan(MAX_PAGE_SIZE);
+    expect(result.ok).toBe(true);
+    const report = result.ok ? result.value : null;
+    expect(report?.checked).toBe(digestUsers.length);
+    expect(report?.digests.map(digest => digest.userId).sort()).toEqual([...digestUsers].sort());
+  });
+
+  it('stops at limit users', async () => {
+    const result = await service.run('weekly', { asOf: new Date('2026-03-02T12:00:00Z'), preview: true, limit: 7 });
+
+    expect(result.ok && result.value.checked).toBe(7);
+  });
+});
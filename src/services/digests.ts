@@ -0,0 +1,315 @@
+// Digest Service - one summary email instead of a message per bill
+//
+// Weekly: the bills due in the user's coming week, plus anything overdue.
+// Monthly: a recap of the previous month's spending, compared with the month before.
+//
+// Digests go to users who chose digest delivery in their notification preferences (their
+// reminders and overdue notices are held back for it). Each digest is recorded in
+// notifications with a dedupe key for its week or month, so the job can run as often as
+// needed, and is sent with the other notifications by the usual delivery and retries.
+import { MAX_PAGE_SIZE } from '../database/pagination';
+import { Bill, BillRepository, billRepository } from '../database/repositories/bills';
+import {
+  NotificationPreferenceRepository,
+  NotificationPreferenceValues,
+  notificationPreferenceRepository,
+} from '../database/repositories/notification-preferences';
+import { NotificationRepository, notificationRepository } from '../database/repositories/notifications';
+import { ProfileRepository, profileRepository } from '../database/repositories/profiles';
+import {
+  EmailContext,
+  RenderedEmail,
+  emailContext,
+  renderDigestEmail,
+  summarizeDigest,
+} from '../infrastructure/notifications';
+import {
+  DigestBill,
+  DigestData,
+  MonthlyDigestData,
+  WeeklyDigestData,
+} from '../utils/notification-channel';
+import { Result, Ok, DatabaseError, ValidationError } from '../utils/errors';
+import { logger, measureAsync } from '../utils/logger';
+import { localCalendarDate } from '../utils/quiet-hours';
+import { formatCalendarDate, toCalendarDate } from '../utils/recurrence';
+
+export type DigestKind = DigestData['kind'];
+
+export interface DigestRunOptions {
+  // Treat this as the current time (default: now)
+  asOf?: Date;
+  // Only these users, whatever their delivery mode (default: everyone who chose digests)
+  userIds?: string[];
+  // Most users to look at in one run (default: all)
+  limit?: number;
+  // Build and render the digests without recording anything
+  preview?: boolean;
+}
+
+export interface DigestOutcome {
+  userId: string;
+  // 'empty': nothing to report; 'already_queued': this week's or month's digest exists
+  status: 'queued' | 'already_queued' | 'empty' | 'no_email' | 'preview';
+  subject?: string;
+  notificationId?: string;
+  // Preview only
+  email?: RenderedEmail & { to: string };
+}
+
+export interface DigestReport {
+  kind: DigestKind;
+  preview: boolean;
+  asOf: string;
+  checked: number;
+  digests: DigestOutcome[];
+  failed: Array<{ userId: string; error: string }>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+// Sums of decimal amounts pick up floating point noise
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function toDigestBill(bill: Bill): DigestBill {
+  return {
+    billId: bill.id,
+    billerName: bill.biller_name,
+    amount: bill.amount,
+    currency: bill.currency,
+    dueDate: formatCalendarDate(toCalendarDate(bill.due_date)),
+    autoPay: bill.auto_pay,
+  };
+}
+
+// The dedupe window: the Monday of the week, or the month recapped
+function digestWindow(data: DigestData): string {
+  if (data.kind === 'monthly') {
+    return data.periodStart.slice(0, 7);
+  }
+  const start = toCalendarDate(data.periodStart);
+  return formatCalendarDate(addDays(start, -((start.getUTCDay() + 6) % 7)));
+}
+
+export class DigestService {
+  constructor(
+    private readonly bills: BillRepository = billRepository,
+    private readonly notifications: NotificationRepository = notificationRepository,
+    private readonly profiles: ProfileRepository = profileRepository,
+    private readonly preferences: Pick<
+      NotificationPreferenceRepository,
+      'findForUsers' | 'findDigestRecipients'
+    > = notificationPreferenceRepository,
+    private readonly context: EmailContext = emailContext()
+  ) {}
+
+  async run(
+    kind: DigestKind,
+    options: DigestRunOptions = {}
+  ): Promise<Result<DigestReport, DatabaseError | ValidationError>> {
+    return measureAsync(`service.digests.${kind}`, async () => {
+      const asOf = options.asOf ?? new Date();
+      const preview = options.preview ?? false;
+
+      const recipients = await this.recipients(options);
+      if (!recipients.ok) {
+        return recipients;
+      }
+
+      const report: DigestReport = {
+        kind,
+        preview,
+        asOf: asOf.toISOString(),
+        checked: recipients.value.size,
+        digests: [],
+        failed: [],
+      };
+
+      // One user's failure should not hold back everyone else's digest
+      for (const [userId, preferences] of recipients.value) {
+        const outcome = await this.digestFor(kind, userId, preferences, asOf, preview);
+        if (outcome.ok) {
+          report.digests.push(outcome.value);
+        } else {
+          logger.error('Failed to build digest', outcome.error, { userId, kind });
+          report.failed.push({ userId, error: outcome.error.message });
+        }
+      }
+
+      return Ok(report);
+    });
+  }
+
+  // The week ahead in the user's time zone: today and the six days after
+  async buildWeekly(
+    userId: string,
+    preferences: NotificationPreferenceValues,
+    asOf: Date = new Date()
+  ): Promise<Result<WeeklyDigestData | null, DatabaseError>> {
+    const today = toCalendarDate(localCalendarDate(asOf, preferences.timezone));
+    const periodEnd = formatCalendarDate(addDays(today, 6));
+
+    const schedule = await this.bills.getPaymentSchedule(userId, 7, today);
+    if (!schedule.ok) {
+      return schedule;
+    }
+    const overdue = await this.bills.findOverdueForUser(userId, today);
+    if (!overdue.ok) {
+      return overdue;
+    }
+
+    const upcoming = schedule.value
+      .map(entry => toDigestBill(entry.bill))
+      .filter(bill => bill.dueDate <= periodEnd);
+    if (upcoming.length === 0 && overdue.value.length === 0) {
+      return Ok(null);
+    }
+
+    return Ok({
+      kind: 'weekly',
+      periodStart: formatCalendarDate(today),
+      periodEnd,
+      upcoming,
+      overdue: overdue.value.map(toDigestBill),
+    });
+  }
+
+  // The calendar month before the current one (in the user's time zone)
+  async buildMonthly(
+    userId: string,
+    preferences: NotificationPreferenceValues,
+    asOf: Date = new Date()
+  ): Promise<Result<MonthlyDigestData | null, DatabaseError>> {
+    const today = toCalendarDate(localCalendarDate(asOf, preferences.timezone));
+    const year = today.getUTCFullYear();
+    const month = today.getUTCMonth();
+
+    const start = new Date(Date.UTC(year, month - 1, 1));
+    const end = new Date(Date.UTC(year, month, 0));
+    const summary = await this.bills.getSpendingSummary(userId, start, end);
+    if (!summary.ok) {
+      return summary;
+    }
+    if (summary.value.billCount === 0) {
+      return Ok(null);
+    }
+
+    const previous = await this.bills.getSpendingSummary(
+      userId,
+      new Date(Date.UTC(year, month - 2, 1)),
+      new Date(Date.UTC(year, month - 1, 0))
+    );
+    if (!previous.ok) {
+      return previous;
+    }
+
+    const paid = summary.value.byStatus['paid'];
+    return Ok({
+      kind: 'monthly',
+      periodStart: formatCalendarDate(start),
+      periodEnd: formatCalendarDate(end),
+      currency: summary.value.currency,
+      totalAmount: roundAmount(summary.value.totalAmount),
+      billCount: summary.value.billCount,
+      paidAmount: roundAmount(paid?.amount ?? 0),
+      paidCount: paid?.count ?? 0,
+      byCategory: Object.entries(summary.value.byCategory)
+        .map(([category, { amount, count }]) => ({ category, amount: roundAmount(amount), count }))
+        .sort((a, b) => b.amount - a.amount),
+      previousTotalAmount: previous.value.billCount > 0 ? roundAmount(previous.value.totalAmount) : null,
+    });
+  }
+
+  private async recipients(
+    options: DigestRunOptions
+  ): Promise<Result<Map<string, NotificationPreferenceValues>, DatabaseError | ValidationError>> {
+    if (options.userIds) {
+      return this.preferences.findForUsers(options.userIds.slice(0, options.limit));
+    }
+
+    // Page through every recipient; a single capped query would leave the rest without digests
+    const recipients = new Map<string, NotificationPreferenceValues>();
+    const limit = options.limit ?? Infinity;
+    let cursor: string | null = null;
+    do {
+      const page = await this.preferences.findDigestRecipients(
+        cursor,
+        Math.min(limit - recipients.size, MAX_PAGE_SIZE)
+      );
+      if (!page.ok) {
+        return page;
+      }
+      for (const { id, created_at, updated_at, ...values } of page.value.items) {
+        recipients.set(id, values);
+      }
+      cursor = page.value.nextCursor;
+    } while (cursor && recipients.size < limit);
+
+    return Ok(recipients);
+  }
+
+  private async digestFor(
+    kind: DigestKind,
+    userId: string,
+    preferences: NotificationPreferenceValues,
+    asOf: Date,
+    preview: boolean
+  ): Promise<Result<DigestOutcome, DatabaseError>> {
+    const profile = await this.profiles.findById(userId);
+    if (!profile.ok) {
+      return profile;
+    }
+    if (!profile.value?.email) {
+      return Ok({ userId, status: 'no_email' });
+    }
+
+    const data = kind === 'weekly'
+      ? await this.buildWeekly(userId, preferences, asOf)
+      : await this.buildMonthly(userId, preferences, asOf);
+    if (!data.ok) {
+      return data;
+    }
+    if (!data.value) {
+      return Ok({ userId, status: 'empty' });
+    }
+
+    const { subject, message } = summarizeDigest(data.value);
+    if (preview) {
+      const email = renderDigestEmail(data.value, {
+        ...this.context,
+        ...(profile.value.full_name && { recipientName: profile.value.full_name }),
+      });
+      return Ok({ userId, status: 'preview', subject, email: { ...email, to: profile.value.email } });
+    }
+
+    const type = kind === 'weekly' ? 'weekly_digest' : 'monthly_digest';
+    const created = await this.notifications.createIfAbsent({
+      user_id: userId,
+      type,
+      channel: 'email',
+      subject,
+      message,
+      dedupe_key: `${type}:${userId}:${digestWindow(data.value)}:email`,
+      metadata: data.value,
+    });
+    if (!created.ok) {
+      return created;
+    }
+
+    return Ok({
+      userId,
+      status: created.value.created ? 'queued' : 'already_queued',
+      subject,
+      notificationId: created.value.notification.id,
+    });
+  }
+}
+
+// Export singleton instance
+export const digestService = new DigestService();
@@ -0,0 +1,107 @@
+// Queueing and delivering bill notifications against the migrated schema, through
+// in-memory channels
+import { createTestDatabase, createTestUser, TestDatabase } from '../test/database';
+import { createTestClient } from '../test/postgrest';
+import { MAX_PAGE_SIZE } from '../database/pagination';
+import { BillRepository } from '../database/repositories/bills';
+import { NotificationPreferenceRepository } from '../database/repositories/notification-preferences';
+import { NotificationRepository } from '../database/repositories/notifications';
+import { ProfileRepository } from '../database/repositories/profiles';
+import { PushSubscriptionRepository } from '../database/repositories/push-subscriptions';
+import { NotificationChannelRegistry } from '../infrastructure/notifications';
+import { FakeNotificationChannel } from '../infrastructure/notifications/fake';
+import { DatabaseError, Err } from '../utils/errors';
+import { NotificationService } from './notifications';
+
+const AS_OF = new Date('2026-03-01T12:00:00Z');
+
+describe('NotificationService', () => {
+  let db: TestDatabase;
+  let bills: BillRepository;
+  let notifications: NotificationRepository;
+  let email: FakeNotificationChannel;
+  let service: NotificationService;
+  let userId: string;
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+    const client = createTestClient(db);
+    bills = new BillRepository(client);
+    notifications = new NotificationRepository(client);
+    email = new FakeNotificationChannel('email');
+    service = new NotificationService(
+      notifications,
+      bills,
+      new ProfileRepository(client),
+      new NotificationChannelRegistry([email]),
+      new PushSubscriptionRepository(client),
+      new NotificationPreferenceRepository(client)
+    );
+    userId = await createTestUser(db, 'payer@example.test');
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  async function unpaidBills(count: number, dueDate: string, reminderDays: number | null = null): Promise<void> {
+    await db.query(
+      `INSERT INTO bills (user_id, biller_name, biller_category, amount, currency, due_date, frequency, status, auto_pay, reminder_days)
+       SELECT $1, 'Octopus Energy', 'utilities', 64.2, 'GBP', $2::date, 'monthly', 'pending', false, $4::int
+       FROM generate_series(1, $3::int)`,
+      [userId, dueDate, count, reminderDays]
+    );
+  }
+
+  it('queues and sends a reminder once the window opens', async () => {
+    await unpaidBills(1, '2026-03-03', 3);
+
+    const queued = await service.queueReminders(AS_OF);
+    const delivered = await service.deliverPending();
+
+    expect(queued).toMatchObject({ ok: true, value: { checked: 1, queued: 1 } });
+    expect(delivered).toMatchObject({ ok: true, value: { sent: 1 } });
+    expect(email.sent).toEqual([
+      expect.objectContaining({
+        notification: expect.objectContaining({ subject: 'Octopus Energy bill due 3 Mar 2026' }),
+        recipient: expect.objectContaining({ email: 'payer@example.test' }),
+      }),
+    ]);
+  });
+
+  it('queues an overdue notice for every overdue bill, however many pages they fill', async () => {
+    const count = MAX_PAGE_SIZE + 5;
+    await unpaidBills(count, '2026-02-01');
+
+    const first = await service.queueOverdueNotices(AS_OF);
+    const second = await service.queueOverdueNotices(AS_OF);
+
+    expect(first).toMatchObject({ ok: true, value: { checked: count, queued: count } });
+    // Already notified for this due date
+    expect(second).toMatchObject({ ok: true, value: { checked: count, queued: 0 } });
+  });
+
+  it('retries a send the channel failed', async () => {
+    email.reset();
+    email.failNext(1);
+
+    const delivered = await service.deliverPending(1);
+
+    expect(delivered).toMatchObject({ ok: true, value: { retrying: 1, sent: 0 } });
+    expect(email.sent).toHaveLength(0);
+  });
+
+  it('records a notification it could not claim and carries on with the rest', async () => {
+    email.reset();
+    const claim = jest.spyOn(notifications, 'claim').mockResolvedValueOnce(Err(new DatabaseError('claim')));
+
+    const delivered = await service.deliverPending(2);
+
+    expect(delivered).toMatchObject({
+      ok: true,
+      value: { checked: 2, sent: 1, errors: [{ error: "Database operation 'claim' failed" }] },
+    });
+    expect(email.sent).toHaveLength(1);
+    claim.mockRestore();
+  });
+});
@@ -0,0 +1,611 @@
+// Notification Service - turns bill and payment events into notifications and sends them
+//
+// Flow: event (reminder window opens, bill overdue, payment paid/failed)
+//       -> one notifications row per channel that can reach the user, keyed by a dedupe key
+//       -> claim -> channel adapter -> 'sent'
+//                                   or 'retrying' (with backoff) / 'failed' (gave up)
+//       -> provider delivery receipt (SMS) -> 'delivered' / 'failed'
+//
+// Channels with quiet hours defer a send before it is claimed, so the wait does not
+// count as an attempt.
+//
+// Dedupe keys are built from the bill and its due date (or the transaction), so however
+// often the queueing runs, each bill and reminder window produces one message per channel.
+//
+// Each user's notification preferences decide which channels are used, how many days
+// ahead bills without their own reminder_days are reminded, their quiet hours, and
+// whether reminders and overdue notices wait for the digest instead.
+import { CursorPage, MAX_PAGE_SIZE } from '../database/pagination';
+import { Bill, BillRepository, billRepository } from '../database/repositories/bills';
+import {
+  Notification,
+  NotificationRepository,
+  notificationRepository,
+} from '../database/repositories/notifications';
+import {
+  NotificationPreferenceRepository,
+  NotificationPreferenceValues,
+  isChannelEnabled,
+  notificationPreferenceRepository,
+  preferredQuietHours,
+} from '../database/repositories/notification-preferences';
+import { ProfileRepository, profileRepository } from '../database/repositories/profiles';
+import {
+  PushSubscriptionRepository,
+  pushSubscriptionRepository,
+} from '../database/repositories/push-subscriptions';
+import { Transaction } from '../database/repositories/transactions';
+import {
+  NotificationChannelRegistry,
+  notificationChannels,
+} from '../infrastructure/notifications';
+import {
+  BillNotificationData,
+  NotificationChannelError,
+  NotificationType,
+  OutboundNotification,
+  Recipient,
+} from '../utils/notification-channel';
+import { Result, Ok, DatabaseError, NotFoundError, ValidationError } from '../utils/errors';
+import { formatCurrency, formatDate } from '../utils/format';
+import { logger, measureAsync } from '../utils/logger';
+import { localCalendarDate } from '../utils/quiet-hours';
+import { formatCalendarDate, toCalendarDate } from '../utils/recurrence';
+
+// Attempts per notification before giving up
+const MAX_ATTEMPTS = 5;
+// First retry after 5 minutes, then 10, 20, 40
+const RETRY_BASE_MS = 5 * 60 * 1000;
+// How long a claimed send may take before another dispatcher retries it
+const SEND_LEASE_MS = 10 * 60 * 1000;
+// reminder_days is at most 30 (see the bill form and notification preferences)
+const MAX_REMINDER_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface NotificationContent {
+  subject: string;
+  message: string;
+}
+
+export interface NotificationQueueReport {
+  checked: number;
+  queued: number;
+}
+
+export interface NotificationDeliveryReport {
+  checked: number;
+  sent: number;
+  retrying: number;
+  failed: number;
+  // Put off until the channel's quiet hours end
+  deferred: number;
+  // Claimed by another dispatcher first
+  skipped: number;
+  // Notifications a database error stopped; they are picked up again by a later run
+  errors: Array<{ notificationId: string; error: string }>;
+}
+
+export type DeliveryStatus = 'sent' | 'retrying' | 'failed' | 'deferred' | 'skipped';
+
+export interface ResendOutcome {
+  // The new copy; the original keeps its own delivery history
+  notification: Notification;
+  status: DeliveryStatus;
+}
+
+// A user as the channels see them, plus what they asked for
+interface Contact {
+  recipient: Recipient;
+  preferences: NotificationPreferenceValues;
+}
+
+// Whether a bill's reminder window has opened, counting days in the user's time zone.
+// The bill's own reminder_days wins over the user's default.
+export function isReminderDue(
+  bill: Pick<Bill, 'due_date' | 'reminder_days'>,
+  preferences: NotificationPreferenceValues,
+  asOf: Date = new Date()
+): boolean {
+  const today = toCalendarDate(localCalendarDate(asOf, preferences.timezone));
+  const daysLeft = Math.round((toCalendarDate(bill.due_date).getTime() - today.getTime()) / DAY_MS);
+  return daysLeft >= 0 && daysLeft <= (bill.reminder_days ?? preferences.reminder_days);
+}
+
+// Plain-text subject and body for a bill notification
+export function renderNotification(
+  type: NotificationType,
+  data: BillNotificationData
+): NotificationContent {
+  const amount = formatCurrency(data.amount, data.currency);
+  const dueDate = formatDate(data.dueDate);
+
+  switch (type) {
+    case 'reminder':
+      return {
+        subject: `${data.billerName} bill due ${dueDate}`,
+        message: data.autoPay
+          ? `Your ${data.billerName} bill of ${amount} is due on ${dueDate}. We'll pay it automatically.`
+          : `Your ${data.billerName} bill of ${amount} is due on ${dueDate}.`,
+      };
+    case 'overdue':
+      return {
+        subject: `${data.billerName} bill is overdue`,
+        message: `Your ${data.billerName} bill of ${amount} was due on ${dueDate} and has not been paid yet.`,
+      };
+    case 'payment_success':
+      return {
+        subject: `Payment sent to ${data.billerName}`,
+        message: `We've paid ${amount} to ${data.billerName} for your bill due on ${dueDate}.`,
+      };
+    case 'payment_failed':
+      return {
+        subject: `Payment to ${data.billerName} failed`,
+        message: `We couldn't pay ${amount} to ${data.billerName}` +
+          `${data.failureReason ? `: ${data.failureReason}` : ''}. ` +
+          'Please check your payment method and try again.',
+      };
+    default:
+      return { subject: 'Account update', message: 'There is an update on your account.' };
+  }
+}
+
+export class NotificationService {
+  constructor(
+    private readonly notifications: NotificationRepository = notificationRepository,
+    private readonly bills: BillRepository = billRepository,
+    private readonly profiles: ProfileRepository = profileRepository,
+    private readonly channels: Pick<NotificationChannelRegistry, 'get' | 'list'> = notificationChannels,
+    private readonly pushSubscriptions: Pick<
+      PushSubscriptionRepository,
+      'findByUserId' | 'touch' | 'removeByEndpoints'
+    > = pushSubscriptionRepository,
+    private readonly preferences: Pick<
+      NotificationPreferenceRepository,
+      'findForUser' | 'findForUsers'
+    > = notificationPreferenceRepository
+  ) {}
+
+  // Queue reminders for bills whose reminder window has opened
+  async queueReminders(
+    asOf: Date = new Date()
+  ): Promise<Result<NotificationQueueReport, DatabaseError | ValidationError>> {
+    return measureAsync('service.notifications.queueReminders', async () => {
+      // A day either side covers every time zone; isReminderDue decides per user
+      const from = new Date(asOf.getTime() - DAY_MS);
+      const to = new Date(asOf.getTime() + (MAX_REMINDER_DAYS + 1) * DAY_MS);
+
+      return this.queueForPages(
+        cursor => this.bills.findDueBetween(from, to, cursor, MAX_PAGE_SIZE),
+        'reminder',
+        (bill, preferences) => preferences.delivery_mode === 'instant' && isReminderDue(bill, preferences, asOf)
+      );
+    });
+  }
+
+  // Queue one overdue notice per bill and due date
+  async queueOverdueNotices(
+    asOf: Date = new Date()
+  ): Promise<Result<NotificationQueueReport, DatabaseError | ValidationError>> {
+    return measureAsync('service.notifications.queueOverdueNotices', async () => {
+      // Digest users see overdue bills in their digest instead
+      return this.queueForPages(
+        cursor => this.bills.findOverdue(asOf, cursor, MAX_PAGE_SIZE),
+        'overdue',
+        (_bill, preferences) => preferences.delivery_mode === 'instant'
+      );
+    });
+  }
+
+  // Tell the user how a payment went, sending straight away rather than waiting for the next run
+  async notifyPayment(
+    bill: Bill,
+    transaction: Transaction,
+    outcome: 'paid' | 'failed'
+  ): Promise<Result<Notification[], DatabaseError>> {
+    return measureAsync('service.notifications.notifyPayment', async () => {
+      const type = outcome === 'paid' ? 'payment_success' : 'payment_failed';
+      const queued = await this.queue(bill, type, transaction.id, {
+        transactionId: transaction.id,
+        ...(transaction.failure_reason && { failureReason: transaction.failure_reason }),
+      });
+      if (!queued.ok) {
+        return queued;
+      }
+
+      for (const notification of queued.value) {
+        const delivered = await this.deliver(notification);
+        if (!delivered.ok) {
+          return delivered;
+        }
+      }
+
+      return queued;
+    });
+  }
+
+  // Like notifyPayment, but failures are only logged. Used from the payment paths, where
+  // the payment outcome must not depend on the notification; the dispatcher retries.
+  async notifyPaymentQuietly(
+    bill: Bill,
+    transaction: Transaction,
+    outcome: 'paid' | 'failed'
+  ): Promise<void> {
+    const result = await this.notifyPayment(bill, transaction, outcome);
+    if (!result.ok) {
+      logger.error('Failed to notify payment outcome', result.error, {
+        billId: bill.id,
+        transactionId: transaction.id,
+      });
+    }
+  }
+
+  // Send everything that is pending or due a retry
+  async deliverPending(
+    limit: number = 100
+  ): Promise<Result<NotificationDeliveryReport, DatabaseError>> {
+    return measureAsync('service.notifications.deliverPending', async () => {
+      const pending = await this.notifications.findDeliverable(new Date(), limit);
+      if (!pending.ok) {
+        return pending;
+      }
+
+      const report: NotificationDeliveryReport = {
+        checked: pending.value.length,
+        sent: 0,
+        retrying: 0,
+        failed: 0,
+        deferred: 0,
+        skipped: 0,
+        errors: [],
+      };
+
+      // One notification failing to update must not hold back the ones after it
+      for (const notification of pending.value) {
+        const delivered = await this.deliver(notification);
+        if (!delivered.ok) {
+          logger.error('Failed to deliver notification', delivered.error, { notificationId: notification.id });
+          report.errors.push({ notificationId: notification.id, error: delivered.error.message });
+          continue;
+        }
+        report[delivered.value]++;
+      }
+
+      return Ok(report);
+    });
+  }
+
+  // Send a copy of an earlier notification straight away, e.g. when support resends one
+  // the user did not get. The copy still honours the user's channel choice and quiet hours.
+  async resend(notificationId: string): Promise<Result<ResendOutcome, DatabaseError | NotFoundError>> {
+    return measureAsync('service.notifications.resend', async () => {
+      const original = await this.notifications.findByIdOrThrow(notificationId);
+      if (!original.ok) {
+        return original;
+      }
+
+      const { user_id, bill_id, type, channel, subject, message, metadata } = original.value;
+      const created = await this.notifications.createIfAbsent({
+        user_id,
+        type,
+        channel,
+        message,
+        ...(bill_id && { bill_id }),
+        ...(subject && { subject }),
+        dedupe_key: `resend:${notificationId}:${Date.now()}`,
+        metadata: { ...metadata, resent_from: notificationId },
+      });
+      if (!created.ok) {
+        return created;
+      }
+
+      const delivered = await this.deliver(created.value.notification);
+      if (!delivered.ok) {
+        return delivered;
+      }
+
+      const current = await this.notifications.findByIdOrThrow(created.value.notification.id);
+      if (!current.ok) {
+        return current;
+      }
+      return Ok({ notification: current.value, status: delivered.value });
+    });
+  }
+
+  // Record a provider's delivery receipt for a sent message. Receipts can arrive late or
+  // out of order, so only a message still marked 'sent' is moved on.
+  async applyDeliveryStatus(
+    channel: Notification['channel'],
+    externalId: string,
+    status: 'delivered' | 'failed',
+    error?: string
+  ): Promise<Result<Notification | null, DatabaseError>> {
+    return measureAsync('service.notifications.applyDeliveryStatus', async () => {
+      const found = await this.notifications.findByExternalId(channel, externalId);
+      if (!found.ok) {
+        return found;
+      }
+      const notification = found.value;
+      if (!notification) {
+        logger.warn('Delivery receipt for unknown message', { channel, externalId });
+        return Ok(null);
+      }
+      if (notification.status !== 'sent') {
+        return Ok(notification);
+      }
+
+      return this.notifications.update(notification.id, {
+        status,
+        ...(error && { last_error: error }),
+      });
+    });
+  }
+
+  // Page through every bill a query finds, queueing the ones the user wants told about now.
+  // Bills notified on earlier runs are deduped, and never hold back the bills after them.
+  private async queueForPages(
+    findPage: (cursor: string | null) => Promise<Result<CursorPage<Bill>, DatabaseError | ValidationError>>,
+    type: 'reminder' | 'overdue',
+    wanted: (bill: Bill, preferences: NotificationPreferenceValues) => boolean
+  ): Promise<Result<NotificationQueueReport, DatabaseError | ValidationError>> {
+    const report: NotificationQueueReport = { checked: 0, queued: 0 };
+    let cursor: string | null = null;
+
+    do {
+      const page = await findPage(cursor);
+      if (!page.ok) {
+        return page;
+      }
+
+      const bills = page.value.items;
+      const preferences = await this.preferences.findForUsers(bills.map(bill => bill.user_id));
+      if (!preferences.ok) {
+        return preferences;
+      }
+
+      const queued = await this.queueForBills(
+        bills.filter(bill => wanted(bill, preferences.value.get(bill.user_id)!)),
+        type
+      );
+      if (!queued.ok) {
+        return queued;
+      }
+
+      report.checked += bills.length;
+      report.queued += queued.value;
+      cursor = page.value.nextCursor;
+    } while (cursor);
+
+    return Ok(report);
+  }
+
+  // Queue a notice for each bill; the number of notifications queued
+  private async queueForBills(
+    bills: Bill[],
+    type: 'reminder' | 'overdue'
+  ): Promise<Result<number, DatabaseError>> {
+    let count = 0;
+
+    for (const bill of bills) {
+      // One message per bill and due date: a bill that moves to a new due date gets a new reminder
+      const queued = await this.queue(bill, type, formatCalendarDate(toCalendarDate(bill.due_date)));
+      if (!queued.ok) {
+        return queued;
+      }
+      count += queued.value.length;
+    }
+
+    return Ok(count);
+  }
+
+  // Create the notification rows for a bill event. Returns only rows created by this call.
+  private async queue(
+    bill: Bill,
+    type: NotificationType,
+    window: string,
+    extra: Partial<BillNotificationData> = {}
+  ): Promise<Result<Notification[], DatabaseError>> {
+    const contactResult = await this.contactFor(bill.user_id);
+    if (!contactResult.ok) {
+      return contactResult;
+    }
+    const contact = contactResult.value;
+    if (!contact) {
+      logger.warn('No profile to notify', { userId: bill.user_id, billId: bill.id });
+      return Ok([]);
+    }
+
+    const data: BillNotificationData = {
+      billId: bill.id,
+      billerName: bill.biller_name,
+      amount: bill.amount,
+      currency: bill.currency,
+      dueDate: formatCalendarDate(toCalendarDate(bill.due_date)),
+      autoPay: bill.auto_pay,
+      ...extra,
+    };
+    const content = renderNotification(type, data);
+
+    const created: Notification[] = [];
+    for (const channel of this.channels.list()) {
+      if (!isChannelEnabled(contact.preferences, channel.name) || !channel.canDeliver(contact.recipient)) {
+        continue;
+      }
+
+      const result = await this.notifications.createIfAbsent({
+        user_id: bill.user_id,
+        bill_id: bill.id,
+        type,
+        channel: channel.name,
+        subject: content.subject,
+        message: content.message,
+        dedupe_key: `${type}:${bill.id}:${window}:${channel.name}`,
+        metadata: data,
+      });
+      if (!result.ok) {
+        return result;
+      }
+      if (result.value.created) {
+        created.push(result.value.notification);
+      }
+    }
+
+    return Ok(created);
+  }
+
+  private async deliver(notification: Notification): Promise<Result<DeliveryStatus, DatabaseError>> {
+    const contactResult = await this.contactFor(notification.user_id);
+    if (!contactResult.ok) {
+      return contactResult;
+    }
+    const contact = contactResult.value;
+    const recipient = contact?.recipient ?? null;
+    const channel = this.channels.get(notification.channel);
+
+    const deferUntil = recipient && channel?.deferUntil?.(recipient, new Date());
+    if (deferUntil) {
+      const deferred = await this.notifications.defer(notification, deferUntil);
+      if (!deferred.ok) {
+        return deferred;
+      }
+      return Ok(deferred.value ? 'deferred' : 'skipped');
+    }
+
+    const claimed = await this.notifications.claim(
+      notification,
+      new Date(Date.now() + SEND_LEASE_MS)
+    );
+    if (!claimed.ok) {
+      return claimed;
+    }
+    if (!claimed.value) {
+      return Ok('skipped');
+    }
+    const current = claimed.value;
+
+    // The user may have turned the channel off since this was queued
+    if (contact && !isChannelEnabled(contact.preferences, current.channel)) {
+      const failed = await this.notifications.markFailed(current.id, 'Channel turned off in notification preferences');
+      return failed.ok ? Ok('failed') : failed;
+    }
+
+    if (!recipient || !channel || !channel.canDeliver(recipient)) {
+      const failed = await this.notifications.markFailed(current.id, 'Recipient cannot be reached on this channel');
+      return failed.ok ? Ok('failed') : failed;
+    }
+
+    let sendResult;
+    try {
+      sendResult = await channel.send(this.toOutbound(current), recipient);
+    } catch (error) {
+      sendResult = {
+        ok: false as const,
+        error: new NotificationChannelError((error as Error).message, 'unexpected_error', channel.name, true),
+      };
+    }
+
+    await this.forgetExpiredAddresses(
+      current,
+      sendResult.ok ? sendResult.value.expiredAddresses : sendResult.error.expiredAddresses
+    );
+
+    if (sendResult.ok) {
+      if (current.channel === 'push') {
+        await this.touchPushSubscriptions(recipient);
+      }
+      const sent = await this.notifications.markSent(current.id, sendResult.value.externalId);
+      return sent.ok ? Ok('sent') : sent;
+    }
+
+    const error = sendResult.error;
+    const retry = error.retriable && current.attempts < MAX_ATTEMPTS;
+    const retryAt = retry
+      ? new Date(Date.now() + RETRY_BASE_MS * 2 ** (current.attempts - 1))
+      : undefined;
+
+    logger.warn('Notification send failed', {
+      notificationId: current.id,
+      channel: current.channel,
+      attempt: current.attempts,
+      code: error.code,
+      retryAt,
+    });
+
+    const failed = await this.notifications.markFailed(current.id, `${error.code}: ${error.message}`, retryAt);
+    if (!failed.ok) {
+      return failed;
+    }
+    return Ok(retry ? 'retrying' : 'failed');
+  }
+
+  // Push endpoints are dropped once the push service says they are gone. Failing to
+  // drop one is only logged: the next send reports it again.
+  private async forgetExpiredAddresses(notification: Notification, addresses: string[] = []): Promise<void> {
+    if (notification.channel !== 'push' || addresses.length === 0) {
+      return;
+    }
+
+    const removed = await this.pushSubscriptions.removeByEndpoints(addresses);
+    if (!removed.ok) {
+      logger.error('Failed to remove expired push subscriptions', removed.error, {
+        userId: notification.user_id,
+      });
+    }
+  }
+
+  private async touchPushSubscriptions(recipient: Recipient): Promise<void> {
+    const endpoints = (recipient.pushSubscriptions ?? []).map(target => target.endpoint);
+    const touched = await this.pushSubscriptions.touch(endpoints);
+    if (!touched.ok) {
+      logger.warn('Failed to update push subscription last use', { userId: recipient.userId });
+    }
+  }
+
+  private async contactFor(userId: string): Promise<Result<Contact | null, DatabaseError>> {
+    const profile = await this.profiles.findById(userId);
+    if (!profile.ok || !profile.value) {
+      return profile.ok ? Ok(null) : profile;
+    }
+
+    const preferences = await this.preferences.findForUser(userId);
+    if (!preferences.ok) {
+      return preferences;
+    }
+    const quietHours = preferredQuietHours(preferences.value);
+
+    // Only look up devices when push is available at all
+    const subscriptions = this.channels.get('push')
+      ? await this.pushSubscriptions.findByUserId(userId)
+      : Ok([]);
+    if (!subscriptions.ok) {
+      return subscriptions;
+    }
+
+    const recipient: Recipient = {
+      userId,
+      email: profile.value.email,
+      ...(profile.value.phone && { phone: profile.value.phone }),
+      ...(profile.value.full_name && { name: profile.value.full_name }),
+      ...(profile.value.sms_opted_out_at && { smsOptedOut: true }),
+      ...(subscriptions.value.length > 0 && {
+        pushSubscriptions: subscriptions.value.map(({ endpoint, p256dh, auth }) => ({ endpoint, p256dh, auth })),
+      }),
+      ...(quietHours && { quietHours }),
+    };
+    return Ok({ recipient, preferences: preferences.value });
+  }
+
+  private toOutbound(notification: Notification): OutboundNotification {
+    return {
+      id: notification.id,
+      type: notification.type,
+      channel: notification.channel,
+      message: notification.message,
+      data: notification.metadata ?? {},
+      ...(notification.subject && { subject: notification.subject }),
+      ...(notification.bill_id && { billId: notification.bill_id }),
+    };
+  }
+}
+
+// Export singleton instance
+export const notificationService = new NotificationService();
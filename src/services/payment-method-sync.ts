@@ -0,0 +1,415 @@
+// Payment Method Sync Service - keeps payment_methods in step with the payment provider
+//
+// The provider is the source of truth for which methods exist; the table mirrors them so
+// bills can reference a method and the UI can list them without calling the provider.
+// All changes go to the provider first and are only written locally once it succeeds.
+import { BillRepository, billRepository } from '../database/repositories/bills';
+import {
+  PaymentMethod,
+  PaymentMethodRepository,
+  paymentMethodRepository,
+} from '../database/repositories/payment-methods';
+import { PaymentProviderType, paymentService } from '../infrastructure/payments';
+import {
+  PaymentMethod as ProviderPaymentMethod,
+  PaymentProvider,
+  PaymentProviderError,
+} from '../utils/payment-provider';
+import {
+  Result,
+  Ok,
+  Err,
+  ConflictError,
+  DatabaseError,
+  ExternalServiceError,
+  NotFoundError,
+  ValidationError,
+} from '../utils/errors';
+import { logger, measureAsync } from '../utils/logger';
+
+export interface SyncReport {
+  added: number;
+  updated: number;
+  removed: number;
+  // Methods gone from the provider but kept because auto-pay bills still use them
+  orphaned: string[];
+}
+
+export type PaymentMethodSyncError =
+  | DatabaseError
+  | NotFoundError
+  | ValidationError
+  | ConflictError
+  | ExternalServiceError;
+
+type PaymentProviderLookup = Pick<typeof paymentService, 'getProvider'>;
+
+// Columns mirrored from the provider's view of a payment method
+function toRow(method: ProviderPaymentMethod): Pick<
+  PaymentMethod,
+  'type' | 'last_four' | 'bank_name' | 'metadata'
+> {
+  return {
+    type: method.type === 'card' ? 'card' : 'bank_account',
+    ...(method.last4 && { last_four: method.last4 }),
+    ...(method.type === 'bank_account' && method.brand && { bank_name: method.brand }),
+    metadata: {
+      brand: method.brand,
+      expiry_month: method.expiryMonth,
+      expiry_year: method.expiryYear,
+    },
+  };
+}
+
+function providerError(error: PaymentProviderError): ExternalServiceError {
+  return new ExternalServiceError(error.provider, error.message, error);
+}
+
+export class PaymentMethodSyncService {
+  constructor(
+    private readonly paymentMethods: PaymentMethodRepository = paymentMethodRepository,
+    private readonly bills: BillRepository = billRepository,
+    private readonly providers: PaymentProviderLookup = paymentService
+  ) {}
+
+  // Attach a new method at the provider and record it; the user's first method becomes the default
+  async attach(
+    userId: string,
+    providerName: PaymentProviderType,
+    customerId: string,
+    method: Omit<ProviderPaymentMethod, 'id'>,
+    makeDefault: boolean = false
+  ): Promise<Result<PaymentMethod, PaymentMethodSyncError>> {
+    return measureAsync('service.paymentMethodSync.attach', async () => {
+      if (method.type === 'paypal') {
+        return Err(new ValidationError('PayPal payment methods are not supported'));
+      }
+
+      const providerResult = this.providerFor(providerName);
+      if (!providerResult.ok) {
+        return providerResult;
+      }
+      const provider = providerResult.value;
+
+      const attached = await provider.attachPaymentMethod(customerId, method);
+      if (!attached.ok) {
+        return Err(providerError(attached.error));
+      }
+
+      const existingResult = await this.paymentMethods.findByUserId(userId);
+      if (!existingResult.ok) {
+        return existingResult;
+      }
+
+      const created = await this.paymentMethods.create({
+        user_id: userId,
+        provider: provider.name,
+        provider_customer_id: customerId,
+        provider_payment_method_id: attached.value.id,
+        is_default: false,
+        ...toRow(attached.value),
+      });
+      if (!created.ok) {
+        return created;
+      }
+
+      logger.info('Payment method attached', { userId, paymentMethodId: created.value.id });
+
+      if (makeDefault || existingResult.value.length === 0) {
+        return this.setDefault(userId, created.value.id);
+      }
+
+      return created;
+    });
+  }
+
+  // Make a method the default at the provider and locally
+  async setDefault(
+    userId: string,
+    paymentMethodId: string
+  ): Promise<Result<PaymentMethod, PaymentMethodSyncError>> {
+    return measureAsync('service.paymentMethodSync.setDefault', async () => {
+      const methodResult = await this.findOwned(userId, paymentMethodId);
+      if (!methodResult.ok) {
+        return methodResult;
+      }
+      const method = methodResult.value;
+
+      const providerResult = this.providerFor(method.provider);
+      if (!providerResult.ok) {
+        return providerResult;
+      }
+
+      if (method.provider_customer_id && method.provider_payment_method_id) {
+        const result = await providerResult.value.setDefaultPaymentMethod(
+          method.provider_customer_id,
+          method.provider_payment_method_id
+        );
+        if (!result.ok) {
+          return Err(providerError(result.error));
+        }
+      }
+
+      return this.paymentMethods.setDefault(method.id);
+    });
+  }
+
+  // Detach a method at the provider and delete it, unless auto-pay bills still depend on it
+  async detach(
+    userId: string,
+    paymentMethodId: string
+  ): Promise<Result<void, PaymentMethodSyncError>> {
+    return measureAsync('service.paymentMethodSync.detach', async () => {
+      const methodResult = await this.findOwned(userId, paymentMethodId);
+      if (!methodResult.ok) {
+        return methodResult;
+      }
+      const method = methodResult.value;
+
+      const usageResult = await this.autoPayBillsUsing(method);
+      if (!usageResult.ok) {
+        return usageResult;
+      }
+      if (usageResult.value.length > 0) {
+        return Err(new ConflictError('Payment method is used by auto-pay bills', {
+          paymentMethodId,
+          billIds: usageResult.value,
+        }));
+      }
+
+      if (method.provider_payment_method_id) {
+        const providerResult = this.providerFor(method.provider);
+        if (!providerResult.ok) {
+          return providerResult;
+        }
+
+        const detached = await providerResult.value.detachPaymentMethod(method.provider_payment_method_id);
+        if (!detached.ok) {
+          return Err(providerError(detached.error));
+        }
+      }
+
+      const deleted = await this.paymentMethods.delete(method.id);
+      if (!deleted.ok) {
+        return deleted;
+      }
+
+      logger.info('Payment method detached', { userId, paymentMethodId });
+
+      if (method.is_default) {
+        const promoted = await this.promoteNewestToDefault(userId);
+        if (!promoted.ok) {
+          return promoted;
+        }
+      }
+
+      return Ok(undefined);
+    });
+  }
+
+  // Manual resync: mirror every provider customer the user has methods with
+  async resync(userId: string): Promise<Result<SyncReport, PaymentMethodSyncError>> {
+    return measureAsync('service.paymentMethodSync.resync', async () => {
+      const methodsResult = await this.paymentMethods.findByUserId(userId);
+      if (!methodsResult.ok) {
+        return methodsResult;
+      }
+
+      const customers = new Map<string, { provider: string; customerId: string }>();
+      for (const method of methodsResult.value) {
+        if (method.provider && method.provider_customer_id) {
+          customers.set(`${method.provider}:${method.provider_customer_id}`, {
+            provider: method.provider,
+            customerId: method.provider_customer_id,
+          });
+        }
+      }
+
+      const report: SyncReport = { added: 0, updated: 0, removed: 0, orphaned: [] };
+      for (const { provider, customerId } of customers.values()) {
+        const result = await this.syncCustomer(userId, provider, customerId);
+        if (!result.ok) {
+          return result;
+        }
+        report.added += result.value.added;
+        report.updated += result.value.updated;
+        report.removed += result.value.removed;
+        report.orphaned.push(...result.value.orphaned);
+      }
+
+      return Ok(report);
+    });
+  }
+
+  // Mirror one provider customer's methods into the table
+  async syncCustomer(
+    userId: string,
+    providerName: string,
+    customerId: string
+  ): Promise<Result<SyncReport, PaymentMethodSyncError>> {
+    return measureAsync('service.paymentMethodSync.syncCustomer', async () => {
+      const providerResult = this.providerFor(providerName);
+      if (!providerResult.ok) {
+        return providerResult;
+      }
+      const provider = providerResult.value;
+
+      const remoteResult = await provider.listPaymentMethods(customerId);
+      if (!remoteResult.ok) {
+        return Err(providerError(remoteResult.error));
+      }
+
+      const localResult = await this.paymentMethods.findByUserId(userId);
+      if (!localResult.ok) {
+        return localResult;
+      }
+
+      const local = localResult.value.filter(method =>
+        method.provider === provider.name && method.provider_customer_id === customerId
+      );
+      const localByProviderId = new Map(local.map(method => [method.provider_payment_method_id, method]));
+      const remote = remoteResult.value.filter(method => method.type !== 'paypal');
+      const remoteIds = new Set(remote.map(method => method.id));
+
+      const report: SyncReport = { added: 0, updated: 0, removed: 0, orphaned: [] };
+      let providerDefault: PaymentMethod | undefined;
+
+      for (const remoteMethod of remote) {
+        const existing = localByProviderId.get(remoteMethod.id);
+        const saved = existing
+          ? await this.paymentMethods.update(existing.id, toRow(remoteMethod))
+          : await this.paymentMethods.create({
+              user_id: userId,
+              provider: provider.name,
+              provider_customer_id: customerId,
+              provider_payment_method_id: remoteMethod.id,
+              is_default: false,
+              ...toRow(remoteMethod),
+            });
+        if (!saved.ok) {
+          return saved;
+        }
+
+        if (existing) {
+          report.updated++;
+        } else {
+          report.added++;
+        }
+        if (remoteMethod.isDefault) {
+          providerDefault = saved.value;
+        }
+      }
+
+      for (const method of local) {
+        if (method.provider_payment_method_id && remoteIds.has(method.provider_payment_method_id)) {
+          continue;
+        }
+
+        // Deleting would silently unlink the bills (ON DELETE SET NULL), so keep and flag it
+        const usageResult = await this.autoPayBillsUsing(method);
+        if (!usageResult.ok) {
+          return usageResult;
+        }
+        if (usageResult.value.length > 0) {
+          const flagged = await this.paymentMethods.update(method.id, {
+            metadata: { ...method.metadata, missing_at_provider: true },
+          });
+          if (!flagged.ok) {
+            return flagged;
+          }
+          report.orphaned.push(method.id);
+          continue;
+        }
+
+        const deleted = await this.paymentMethods.delete(method.id);
+        if (!deleted.ok) {
+          return deleted;
+        }
+        report.removed++;
+      }
+
+      const defaultResult = providerDefault
+        ? await this.paymentMethods.setDefault(providerDefault.id)
+        : await this.ensureDefault(userId);
+      if (!defaultResult.ok) {
+        return defaultResult;
+      }
+
+      logger.info('Payment methods synced', { userId, provider: provider.name, ...report });
+      return Ok(report);
+    });
+  }
+
+  private async findOwned(
+    userId: string,
+    paymentMethodId: string
+  ): Promise<Result<PaymentMethod, PaymentMethodSyncError>> {
+    const result = await this.paymentMethods.findByIdOrThrow(paymentMethodId);
+    if (!result.ok) {
+      return result;
+    }
+    if (result.value.user_id !== userId) {
+      return Err(new NotFoundError('payment_methods', paymentMethodId));
+    }
+    return result;
+  }
+
+  // IDs of unpaid auto-pay bills charged to this method, including bills that fall back to
+  // the default when the method is the user's default
+  private async autoPayBillsUsing(method: PaymentMethod): Promise<Result<string[], DatabaseError>> {
+    const explicit = await this.bills.findAutoPayBillsUsingPaymentMethod(method.id);
+    if (!explicit.ok) {
+      return explicit;
+    }
+
+    const billIds = explicit.value.map(bill => bill.id);
+    if (method.is_default) {
+      const fallback = await this.bills.findAutoPayBills(method.user_id);
+      if (!fallback.ok) {
+        return fallback;
+      }
+      billIds.push(...fallback.value.filter(bill => !bill.payment_method_id).map(bill => bill.id));
+    }
+
+    return Ok(billIds);
+  }
+
+  // Make sure a user with payment methods has a default
+  private async ensureDefault(userId: string): Promise<Result<unknown, PaymentMethodSyncError>> {
+    const current = await this.paymentMethods.findDefaultForUser(userId);
+    if (!current.ok || current.value) {
+      return current;
+    }
+    return this.promoteNewestToDefault(userId);
+  }
+
+  private async promoteNewestToDefault(userId: string): Promise<Result<unknown, PaymentMethodSyncError>> {
+    const methods = await this.paymentMethods.findByUserId(userId);
+    if (!methods.ok) {
+      return methods;
+    }
+
+    const newest = methods.value[0];
+    return newest ? this.setDefault(userId, newest.id) : Ok(undefined);
+  }
+
+  private providerFor(name?: string): Result<PaymentProvider, ValidationError | ExternalServiceError> {
+    if (!name) {
+      return Err(new ValidationError('Payment method has no provider'));
+    }
+
+    try {
+      // getProvider falls back to the primary provider, which would not know this method
+      const provider = this.providers.getProvider(name as PaymentProviderType);
+      if (provider.name !== name) {
+        return Err(new ExternalServiceError(name, 'Payment provider is not configured'));
+      }
+      return Ok(provider);
+    } catch (error) {
+      return Err(new ExternalServiceError(name, (error as Error).message, error as Error));
+    }
+  }
+}
+
+// Export singleton instance
+export const paymentMethodSyncService = new PaymentMethodSyncService();
@@ -0,0 +1,206 @@
+// Stripe webhooks end to end: locally signed deliveries through StripePaymentProvider and
+// PaymentWebhookService into the migrated schema
+import Stripe from 'stripe';
+import { createTestDatabase, createTestUser, TestDatabase } from '../test/database';
+import { createTestClient } from '../test/postgrest';
+import { Bill, BillRepository } from '../database/repositories/bills';
+import { Transaction, TransactionRepository } from '../database/repositories/transactions';
+import { WebhookEventRepository } from '../database/repositories/webhook-events';
+import { StripePaymentProvider } from '../infrastructure/payments/stripe';
+import { PaymentWebhookService } from './payment-webhooks';
+
+const WEBHOOK_SECRET = 'whsec_local_test';
+const signer = new Stripe('sk_test_local', { apiVersion: '2023-10-16' });
+
+// An event body as Stripe would send it, with a valid Stripe-Signature header for it
+function signedEvent(type: string, object: Record<string, unknown>) {
+  const payload = JSON.stringify({
+    id: `evt_${crypto.randomUUID()}`,
+    object: 'event',
+    type,
+    created: Math.floor(Date.now() / 1000),
+    data: { object },
+  });
+  return {
+    payload,
+    signature: signer.webhooks.generateTestHeaderString({ payload, secret: WEBHOOK_SECRET }),
+  };
+}
+
+function paymentIntent(id: string, status: Stripe.PaymentIntent.Status, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    object: 'payment_intent',
+    amount: 4250,
+    amount_received: status === 'succeeded' ? 4250 : 0,
+    currency: 'gbp',
+    status,
+    customer: 'cus_local',
+    payment_method: 'pm_local',
+    description: null,
+    metadata: {},
+    created: Math.floor(Date.now() / 1000),
+    last_payment_error: null,
+    ...overrides,
+  };
+}
+
+describe('PaymentWebhookService with Stripe', () => {
+  let db: TestDatabase;
+  let bills: BillRepository;
+  let transactions: TransactionRepository;
+  let service: PaymentWebhookService;
+  let provider: StripePaymentProvider;
+  let userId: string;
+  const previousSecret = process.env['STRIPE_WEBHOOK_SECRET'];
+
+  beforeAll(async () => {
+    process.env['STRIPE_WEBHOOK_SECRET'] = WEBHOOK_SECRET;
+    db = await createTestDatabase();
+    const client = createTestClient(db);
+    bills = new BillRepository(client);
+    transactions = new TransactionRepository(client);
+    service = new PaymentWebhookService(
+      new WebhookEventRepository(client),
+      transactions,
+      bills,
+      { generateNextQuietly: jest.fn() },
+      { notifyPaymentQuietly: jest.fn() }
+    );
+    provider = new StripePaymentProvider('sk_test_local');
+    userId = await createTestUser(db);
+  });
+
+  afterAll(async () => {
+    if (previousSecret === undefined) {
+      delete process.env['STRIPE_WEBHOOK_SECRET'];
+    } else {
+      process.env['STRIPE_WEBHOOK_SECRET'] = previousSecret;
+    }
+    await db.close();
+  });
+
+  // A bill with a transaction in flight at Stripe under the given payment intent
+  async function pendingPayment(intentId: string): Promise<{ bill: Bill; transaction: Transaction }> {
+    const bill = await bills.create({
+      user_id: userId,
+      biller_name: 'Thames Water',
+      biller_category: 'utilities',
+      amount: 42.5,
+      currency: 'GBP',
+      due_date: new Date('2026-03-15'),
+      frequency: 'monthly',
+      status: 'processing',
+      auto_pay: true,
+    });
+    if (!bill.ok) {
+      throw bill.error;
+    }
+    const transaction = await transactions.create({
+      user_id: userId,
+      bill_id: bill.value.id,
+      amount: 42.5,
+      currency: 'GBP',
+      external_transaction_id: intentId,
+      status: 'pending',
+    });
+    if (!transaction.ok) {
+      throw transaction.error;
+    }
+    return { bill: bill.value, transaction: transaction.value };
+  }
+
+  async function reload(bill: Bill, transaction: Transaction) {
+    const [billResult, transactionResult] = await Promise.all([
+      bills.findById(bill.id),
+      transactions.findById(transaction.id),
+    ]);
+    return {
+      bill: billResult.ok ? billResult.value : null,
+      transaction: transactionResult.ok ? transactionResult.value : null,
+    };
+  }
+
+  it('fails the transaction and bill on payment_intent.payment_failed', async () => {
+    const { bill, transaction } = await pendingPayment('pi_failed');
+    // After a failed attempt Stripe returns the intent to requires_payment_method
+    const { payload, signature } = signedEvent('payment_intent.payment_failed', paymentIntent(
+      'pi_failed',
+      'requires_payment_method',
+      { last_payment_error: { code: 'card_declined', message: 'Your card was declined.' } }
+    ));
+
+    const result = await service.process(provider, payload, signature);
+
+    expect(result).toMatchObject({ ok: true, value: { duplicate: false, transactionId: transaction.id } });
+    expect(await reload(bill, transaction)).toMatchObject({
+      transaction: { status: 'failed', failure_reason: 'Your card was declined.' },
+      bill: { status: 'failed' },
+    });
+  });
+
+  it('completes the transaction and pays the bill on payment_intent.succeeded', async () => {
+    const { bill, transaction } = await pendingPayment('pi_succeeded');
+    const { payload, signature } = signedEvent('payment_intent.succeeded', paymentIntent('pi_succeeded', 'succeeded'));
+
+    const result = await service.process(provider, payload, signature);
+
+    expect(result.ok).toBe(true);
+    expect(await reload(bill, transaction)).toMatchObject({
+      transaction: { status: 'completed' },
+      bill: { status: 'paid' },
+    });
+  });
+
+  it('applies a redelivered event only once', async () => {
+    await pendingPayment('pi_redelivered');
+    const { payload, signature } = signedEvent('payment_intent.processing', paymentIntent('pi_redelivered', 'processing'));
+
+    const first = await service.process(provider, payload, signature);
+    const second = await service.process(provider, payload, signature);
+
+    expect(first).toMatchObject({ ok: true, value: { duplicate: false } });
+    expect(second).toMatchObject({ ok: true, value: { duplicate: true } });
+  });
+
+  it('rejects a delivery whose signature does not match', async () => {
+    const { payload } = signedEvent('payment_intent.succeeded', paymentIntent('pi_forged', 'succeeded'));
+    const { signature } = signedEvent('payment_intent.succeeded', paymentIntent('pi_other', 'succeeded'));
+
+    const result = await service.process(provider, payload, signature);
+
+    expect(result).toMatchObject({ ok: false, error: { message: 'Invalid webhook signature' } });
+  });
+
+  it('records the refund Stripe lists for a charge.refunded charge', async () => {
+    const { transaction } = await pendingPayment('pi_refunded');
+    await transactions.update(transaction.id, { status: 'completed' });
+    const refundedAt = Math.floor(Date.now() / 1000);
+    // The charge in the event carries amount_refunded but not its refunds
+    const list = jest.spyOn(provider['stripe'].refunds, 'list').mockResolvedValue({
+      object: 'list',
+      data: [{ id: 're_local', reason: 'requested_by_customer', created: refundedAt }],
+      has_more: false,
+      url: '/v1/refunds',
+    } as never);
+    const { payload, signature } = signedEvent('charge.refunded', {
+      id: 'ch_refunded',
+      object: 'charge',
+      payment_intent: 'pi_refunded',
+      amount: 4250,
+      amount_refunded: 4250,
+      currency: 'gbp',
+      created: refundedAt - 60,
+    });
+
+    const result = await service.process(provider, payload, signature);
+
+    expect(list).toHaveBeenCalledWith({ charge: 'ch_refunded', limit: 1 });
+    expect(result.ok).toBe(true);
+    const found = await transactions.findById(transaction.id);
+    expect(found.ok && found.value).toMatchObject({
+      status: 'refunded',
+      metadata: { refund_id: 're_local', refunded_amount: 42.5 },
+    });
+  });
+});
@@ -0,0 +1,248 @@
+// Payment Webhook Service - applies verified provider events to transactions and bills
+//
+// Providers deliver events at least once and in no particular order, so every event is
+// claimed by ID before it is applied, and status changes only ever move a transaction
+// forward (a late 'payment_failed' never undoes a completed payment).
+import { BillRepository, billRepository } from '../database/repositories/bills';
+import {
+  NewTransaction,
+  Transaction,
+  TransactionRepository,
+  transactionRepository,
+} from '../database/repositories/transactions';
+import {
+  WebhookEventRepository,
+  webhookEventRepository,
+} from '../database/repositories/webhook-events';
+import {
+  PaymentProvider,
+  Refund,
+  Transaction as ProviderTransaction,
+  WebhookEvent,
+} from '../utils/payment-provider';
+import {
+  Result,
+  Ok,
+  Err,
+  DatabaseError,
+  ExternalServiceError,
+  NotFoundError,
+  ValidationError,
+} from '../utils/errors';
+import { logger, measureAsync } from '../utils/logger';
+import { NotificationService, notificationService } from './notifications';
+import { RecurrenceService, recurrenceService } from './recurrence';
+
+export interface WebhookOutcome {
+  eventId: string;
+  type: string;
+  // True when this delivery was a repeat of an event that was already handled
+  duplicate: boolean;
+  // Local transaction the event applied to, if any
+  transactionId?: string;
+}
+
+export type WebhookError = ValidationError | DatabaseError | NotFoundError | ExternalServiceError;
+
+export class PaymentWebhookService {
+  constructor(
+    private readonly events: WebhookEventRepository = webhookEventRepository,
+    private readonly transactions: TransactionRepository = transactionRepository,
+    private readonly bills: BillRepository = billRepository,
+    private readonly recurrence: Pick<RecurrenceService, 'generateNextQuietly'> = recurrenceService,
+    private readonly notifier: Pick<NotificationService, 'notifyPaymentQuietly'> = notificationService
+  ) {}
+
+  // Verify, dedupe and apply one webhook delivery
+  async process(
+    provider: PaymentProvider,
+    payload: string | Buffer,
+    signature: string
+  ): Promise<Result<WebhookOutcome, WebhookError>> {
+    return measureAsync('service.paymentWebhooks.process', async () => {
+      const eventResult = await provider.constructWebhookEvent(payload, signature);
+      if (!eventResult.ok) {
+        const error = eventResult.error;
+        return Err(error.code === 'webhook_signature_invalid'
+          ? new ValidationError('Invalid webhook signature', { provider: provider.name })
+          : new ExternalServiceError(provider.name, error.message, error));
+      }
+
+      const event = eventResult.value;
+      const claimed = await this.events.claim(event.id, provider.name, event.type);
+      if (!claimed.ok) {
+        return claimed;
+      }
+      if (!claimed.value) {
+        logger.info('Skipping duplicate webhook event', { eventId: event.id, type: event.type });
+        return Ok({ eventId: event.id, type: event.type, duplicate: true });
+      }
+
+      const applied = await this.apply(provider, event);
+      if (!applied.ok) {
+        // Let the provider's retry have another go
+        await this.events.release(event.id);
+        return applied;
+      }
+
+      const completed = await this.events.complete(event.id);
+      if (!completed.ok) {
+        return completed;
+      }
+
+      return Ok({
+        eventId: event.id,
+        type: event.type,
+        duplicate: false,
+        ...(applied.value && { transactionId: applied.value.id }),
+      });
+    });
+  }
+
+  private async apply(
+    provider: PaymentProvider,
+    event: WebhookEvent
+  ): Promise<Result<Transaction | null, WebhookError>> {
+    const result = await provider.handleWebhook(event);
+    if (!result.processed) {
+      return Err(new ExternalServiceError(provider.name, result.error ?? 'Webhook handling failed'));
+    }
+
+    if (result.transaction) {
+      return this.applyPayment(result.transaction);
+    }
+    if (result.refund) {
+      return this.applyRefund(result.refund);
+    }
+
+    return Ok(null);
+  }
+
+  private async applyPayment(
+    payment: ProviderTransaction
+  ): Promise<Result<Transaction | null, DatabaseError | NotFoundError>> {
+    const found = await this.findTransaction(payment.providerId, payment.metadata?.['transaction_id']);
+    if (!found.ok || !found.value) {
+      return found;
+    }
+    const transaction = found.value;
+
+    switch (payment.status) {
+      case 'succeeded': {
+        const update = transaction.status !== 'completed' && transaction.status !== 'refunded'
+          ? {
+              status: 'completed' as const,
+              external_transaction_id: payment.providerId,
+              processed_at: payment.capturedAt ?? new Date(),
+            }
+          : null;
+        return this.settle(transaction, update, 'paid');
+      }
+
+      case 'failed':
+      case 'cancelled': {
+        if (transaction.status !== 'pending' && transaction.status !== 'processing') {
+          return Ok(transaction);
+        }
+
+        const reason = payment.failureMessage ?? 'Payment failed';
+        return this.settle(
+          transaction,
+          {
+            status: 'failed',
+            external_transaction_id: payment.providerId,
+            failure_reason: reason,
+            processed_at: new Date(),
+            metadata: { ...transaction.metadata, failure_code: payment.failureCode },
+          },
+          'failed',
+          reason,
+          payment.failureCode
+        );
+      }
+
+      default: {
+        if (transaction.status !== 'pending') {
+          return Ok(transaction);
+        }
+        return this.transactions.update(transaction.id, {
+          status: 'processing',
+          external_transaction_id: payment.providerId,
+        });
+      }
+    }
+  }
+
+  private async applyRefund(refund: Refund): Promise<Result<Transaction | null, DatabaseError>> {
+    const found = await this.findTransaction(refund.transactionId);
+    if (!found.ok || !found.value) {
+      return found;
+    }
+    return this.transactions.recordRefund(found.value, refund);
+  }
+
+  // Match a provider payment to our transaction, by provider ID or the ID we sent as metadata
+  private async findTransaction(
+    externalId: string,
+    transactionId?: string
+  ): Promise<Result<Transaction | null, DatabaseError>> {
+    const byExternalId = await this.transactions.findByExternalId(externalId);
+    if (!byExternalId.ok || byExternalId.value) {
+      return byExternalId;
+    }
+
+    if (transactionId) {
+      const byId = await this.transactions.findById(transactionId);
+      if (!byId.ok || byId.value) {
+        return byId;
+      }
+    }
+
+    logger.warn('Webhook refers to an unknown transaction', { externalId, transactionId });
+    return Ok(null);
+  }
+
+  // Apply the update to the transaction and settle its bill together, so neither is left
+  // without the other. A bill that is already paid, or already has this outcome, is left alone.
+  private async settle(
+    transaction: Transaction,
+    update: Partial<NewTransaction> | null,
+    outcome: 'paid' | 'failed',
+    reason?: string,
+    failureCode?: string
+  ): Promise<Result<Transaction, DatabaseError | NotFoundError>> {
+    const billResult = transaction.bill_id
+      ? await this.bills.findById(transaction.bill_id)
+      : Ok(null);
+    if (!billResult.ok) {
+      return billResult;
+    }
+
+    const bill = billResult.value;
+    const settleBill = bill && bill.status !== outcome && bill.status !== 'paid';
+
+    const unit = this.transactions.unitOfWork();
+    const updated = update && this.transactions.updateIn(unit, transaction.id, update);
+    const settled = settleBill
+      ? outcome === 'paid'
+        ? this.bills.markAsPaidIn(unit, bill, transaction.id)
+        : this.bills.markAsFailedIn(unit, bill, reason ?? 'Payment failed', failureCode)
+      : null;
+    const committed = await unit.commit();
+    if (!committed.ok) {
+      return committed;
+    }
+
+    const current = updated ? updated.row : transaction;
+    if (settled) {
+      if (outcome === 'paid') {
+        await this.recurrence.generateNextQuietly(settled.row);
+      }
+      await this.notifier.notifyPaymentQuietly(settled.row, current, outcome);
+    }
+    return Ok(current);
+  }
+}
+
+// Export singleton instance
+export const paymentWebhookService = new PaymentWebhookService();
@@ -0,0 +1,153 @@
+// Generating recurring bills against the migrated schema
+import { createTestDatabase, createTestUser, TestDatabase } from '../test/database';
+import { createTestClient } from '../test/postgrest';
+import { MAX_PAGE_SIZE } from '../database/pagination';
+import { BillRepository } from '../database/repositories/bills';
+import { DatabaseError, Err } from '../utils/errors';
+import { RecurrenceService } from './recurrence';
+
+describe('RecurrenceService', () => {
+  let db: TestDatabase;
+  let bills: BillRepository;
+  let service: RecurrenceService;
+  let userId: string;
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+    bills = new BillRepository(createTestClient(db));
+    service = new RecurrenceService(bills);
+    userId = await createTestUser(db);
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  async function monthlyBills(count: number, dueDate: string, status = 'paid'): Promise<string[]> {
+    const { rows } = await db.query<{ id: string }>(
+      `INSERT INTO bills (user_id, biller_name, biller_category, amount, currency, due_date, frequency, status, auto_pay)
+       SELECT $1, 'Netflix', 'subscription', 10.99, 'GBP', $2::date, 'monthly', $3::bill_status, false
+       FROM generate_series(1, $4::int)
+       RETURNING id`,
+      [userId, dueDate, status, count]
+    );
+    return rows.map(row => row.id);
+  }
+
+  describe('generateNext', () => {
+    afterEach(async () => {
+      await db.query('DELETE FROM bills');
+    });
+
+    it('creates each occurrence once, however often it runs', async () => {
+      const [id] = await monthlyBills(1, '2026-01-31');
+      const found = await bills.findByIdOrThrow(id!);
+      if (!found.ok) {
+        throw found.error;
+      }
+
+      const first = await service.generateNext(found.value);
+      const second = await service.generateNext(found.value);
+
+      expect(first).toMatchObject({ ok: true, value: { status: 'created', bill: { due_date: '2026-02-28' } } });
+      expect(second).toMatchObject({ ok: true, value: { status: 'existing' } });
+      const nextId = (result: typeof first) => result.ok && 'bill' in result.value && result.value.bill.id;
+      expect(nextId(second)).toBe(nextId(first));
+      const { rows } = await db.query('SELECT id FROM bills WHERE series_id = $1', [id]);
+      expect(rows).toHaveLength(1);
+    });
+
+    it('ends the series after its last occurrence', async () => {
+      const [id] = await monthlyBills(1, '2026-01-31');
+      await db.query('UPDATE bills SET recurrence_count = 1 WHERE id = $1', [id]);
+      const found = await bills.findByIdOrThrow(id!);
+      if (!found.ok) {
+        throw found.error;
+      }
+
+      const result = await service.generateNext(found.value);
+
+      expect(result).toMatchObject({ ok: true, value: { status: 'ended' } });
+      const { rows } = await db.query<{ ended: boolean; count: number }>(
+        'SELECT recurrence_ended_at IS NOT NULL AS ended, (SELECT count(*)::int FROM bills) AS count FROM bills WHERE id = $1',
+        [id]
+      );
+      expect(rows).toEqual([{ ended: true, count: 1 }]);
+    });
+  });
+
+  describe('bills.createOccurrence', () => {
+    afterEach(async () => {
+      await db.query('DELETE FROM bills');
+    });
+
+    it('returns the existing row when the occurrence was already created', async () => {
+      const [seriesId] = await monthlyBills(1, '2026-01-31');
+      const occurrence = {
+        user_id: userId,
+        biller_name: 'Netflix',
+        biller_category: 'subscription' as const,
+        amount: 10.99,
+        currency: 'GBP' as const,
+        due_date: new Date('2026-02-28'),
+        frequency: 'monthly' as const,
+        status: 'pending' as const,
+        auto_pay: false,
+        series_id: seriesId!,
+        occurrence_number: 2,
+      };
+
+      const first = await bills.createOccurrence(occurrence);
+      const second = await bills.createOccurrence(occurrence);
+
+      expect(first).toMatchObject({ ok: true, value: { created: true } });
+      expect(second).toMatchObject({ ok: true, value: { created: false } });
+      expect(second.ok && second.value.bill.id).toBe(first.ok && first.value.bill.id);
+      const { rows } = await db.query(
+        'SELECT id FROM bills WHERE series_id = $1 AND occurrence_number = 2',
+        [seriesId]
+      );
+      expect(rows).toHaveLength(1);
+    });
+  });
+
+  describe('generateDue', () => {
+    afterEach(async () => {
+      jest.restoreAllMocks();
+      await db.query('DELETE FROM bills');
+    });
+
+    it('reaches bills behind more than a page of bills whose generation keeps failing', async () => {
+      const stuck = new Set(await monthlyBills(MAX_PAGE_SIZE + 5, '2026-01-05'));
+      const [fresh] = await monthlyBills(1, '2026-02-01');
+      const createOccurrence = bills.createOccurrence.bind(bills);
+      jest.spyOn(bills, 'createOccurrence').mockImplementation(async data =>
+        stuck.has(data.metadata?.['generated_from'])
+          ? Err(new DatabaseError('createOccurrence', new Error('connection reset')))
+          : createOccurrence(data)
+      );
+
+      const result = await service.generateDue(new Date('2026-02-01'));
+
+      expect(result.ok).toBe(true);
+      const report = result.ok ? result.value : null;
+      expect(report?.checked).toBe(stuck.size + 1);
+      expect(report?.failed).toHaveLength(stuck.size);
+      expect(report?.created).toHaveLength(1);
+      const { rows } = await db.query<{ due_date: string }>(
+        `SELECT due_date::text FROM bills WHERE metadata->>'generated_from' = $1`,
+        [fresh]
+      );
+      expect(rows).toEqual([{ due_date: '2026-03-01' }]);
+    });
+
+    it('looks at no more than limit bills', async () => {
+      await monthlyBills(5, '2026-01-05');
+
+      const result = await service.generateDue(new Date('2026-02-01'), 3);
+
+      expect(result.ok && result.value.checked).toBe(3);
+      expect(result.ok && result.value.created).toHaveLength(3);
+    });
+  });
+});
@@ -0,0 +1,168 @@
+// Recurrence Service - generates the next bill of a recurring series
+//
+// Each occurrence is a separate bill linked to the first one by series_id. The next
+// occurrence is generated once a bill is paid or its due date has passed, and the
+// (series, occurrence number) unique index makes generation safe to repeat.
+import { Bill, BillRepository, billRepository } from '../database/repositories/bills';
+import { MAX_PAGE_SIZE } from '../database/pagination';
+import { Result, Ok, DatabaseError, ValidationError } from '../utils/errors';
+import { logger, measureAsync } from '../utils/logger';
+import { RecurrenceRule, isRecurring, nextOccurrence, toCalendarDate } from '../utils/recurrence';
+
+export type RecurrenceOutcome =
+  | { status: 'created' | 'existing'; bill: Bill }
+  | { status: 'ended' | 'not_recurring' };
+
+export interface RecurrenceRunReport {
+  asOf: Date;
+  checked: number;
+  created: string[];
+  ended: string[];
+  failed: Array<{ billId: string; error: string }>;
+}
+
+// The schedule a bill belongs to
+export function recurrenceRule(bill: Bill): RecurrenceRule | null {
+  if (!isRecurring(bill.frequency)) {
+    return null;
+  }
+
+  return {
+    frequency: bill.frequency,
+    anchor: bill.recurrence_anchor ?? bill.due_date,
+    ...(bill.recurrence_end_date && { endDate: bill.recurrence_end_date }),
+    ...(bill.recurrence_count && { count: bill.recurrence_count }),
+  };
+}
+
+export class RecurrenceService {
+  constructor(private readonly bills: BillRepository = billRepository) {}
+
+  // Generate the occurrence after this bill, or mark the series as ended
+  async generateNext(bill: Bill): Promise<Result<RecurrenceOutcome, DatabaseError>> {
+    return measureAsync('service.recurrence.generateNext', async () => {
+      const rule = recurrenceRule(bill);
+      if (!rule) {
+        return Ok({ status: 'not_recurring' as const });
+      }
+
+      const next = nextOccurrence(rule, bill.occurrence_number ?? 1);
+      if (!next) {
+        const ended = await this.bills.update(bill.id, { recurrence_ended_at: new Date() });
+        if (!ended.ok) {
+          return ended;
+        }
+        logger.info('Recurring bill series ended', { billId: bill.id, seriesId: bill.series_id ?? bill.id });
+        return Ok({ status: 'ended' as const });
+      }
+
+      const result = await this.bills.createOccurrence({
+        user_id: bill.user_id,
+        biller_name: bill.biller_name,
+        biller_category: bill.biller_category,
+        amount: bill.amount,
+        currency: bill.currency,
+        due_date: next.dueDate,
+        frequency: bill.frequency,
+        status: 'pending',
+        auto_pay: bill.auto_pay,
+        metadata: { generated_from: bill.id },
+        series_id: bill.series_id ?? bill.id,
+        occurrence_number: next.occurrenceNumber,
+        recurrence_anchor: toCalendarDate(rule.anchor),
+        ...(bill.account_number && { account_number: bill.account_number }),
+        ...(bill.payment_method_id && { payment_method_id: bill.payment_method_id }),
+        ...(bill.reminder_days !== undefined && bill.reminder_days !== null && {
+          reminder_days: bill.reminder_days,
+        }),
+        ...(bill.notes && { notes: bill.notes }),
+        ...(bill.recurrence_end_date && { recurrence_end_date: bill.recurrence_end_date }),
+        ...(bill.recurrence_count && { recurrence_count: bill.recurrence_count }),
+      });
+      if (!result.ok) {
+        return result;
+      }
+
+      const linked = await this.bills.update(bill.id, { next_due_date: next.dueDate });
+      if (!linked.ok) {
+        return linked;
+      }
+
+      if (result.value.created) {
+        logger.info('Generated recurring bill', {
+          billId: bill.id,
+          nextBillId: result.value.bill.id,
+          occurrence: next.occurrenceNumber,
+        });
+      }
+
+      return Ok({
+        status: result.value.created ? 'created' as const : 'existing' as const,
+        bill: result.value.bill,
+      });
+    });
+  }
+
+  // Like generateNext, but failures are only logged. Used after a payment succeeds,
+  // where the payment outcome must not depend on the next bill being created;
+  // the scheduled run picks up anything missed here.
+  async generateNextQuietly(bill: Bill): Promise<void> {
+    const result = await this.generateNext(bill);
+    if (!result.ok) {
+      logger.error('Failed to generate next recurring bill', result.error, { billId: bill.id });
+    }
+  }
+
+  // Generate next occurrences for every recurring bill that is paid or past due, looking
+  // at no more than limit bills (default: all of them)
+  async generateDue(
+    asOf: Date = new Date(),
+    limit?: number
+  ): Promise<Result<RecurrenceRunReport, DatabaseError | ValidationError>> {
+    return measureAsync('service.recurrence.generateDue', async () => {
+      const report: RecurrenceRunReport = {
+        asOf,
+        checked: 0,
+        created: [],
+        ended: [],
+        failed: [],
+      };
+
+      // Page through every bill, so ones whose generation keeps failing at the front of
+      // the queue never hold back the ones after them
+      let cursor: string | null = null;
+      do {
+        const remaining = (limit ?? Infinity) - report.checked;
+        if (remaining <= 0) {
+          break;
+        }
+
+        const page = await this.bills.findNeedingNextOccurrence(asOf, cursor, Math.min(remaining, MAX_PAGE_SIZE));
+        if (!page.ok) {
+          return page;
+        }
+
+        report.checked += page.value.items.length;
+        for (const bill of page.value.items) {
+          const result = await this.generateNext(bill);
+          if (!result.ok) {
+            report.failed.push({ billId: bill.id, error: result.error.message });
+            continue;
+          }
+
+          if (result.value.status === 'created') {
+            report.created.push(result.value.bill.id);
+          } else if (result.value.status === 'ended') {
+            report.ended.push(bill.id);
+          }
+        }
+        cursor = page.value.nextCursor;
+      } while (cursor);
+
+      return Ok(report);
+    });
+  }
+}
+
+// Export singleton instance
+export const recurrenceService = new RecurrenceService();
@@ -0,0 +1,131 @@
+// SMS Service - handles what Twilio posts back to us: replies and delivery receipts
+//
+// Replies: STOP (and its synonyms) opts the sender's number out of texts, START opts it
+// back in, HELP gets a short description. Anything else is ignored.
+// Receipts: 'delivered' and 'undelivered'/'failed' update the notification's status.
+// Error 21610 means the handset has blocked us, so the number is opted out as well.
+import { ProfileRepository, profileRepository } from '../database/repositories/profiles';
+import { TWILIO_UNSUBSCRIBED, validateTwilioSignature } from '../infrastructure/notifications/sms';
+import { Result, Ok, Err, AuthenticationError, DatabaseError } from '../utils/errors';
+import { logger, measureAsync } from '../utils/logger';
+import { SmsKeyword, parseSmsKeyword, toE164 } from '../utils/sms';
+import { NotificationService, notificationService } from './notifications';
+
+// Fields of Twilio's message status callback that we use
+export interface SmsStatusCallback {
+  MessageSid: string;
+  MessageStatus: string;
+  To?: string;
+  ErrorCode?: string;
+}
+
+export interface InboundSmsOutcome {
+  keyword: SmsKeyword | null;
+  // Text to send back, if any
+  reply: string | null;
+}
+
+export class SmsService {
+  constructor(
+    private readonly profiles: ProfileRepository = profileRepository,
+    private readonly notifier: Pick<NotificationService, 'applyDeliveryStatus'> = notificationService,
+    private readonly appName: string = process.env['NEXT_PUBLIC_APP_NAME'] ?? 'BillPaymentApp'
+  ) {}
+
+  // Check a webhook request came from Twilio
+  verifyRequest(
+    authToken: string | undefined,
+    url: string,
+    params: Record<string, string>,
+    signature: string | null
+  ): Result<void, AuthenticationError> {
+    if (!authToken || !signature || !validateTwilioSignature(authToken, url, params, signature)) {
+      return Err(new AuthenticationError('Invalid Twilio signature'));
+    }
+    return Ok(undefined);
+  }
+
+  async handleInbound(from: string, body: string): Promise<Result<InboundSmsOutcome, DatabaseError>> {
+    return measureAsync('service.sms.handleInbound', async () => {
+      const keyword = parseSmsKeyword(body);
+      const phone = toE164(from);
+      if (!keyword || !phone) {
+        return Ok({ keyword, reply: null });
+      }
+
+      if (keyword === 'help') {
+        return Ok({
+          keyword,
+          reply: `${this.appName}: bill reminders and payment alerts. Reply STOP to opt out, START to opt back in.`,
+        });
+      }
+
+      const updated = await this.setOptOut(phone, keyword === 'stop');
+      if (!updated.ok) {
+        return updated;
+      }
+
+      return Ok({
+        keyword,
+        reply: keyword === 'stop'
+          ? `${this.appName}: you won't get any more texts from us. Reply START to opt back in.`
+          : `${this.appName}: texts are back on. Reply STOP to opt out.`,
+      });
+    });
+  }
+
+  async handleStatusCallback(callback: SmsStatusCallback): Promise<Result<void, DatabaseError>> {
+    return measureAsync('service.sms.handleStatusCallback', async () => {
+      const status = callback.MessageStatus === 'delivered'
+        ? 'delivered'
+        : ['undelivered', 'failed'].includes(callback.MessageStatus) ? 'failed' : null;
+      // queued, sending, sent: nothing to record yet
+      if (!status) {
+        return Ok(undefined);
+      }
+
+      const error = status === 'failed' ? `twilio_${callback.ErrorCode ?? 'unknown'}` : undefined;
+      const applied = await this.notifier.applyDeliveryStatus('sms', callback.MessageSid, status, error);
+      if (!applied.ok) {
+        return applied;
+      }
+
+      const phone = callback.To ? toE164(callback.To) : null;
+      if (callback.ErrorCode === String(TWILIO_UNSUBSCRIBED) && phone) {
+        const updated = await this.setOptOut(phone, true);
+        if (!updated.ok) {
+          return updated;
+        }
+      }
+
+      return Ok(undefined);
+    });
+  }
+
+  private async setOptOut(phone: string, optedOut: boolean): Promise<Result<void, DatabaseError>> {
+    const profile = await this.profiles.findByPhone(phone);
+    if (!profile.ok) {
+      return profile;
+    }
+    if (!profile.value) {
+      logger.warn('SMS opt-out change for unknown number', { optedOut });
+      return Ok(undefined);
+    }
+    if (!!profile.value.sms_opted_out_at === optedOut) {
+      return Ok(undefined);
+    }
+
+    const updated = await this.profiles.setSmsOptOut(profile.value.id, optedOut);
+    if (!updated.ok) {
+      return updated;
+    }
+
+    logger.info(optedOut ? 'User opted out of SMS' : 'User opted back in to SMS', {
+      userId: profile.value.id,
+    });
+    return Ok(undefined);
+  }
+}
+
+// Export singleton instance
+export const smsService = new SmsService();
@@ -0,0 +1,4 @@
+// Environment for tests: just enough for config to validate. Nothing is reached at these
+// addresses; tests hand repositories a client backed by an in-process database.
+process.env['NEXT_PUBLIC_SUPABASE_URL'] ??= 'http://supabase.test';
+process.env['NEXT_PUBLIC_SUPABASE_ANON_KEY'] ??= 'test-anon-key';
@@ -0,0 +1,552 @@
+// A PostgREST stand-in for tests
+//
+// createTestClient returns a real supabase-js client whose requests are answered from a
+// TestDatabase rather than a Supabase project, so repositories run their own queries
+// against the migrated schema. It covers the part of PostgREST the repositories use:
+// select with column lists and embedded relations, the filter operators (also on JSON
+// paths and inside or/and/not logic trees), order, limit and offset, exact counts, single
+// objects, insert and upsert, update, delete and rpc. Requests run as the service role,
+// so row level security does not apply.
+import { SupabaseClient, createClient } from '@supabase/supabase-js';
+import { TestDatabase } from './database';
+
+const BASE_URL = 'http://postgrest.test';
+
+export function createTestClient(db: TestDatabase): SupabaseClient {
+  return createClient(BASE_URL, 'test-service-role-key', {
+    auth: { persistSession: false, autoRefreshToken: false },
+    global: {
+      fetch: (input: string | URL | Request, init?: RequestInit) => respond(db, String(input), init ?? {}),
+    },
+  });
+}
+
+// A PostgREST-shaped error: HTTP status plus the JSON body supabase-js turns into `error`
+class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string,
+    readonly details: string | null = null
+  ) {
+    super(message);
+  }
+}
+
+interface ApiRequest {
+  method: string;
+  table: string;
+  rpc: boolean;
+  params: URLSearchParams;
+  prefer: string;
+  accept: string;
+  body: unknown;
+}
+
+// Query parameters that are not filters
+const RESERVED_PARAMS = new Set(['select', 'order', 'limit', 'offset', 'columns', 'on_conflict']);
+
+const COMPARISONS: Record<string, string> = {
+  eq: '=',
+  neq: '<>',
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+};
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+async function respond(db: TestDatabase, url: string, init: RequestInit): Promise<Response> {
+  const parsed = new URL(url);
+  const match = /^\/rest\/v1\/(rpc\/)?([^/]+)$/.exec(parsed.pathname);
+  if (!match) {
+    return json(404, { code: 'PGRST000', message: `Unknown path ${parsed.pathname}`, details: null, hint: null });
+  }
+
+  const headers = new Headers(init.headers);
+  const request: ApiRequest = {
+    method: (init.method ?? 'GET').toUpperCase(),
+    table: identifier(match[2]!),
+    rpc: !!match[1],
+    params: parsed.searchParams,
+    prefer: headers.get('Prefer') ?? '',
+    accept: headers.get('Accept') ?? '',
+    body: typeof init.body === 'string' && init.body !== '' ? JSON.parse(init.body) : undefined,
+  };
+
+  try {
+    if (request.rpc) {
+      return await callFunction(db, request);
+    }
+    switch (request.method) {
+      case 'GET':
+      case 'HEAD':
+        return await read(db, request);
+      case 'POST':
+        return await insert(db, request);
+      case 'PATCH':
+        return await write(db, request, 'update');
+      case 'DELETE':
+        return await write(db, request, 'delete');
+      default:
+        throw new ApiError(405, 'PGRST000', `Unsupported method ${request.method}`);
+    }
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// PostgREST hands every value to Postgres as text to cast; PGlite would otherwise insist
+// on a JS boolean for a boolean parameter (OID 16)
+const TEXT_PARAMS = { serializers: { 16: (value: unknown) => String(value) } };
+
+// SQL text plus its positional parameters
+class Statement {
+  readonly values: unknown[] = [];
+
+  param(value: unknown): string {
+    this.values.push(value);
+    return `$${this.values.length}`;
+  }
+}
+
+async function read(db: TestDatabase, request: ApiRequest): Promise<Response> {
+  const table = request.table;
+  const statement = new Statement();
+  const where = whereClause(request.params, statement);
+  const columns = await selectList(db, request.params.get('select') ?? '*', table, 't', 0);
+  const limit = request.params.get('limit');
+  const offset = Number(request.params.get('offset') ?? 0);
+
+  const sql = [
+    `SELECT to_jsonb(r) AS row FROM (SELECT ${columns} FROM public."${table}" t`,
+    where && `WHERE ${where}`,
+    orderClause(request.params.get('order')),
+    limit !== null && `LIMIT ${Number(limit)}`,
+    offset > 0 && `OFFSET ${offset}`,
+    ') r',
+  ].filter(Boolean).join(' ');
+
+  const rows = (await db.query<{ row: unknown }>(sql, statement.values, TEXT_PARAMS)).rows.map(({ row }) => row);
+
+  let total: number | null = null;
+  if (/count=exact/.test(request.prefer)) {
+    const countStatement = new Statement();
+    const countWhere = whereClause(request.params, countStatement);
+    const counted = await db.query<{ count: number }>(
+      `SELECT count(*)::int AS count FROM public."${table}" t${countWhere ? ` WHERE ${countWhere}` : ''}`,
+      countStatement.values,
+      TEXT_PARAMS
+    );
+    total = counted.rows[0]!.count;
+  }
+
+  const range = contentRange(offset, rows.length, total);
+  if (request.method === 'HEAD') {
+    return new Response(null, { status: 200, headers: { 'Content-Range': range } });
+  }
+  return representation(request, rows, range);
+}
+
+async function insert(db: TestDatabase, request: ApiRequest): Promise<Response> {
+  const table = request.table;
+  const rows = (Array.isArray(request.body) ? request.body : [request.body]) as Record<string, unknown>[];
+  const columnsParam = request.params.get('columns');
+  const columns = (columnsParam
+    ? splitTopLevel(columnsParam).map(unquote)
+    : Array.from(new Set(rows.flatMap(row => Object.keys(row))))
+  ).map(identifier);
+
+  const statement = new Statement();
+  const quoted = columns.map(column => `"${column}"`).join(', ');
+  let conflict = '';
+  const onConflict = request.params.get('on_conflict');
+  if (/resolution=(merge|ignore)-duplicates/.test(request.prefer)) {
+    const target = onConflict ? `(${onConflict.split(',').map(column => `"${identifier(column)}"`).join(', ')})` : '';
+    conflict = /resolution=ignore-duplicates/.test(request.prefer)
+      ? `ON CONFLICT ${target} DO NOTHING`
+      : `ON CONFLICT ${target} DO UPDATE SET ${columns.map(column => `"${column}" = EXCLUDED."${column}"`).join(', ')}`;
+  }
+
+  const returned = await selectList(db, request.params.get('select') ?? '*', table, 't', 0);
+  const sql = `WITH r AS (
+      INSERT INTO public."${table}" AS t (${quoted})
+      SELECT ${quoted} FROM jsonb_populate_recordset(NULL::public."${table}", ${statement.param(JSON.stringify(rows))}::jsonb)
+      ${conflict}
+      RETURNING t.*
+    ) SELECT to_jsonb(x) AS row FROM (SELECT ${returned} FROM r t) x`;
+
+  const result = (await db.query<{ row: unknown }>(sql, statement.values, TEXT_PARAMS)).rows.map(({ row }) => row);
+  return representation(request, result, contentRange(0, result.length, null), 201);
+}
+
+async function write(db: TestDatabase, request: ApiRequest, operation: 'update' | 'delete'): Promise<Response> {
+  const table = request.table;
+  const statement = new Statement();
+  let change: string;
+
+  if (operation === 'update') {
+    const values = request.body as Record<string, unknown>;
+    const columns = Object.keys(values).map(column => `"${identifier(column)}"`).join(', ');
+    const record = statement.param(JSON.stringify(values));
+    change = `UPDATE public."${table}" AS t SET (${columns}) = (SELECT ${columns} FROM jsonb_populate_record(NULL::public."${table}", ${record}::jsonb))`;
+  } else {
+    change = `DELETE FROM public."${table}" AS t`;
+  }
+
+  const where = whereClause(request.params, statement);
+  const returned = await selectList(db, request.params.get('select') ?? '*', table, 't', 0);
+  const sql = `WITH r AS (${change} ${where ? `WHERE ${where}` : ''} RETURNING t.*)
+    SELECT to_jsonb(x) AS row FROM (SELECT ${returned} FROM r t) x`;
+
+  const rows = (await db.query<{ row: unknown }>(sql, statement.values, TEXT_PARAMS)).rows.map(({ row }) => row);
+  const total = /count=exact/.test(request.prefer) ? rows.length : null;
+  return representation(request, rows, contentRange(0, rows.length, total));
+}
+
+async function callFunction(db: TestDatabase, request: ApiRequest): Promise<Response> {
+  const { rows: [signature] } = await db.query<{ retset: boolean; returns: string }>(
+    `SELECT p.proretset AS retset, format_type(p.prorettype, NULL) AS returns
+     FROM pg_proc p JOIN pg_namespace n ON n.oid = p.pronamespace
+     WHERE n.nspname = 'public' AND p.proname = $1`,
+    [request.table]
+  );
+  if (!signature) {
+    throw new ApiError(404, 'PGRST202', `Could not find the function public.${request.table}`);
+  }
+
+  const statement = new Statement();
+  const args = Object.entries((request.body ?? {}) as Record<string, unknown>)
+    .map(([name, value]) => `"${identifier(name)}" => ${statement.param(
+      value !== null && typeof value === 'object' ? JSON.stringify(value) : value
+    )}`)
+    .join(', ');
+  const call = `public."${request.table}"(${args})`;
+
+  if (signature.retset) {
+    const { rows } = await db.query<{ row: unknown }>(`SELECT to_jsonb(x) AS row FROM ${call} x`, statement.values, TEXT_PARAMS);
+    return json(200, rows.map(({ row }) => row));
+  }
+
+  const { rows } = await db.query<{ row: unknown }>(`SELECT to_jsonb(${call}) AS row`, statement.values, TEXT_PARAMS);
+  if (signature.returns === 'void') {
+    return new Response(null, { status: 204 });
+  }
+  return json(200, rows[0]?.row ?? null);
+}
+
+// Rows as the client asked for them: an array, one object, or nothing (return=minimal)
+function representation(request: ApiRequest, rows: unknown[], range: string, status = 200): Response {
+  const headers = { 'Content-Range': range };
+
+  if (request.accept.includes('application/vnd.pgrst.object+json')) {
+    if (rows.length !== 1) {
+      throw new ApiError(
+        406,
+        'PGRST116',
+        'JSON object requested, multiple (or no) rows returned',
+        `The result contains ${rows.length} rows`
+      );
+    }
+    return json(status, rows[0], headers);
+  }
+
+  if (request.method !== 'GET' && !/return=representation/.test(request.prefer)) {
+    return new Response(null, { status: status === 201 ? 201 : 204, headers });
+  }
+  return json(status, rows, headers);
+}
+
+function contentRange(offset: number, count: number, total: number | null): string {
+  const range = count > 0 ? `${offset}-${offset + count - 1}` : '*';
+  return `${range}/${total ?? '*'}`;
+}
+
+function json(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+function errorResponse(error: unknown): Response {
+  if (error instanceof ApiError) {
+    return json(error.status, { code: error.code, message: error.message, details: error.details, hint: null });
+  }
+
+  const { code = '', message, detail = null, hint = null } = error as {
+    code?: string;
+    message: string;
+    detail?: string | null;
+    hint?: string | null;
+  };
+  return json(postgresStatus(code), { code, message, details: detail, hint });
+}
+
+// How PostgREST maps Postgres error codes to HTTP statuses
+function postgresStatus(code: string): number {
+  if (code === '23503' || code === '23505') {
+    return 409;
+  }
+  if (code === 'P0002' || code === '42P01' || code === '42883') {
+    return 404;
+  }
+  if (code === '42501') {
+    return 403;
+  }
+  return 400;
+}
+
+// Filters
+
+type FilterNode =
+  | { kind: 'group'; operator: 'and' | 'or'; negated: boolean; children: FilterNode[] }
+  | { kind: 'filter'; column: string; expression: string; quoted: boolean };
+
+function whereClause(params: URLSearchParams, statement: Statement): string {
+  const conditions: string[] = [];
+
+  for (const [key, value] of params) {
+    if (RESERVED_PARAMS.has(key)) {
+      continue;
+    }
+
+    const group = /^(not\.)?(and|or)$/.exec(key);
+    const node: FilterNode = group
+      ? {
+          kind: 'group',
+          operator: group[2] as 'and' | 'or',
+          negated: !!group[1],
+          children: parseTreeItems(stripParens(value)),
+        }
+      : { kind: 'filter', column: key, expression: value, quoted: false };
+    conditions.push(conditionSql(node, statement));
+  }
+
+  return conditions.join(' AND ');
+}
+
+// Items of a logic tree, e.g. `status.eq.paid,and(amount.gt.10,not.or(a.is.null,b.eq."x,y"))`
+function parseTreeItems(text: string): FilterNode[] {
+  return splitTopLevel(text).map(item => {
+    const group = /^(not\.)?(and|or)\((.*)\)$/s.exec(item);
+    if (group) {
+      return {
+        kind: 'group',
+        operator: group[2] as 'and' | 'or',
+        negated: !!group[1],
+        children: parseTreeItems(group[3]!),
+      };
+    }
+
+    const dot = item.indexOf('.');
+    if (dot < 1) {
+      throw new ApiError(400, 'PGRST100', `Failed to parse logic tree item '${item}'`);
+    }
+    return { kind: 'filter', column: item.slice(0, dot), expression: item.slice(dot + 1), quoted: true };
+  });
+}
+
+function conditionSql(node: FilterNode, statement: Statement): string {
+  if (node.kind === 'group') {
+    if (node.children.length === 0) {
+      throw new ApiError(400, 'PGRST100', 'Empty logic tree');
+    }
+    const joined = `(${node.children.map(child => conditionSql(child, statement)).join(` ${node.operator.toUpperCase()} `)})`;
+    return node.negated ? `NOT ${joined}` : joined;
+  }
+
+  let expression = node.expression;
+  const negated = expression.startsWith('not.');
+  if (negated) {
+    expression = expression.slice(4);
+  }
+
+  const dot = expression.indexOf('.');
+  if (dot < 0) {
+    throw new ApiError(400, 'PGRST100', `Failed to parse filter '${node.column}=${node.expression}'`);
+  }
+  const operator = expression.slice(0, dot);
+  const raw = expression.slice(dot + 1);
+  const value = node.quoted ? unquote(raw) : raw;
+  const column = columnSql(node.column);
+
+  let sql: string;
+  if (operator in COMPARISONS) {
+    sql = `${column} ${COMPARISONS[operator]} ${statement.param(value)}`;
+  } else if (operator === 'like' || operator === 'ilike') {
+    sql = `${column} ${operator.toUpperCase()} ${statement.param(value.replace(/\*/g, '%'))}`;
+  } else if (operator === 'in') {
+    const values = splitTopLevel(stripParens(raw)).map(unquote);
+    sql = values.length === 0
+      ? 'false'
+      : `${column} IN (${values.map(item => statement.param(item)).join(', ')})`;
+  } else if (operator === 'is') {
+    const keyword = { null: 'NULL', true: 'TRUE', false: 'FALSE', unknown: 'UNKNOWN' }[raw];
+    if (!keyword) {
+      throw new ApiError(400, 'PGRST100', `Invalid is value '${raw}'`);
+    }
+    sql = `${column} IS ${keyword}`;
+  } else {
+    throw new ApiError(400, 'PGRST100', `Unsupported operator '${operator}'`);
+  }
+
+  return negated ? `NOT (${sql})` : sql;
+}
+
+// `metadata->provider->>name` becomes t."metadata"->'provider'->>'name'
+function columnSql(column: string, alias = 't'): string {
+  const [name, ...rest] = column.split(/(->>?)/);
+  let sql = `${alias}."${identifier(name!)}"`;
+
+  for (let i = 0; i < rest.length; i += 2) {
+    const key = rest[i + 1]!;
+    if (!/^[A-Za-z0-9_]+$/.test(key)) {
+      throw new ApiError(400, 'PGRST100', `Invalid JSON path in '${column}'`);
+    }
+    sql += `${rest[i]}${/^\d+$/.test(key) ? key : `'${key}'`}`;
+  }
+
+  return sql;
+}
+
+function orderClause(order: string | null): string {
+  if (!order) {
+    return '';
+  }
+
+  const terms = order.split(',').map(term => {
+    const [column, ...modifiers] = term.split('.');
+    const direction = modifiers.includes('desc') ? 'DESC' : 'ASC';
+    const nulls = modifiers.includes('nullsfirst') ? ' NULLS FIRST' : modifiers.includes('nullslast') ? ' NULLS LAST' : '';
+    return `${columnSql(column!)} ${direction}${nulls}`;
+  });
+  return `ORDER BY ${terms.join(', ')}`;
+}
+
+// Select lists
+
+// Columns of a select, e.g. `*, bill:bills(id, biller_name)`; embeds follow foreign keys
+// in either direction, giving an object (to-one) or an array (to-many)
+async function selectList(db: TestDatabase, select: string, table: string, alias: string, depth: number): Promise<string> {
+  const items = splitTopLevel(select.replace(/\s+/g, ''));
+  const columns: string[] = [];
+
+  for (const item of items) {
+    if (item === '*') {
+      columns.push(`${alias}.*`);
+      continue;
+    }
+
+    const embed = /^(?:([A-Za-z_][A-Za-z0-9_]*):)?([A-Za-z_][A-Za-z0-9_]*)(?:![A-Za-z0-9_]+)?\((.*)\)$/s.exec(item);
+    if (embed) {
+      const [, name, target, inner] = embed as unknown as [string, string | undefined, string, string];
+      columns.push(`${await embedSql(db, table, alias, identifier(target), inner, depth + 1)} AS "${name ?? target}"`);
+      continue;
+    }
+
+    const [name, column] = item.includes(':') ? item.split(':') : [item, item];
+    columns.push(`${columnSql(column!, alias)} AS "${identifier(name!)}"`);
+  }
+
+  return columns.join(', ');
+}
+
+async function embedSql(
+  db: TestDatabase,
+  table: string,
+  alias: string,
+  target: string,
+  select: string,
+  depth: number
+): Promise<string> {
+  const inner = `e${depth}`;
+  const columns = await selectList(db, select, target, inner, depth);
+
+  const toOne = await foreignKey(db, table, target);
+  if (toOne) {
+    return `(SELECT to_jsonb(j) FROM (SELECT ${columns} FROM public."${target}" ${inner}
+      WHERE ${inner}."${toOne.referenced}" = ${alias}."${toOne.column}") j)`;
+  }
+
+  const toMany = await foreignKey(db, target, table);
+  if (toMany) {
+    return `(SELECT coalesce(jsonb_agg(to_jsonb(j)), '[]'::jsonb) FROM (SELECT ${columns} FROM public."${target}" ${inner}
+      WHERE ${inner}."${toMany.column}" = ${alias}."${toMany.referenced}") j)`;
+  }
+
+  throw new ApiError(400, 'PGRST200', `Could not find a relationship between '${table}' and '${target}'`);
+}
+
+async function foreignKey(
+  db: TestDatabase,
+  from: string,
+  to: string
+): Promise<{ column: string; referenced: string } | undefined> {
+  const { rows } = await db.query<{ column: string; referenced: string }>(
+    `SELECT a.attname AS column, r.attname AS referenced
+     FROM pg_constraint c
+     JOIN pg_attribute a ON a.attrelid = c.conrelid AND a.attnum = c.conkey[1]
+     JOIN pg_attribute r ON r.attrelid = c.confrelid AND r.attnum = c.confkey[1]
+     WHERE c.contype = 'f' AND c.conrelid = to_regclass($1) AND c.confrelid = to_regclass($2)`,
+    [`public.${from}`, `public.${to}`]
+  );
+  return rows[0];
+}
+
+// Parsing helpers
+
+// Split on commas outside parentheses and double quotes
+function splitTopLevel(text: string): string[] {
+  const items: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let current = '';
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]!;
+    if (quoted && char === '\\') {
+      current += char + (text[++i] ?? '');
+      continue;
+    }
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (!quoted && char === '(') {
+      depth++;
+    } else if (!quoted && char === ')') {
+      depth--;
+    } else if (!quoted && depth === 0 && char === ',') {
+      items.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+
+  if (current !== '' || items.length > 0) {
+    items.push(current);
+  }
+  return items;
+}
+
+function stripParens(text: string): string {
+  if (!text.startsWith('(') || !text.endsWith(')')) {
+    throw new ApiError(400, 'PGRST100', `Expected a parenthesised list, got '${text}'`);
+  }
+  return text.slice(1, -1);
+}
+
+function unquote(value: string): string {
+  if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+    return value.slice(1, -1).replace(/\\(.)/g, '$1');
+  }
+  return value;
+}
+
+function identifier(name: string): string {
+  if (!IDENTIFIER.test(name)) {
+    throw new ApiError(400, 'PGRST100', `Invalid identifier '${name}'`);
+  }
+  return name;
+}
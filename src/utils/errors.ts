@@ -36,7 +36,7 @@ export class AppError extends Error {
     this.context = context;
     this.timestamp = new Date();
 
-    Object.setPrototypeOf(this, AppError.prototype);
+    Object.setPrototypeOf(this, new.target.prototype);
     Error.captureStackTrace(this, this.constructor);
   }
 
@@ -141,6 +141,12 @@ export class DatabaseError extends AppError {
   }
 }
 
+export class MigrationError extends AppError {
+  constructor(message: string, context?: Record<string, any>) {
+    super(message, 'MIGRATION_ERROR', 500, false, context);
+  }
+}
+
 // Error utility functions
 export function isOperationalError(error: Error): boolean {
   if (error instanceof AppError) {
@@ -191,4 +197,11 @@ export function flatMapResult<T, U, E>(
 
 export function unwrapOr<T, E>(result: Result<T, E>, defaultValue: T): T {
   return result.ok ? result.value : defaultValue;
-}
\ No newline at end of file
+}
+
+export function unwrap<T, E>(result: Result<T, E>): T {
+  if (result.ok) {
+    return result.value;
+  }
+  throw result.error;
+}
@@ -0,0 +1,31 @@
+// Display formatting helpers shared by pages and templates
+import { format, formatDistanceToNow } from 'date-fns';
+
+// Format a decimal amount (pounds, not pence) in the given currency
+export function formatCurrency(amount: number, currency: string = 'GBP'): string {
+  return new Intl.NumberFormat('en-GB', {
+    style: 'currency',
+    currency,
+  }).format(amount);
+}
+
+// Format a date as e.g. "16 Aug 2025"
+export function formatDate(date: Date | string): string {
+  return format(new Date(date), 'd MMM yyyy');
+}
+
+// Format a date and time as e.g. "16 Aug 2025, 14:05"
+export function formatDateTime(date: Date | string): string {
+  return format(new Date(date), 'd MMM yyyy, HH:mm');
+}
+
+// Format a date relative to now, e.g. "in 3 days" or "2 days ago"
+export function formatRelativeDate(date: Date | string): string {
+  return formatDistanceToNow(new Date(date), { addSuffix: true });
+}
+
+// Turn snake_case enum values into labels, e.g. "credit_card" -> "Credit card"
+export function formatLabel(value: string): string {
+  const text = value.replace(/_/g, ' ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
@@ -52,9 +52,9 @@ class StructuredLogger implements ILogger {
   constructor(defaultContext?: LogContext) {
     this.defaultContext = defaultContext || {};
     
-    // Batch send metrics every 10 seconds
+    // Batch send metrics every 10 seconds, without keeping scripts and tests alive
     if (typeof window === 'undefined') {
-      setInterval(() => this.flushMetrics(), 10000);
+      setInterval(() => this.flushMetrics(), 10000).unref();
     }
   }
 
@@ -0,0 +1,140 @@
+// Notification Channel Abstraction - one adapter per delivery channel (email, SMS, push)
+import { Result } from './errors';
+import { QuietHours } from './quiet-hours';
+
+export type NotificationChannelName = 'email' | 'sms' | 'push';
+
+export type NotificationType =
+  | 'reminder'
+  | 'payment_success'
+  | 'payment_failed'
+  | 'overdue'
+  | 'kyc_update'
+  | 'weekly_digest'
+  | 'monthly_digest';
+
+// Who a notification is for, as far as the channels are concerned
+export interface Recipient {
+  userId: string;
+  email?: string;
+  phone?: string;
+  name?: string;
+  // Replied STOP to our text messages
+  smsOptedOut?: boolean;
+  // Browsers/devices subscribed to web push
+  pushSubscriptions?: PushTarget[];
+  // The user's own quiet hours, honoured by channels that interrupt (SMS, push)
+  quietHours?: QuietHours;
+}
+
+// A web push subscription as the browser reports it (keys are base64url)
+export interface PushTarget {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+// Values a bill notification is rendered from; stored in notifications.metadata
+export interface BillNotificationData {
+  billId: string;
+  billerName: string;
+  amount: number;
+  currency: 'GBP' | 'USD' | 'EUR';
+  // Calendar date, e.g. '2025-01-31'
+  dueDate: string;
+  autoPay: boolean;
+  transactionId?: string;
+  failureReason?: string;
+}
+
+// A bill as listed in a digest
+export interface DigestBill {
+  billId: string;
+  billerName: string;
+  amount: number;
+  currency: 'GBP' | 'USD' | 'EUR';
+  // Calendar date, e.g. '2025-01-31'
+  dueDate: string;
+  autoPay: boolean;
+}
+
+// Values the weekly "what's due" digest is rendered from; stored in notifications.metadata
+export interface WeeklyDigestData {
+  kind: 'weekly';
+  // Calendar dates of the week covered, inclusive
+  periodStart: string;
+  periodEnd: string;
+  upcoming: DigestBill[];
+  // Unpaid bills already past their due date
+  overdue: DigestBill[];
+}
+
+// Values the monthly spending recap is rendered from; stored in notifications.metadata
+export interface MonthlyDigestData {
+  kind: 'monthly';
+  // Calendar dates of the month covered, inclusive
+  periodStart: string;
+  periodEnd: string;
+  currency: string;
+  totalAmount: number;
+  billCount: number;
+  paidAmount: number;
+  paidCount: number;
+  // Largest first
+  byCategory: Array<{ category: string; amount: number; count: number }>;
+  // Total for the month before, for comparison (null when there were no bills)
+  previousTotalAmount: number | null;
+}
+
+export type DigestData = WeeklyDigestData | MonthlyDigestData;
+
+// A notification ready to be handed to a channel
+export interface OutboundNotification {
+  id: string;
+  type: NotificationType;
+  channel: NotificationChannelName;
+  subject?: string;
+  // Plain-text body; channels may render their own richer version from data
+  message: string;
+  billId?: string;
+  // Values the message was built from (biller name, amount, due date, ...)
+  data: Record<string, any>;
+}
+
+export interface DeliveryReceipt {
+  // The provider's ID for the message, used to match delivery status callbacks
+  externalId?: string;
+  // Addresses the provider says no longer exist (e.g. revoked push endpoints), to be forgotten
+  expiredAddresses?: string[];
+}
+
+export class NotificationChannelError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly channel: NotificationChannelName,
+    public readonly retriable: boolean = false,
+    // As DeliveryReceipt.expiredAddresses, when the send failed because of them
+    public readonly expiredAddresses: string[] = []
+  ) {
+    super(message);
+    this.name = 'NotificationChannelError';
+  }
+}
+
+// Main notification channel interface
+export interface NotificationChannel {
+  readonly name: NotificationChannelName;
+
+  // Whether this channel has what it needs to reach the recipient (an email address, a phone number, ...)
+  canDeliver(recipient: Recipient): boolean;
+
+  send(
+    notification: OutboundNotification,
+    recipient: Recipient
+  ): Promise<Result<DeliveryReceipt, NotificationChannelError>>;
+
+  // When sending now is not allowed (e.g. quiet hours), the time to try again instead.
+  // Deferring does not count as a failed attempt.
+  deferUntil?(recipient: Recipient, now: Date): Date | null;
+}
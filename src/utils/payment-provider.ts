@@ -76,6 +76,9 @@ export interface WebhookResult {
   processed: boolean;
   event?: WebhookEvent;
   error?: string;
+  // Normalised state of the payment or refund the event is about, if any
+  transaction?: Transaction;
+  refund?: Refund;
 }
 
 // Payment errors
@@ -244,6 +247,16 @@ export class CircuitBreaker {
   }
 }
 
+// Convert a decimal amount (e.g. pounds) into Money in minor units
+export function toMoney(amount: number, currency: Money['currency']): Money {
+  return { amount: Math.round(amount * 100), currency };
+}
+
+// Convert Money back into a decimal amount
+export function fromMoney(money: Money): number {
+  return money.amount / 100;
+}
+
 // Idempotency key generator
 export function generateIdempotencyKey(params: any): string {
   const crypto = require('crypto');
@@ -0,0 +1,93 @@
+// Quiet hours: a daily window, in a given time zone, when messages should not be sent,
+// plus the time zone helpers they need
+//
+// The window may cross midnight (21:00-08:00). Times are compared in the zone's local
+// time, so the window follows the clocks when they change.
+
+export interface QuietHours {
+  // 'HH:mm', inclusive
+  start: string;
+  // 'HH:mm', exclusive
+  end: string;
+  // IANA zone, e.g. 'Europe/London'
+  timeZone: string;
+}
+
+export const UK_QUIET_HOURS: QuietHours = {
+  start: '21:00',
+  end: '08:00',
+  timeZone: 'Europe/London',
+};
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// Parse 'HH:mm' into minutes after midnight
+export function parseTimeOfDay(value: string): number {
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(value);
+  if (!match) {
+    throw new Error(`Invalid time of day: ${value}`);
+  }
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+// Minutes after local midnight in the given zone
+function localMinutes(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const hour = Number(parts.find(part => part.type === 'hour')?.value ?? 0);
+  const minute = Number(parts.find(part => part.type === 'minute')?.value ?? 0);
+  return hour * 60 + minute;
+}
+
+export function isQuietTime(date: Date, quietHours: QuietHours): boolean {
+  const start = parseTimeOfDay(quietHours.start);
+  const end = parseTimeOfDay(quietHours.end);
+  const now = localMinutes(date, quietHours.timeZone);
+
+  if (start === end) {
+    return false;
+  }
+  return start < end
+    ? now >= start && now < end
+    : now >= start || now < end;
+}
+
+// When the current quiet period ends, or null if it is not quiet time now
+export function quietHoursEnd(date: Date, quietHours: QuietHours): Date | null {
+  if (!isQuietTime(date, quietHours)) {
+    return null;
+  }
+
+  const end = parseTimeOfDay(quietHours.end);
+  const now = localMinutes(date, quietHours.timeZone);
+  const minutesLeft = (end - now + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+
+  const result = new Date(date.getTime() + minutesLeft * 60 * 1000);
+  result.setUTCSeconds(0, 0);
+  return result;
+}
+
+// The calendar date in the given zone, e.g. '2025-01-31'
+export function localCalendarDate(date: Date, timeZone: string): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(date);
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-GB', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,46 @@
+// Occurrence dates: month-end clamping, leap years and the end of a series
+import { formatCalendarDate, nextOccurrence, occurrenceDate, RecurrenceRule } from './recurrence';
+
+const dates = (anchor: string, frequency: RecurrenceRule['frequency'], count: number) =>
+  Array.from({ length: count }, (_, n) => formatCalendarDate(occurrenceDate(anchor, frequency, n + 1)));
+
+describe('occurrenceDate', () => {
+  it('clamps 31 Jan to the end of shorter months and returns to the 31st from the anchor', () => {
+    expect(dates('2025-01-31', 'monthly', 5)).toEqual([
+      '2025-01-31', '2025-02-28', '2025-03-31', '2025-04-30', '2025-05-31',
+    ]);
+    expect(dates('2024-01-31', 'monthly', 3)).toEqual(['2024-01-31', '2024-02-29', '2024-03-31']);
+  });
+
+  it('moves 29 Feb to 28 Feb in common years and back to 29 Feb in leap years', () => {
+    expect(dates('2024-02-29', 'annually', 5)).toEqual([
+      '2024-02-29', '2025-02-28', '2026-02-28', '2027-02-28', '2028-02-29',
+    ]);
+  });
+
+  it('steps quarterly and weekly across year ends', () => {
+    expect(dates('2025-11-30', 'quarterly', 3)).toEqual(['2025-11-30', '2026-02-28', '2026-05-30']);
+    expect(dates('2025-12-25', 'weekly', 3)).toEqual(['2025-12-25', '2026-01-01', '2026-01-08']);
+  });
+});
+
+describe('nextOccurrence', () => {
+  const rule: RecurrenceRule = { frequency: 'monthly', anchor: '2025-01-31' };
+
+  it('gives the number and due date of the occurrence after the current one', () => {
+    expect(nextOccurrence(rule, 1)).toEqual({ occurrenceNumber: 2, dueDate: new Date('2025-02-28') });
+  });
+
+  it('stops after count occurrences', () => {
+    expect(nextOccurrence({ ...rule, count: 3 }, 2)).toEqual({ occurrenceNumber: 3, dueDate: new Date('2025-03-31') });
+    expect(nextOccurrence({ ...rule, count: 3 }, 3)).toBeNull();
+  });
+
+  it('stops at the end date, which is inclusive', () => {
+    expect(nextOccurrence({ ...rule, endDate: '2025-03-31' }, 2)).toEqual({
+      occurrenceNumber: 3,
+      dueDate: new Date('2025-03-31'),
+    });
+    expect(nextOccurrence({ ...rule, endDate: '2025-04-29' }, 3)).toBeNull();
+  });
+});
@@ -0,0 +1,91 @@
+// Date arithmetic for recurring bills
+//
+// Due dates are calendar dates (DATE columns), so everything here works on UTC midnight
+// to stay clear of local time zones and daylight saving changes.
+//
+// Occurrence dates are always calculated from the series anchor rather than from the
+// previous occurrence, and month arithmetic clamps to the end of the month:
+//   31 Jan -> 28/29 Feb -> 31 Mar -> 30 Apr
+//   29 Feb 2024 (annually) -> 28 Feb 2025 -> ... -> 29 Feb 2028
+
+export type RecurringFrequency = 'weekly' | 'monthly' | 'quarterly' | 'annually';
+
+export interface RecurrenceRule {
+  frequency: RecurringFrequency;
+  // Due date of the first occurrence
+  anchor: Date | string;
+  // Last date an occurrence may fall on (inclusive)
+  endDate?: Date | string;
+  // Total number of occurrences in the series, including the first
+  count?: number;
+}
+
+export interface Occurrence {
+  occurrenceNumber: number;
+  dueDate: Date;
+}
+
+const MONTHS: Record<Exclude<RecurringFrequency, 'weekly'>, number> = {
+  monthly: 1,
+  quarterly: 3,
+  annually: 12,
+};
+
+export function isRecurring(frequency: string): frequency is RecurringFrequency {
+  return frequency === 'weekly' || frequency in MONTHS;
+}
+
+// Parse a DATE value ('2025-01-31', an ISO timestamp or a Date) into UTC midnight
+export function toCalendarDate(value: Date | string): Date {
+  const iso = typeof value === 'string' ? value : value.toISOString();
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(iso);
+  if (!match) {
+    throw new Error(`Invalid date: ${iso}`);
+  }
+  return new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+}
+
+// Format as a DATE column value, e.g. '2025-01-31'
+export function formatCalendarDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function addMonthsClamped(date: Date, months: number): Date {
+  const totalMonths = date.getUTCMonth() + months;
+  const year = date.getUTCFullYear() + Math.floor(totalMonths / 12);
+  const month = ((totalMonths % 12) + 12) % 12;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month, Math.min(date.getUTCDate(), lastDay)));
+}
+
+// Due date of the nth occurrence (1 = the anchor itself)
+export function occurrenceDate(
+  anchor: Date | string,
+  frequency: RecurringFrequency,
+  occurrenceNumber: number
+): Date {
+  const start = toCalendarDate(anchor);
+  const steps = occurrenceNumber - 1;
+
+  if (frequency === 'weekly') {
+    return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate() + steps * 7));
+  }
+
+  return addMonthsClamped(start, steps * MONTHS[frequency]);
+}
+
+// The occurrence after currentNumber, or null when the series has ended
+export function nextOccurrence(rule: RecurrenceRule, currentNumber: number): Occurrence | null {
+  const occurrenceNumber = currentNumber + 1;
+
+  if (rule.count !== undefined && occurrenceNumber > rule.count) {
+    return null;
+  }
+
+  const dueDate = occurrenceDate(rule.anchor, rule.frequency, occurrenceNumber);
+  if (rule.endDate !== undefined && dueDate > toCalendarDate(rule.endDate)) {
+    return null;
+  }
+
+  return { occurrenceNumber, dueDate };
+}
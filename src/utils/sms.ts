@@ -0,0 +1,89 @@
+// SMS helpers: message length in segments, UK phone numbers and reply keywords
+
+// GSM 03.38 basic character set; anything outside it (and the extension table) forces UCS-2
+const GSM_BASIC =
+  '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞ\x1bÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?' +
+  '¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà';
+// Characters that take two units (escape + character) in GSM-7
+const GSM_EXTENDED = '^{}\\[~]|€\f';
+
+export interface SmsLength {
+  encoding: 'GSM-7' | 'UCS-2';
+  // Characters as counted by the carrier
+  units: number;
+  segments: number;
+}
+
+export function measureSms(text: string): SmsLength {
+  let units = 0;
+  let gsm = true;
+
+  for (const char of text) {
+    if (GSM_BASIC.includes(char)) {
+      units += 1;
+    } else if (GSM_EXTENDED.includes(char)) {
+      units += 2;
+    } else {
+      gsm = false;
+      break;
+    }
+  }
+
+  if (gsm) {
+    return { encoding: 'GSM-7', units, segments: units <= 160 ? 1 : Math.ceil(units / 153) };
+  }
+
+  // UCS-2 counts UTF-16 code units
+  const ucsUnits = text.length;
+  return { encoding: 'UCS-2', units: ucsUnits, segments: ucsUnits <= 70 ? 1 : Math.ceil(ucsUnits / 67) };
+}
+
+export function fitsSegments(text: string, maxSegments: number): boolean {
+  return measureSms(text).segments <= maxSegments;
+}
+
+// Normalise a UK number to E.164 (+447700900123). Returns null if it is not a valid number.
+export function toE164(phone: string): string | null {
+  const digits = phone.replace(/[\s()-]/g, '');
+
+  if (/^\+[1-9]\d{7,14}$/.test(digits)) {
+    return digits;
+  }
+  if (/^00[1-9]\d{7,14}$/.test(digits)) {
+    return `+${digits.slice(2)}`;
+  }
+  if (/^0\d{9,10}$/.test(digits)) {
+    return `+44${digits.slice(1)}`;
+  }
+  return null;
+}
+
+// The ways a UK number may have been stored, for matching inbound messages to profiles
+export function phoneVariants(e164: string): string[] {
+  const variants = [e164, e164.slice(1)];
+  if (e164.startsWith('+44')) {
+    variants.push(`0${e164.slice(3)}`);
+  }
+  return variants;
+}
+
+export type SmsKeyword = 'stop' | 'start' | 'help';
+
+// Standard opt-out / opt-in keywords, matched on the whole (trimmed) message
+const KEYWORDS: Record<string, SmsKeyword> = {
+  STOP: 'stop',
+  STOPALL: 'stop',
+  UNSUBSCRIBE: 'stop',
+  CANCEL: 'stop',
+  END: 'stop',
+  QUIT: 'stop',
+  START: 'start',
+  UNSTOP: 'start',
+  YES: 'start',
+  HELP: 'help',
+  INFO: 'help',
+};
+
+export function parseSmsKeyword(body: string): SmsKeyword | null {
+  return KEYWORDS[body.trim().toUpperCase()] ?? null;
+}
@@ -0,0 +1,15 @@
+-- Revert 0000_initial_schema: removes every application table and its data
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+DROP FUNCTION IF EXISTS public.handle_new_user();
+DROP FUNCTION IF EXISTS update_overdue_bills();
+
+DROP VIEW IF EXISTS public.dashboard_stats;
+DROP TABLE IF EXISTS public.audit_logs;
+DROP TABLE IF EXISTS public.notifications;
+DROP TABLE IF EXISTS public.transactions;
+DROP TABLE IF EXISTS public.bills;
+DROP TABLE IF EXISTS public.payment_methods;
+DROP TABLE IF EXISTS public.profiles;
+
+DROP FUNCTION IF EXISTS update_updated_at_column();
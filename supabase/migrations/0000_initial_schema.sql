@@ -1,18 +1,10 @@
--- BillPaymentApp Database Schema for Supabase
--- Fixed version - handles existing extensions
+-- BillPaymentApp initial database schema for Supabase
+-- Databases created from the old supabase/schema.sql already match this
+-- migration: mark it applied with `migrate.ts baseline 0000` instead of running it
 
 -- Enable UUID extension (if not already enabled)
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 
--- Drop existing tables if they exist (for clean setup)
-DROP TABLE IF EXISTS public.audit_logs CASCADE;
-DROP TABLE IF EXISTS public.notifications CASCADE;
-DROP TABLE IF EXISTS public.payment_methods CASCADE;
-DROP TABLE IF EXISTS public.transactions CASCADE;
-DROP TABLE IF EXISTS public.bills CASCADE;
-DROP TABLE IF EXISTS public.profiles CASCADE;
-DROP VIEW IF EXISTS public.dashboard_stats CASCADE;
-
 -- Users table (extends Supabase auth.users)
 CREATE TABLE public.profiles (
     id UUID REFERENCES auth.users(id) ON DELETE CASCADE PRIMARY KEY,
@@ -234,32 +226,3 @@ GROUP BY user_id;
 
 -- Grant permissions for the view
 GRANT SELECT ON public.dashboard_stats TO authenticated;
-
--- Sample data for testing (optional - remove in production)
--- Uncomment below to add test data
-
-/*
--- Insert a test user (password: TestPassword123!)
-INSERT INTO auth.users (id, email, encrypted_password, email_confirmed_at, created_at, updated_at)
-VALUES (
-    'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11',
-    'test@example.com',
-    crypt('TestPassword123!', gen_salt('bf')),
-    NOW(),
-    NOW(),
-    NOW()
-);
-
--- Insert test bills
-INSERT INTO public.bills (user_id, biller_name, biller_type, amount, due_date, status)
-VALUES 
-    ('a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11', 'British Gas', 'utility', 75.50, CURRENT_DATE + 7, 'pending'),
-    ('a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11', 'Thames Water', 'water', 45.00, CURRENT_DATE + 14, 'pending'),
-    ('a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11', 'BT Broadband', 'broadband', 35.99, CURRENT_DATE - 2, 'overdue');
-*/
-
--- Success message
-DO $$
-BEGIN
-    RAISE NOTICE 'BillPaymentApp database schema created successfully!';
-END $$;
\ No newline at end of file
@@ -0,0 +1,40 @@
+-- Revert 0001_align_bills_with_model
+-- Data in the added columns is lost; categories map back to 'utility' or 'other'
+
+DROP INDEX IF EXISTS public.idx_bills_auto_pay;
+DROP INDEX IF EXISTS public.idx_bills_user_active;
+
+ALTER TABLE public.bills
+    ADD COLUMN recurring BOOLEAN DEFAULT false,
+    ADD COLUMN recurring_frequency VARCHAR(20) CHECK (recurring_frequency IN ('monthly', 'quarterly', 'annually'));
+
+UPDATE public.bills
+SET recurring = true,
+    recurring_frequency = CASE WHEN frequency = 'weekly' THEN 'monthly' ELSE frequency END
+WHERE frequency <> 'one_time';
+
+ALTER TABLE public.bills
+    DROP COLUMN frequency,
+    DROP COLUMN currency,
+    DROP COLUMN auto_pay,
+    DROP COLUMN payment_method_id,
+    DROP COLUMN reminder_days,
+    DROP COLUMN metadata,
+    DROP COLUMN last_paid_date,
+    DROP COLUMN next_due_date,
+    DROP COLUMN deleted_at;
+
+ALTER TABLE public.bills DROP CONSTRAINT IF EXISTS bills_biller_category_check;
+
+UPDATE public.bills
+SET biller_category = CASE biller_category WHEN 'utilities' THEN 'utility' ELSE 'other' END;
+
+ALTER TABLE public.bills
+    ALTER COLUMN biller_category DROP NOT NULL,
+    ALTER COLUMN biller_category DROP DEFAULT;
+
+ALTER TABLE public.bills RENAME COLUMN biller_category TO biller_type;
+
+ALTER TABLE public.bills
+    ADD CONSTRAINT bills_biller_type_check
+        CHECK (biller_type IN ('utility', 'council', 'telecom', 'water', 'broadband', 'other'));
@@ -0,0 +1,53 @@
+-- Align public.bills with the Bill model in src/database/repositories/bills.ts
+-- Existing rows are converted in place
+
+-- Category: biller_type -> biller_category using the model's categories
+ALTER TABLE public.bills DROP CONSTRAINT IF EXISTS bills_biller_type_check;
+ALTER TABLE public.bills RENAME COLUMN biller_type TO biller_category;
+
+UPDATE public.bills
+SET biller_category = CASE biller_category
+    WHEN 'utility' THEN 'utilities'
+    WHEN 'water' THEN 'utilities'
+    WHEN 'telecom' THEN 'utilities'
+    WHEN 'broadband' THEN 'utilities'
+    ELSE 'other'
+END;
+
+ALTER TABLE public.bills
+    ALTER COLUMN biller_category SET DEFAULT 'other',
+    ALTER COLUMN biller_category SET NOT NULL,
+    ADD CONSTRAINT bills_biller_category_check
+        CHECK (biller_category IN ('utilities', 'insurance', 'subscription', 'loan', 'credit_card', 'other'));
+
+-- Currency (amounts stay DECIMAL in major units)
+ALTER TABLE public.bills
+    ADD COLUMN currency CHAR(3) NOT NULL DEFAULT 'GBP'
+        CHECK (currency IN ('GBP', 'USD', 'EUR'));
+
+-- Frequency replaces recurring + recurring_frequency
+ALTER TABLE public.bills
+    ADD COLUMN frequency VARCHAR(20) NOT NULL DEFAULT 'one_time'
+        CHECK (frequency IN ('one_time', 'weekly', 'monthly', 'quarterly', 'annually'));
+
+UPDATE public.bills
+SET frequency = COALESCE(recurring_frequency, 'monthly')
+WHERE recurring = true;
+
+ALTER TABLE public.bills
+    DROP COLUMN recurring,
+    DROP COLUMN recurring_frequency;
+
+-- Payment settings, reminders and bookkeeping columns
+ALTER TABLE public.bills
+    ADD COLUMN auto_pay BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN payment_method_id UUID REFERENCES public.payment_methods(id) ON DELETE SET NULL,
+    ADD COLUMN reminder_days INTEGER CHECK (reminder_days >= 0),
+    ADD COLUMN metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+    ADD COLUMN last_paid_date DATE,
+    ADD COLUMN next_due_date DATE,
+    ADD COLUMN deleted_at TIMESTAMP;
+
+-- Repository queries filter on deleted_at IS NULL almost everywhere
+CREATE INDEX idx_bills_user_active ON public.bills(user_id, due_date) WHERE deleted_at IS NULL;
+CREATE INDEX idx_bills_auto_pay ON public.bills(due_date) WHERE auto_pay = true AND deleted_at IS NULL;
@@ -0,0 +1,43 @@
+-- Revert 0002_bill_status_enum
+-- processing and cancelled have no equivalent in the old constraint
+
+DROP VIEW IF EXISTS public.dashboard_stats;
+
+ALTER TABLE public.bills
+    ALTER COLUMN status DROP NOT NULL,
+    ALTER COLUMN status DROP DEFAULT,
+    ALTER COLUMN status TYPE VARCHAR(20) USING (
+        CASE status
+            WHEN 'processing' THEN 'scheduled'
+            WHEN 'cancelled' THEN 'failed'
+            ELSE status::text
+        END
+    ),
+    ALTER COLUMN status SET DEFAULT 'pending',
+    ADD CONSTRAINT bills_status_check
+        CHECK (status IN ('pending', 'scheduled', 'paid', 'overdue', 'failed'));
+
+DROP TYPE public.bill_status;
+
+CREATE VIEW public.dashboard_stats AS
+SELECT
+    user_id,
+    COUNT(DISTINCT CASE WHEN status = 'pending' THEN id END) as pending_bills,
+    COUNT(DISTINCT CASE WHEN status = 'overdue' THEN id END) as overdue_bills,
+    COUNT(DISTINCT CASE WHEN status = 'paid' AND DATE_TRUNC('month', updated_at) = DATE_TRUNC('month', CURRENT_DATE) THEN id END) as paid_this_month,
+    SUM(CASE WHEN status = 'pending' THEN amount ELSE 0 END) as total_pending_amount,
+    SUM(CASE WHEN status = 'overdue' THEN amount ELSE 0 END) as total_overdue_amount
+FROM public.bills
+GROUP BY user_id;
+
+GRANT SELECT ON public.dashboard_stats TO authenticated;
+
+CREATE OR REPLACE FUNCTION update_overdue_bills()
+RETURNS void AS $$
+BEGIN
+    UPDATE public.bills
+    SET status = 'overdue'
+    WHERE due_date < CURRENT_DATE
+    AND status = 'pending';
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,51 @@
+-- Replace the bills.status CHECK constraint with an enum covering every status
+-- the application uses, including processing and cancelled
+
+CREATE TYPE public.bill_status AS ENUM (
+    'pending',
+    'scheduled',
+    'processing',
+    'paid',
+    'failed',
+    'cancelled',
+    'overdue'
+);
+
+-- The dashboard view depends on bills.status and must be rebuilt
+DROP VIEW IF EXISTS public.dashboard_stats;
+
+ALTER TABLE public.bills DROP CONSTRAINT IF EXISTS bills_status_check;
+
+ALTER TABLE public.bills
+    ALTER COLUMN status DROP DEFAULT,
+    ALTER COLUMN status TYPE public.bill_status USING COALESCE(status, 'pending')::public.bill_status,
+    ALTER COLUMN status SET DEFAULT 'pending',
+    ALTER COLUMN status SET NOT NULL;
+
+-- Soft-deleted bills no longer count towards the dashboard.
+-- security_invoker makes the view respect the bills RLS policies.
+CREATE VIEW public.dashboard_stats WITH (security_invoker = true) AS
+SELECT
+    user_id,
+    COUNT(DISTINCT CASE WHEN status = 'pending' THEN id END) as pending_bills,
+    COUNT(DISTINCT CASE WHEN status = 'overdue' THEN id END) as overdue_bills,
+    COUNT(DISTINCT CASE WHEN status = 'paid' AND DATE_TRUNC('month', updated_at) = DATE_TRUNC('month', CURRENT_DATE) THEN id END) as paid_this_month,
+    SUM(CASE WHEN status = 'pending' THEN amount ELSE 0 END) as total_pending_amount,
+    SUM(CASE WHEN status = 'overdue' THEN amount ELSE 0 END) as total_overdue_amount
+FROM public.bills
+WHERE deleted_at IS NULL
+GROUP BY user_id;
+
+GRANT SELECT ON public.dashboard_stats TO authenticated;
+
+-- Function to update bill status to overdue (skips soft-deleted bills)
+CREATE OR REPLACE FUNCTION update_overdue_bills()
+RETURNS void AS $$
+BEGIN
+    UPDATE public.bills
+    SET status = 'overdue'
+    WHERE due_date < CURRENT_DATE
+    AND status = 'pending'
+    AND deleted_at IS NULL;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,16 @@
+-- Revert 0003_transactions_payment_tracking
+
+ALTER TABLE public.payment_methods
+    DROP CONSTRAINT IF EXISTS payment_methods_provider_method_unique,
+    DROP COLUMN provider_payment_method_id,
+    DROP COLUMN provider_customer_id;
+
+DROP TRIGGER IF EXISTS update_transactions_updated_at ON public.transactions;
+DROP INDEX IF EXISTS public.idx_transactions_external_id;
+
+ALTER TABLE public.transactions
+    DROP COLUMN updated_at,
+    DROP COLUMN metadata,
+    DROP COLUMN idempotency_key,
+    DROP COLUMN payment_method_id,
+    DROP COLUMN currency;
@@ -0,0 +1,22 @@
+-- Columns needed to charge bills through a payment provider and record the result
+
+-- Transactions: currency, idempotency and bookkeeping
+ALTER TABLE public.transactions
+    ADD COLUMN currency CHAR(3) NOT NULL DEFAULT 'GBP'
+        CHECK (currency IN ('GBP', 'USD', 'EUR')),
+    ADD COLUMN payment_method_id UUID REFERENCES public.payment_methods(id) ON DELETE SET NULL,
+    ADD COLUMN idempotency_key VARCHAR(255) UNIQUE,
+    ADD COLUMN metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+    ADD COLUMN updated_at TIMESTAMP DEFAULT NOW();
+
+CREATE INDEX idx_transactions_external_id ON public.transactions(external_transaction_id);
+
+CREATE TRIGGER update_transactions_updated_at BEFORE UPDATE ON public.transactions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Payment methods: identifiers of the customer and method at the provider
+ALTER TABLE public.payment_methods
+    ADD COLUMN provider_customer_id VARCHAR(255),
+    ADD COLUMN provider_payment_method_id VARCHAR(255),
+    ADD CONSTRAINT payment_methods_provider_method_unique
+        UNIQUE (provider, provider_payment_method_id);
@@ -0,0 +1,4 @@
+-- Revert 0004_payment_method_defaults
+
+DROP FUNCTION IF EXISTS public.set_default_payment_method(UUID);
+DROP INDEX IF EXISTS public.idx_payment_methods_single_default;
@@ -0,0 +1,41 @@
+-- At most one default payment method per user
+
+-- Keep only the most recently updated default for users that have several
+UPDATE public.payment_methods pm
+SET is_default = false
+WHERE pm.is_default
+  AND EXISTS (
+    SELECT 1 FROM public.payment_methods other
+    WHERE other.user_id = pm.user_id
+      AND other.is_default
+      AND (other.updated_at, other.id) > (pm.updated_at, pm.id)
+  );
+
+CREATE UNIQUE INDEX idx_payment_methods_single_default
+    ON public.payment_methods(user_id) WHERE is_default;
+
+-- Make a payment method its owner's default in one transaction.
+-- Runs with the caller's privileges, so RLS still limits users to their own methods.
+CREATE OR REPLACE FUNCTION public.set_default_payment_method(p_method_id UUID)
+RETURNS void AS $$
+DECLARE
+    v_user_id UUID;
+BEGIN
+    SELECT user_id INTO v_user_id FROM public.payment_methods WHERE id = p_method_id;
+
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Payment method % not found', p_method_id USING ERRCODE = 'no_data_found';
+    END IF;
+
+    -- Clear the old default first so the unique index is never violated
+    UPDATE public.payment_methods
+    SET is_default = false
+    WHERE user_id = v_user_id AND is_default AND id <> p_method_id;
+
+    UPDATE public.payment_methods
+    SET is_default = true
+    WHERE id = p_method_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION public.set_default_payment_method(UUID) TO authenticated;
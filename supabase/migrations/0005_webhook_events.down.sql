@@ -0,0 +1,3 @@
+-- Revert 0005_webhook_events
+
+DROP TABLE IF EXISTS public.webhook_events;
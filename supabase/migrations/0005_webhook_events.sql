@@ -0,0 +1,19 @@
+-- Payment provider webhook events, used to process each delivery only once
+
+CREATE TABLE public.webhook_events (
+    id VARCHAR(255) PRIMARY KEY, -- Provider's event ID, e.g. evt_...
+    provider VARCHAR(50) NOT NULL,
+    type VARCHAR(100) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'processed')),
+    processed_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_webhook_events_created_at ON public.webhook_events(created_at);
+
+-- Only the service role (webhook handler) reads or writes this table
+ALTER TABLE public.webhook_events ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_webhook_events_updated_at BEFORE UPDATE ON public.webhook_events
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
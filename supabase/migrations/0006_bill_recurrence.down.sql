@@ -0,0 +1,12 @@
+-- Revert 0006_bill_recurrence
+
+DROP INDEX IF EXISTS public.idx_bills_recurrence_pending;
+DROP INDEX IF EXISTS public.idx_bills_series_occurrence;
+
+ALTER TABLE public.bills
+    DROP COLUMN recurrence_ended_at,
+    DROP COLUMN recurrence_count,
+    DROP COLUMN recurrence_end_date,
+    DROP COLUMN recurrence_anchor,
+    DROP COLUMN occurrence_number,
+    DROP COLUMN series_id;
@@ -0,0 +1,24 @@
+-- Recurring bill series: each occurrence is its own bill row linked to the first one
+
+ALTER TABLE public.bills
+    -- ID of the first bill in the series (NULL on the first bill itself)
+    ADD COLUMN series_id UUID,
+    ADD COLUMN occurrence_number INTEGER NOT NULL DEFAULT 1 CHECK (occurrence_number >= 1),
+    -- Due date of the first occurrence; later dates are calculated from it so that
+    -- month-end dates don't drift (31 Jan -> 29 Feb -> 31 Mar)
+    ADD COLUMN recurrence_anchor DATE,
+    ADD COLUMN recurrence_end_date DATE,
+    ADD COLUMN recurrence_count INTEGER CHECK (recurrence_count >= 1),
+    -- Set once the series has no further occurrences
+    ADD COLUMN recurrence_ended_at TIMESTAMP;
+
+-- One row per occurrence, so generating the same occurrence twice fails
+CREATE UNIQUE INDEX idx_bills_series_occurrence
+    ON public.bills ((COALESCE(series_id, id)), occurrence_number);
+
+-- Recurring bills still waiting for their next occurrence
+CREATE INDEX idx_bills_recurrence_pending ON public.bills(due_date)
+    WHERE frequency <> 'one_time'
+      AND next_due_date IS NULL
+      AND recurrence_ended_at IS NULL
+      AND deleted_at IS NULL;
@@ -0,0 +1,3 @@
+-- Revert 0007_job_runs
+
+DROP TABLE IF EXISTS public.job_runs;
@@ -0,0 +1,23 @@
+-- Scheduled job runs: one row per run, recording its outcome. The partial unique index
+-- doubles as a lock so only one run of a job can be in progress at a time.
+
+CREATE TABLE public.job_runs (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    job VARCHAR(100) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+    report JSONB,
+    error TEXT,
+    started_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    finished_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX idx_job_runs_running ON public.job_runs(job) WHERE status = 'running';
+CREATE INDEX idx_job_runs_job_started_at ON public.job_runs(job, started_at DESC);
+
+-- Only the service role (scheduled jobs) reads or writes this table
+ALTER TABLE public.job_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_job_runs_updated_at BEFORE UPDATE ON public.job_runs
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
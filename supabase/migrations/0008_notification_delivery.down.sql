@@ -0,0 +1,20 @@
+-- Revert 0008_notification_delivery
+
+DROP TRIGGER IF EXISTS update_notifications_updated_at ON public.notifications;
+DROP INDEX IF EXISTS public.idx_notifications_external_id;
+DROP INDEX IF EXISTS public.idx_notifications_deliverable;
+
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_status_check;
+
+UPDATE public.notifications SET status = 'pending' WHERE status IN ('sending', 'retrying');
+
+ALTER TABLE public.notifications
+    DROP COLUMN updated_at,
+    DROP COLUMN metadata,
+    DROP COLUMN external_id,
+    DROP COLUMN last_error,
+    DROP COLUMN next_attempt_at,
+    DROP COLUMN attempts,
+    DROP COLUMN dedupe_key,
+    ALTER COLUMN status DROP NOT NULL,
+    ADD CONSTRAINT notifications_status_check CHECK (status IN ('pending', 'sent', 'failed'));
@@ -0,0 +1,24 @@
+-- Delivery tracking for notifications: dedupe keys, retry bookkeeping and the
+-- provider's message ID. Rows are written by the service role only.
+
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_status_check;
+
+ALTER TABLE public.notifications
+    ALTER COLUMN status SET NOT NULL,
+    ADD CONSTRAINT notifications_status_check
+        CHECK (status IN ('pending', 'sending', 'sent', 'retrying', 'failed')),
+    ADD COLUMN dedupe_key VARCHAR(255) UNIQUE,
+    ADD COLUMN attempts INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN next_attempt_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    ADD COLUMN last_error TEXT,
+    ADD COLUMN external_id VARCHAR(255),
+    ADD COLUMN metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+    ADD COLUMN updated_at TIMESTAMP DEFAULT NOW();
+
+-- Rows waiting to be (re)sent, in the order the dispatcher picks them up
+CREATE INDEX idx_notifications_deliverable ON public.notifications(next_attempt_at)
+    WHERE status IN ('pending', 'sending', 'retrying');
+CREATE INDEX idx_notifications_external_id ON public.notifications(channel, external_id);
+
+CREATE TRIGGER update_notifications_updated_at BEFORE UPDATE ON public.notifications
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
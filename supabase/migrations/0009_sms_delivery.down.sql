@@ -0,0 +1,12 @@
+-- Revert 0009_sms_delivery
+
+ALTER TABLE public.profiles
+    DROP COLUMN sms_opted_out_at;
+
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_status_check;
+
+UPDATE public.notifications SET status = 'sent' WHERE status = 'delivered';
+
+ALTER TABLE public.notifications
+    ADD CONSTRAINT notifications_status_check
+        CHECK (status IN ('pending', 'sending', 'sent', 'retrying', 'failed'));
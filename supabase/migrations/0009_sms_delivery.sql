@@ -0,0 +1,11 @@
+-- SMS delivery: carrier delivery receipts and opt-outs (STOP replies)
+
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_status_check;
+
+ALTER TABLE public.notifications
+    ADD CONSTRAINT notifications_status_check
+        CHECK (status IN ('pending', 'sending', 'sent', 'delivered', 'retrying', 'failed'));
+
+-- Set when the user replies STOP; cleared when they reply START
+ALTER TABLE public.profiles
+    ADD COLUMN sms_opted_out_at TIMESTAMP;
@@ -0,0 +1,3 @@
+-- Revert 0010_push_subscriptions
+
+DROP TABLE IF EXISTS public.push_subscriptions;
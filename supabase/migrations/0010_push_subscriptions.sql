@@ -0,0 +1,32 @@
+-- Web push subscriptions: one row per browser/device that allowed notifications.
+-- The endpoint identifies the device; p256dh and auth are the keys the browser gave us
+-- to encrypt messages for it.
+
+CREATE TABLE public.push_subscriptions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    endpoint TEXT NOT NULL UNIQUE,
+    p256dh TEXT NOT NULL,
+    auth TEXT NOT NULL,
+    -- Shown in settings, e.g. 'Chrome on Android'
+    device_name VARCHAR(100),
+    user_agent TEXT,
+    last_used_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_push_subscriptions_user_id ON public.push_subscriptions(user_id);
+
+-- Users see and remove their own devices. Subscribing goes through the server, which
+-- moves an endpoint to whoever is signed in on that browser now.
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own push subscriptions" ON public.push_subscriptions
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own push subscriptions" ON public.push_subscriptions
+    FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_push_subscriptions_updated_at BEFORE UPDATE ON public.push_subscriptions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
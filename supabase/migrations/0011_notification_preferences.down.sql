@@ -0,0 +1,3 @@
+-- Revert 0011_notification_preferences
+
+DROP TABLE IF EXISTS public.notification_preferences;
@@ -0,0 +1,34 @@
+-- Notification preferences: one row per user (id is the auth user's ID). Users without a
+-- row get the defaults below, which the app mirrors in DEFAULT_NOTIFICATION_PREFERENCES.
+
+CREATE TABLE public.notification_preferences (
+    id UUID REFERENCES auth.users(id) ON DELETE CASCADE PRIMARY KEY,
+    email_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    sms_enabled BOOLEAN NOT NULL DEFAULT FALSE,
+    push_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    -- Used for bills without their own reminder_days
+    reminder_days INTEGER NOT NULL DEFAULT 3 CHECK (reminder_days BETWEEN 0 AND 30),
+    -- 'HH:MM' local time; both NULL means no quiet hours
+    quiet_hours_start VARCHAR(5) CHECK (quiet_hours_start ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+    quiet_hours_end VARCHAR(5) CHECK (quiet_hours_end ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+    timezone VARCHAR(64) NOT NULL DEFAULT 'Europe/London',
+    -- 'digest' holds back reminders and overdue notices for the digest email
+    delivery_mode VARCHAR(10) NOT NULL DEFAULT 'instant' CHECK (delivery_mode IN ('instant', 'digest')),
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    CHECK ((quiet_hours_start IS NULL) = (quiet_hours_end IS NULL))
+);
+
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notification preferences" ON public.notification_preferences
+    FOR SELECT USING (auth.uid() = id);
+
+CREATE POLICY "Users can create own notification preferences" ON public.notification_preferences
+    FOR INSERT WITH CHECK (auth.uid() = id);
+
+CREATE POLICY "Users can update own notification preferences" ON public.notification_preferences
+    FOR UPDATE USING (auth.uid() = id);
+
+CREATE TRIGGER update_notification_preferences_updated_at BEFORE UPDATE ON public.notification_preferences
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
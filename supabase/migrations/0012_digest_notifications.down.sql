@@ -0,0 +1,9 @@
+-- Revert 0012_digest_notifications
+
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+
+DELETE FROM public.notifications WHERE type IN ('weekly_digest', 'monthly_digest');
+
+ALTER TABLE public.notifications
+    ADD CONSTRAINT notifications_type_check
+        CHECK (type IN ('reminder', 'payment_success', 'payment_failed', 'overdue', 'kyc_update'));
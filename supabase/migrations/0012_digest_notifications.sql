@@ -0,0 +1,9 @@
+-- Digest emails: a weekly "what's due" summary and a monthly spending recap, recorded in
+-- notifications like any other message
+
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+
+ALTER TABLE public.notifications
+    ADD CONSTRAINT notifications_type_check
+        CHECK (type IN ('reminder', 'payment_success', 'payment_failed', 'overdue', 'kyc_update',
+                        'weekly_digest', 'monthly_digest'));
@@ -0,0 +1,6 @@
+-- Revert 0013_profile_roles
+
+DROP TRIGGER IF EXISTS prevent_profile_role_change ON public.profiles;
+DROP FUNCTION IF EXISTS public.prevent_profile_role_change();
+
+ALTER TABLE public.profiles DROP COLUMN IF EXISTS role;
@@ -0,0 +1,20 @@
+-- Roles for the REST API: 'user' for everyone, 'admin' and 'support' for staff.
+-- Set with the service role (SQL editor or admin tools); users cannot change their own.
+
+ALTER TABLE public.profiles
+    ADD COLUMN role VARCHAR(20) NOT NULL DEFAULT 'user' CHECK (role IN ('user', 'admin', 'support'));
+
+-- The "Users can update own profile" policy covers every column, so block role changes
+-- made through the API as a signed-in (or anonymous) user
+CREATE OR REPLACE FUNCTION public.prevent_profile_role_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.role IS DISTINCT FROM OLD.role AND current_user IN ('authenticated', 'anon') THEN
+        RAISE EXCEPTION 'role can only be changed by staff' USING ERRCODE = '42501';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER prevent_profile_role_change BEFORE UPDATE ON public.profiles
+    FOR EACH ROW EXECUTE FUNCTION public.prevent_profile_role_change();
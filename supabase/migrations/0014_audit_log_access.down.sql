@@ -0,0 +1,13 @@
+-- Revert 0014_audit_log_access
+
+DROP POLICY IF EXISTS "Admins can view all audit logs" ON public.audit_logs;
+DROP POLICY IF EXISTS "Users can view own audit logs" ON public.audit_logs;
+
+DROP INDEX IF EXISTS public.idx_audit_logs_created_at;
+DROP INDEX IF EXISTS public.idx_audit_logs_actor_id;
+DROP INDEX IF EXISTS public.idx_audit_logs_user_created;
+
+-- Support console entries name the staff member in user_id again
+UPDATE public.audit_logs SET user_id = actor_id WHERE action LIKE 'admin.%';
+
+ALTER TABLE public.audit_logs DROP COLUMN IF EXISTS actor_id;
@@ -0,0 +1,33 @@
+-- Audit trail: who acted (actor_id) separately from whose account an entry is about
+-- (user_id), and read-only access for users (their own account activity) and admins
+-- (everything). Rows are only written with the service role.
+
+ALTER TABLE public.audit_logs
+    ADD COLUMN actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Support console entries so far named the staff member in user_id. Move them to
+-- actor_id and record actions against the account they were taken on; lookups are
+-- about no one's account.
+UPDATE public.audit_logs SET actor_id = user_id, user_id = NULL WHERE action LIKE 'admin.%';
+
+UPDATE public.audit_logs a
+SET user_id = t.user_id
+FROM public.transactions t
+WHERE a.action IN ('admin.payment_retried', 'admin.payment_refunded') AND t.id = a.entity_id;
+
+UPDATE public.audit_logs a
+SET user_id = n.user_id
+FROM public.notifications n
+WHERE a.action = 'admin.notification_resent' AND n.id = a.entity_id;
+
+CREATE INDEX idx_audit_logs_user_created ON public.audit_logs(user_id, created_at DESC);
+CREATE INDEX idx_audit_logs_actor_id ON public.audit_logs(actor_id);
+CREATE INDEX idx_audit_logs_created_at ON public.audit_logs(created_at DESC);
+
+CREATE POLICY "Users can view own audit logs" ON public.audit_logs
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all audit logs" ON public.audit_logs
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+    );
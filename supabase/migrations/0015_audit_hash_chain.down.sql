@@ -0,0 +1,30 @@
+-- Revert 0015_audit_hash_chain
+
+DROP TABLE IF EXISTS public.audit_checkpoints;
+
+DROP TRIGGER IF EXISTS prevent_audit_log_truncate ON public.audit_logs;
+DROP TRIGGER IF EXISTS prevent_audit_log_change ON public.audit_logs;
+DROP FUNCTION IF EXISTS public.prevent_audit_log_change();
+
+DROP TRIGGER IF EXISTS chain_audit_log ON public.audit_logs;
+DROP FUNCTION IF EXISTS public.chain_audit_log();
+
+DROP FUNCTION IF EXISTS public.audit_log_hash(TEXT, TEXT);
+DROP FUNCTION IF EXISTS public.audit_log_content(public.audit_logs);
+DROP TABLE IF EXISTS public.audit_chain_head;
+
+ALTER TABLE public.audit_logs DROP CONSTRAINT IF EXISTS audit_logs_seq_key;
+ALTER TABLE public.audit_logs
+    DROP COLUMN IF EXISTS row_hash,
+    DROP COLUMN IF EXISTS prev_hash,
+    DROP COLUMN IF EXISTS seq;
+
+-- Users that have been deleted since leave ids behind; clear them so the keys can return
+UPDATE public.audit_logs SET user_id = NULL
+WHERE user_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM auth.users WHERE id = user_id);
+UPDATE public.audit_logs SET actor_id = NULL
+WHERE actor_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM auth.users WHERE id = actor_id);
+
+ALTER TABLE public.audit_logs
+    ADD CONSTRAINT audit_logs_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE SET NULL,
+    ADD CONSTRAINT audit_logs_actor_id_fkey FOREIGN KEY (actor_id) REFERENCES auth.users(id) ON DELETE SET NULL;
@@ -0,0 +1,125 @@
+-- Tamper-evident audit trail. Every row gets a gapless sequence number, the previous
+-- row's hash and a hash of its own contents chained onto it, so editing or deleting a
+-- past row breaks the chain from that point on. Signed checkpoints (audit_checkpoints,
+-- also exported off-site) catch a chain that has been rewritten wholesale.
+
+-- Deleting a user would otherwise rewrite their audit rows (ON DELETE SET NULL)
+ALTER TABLE public.audit_logs DROP CONSTRAINT IF EXISTS audit_logs_user_id_fkey;
+ALTER TABLE public.audit_logs DROP CONSTRAINT IF EXISTS audit_logs_actor_id_fkey;
+
+ALTER TABLE public.audit_logs
+    ADD COLUMN seq BIGINT,
+    ADD COLUMN prev_hash CHAR(64),
+    ADD COLUMN row_hash CHAR(64);
+
+-- The last link, so inserts chain on in order and a truncated chain shows
+CREATE TABLE public.audit_chain_head (
+    id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id),
+    last_seq BIGINT NOT NULL DEFAULT 0,
+    last_hash CHAR(64)
+);
+
+INSERT INTO public.audit_chain_head DEFAULT VALUES;
+
+ALTER TABLE public.audit_chain_head ENABLE ROW LEVEL SECURITY;
+
+-- What a row's hash covers: every column but the hashes. Also selected by the verifier,
+-- which hashes it again itself.
+CREATE OR REPLACE FUNCTION public.audit_log_content(entry public.audit_logs)
+RETURNS TEXT AS $$
+    SELECT jsonb_build_array(
+        entry.seq, entry.id, entry.created_at, entry.user_id, entry.actor_id, entry.action,
+        entry.entity_type, entry.entity_id, entry.old_values, entry.new_values,
+        entry.ip_address, entry.user_agent
+    )::text;
+$$ LANGUAGE sql STABLE;
+
+-- Hex SHA-256 of the previous row's hash followed by the row's content
+CREATE OR REPLACE FUNCTION public.audit_log_hash(prev_hash TEXT, content TEXT)
+RETURNS CHAR(64) AS $$
+    SELECT encode(sha256(convert_to(COALESCE(prev_hash, '') || content, 'UTF8')), 'hex');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Chain the existing rows, oldest first
+DO $$
+DECLARE
+    entry public.audit_logs;
+    previous CHAR(64);
+    position BIGINT := 0;
+BEGIN
+    FOR entry IN SELECT * FROM public.audit_logs ORDER BY created_at, id LOOP
+        position := position + 1;
+        entry.seq := position;
+        entry.prev_hash := previous;
+        entry.row_hash := public.audit_log_hash(previous, public.audit_log_content(entry));
+
+        UPDATE public.audit_logs
+        SET seq = entry.seq, prev_hash = entry.prev_hash, row_hash = entry.row_hash
+        WHERE id = entry.id;
+
+        previous := entry.row_hash;
+    END LOOP;
+
+    UPDATE public.audit_chain_head SET last_seq = position, last_hash = previous;
+END $$;
+
+ALTER TABLE public.audit_logs
+    ALTER COLUMN seq SET NOT NULL,
+    ALTER COLUMN row_hash SET NOT NULL,
+    ADD CONSTRAINT audit_logs_seq_key UNIQUE (seq);
+
+-- Link each new row onto the chain. Locking the head makes concurrent inserts take
+-- turns, and a rolled back insert leaves no gap.
+CREATE OR REPLACE FUNCTION public.chain_audit_log()
+RETURNS TRIGGER AS $$
+DECLARE
+    head public.audit_chain_head;
+BEGIN
+    SELECT * INTO head FROM public.audit_chain_head FOR UPDATE;
+
+    NEW.created_at := COALESCE(NEW.created_at, NOW());
+    NEW.seq := head.last_seq + 1;
+    NEW.prev_hash := head.last_hash;
+    NEW.row_hash := public.audit_log_hash(NEW.prev_hash, public.audit_log_content(NEW));
+
+    UPDATE public.audit_chain_head SET last_seq = NEW.seq, last_hash = NEW.row_hash;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER chain_audit_log BEFORE INSERT ON public.audit_logs
+    FOR EACH ROW EXECUTE FUNCTION public.chain_audit_log();
+
+-- Rows are never changed once written
+CREATE OR REPLACE FUNCTION public.prevent_audit_log_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'audit_logs is append-only' USING ERRCODE = '42501';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER prevent_audit_log_change BEFORE UPDATE OR DELETE ON public.audit_logs
+    FOR EACH ROW EXECUTE FUNCTION public.prevent_audit_log_change();
+
+CREATE TRIGGER prevent_audit_log_truncate BEFORE TRUNCATE ON public.audit_logs
+    FOR EACH STATEMENT EXECUTE FUNCTION public.prevent_audit_log_change();
+
+-- Signed checkpoints of the chain, written by the audit checkpoint job
+CREATE TABLE public.audit_checkpoints (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    seq BIGINT NOT NULL,
+    row_hash CHAR(64) NOT NULL,
+    -- Fingerprint of the Ed25519 key that signed it
+    key_id VARCHAR(64) NOT NULL,
+    signature TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_audit_checkpoints_seq ON public.audit_checkpoints(seq DESC);
+
+ALTER TABLE public.audit_checkpoints ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view audit checkpoints" ON public.audit_checkpoints
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+    );
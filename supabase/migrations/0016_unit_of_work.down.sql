@@ -0,0 +1,3 @@
+-- Revert 0016_unit_of_work
+
+DROP FUNCTION IF EXISTS public.run_unit_of_work(JSONB);
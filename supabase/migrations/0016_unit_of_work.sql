@@ -0,0 +1,93 @@
+-- Several repository writes in one transaction (see UnitOfWork in src/database/index.ts)
+
+-- Run a list of writes, in order, as one transaction. Each operation is
+--   {"op": "insert" | "update" | "delete", "table": "<public table>", "id": "<row id>", "values": {...}}
+-- with values for inserts and updates only. Returns [{"before": row, "after": row}, ...], one
+-- entry per operation. If any write fails, or an update or delete finds no row, the function
+-- raises and none of the writes are kept; the error's DETAIL is the failed operation's index.
+-- Runs with the caller's privileges, so RLS still limits users to their own rows.
+CREATE OR REPLACE FUNCTION public.run_unit_of_work(p_operations JSONB)
+RETURNS JSONB AS $$
+DECLARE
+    operation JSONB;
+    position INTEGER := 0;
+    target REGCLASS;
+    id_type TEXT;
+    columns TEXT;
+    v_before JSONB;
+    v_after JSONB;
+    results JSONB := '[]'::jsonb;
+BEGIN
+    IF jsonb_typeof(p_operations) IS DISTINCT FROM 'array' THEN
+        RAISE EXCEPTION 'Operations must be a JSON array' USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    FOR operation IN SELECT value FROM jsonb_array_elements(p_operations) LOOP
+        target := to_regclass(format('public.%I', operation->>'table'));
+        SELECT format_type(atttypid, atttypmod) INTO id_type
+        FROM pg_attribute
+        WHERE attrelid = target AND attname = 'id' AND NOT attisdropped;
+
+        IF target IS NULL OR id_type IS NULL OR operation->>'id' IS NULL THEN
+            RAISE EXCEPTION 'Operation % must name a table with an id column and a row id', position
+                USING ERRCODE = 'invalid_parameter_value', DETAIL = position::text;
+        END IF;
+
+        IF operation->>'op' IN ('insert', 'update') THEN
+            IF jsonb_typeof(operation->'values') IS DISTINCT FROM 'object' OR operation->'values' = '{}'::jsonb THEN
+                RAISE EXCEPTION 'Operation % has no values to write', position
+                    USING ERRCODE = 'invalid_parameter_value', DETAIL = position::text;
+            END IF;
+
+            SELECT string_agg(format('%I', key), ', ') INTO columns
+            FROM jsonb_object_keys(operation->'values') AS key;
+        END IF;
+
+        v_before := NULL;
+        v_after := NULL;
+
+        CASE operation->>'op'
+            WHEN 'insert' THEN
+                EXECUTE format(
+                    'INSERT INTO %s AS t (%s) SELECT %s FROM jsonb_populate_record(NULL::%s, $1) RETURNING to_jsonb(t.*)',
+                    target, columns, columns, target
+                ) INTO v_after USING operation->'values';
+
+            WHEN 'update' THEN
+                EXECUTE format('SELECT to_jsonb(t.*) FROM %s t WHERE t.id = $1::%s FOR UPDATE', target, id_type)
+                    INTO v_before USING operation->>'id';
+                EXECUTE format(
+                    'UPDATE %s AS t SET (%s) = (SELECT %s FROM jsonb_populate_record(NULL::%s, $1)) '
+                    'WHERE t.id = $2::%s RETURNING to_jsonb(t.*)',
+                    target, columns, columns, target, id_type
+                ) INTO v_after USING operation->'values', operation->>'id';
+
+                IF v_after IS NULL THEN
+                    RAISE EXCEPTION '% % not found', target, operation->>'id'
+                        USING ERRCODE = 'no_data_found', DETAIL = position::text;
+                END IF;
+
+            WHEN 'delete' THEN
+                EXECUTE format('DELETE FROM %s AS t WHERE t.id = $1::%s RETURNING to_jsonb(t.*)', target, id_type)
+                    INTO v_before USING operation->>'id';
+
+                IF v_before IS NULL THEN
+                    RAISE EXCEPTION '% % not found', target, operation->>'id'
+                        USING ERRCODE = 'no_data_found', DETAIL = position::text;
+                END IF;
+
+            ELSE
+                RAISE EXCEPTION 'Operation % has unknown op %', position, operation->>'op'
+                    USING ERRCODE = 'invalid_parameter_value', DETAIL = position::text;
+        END CASE;
+
+        results := results || jsonb_build_array(jsonb_build_object('before', v_before, 'after', v_after));
+        position := position + 1;
+    END LOOP;
+
+    RETURN results;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+REVOKE EXECUTE ON FUNCTION public.run_unit_of_work(JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.run_unit_of_work(JSONB) TO authenticated, service_role;
@@ -0,0 +1,6 @@
+-- Revert 0017_keyset_pagination_indexes
+
+DROP INDEX IF EXISTS public.idx_transactions_user_created;
+
+CREATE INDEX idx_bills_user_active ON public.bills(user_id, due_date) WHERE deleted_at IS NULL;
+DROP INDEX IF EXISTS public.idx_bills_user_active_due;
@@ -0,0 +1,8 @@
+-- Indexes for the bill and payment lists, which page by (due_date, id) and (created_at, id)
+-- (see findByCursor in src/database/index.ts)
+
+-- Replaces idx_bills_user_active, adding id so pages of bills due the same day stay ordered
+CREATE INDEX idx_bills_user_active_due ON public.bills(user_id, due_date, id) WHERE deleted_at IS NULL;
+DROP INDEX IF EXISTS public.idx_bills_user_active;
+
+CREATE INDEX idx_transactions_user_created ON public.transactions(user_id, created_at DESC, id DESC);
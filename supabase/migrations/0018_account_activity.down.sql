@@ -0,0 +1,6 @@
+-- Revert 0018_account_activity
+
+DROP VIEW IF EXISTS public.account_activity;
+
+CREATE POLICY "Users can view own audit logs" ON public.audit_logs
+    FOR SELECT USING (auth.uid() = user_id);
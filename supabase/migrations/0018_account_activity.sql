@@ -0,0 +1,28 @@
+-- Account activity as the account holder sees it. Entries about an account include what
+-- support staff did to it, and the IP address and user agent on those are the staff
+-- member's, so they are only shown where the holder acted themselves.
+--
+-- Users now read their activity here; audit_logs itself is left to admins. The view runs
+-- with its owner's rights, so it limits rows to the signed-in user itself. The server
+-- (service role, no signed-in user) filters by user_id in its own query.
+
+DROP POLICY IF EXISTS "Users can view own audit logs" ON public.audit_logs;
+
+CREATE VIEW public.account_activity AS
+SELECT
+    id,
+    user_id,
+    actor_id,
+    action,
+    entity_type,
+    entity_id,
+    old_values,
+    new_values,
+    CASE WHEN actor_id = user_id THEN ip_address END AS ip_address,
+    CASE WHEN actor_id = user_id THEN user_agent END AS user_agent,
+    created_at
+FROM public.audit_logs
+WHERE user_id = auth.uid() OR auth.uid() IS NULL;
+
+REVOKE ALL ON public.account_activity FROM PUBLIC, anon;
+GRANT SELECT ON public.account_activity TO authenticated, service_role;
@@ -0,0 +1,65 @@
+// Custom service worker code. next-pwa bundles this into the generated sw.js
+// (production builds only; the service worker is disabled in development).
+
+// Show a push message sent by src/infrastructure/notifications/push.ts
+self.addEventListener('push', event => {
+  let message = {};
+  try {
+    message = event.data ? event.data.json() : {};
+  } catch {
+    message = { body: event.data ? event.data.text() : '' };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(message.title || 'BillPay', {
+      body: message.body || '',
+      tag: message.tag,
+      icon: '/icons/icon-192x192.png',
+      badge: '/icons/icon-72x72.png',
+      data: { url: message.url || '/dashboard', notificationId: message.notificationId },
+    })
+  );
+});
+
+// Open the bill the notification is about, reusing an open window if there is one
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || '/dashboard', self.location.origin).href;
+
+  event.waitUntil(
+    (async () => {
+      const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+      const existing = windows.find(client => new URL(client.url).origin === self.location.origin);
+      if (existing) {
+        await existing.focus();
+        if ('navigate' in existing) {
+          return existing.navigate(url);
+        }
+      }
+      return self.clients.openWindow(url);
+    })()
+  );
+});
+
+// The browser replaced the subscription (keys rotated or it expired): subscribe again with
+// the same server key and save the new one. The old endpoint is dropped by the server the
+// next time a push to it is rejected.
+self.addEventListener('pushsubscriptionchange', event => {
+  const applicationServerKey = event.oldSubscription?.options?.applicationServerKey;
+  if (!applicationServerKey) {
+    return;
+  }
+
+  event.waitUntil(
+    (async () => {
+      const subscription = event.newSubscription
+        || await self.registration.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey });
+      await fetch('/api/push/subscriptions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'same-origin',
+        body: JSON.stringify(subscription.toJSON()),
+      });
+    })()
+  );
+});